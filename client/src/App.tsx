@@ -7,15 +7,20 @@ import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password";
+import AcceptInvitePage from "@/pages/accept-invite";
 import Dashboard from "@/pages/dashboard";
 import OKRDashboard from "@/pages/okr-dashboard";
 import Organizations from "@/pages/organizations";
 import Contracts from "@/pages/contracts";
 import Compliance from "@/pages/compliance";
+import Reviews from "@/pages/reviews";
 import BillableEvents from "@/pages/billable-events";
+import Invoices from "@/pages/invoices";
 import EvidenceLocker from "@/pages/evidence-locker";
 import ExportImport from "@/pages/export-import";
 import AdminPage from "@/pages/admin";
+import AuditLogPage from "@/pages/audit-log";
 import HelpPage from "@/pages/help";
 
 function Router() {
@@ -26,12 +31,18 @@ function Router() {
       <ProtectedRoute path="/organizations" component={Organizations} />
       <ProtectedRoute path="/contracts" component={Contracts} />
       <ProtectedRoute path="/compliance" component={Compliance} />
+      <ProtectedRoute path="/my-items" component={Compliance} />
+      <ProtectedRoute path="/reviews" component={Reviews} />
       <ProtectedRoute path="/billable-events" component={BillableEvents} />
+      <ProtectedRoute path="/invoices" component={Invoices} />
       <ProtectedRoute path="/evidence-locker" component={EvidenceLocker} />
       <ProtectedRoute path="/export-import" component={ExportImport} />
+      <ProtectedRoute path="/audit-log" component={AuditLogPage} />
       <ProtectedRoute path="/help" component={HelpPage} />
       <ProtectedRoute path="/admin" component={AdminPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/accept-invite" component={AcceptInvitePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,77 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { LogOut } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import SessionList, { type SessionSummary } from "./session-list";
+
+// Where the user is signed in, with a way to sign out a lost or shared device
+export default function ActiveSessions({ enabled }: { enabled: boolean }) {
+  const { toast } = useToast();
+
+  const { data: sessions } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/user/sessions"],
+    enabled,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/user/sessions/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Session Ended", description: "That device has been signed out." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign Out Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async (): Promise<{ count: number }> => {
+      const response = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return response.json();
+    },
+    onSuccess: ({ count }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Signed Out Elsewhere", description: `${count} other session${count === 1 ? "" : "s"} ended.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign Out Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Browsers where you are signed in. Sessions last up to 7 days. If you do not recognize one, sign it out and
+        change your password.
+      </p>
+
+      <SessionList
+        sessions={sessions ?? []}
+        onRevoke={(session) => revokeMutation.mutate(session.id)}
+        revoking={revokeMutation.isPending}
+        emptyMessage="No sessions found."
+      />
+
+      {otherSessions > 0 && (
+        <>
+          <Separator />
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {revokeOthersMutation.isPending ? "Signing Out..." : "Sign Out All Other Sessions"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { ApiToken, Organization } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TokenAccess = ApiToken["access"];
+type TokenSummary = Omit<ApiToken, "tokenHash">;
+
+const ALL_ORGANIZATIONS = "all";
+const EXPIRY_OPTIONS = [30, 90, 180, 365];
+
+// Personal API tokens for scripts: created here, sent as "Authorization: Bearer <token>"
+export default function ApiTokens({ enabled }: { enabled: boolean }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState<TokenAccess>("read");
+  const [organizationId, setOrganizationId] = useState(ALL_ORGANIZATIONS);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens } = useQuery<TokenSummary[]>({
+    queryKey: ["/api/api-tokens"],
+    enabled,
+  });
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-tokens", {
+        name: name.trim(),
+        access,
+        organizationId: organizationId === ALL_ORGANIZATIONS ? null : organizationId,
+        expiresInDays: Number(expiresInDays),
+      });
+      return response.json();
+    },
+    onSuccess: (token: TokenSummary & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setNewToken(token.token);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Token Not Created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/api-tokens/${id}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({ title: "Token Revoked", description: "Scripts using this token can no longer connect." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: "Copied", description: "API token copied to the clipboard." });
+  };
+
+  const organizationName = (id: string | null) =>
+    id ? organizations?.find(o => o.id === id)?.name || "One organization" : "All my organizations";
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Tokens let scripts and reporting tools call the BizGov API as you. Send the token in an
+        {" "}<code className="text-xs">Authorization: Bearer</code> header. A token can never do more than your own account.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="api-token-name">Name</Label>
+          <Input
+            id="api-token-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Time tracking sync"
+            maxLength={100}
+            data-testid="input-api-token-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Access</Label>
+          <Select value={access} onValueChange={(value) => setAccess(value as TokenAccess)}>
+            <SelectTrigger data-testid="select-api-token-access">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="read">Read only</SelectItem>
+              <SelectItem value="write">Read and write</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Expires</Label>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger data-testid="select-api-token-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>In {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label>Organizations</Label>
+          <Select value={organizationId} onValueChange={setOrganizationId}>
+            <SelectTrigger data-testid="select-api-token-organization">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ORGANIZATIONS}>All my organizations</SelectItem>
+              {organizations?.map((org) => (
+                <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button
+        onClick={() => createMutation.mutate()}
+        disabled={!name.trim() || createMutation.isPending}
+        data-testid="button-create-api-token"
+      >
+        <KeyRound className="w-4 h-4 mr-2" />
+        {createMutation.isPending ? "Creating..." : "Create Token"}
+      </Button>
+
+      {newToken && (
+        <Alert data-testid="alert-new-api-token">
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">
+              Copy this token now. It is not shown again; if you lose it, revoke it and create a new one.
+            </p>
+            <div className="flex gap-2">
+              <Input value={newToken} readOnly className="font-mono text-xs" data-testid="input-new-api-token" />
+              <Button variant="outline" size="icon" onClick={copyToken} title="Copy token" data-testid="button-copy-api-token">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Separator />
+
+      <div>
+        <div className="text-sm font-semibold mb-2">Your Tokens</div>
+        {!tokens || tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no API tokens.</p>
+        ) : (
+          <ul className="space-y-2">
+            {tokens.map((token) => {
+              const expired = new Date(token.expiresAt) <= new Date();
+              return (
+                <li key={token.id} className="flex items-center justify-between gap-4 border rounded-lg p-3" data-testid={`row-api-token-${token.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <Badge variant="secondary">{token.access === "write" ? "Read and write" : "Read only"}</Badge>
+                      {expired && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      <code>{token.tokenPrefix}…</code> · {organizationName(token.organizationId)}
+                      {" · "}
+                      {expired ? "Expired" : "Expires"} {format(new Date(token.expiresAt), "MMM dd, yyyy")}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${format(new Date(token.lastUsedAt), "MMM dd, yyyy HH:mm")}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                        : "Never used"}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-api-token-${token.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
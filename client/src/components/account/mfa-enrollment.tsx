@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import TotpCodeInput from "./totp-code-input";
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface MfaEnrollmentProps {
+  setupUrl: string; // Endpoint that issues a new secret
+  onVerify: (code: string) => void;
+  isVerifying: boolean;
+  error?: string | null;
+}
+
+// Shows a fresh authenticator secret as a QR code and asks for the first code to confirm it
+export default function MfaEnrollment({ setupUrl, onVerify, isVerifying, error }: MfaEnrollmentProps) {
+  const [code, setCode] = useState("");
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<Enrollment> => {
+      const response = await apiRequest("POST", setupUrl);
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    setupMutation.mutate();
+  }, [setupUrl]);
+
+  const enrollment = setupMutation.data;
+
+  if (setupMutation.isError) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{setupMutation.error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="list-decimal pl-5 text-sm space-y-1">
+        <li>Open an authenticator app such as Microsoft Authenticator, Google Authenticator or 1Password.</li>
+        <li>Scan the QR code, or enter the setup key by hand.</li>
+        <li>Enter the six-digit code the app shows.</li>
+      </ol>
+      <div className="flex flex-col items-center gap-2">
+        <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48 rounded border" data-testid="img-mfa-qr" />
+        <code className="text-xs break-all text-center" data-testid="text-mfa-secret">
+          {enrollment.secret.match(/.{1,4}/g)?.join(" ")}
+        </code>
+      </div>
+      <div className="flex justify-center">
+        <TotpCodeInput value={code} onChange={setCode} onComplete={onVerify} disabled={isVerifying} />
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Button
+        type="button"
+        className="w-full"
+        onClick={() => onVerify(code)}
+        disabled={code.length !== 6 || isVerifying}
+        data-testid="button-verify-mfa-setup"
+      >
+        {isVerifying ? "Verifying..." : "Verify and Turn On"}
+      </Button>
+    </div>
+  );
+}
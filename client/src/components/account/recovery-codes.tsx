@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Copy, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export default function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`BizGov recovery codes\n\n${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "bizgov-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="recovery-codes">
+      <Alert>
+        <AlertDescription className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+          authenticator. They are not shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+          <Copy className="mr-1 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes} data-testid="button-download-recovery-codes">
+          <Download className="mr-1 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ShieldCheck } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import MfaEnrollment from "./mfa-enrollment";
+import RecoveryCodes from "./recovery-codes";
+import ApiTokens from "./api-tokens";
+import ActiveSessions from "./active-sessions";
+
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+type MfaAction = "setup" | "recovery-codes" | "disable" | null;
+
+interface SecurityDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function SecurityDialog({ open, onClose }: SecurityDialogProps) {
+  const { toast } = useToast();
+  const [action, setAction] = useState<MfaAction>(null);
+  const [code, setCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: mfa, isLoading } = useQuery<MfaStatus>({
+    queryKey: ["/api/user/mfa"],
+    enabled: open,
+  });
+
+  const resetAction = () => {
+    setAction(null);
+    setCode("");
+  };
+
+  const onMfaChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/mfa"] });
+    resetAction();
+  };
+
+  const enableMutation = useMutation({
+    mutationFn: async (totp: string): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/user/mfa/enable", { code: totp });
+      return response.json();
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      setNewRecoveryCodes(recoveryCodes);
+      onMfaChanged();
+      toast({ title: "Two-Step Verification On", description: "You will be asked for a code at each password sign-in." });
+    },
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/user/mfa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      setNewRecoveryCodes(recoveryCodes);
+      onMfaChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Codes Not Generated", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      // Accept either an authenticator code or a recovery code
+      const input = /^\d{6}$/.test(code.trim()) ? { code } : { recoveryCode: code };
+      await apiRequest("POST", "/api/user/mfa/disable", input);
+    },
+    onSuccess: () => {
+      onMfaChanged();
+      toast({ title: "Two-Step Verification Off" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Not Turned Off", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    resetAction();
+    setNewRecoveryCodes(null);
+    enableMutation.reset();
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-account-security">
+        <DialogHeader>
+          <DialogTitle>Account Security</DialogTitle>
+          <DialogDescription>Two-step verification for your sign-in and API tokens for your scripts.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="mfa">
+          <TabsList>
+            <TabsTrigger value="mfa" data-testid="tab-security-mfa">Two-Step Verification</TabsTrigger>
+            <TabsTrigger value="sessions" data-testid="tab-security-sessions">Sessions</TabsTrigger>
+            <TabsTrigger value="api-tokens" data-testid="tab-security-api-tokens">API Tokens</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mfa" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldCheck className="h-4 w-4" />
+                Two-Step Verification
+              </div>
+              {mfa && (
+                <Badge variant={mfa.enabled ? "default" : "secondary"} data-testid="badge-mfa-status">
+                  {mfa.enabled ? "On" : "Off"}
+                </Badge>
+              )}
+            </div>
+
+            {isLoading || !mfa ? (
+              <Skeleton className="h-16 w-full" />
+            ) : newRecoveryCodes ? (
+              <div className="space-y-3">
+                <RecoveryCodes codes={newRecoveryCodes} />
+                <Button variant="outline" onClick={() => setNewRecoveryCodes(null)}>Done</Button>
+              </div>
+            ) : action === "setup" ? (
+              <div className="space-y-3">
+                <MfaEnrollment
+                  setupUrl="/api/user/mfa/setup"
+                  onVerify={(totp) => enableMutation.mutate(totp)}
+                  isVerifying={enableMutation.isPending}
+                  error={enableMutation.error?.message}
+                />
+                <Button variant="ghost" className="w-full" onClick={resetAction}>Cancel</Button>
+              </div>
+            ) : action ? (
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (action === "disable") disableMutation.mutate();
+                  else recoveryCodesMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="security-mfa-code">
+                    {action === "disable" ? "Authenticator or recovery code" : "Authenticator code"}
+                  </Label>
+                  <Input
+                    id="security-mfa-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    data-testid="input-security-mfa-code"
+                  />
+                  {action === "recovery-codes" && (
+                    <p className="text-xs text-muted-foreground">Your current recovery codes stop working once new ones are generated.</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    variant={action === "disable" ? "destructive" : "default"}
+                    disabled={!code.trim() || disableMutation.isPending || recoveryCodesMutation.isPending}
+                    data-testid="button-confirm-mfa-action"
+                  >
+                    {action === "disable" ? "Turn Off" : "Generate New Codes"}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={resetAction}>Cancel</Button>
+                </div>
+              </form>
+            ) : mfa.enabled ? (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  On since {mfa.enabledAt ? format(new Date(mfa.enabledAt), "MMM dd, yyyy") : "setup"}.{" "}
+                  {mfa.recoveryCodesRemaining} recovery code{mfa.recoveryCodesRemaining === 1 ? "" : "s"} left.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setAction("recovery-codes")} data-testid="button-new-recovery-codes">
+                    New Recovery Codes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAction("disable")}
+                    disabled={mfa.required}
+                    title={mfa.required ? "Required by your organization" : undefined}
+                    data-testid="button-disable-mfa"
+                  >
+                    Turn Off
+                  </Button>
+                </div>
+                {mfa.required && (
+                  <p className="text-xs text-muted-foreground">Your organization requires two-step verification.</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Add a second step to password sign-in. Accounts that sign in with single sign-on use the
+                  identity provider's own verification instead.
+                </p>
+                <Button size="sm" onClick={() => setAction("setup")} data-testid="button-setup-mfa">
+                  Set Up Authenticator
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sessions">
+            <ActiveSessions enabled={open} />
+          </TabsContent>
+
+          <TabsContent value="api-tokens">
+            <ApiTokens enabled={open} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import type { UserSession } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+export type SessionSummary = Omit<UserSession, "sid"> & { current: boolean };
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// A readable device name such as "Chrome on Windows" from the browser's User-Agent header
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  onRevoke: (session: SessionSummary) => void;
+  revoking: boolean;
+  emptyMessage: string;
+}
+
+export default function SessionList({ sessions, onRevoke, revoking, emptyMessage }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {sessions.map((session) => {
+        const mobile = /Mobile|Android|iPhone|iPad/.test(session.userAgent || "");
+        const DeviceIcon = mobile ? Smartphone : Monitor;
+        return (
+          <li key={session.id} className="flex items-center justify-between gap-4 border rounded-lg p-3" data-testid={`row-session-${session.id}`}>
+            <div className="flex items-center gap-3 min-w-0">
+              <DeviceIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate" title={session.userAgent || undefined}>
+                    {describeDevice(session.userAgent)}
+                  </span>
+                  {session.current && <Badge variant="secondary">This session</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {session.ipAddress || "Unknown address"}
+                  {" · "}
+                  Active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                  {" · "}
+                  Signed in {format(new Date(session.createdAt), "MMM dd, yyyy HH:mm")}
+                </div>
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRevoke(session)}
+                disabled={revoking}
+                data-testid={`button-revoke-session-${session.id}`}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign Out
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BellRing, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_REMINDER_OFFSETS, formatReminderOffsets, isValidReminderOffsets } from "@shared/reminders";
+import type { AlertPolicy, EscalationRule } from "@shared/schema";
+
+const CATEGORIES = ["Marketing Agreement", "Billing", "Deliverable", "Compliance", "End-of-Term", "Accounts Payable"] as const;
+
+const emptyRule = {
+  name: "",
+  category: "all",
+  overdueDays: "7",
+  recipientEmail: "",
+  notifyAdmins: false,
+};
+
+function PolicyRow({ category, policy }: { category: string; policy?: AlertPolicy }) {
+  const { toast } = useToast();
+  const [reminderOffsets, setReminderOffsets] = useState(policy?.reminderOffsets || "");
+  const [overdueRepeatDays, setOverdueRepeatDays] = useState(policy?.overdueRepeatDays?.toString() || "");
+
+  useEffect(() => {
+    setReminderOffsets(policy?.reminderOffsets || "");
+    setOverdueRepeatDays(policy?.overdueRepeatDays?.toString() || "");
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!reminderOffsets.trim()) {
+        await apiRequest("DELETE", `/api/alert-policies/${encodeURIComponent(category)}`);
+        return;
+      }
+      await apiRequest("PUT", `/api/alert-policies/${encodeURIComponent(category)}`, {
+        reminderOffsets: reminderOffsets.trim(),
+        overdueRepeatDays: overdueRepeatDays ? parseInt(overdueRepeatDays) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-policies"] });
+      toast({ title: "Alert Schedule Saved", description: `Reminder schedule for ${category} updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const invalid = !!reminderOffsets.trim() && !isValidReminderOffsets(reminderOffsets);
+  const changed = reminderOffsets !== (policy?.reminderOffsets || "") ||
+    overdueRepeatDays !== (policy?.overdueRepeatDays?.toString() || "");
+
+  return (
+    <TableRow data-testid={`row-alert-policy-${category}`}>
+      <TableCell className="font-medium">{category}</TableCell>
+      <TableCell>
+        <Input
+          value={reminderOffsets}
+          onChange={(e) => setReminderOffsets(e.target.value)}
+          placeholder={`${formatReminderOffsets(DEFAULT_REMINDER_OFFSETS)} (default)`}
+          className={invalid ? "border-destructive" : ""}
+          data-testid={`input-reminder-offsets-${category}`}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          value={overdueRepeatDays}
+          onChange={(e) => setOverdueRepeatDays(e.target.value)}
+          placeholder="Once"
+          disabled={!reminderOffsets.trim()}
+          data-testid={`input-overdue-repeat-${category}`}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={!changed || invalid || saveMutation.isPending}
+          data-testid={`button-save-alert-policy-${category}`}
+        >
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function AlertRules() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newRule, setNewRule] = useState(emptyRule);
+
+  const { data: policies } = useQuery<AlertPolicy[]>({
+    queryKey: ["/api/alert-policies"],
+  });
+
+  const { data: rules } = useQuery<EscalationRule[]>({
+    queryKey: ["/api/escalation-rules"],
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/escalation-rules", {
+        name: newRule.name,
+        category: newRule.category === "all" ? null : newRule.category,
+        overdueDays: parseInt(newRule.overdueDays),
+        recipientEmail: newRule.recipientEmail.trim() || null,
+        notifyAdmins: newRule.notifyAdmins,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalation-rules"] });
+      setDialogOpen(false);
+      setNewRule(emptyRule);
+      toast({ title: "Escalation Rule Created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Create Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest("PUT", `/api/escalation-rules/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalation-rules"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/escalation-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalation-rules"] });
+      toast({ title: "Escalation Rule Deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <BellRing className="mr-2 h-5 w-5" />
+          Alert Schedules & Escalation
+        </CardTitle>
+        <CardDescription>
+          Choose how many days before the due date reminders go out for each category, and who is notified
+          when an item stays overdue. Each reminder is sent only once per recipient.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Reminder Days Before Due</TableHead>
+                <TableHead>Repeat Overdue Every (days)</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CATEGORIES.map((category) => (
+                <PolicyRow
+                  key={category}
+                  category={category}
+                  policy={policies?.find(p => p.category === category)}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Escalation Rules</h4>
+            <Button size="sm" onClick={() => setDialogOpen(true)} data-testid="button-add-escalation-rule">
+              <Plus className="mr-1 h-4 w-4" />
+              Add Rule
+            </Button>
+          </div>
+
+          {!rules || rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No escalation rules. Overdue alerts go to the responsible party only.</p>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Overdue For</TableHead>
+                    <TableHead>Notify</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id} data-testid={`row-escalation-rule-${rule.id}`}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>{rule.category || "All categories"}</TableCell>
+                      <TableCell>{rule.overdueDays} days</TableCell>
+                      <TableCell className="text-sm">
+                        {[rule.recipientEmail, rule.notifyAdmins ? "All admins" : null].filter(Boolean).join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) => toggleRuleMutation.mutate({ id: rule.id, enabled })}
+                          data-testid={`switch-escalation-rule-${rule.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          disabled={deleteRuleMutation.isPending}
+                          data-testid={`button-delete-escalation-rule-${rule.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Escalation Rule</DialogTitle>
+            <DialogDescription>
+              Email a manager or the admins once an item has been overdue for the given number of days.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="escalation-name">Name</Label>
+              <Input
+                id="escalation-name"
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                placeholder="e.g. Finance manager after 3 days"
+                data-testid="input-escalation-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={newRule.category} onValueChange={(category) => setNewRule({ ...newRule, category })}>
+                  <SelectTrigger data-testid="select-escalation-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="escalation-days">Days Overdue</Label>
+                <Input
+                  id="escalation-days"
+                  type="number"
+                  min={1}
+                  value={newRule.overdueDays}
+                  onChange={(e) => setNewRule({ ...newRule, overdueDays: e.target.value })}
+                  data-testid="input-escalation-days"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="escalation-email">Recipient Email</Label>
+              <Input
+                id="escalation-email"
+                type="email"
+                value={newRule.recipientEmail}
+                onChange={(e) => setNewRule({ ...newRule, recipientEmail: e.target.value })}
+                placeholder="manager@healthtrixss.com"
+                data-testid="input-escalation-email"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="escalation-admins"
+                checked={newRule.notifyAdmins}
+                onCheckedChange={(checked) => setNewRule({ ...newRule, notifyAdmins: checked === true })}
+                data-testid="checkbox-escalation-admins"
+              />
+              <Label htmlFor="escalation-admins" className="text-sm font-normal">
+                Also notify every admin user
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createRuleMutation.mutate()}
+              disabled={
+                !newRule.name.trim() ||
+                !(parseInt(newRule.overdueDays) >= 1) ||
+                (!newRule.recipientEmail.trim() && !newRule.notifyAdmins) ||
+                createRuleMutation.isPending
+              }
+              data-testid="button-create-escalation-rule"
+            >
+              {createRuleMutation.isPending ? "Saving..." : "Add Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -7,10 +7,33 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { FileText, Filter, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
+import { FileText, Filter, RefreshCw, ChevronLeft, ChevronRight, Link2, Link2Off } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import type { AuditLog, User } from "@shared/schema";
+import { useUserDirectory } from "@/hooks/use-assignees";
+import type { AuditLog } from "@shared/schema";
+
+interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  legacyEntries: number;
+  head: { sequence: number; hash: string } | null;
+  brokenAt: {
+    id: string;
+    sequence: number;
+    timestamp: string;
+    reason: "hash_mismatch" | "link_mismatch" | "sequence_gap";
+    expected: string;
+    actual: string;
+  } | null;
+  verifiedAt: string;
+}
+
+const chainBreakReasons: Record<NonNullable<AuditChainVerification["brokenAt"]>["reason"], string> = {
+  hash_mismatch: "entry contents were modified",
+  link_mismatch: "link to the previous entry does not match",
+  sequence_gap: "one or more entries are missing",
+};
 
 export default function AuditLogViewer() {
   const { toast } = useToast();
@@ -24,10 +47,8 @@ export default function AuditLogViewer() {
   const [page, setPage] = useState(1);
   const pageSize = 50;
 
-  // Fetch users for filter dropdown
-  const { data: users } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-  });
+  // Fetch users for filter dropdown; the directory is readable by auditors as well as admins
+  const { data: users } = useUserDirectory();
 
   // Build query string
   const buildQueryString = () => {
@@ -52,6 +73,11 @@ export default function AuditLogViewer() {
     },
   });
 
+  // Verify the hash chain
+  const { data: chain, isFetching: isVerifyingChain, refetch: reverifyChain } = useQuery<AuditChainVerification>({
+    queryKey: ["/api/admin/audit-logs/verify"],
+  });
+
   // Show error toast when query fails
   useEffect(() => {
     if (error) {
@@ -113,8 +139,8 @@ export default function AuditLogViewer() {
     setPage(1);
   };
 
-  const actions = ["CREATE", "UPDATE", "DELETE", "LOGIN", "LOGOUT", "IMPORT", "EXPORT", "RESET", "CONNECT", "DISCONNECT", "MAP_CUSTOMER", "SYNC_INVOICES", "TEST"];
-  const entityTypes = ["user", "organization", "contract", "compliance_item", "billable_event", "evidence", "comment", "database", "system_settings", "quickbooks_connection", "azure_email"];
+  const actions = ["CREATE", "UPDATE", "DELETE", "LOGIN", "LOGOUT", "IMPORT", "EXPORT", "RESET", "CONNECT", "DISCONNECT", "MAP_CUSTOMER", "SYNC_INVOICES", "TEST", "VERIFY", "RUN", "SUBMIT_REVIEW", "APPROVE", "REJECT", "APPLY_TEMPLATE", "REVOKE", "API_REQUEST", "LOGIN_FAILED", "ACCOUNT_LOCKED", "UNLOCK", "PASSWORD_RESET_REQUEST", "PASSWORD_RESET", "SESSION_REVOKE", "DEACTIVATE", "REACTIVATE", "TRANSFER", "INVITE", "RENEWAL_DECISION", "APPLY_AMENDMENT", "ISSUE_INVOICE", "PAY_INVOICE", "VOID_INVOICE"];
+  const entityTypes = ["user", "organization", "contract", "compliance_item", "billable_event", "evidence", "comment", "database", "system_settings", "quickbooks_connection", "azure_email", "scheduled_job", "alert_policy", "escalation_rule", "team", "compliance_template", "compliance_calendar", "calendar_feed", "api_token", "login_throttle", "user_session", "user_invitation", "contract_amendment", "contract_rate_card", "invoice"];
 
   return (
     <Card className="mb-6">
@@ -132,7 +158,10 @@ export default function AuditLogViewer() {
           <Button
             variant="outline"
             size="sm"
-            onClick={() => refetch()}
+            onClick={() => {
+              refetch();
+              reverifyChain();
+            }}
             data-testid="button-refresh-audit-logs"
           >
             <RefreshCw className="h-4 w-4 mr-2" />
@@ -141,6 +170,51 @@ export default function AuditLogViewer() {
         </div>
       </CardHeader>
       <CardContent>
+        {/* Chain integrity */}
+        <div
+          className={`mb-6 p-4 rounded-lg border flex items-start gap-3 ${
+            chain && !chain.valid ? "border-destructive/40 bg-destructive/5" : "bg-muted/50"
+          }`}
+          data-testid="audit-chain-status"
+        >
+          {chain && !chain.valid ? (
+            <Link2Off className="h-5 w-5 text-destructive mt-0.5" />
+          ) : (
+            <Link2 className={`h-5 w-5 mt-0.5 ${chain ? "text-green-600" : "text-muted-foreground"}`} />
+          )}
+          <div className="flex-1 text-sm">
+            {!chain ? (
+              <span className="text-muted-foreground">
+                {isVerifyingChain ? "Verifying audit trail..." : "Audit trail not verified"}
+              </span>
+            ) : chain.valid ? (
+              <>
+                <div className="font-semibold">Audit trail intact</div>
+                <div className="text-muted-foreground">
+                  {chain.checked} chained {chain.checked === 1 ? "entry" : "entries"} verified
+                  {chain.head && <> &middot; head #{chain.head.sequence} <span className="font-mono text-xs">{chain.head.hash.slice(0, 16)}…</span></>}
+                  {chain.legacyEntries > 0 && <> &middot; {chain.legacyEntries} earlier entries predate chaining</>}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="font-semibold text-destructive">Audit trail broken</div>
+                {chain.brokenAt && (
+                  <div className="text-muted-foreground">
+                    First broken link at entry #{chain.brokenAt.sequence} ({formatTimestamp(chain.brokenAt.timestamp)}): {chainBreakReasons[chain.brokenAt.reason]}.
+                    {" "}{chain.checked} entries before it verified.
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          {chain && (
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              Checked {formatTimestamp(chain.verifiedAt)}
+            </span>
+          )}
+        </div>
+
         {/* Filters */}
         <div className="mb-6 p-4 bg-muted/50 rounded-lg space-y-4">
           <div className="flex items-center gap-2 mb-2">
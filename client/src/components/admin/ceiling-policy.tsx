@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { isValidCeilingThresholds, type CeilingEnforcement } from "@shared/ceilings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Gauge } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CeilingPolicy {
+  thresholds: number[];
+  enforcement: CeilingEnforcement;
+}
+
+const parseThresholds = (value: string) =>
+  value.split(",").map((part) => part.trim()).filter(Boolean).map(Number);
+
+export default function CeilingPolicySettings() {
+  const { toast } = useToast();
+  const [thresholds, setThresholds] = useState("");
+  const [block, setBlock] = useState(false);
+
+  const { data: policy } = useQuery<CeilingPolicy>({
+    queryKey: ["/api/admin/ceiling-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setThresholds(policy.thresholds.join(", "));
+      setBlock(policy.enforcement === "block");
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/ceiling-policy", {
+        thresholds: parseThresholds(thresholds),
+        enforcement: block ? "block" : "warn",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ceiling-policy"] });
+      toast({ title: "Ceiling Policy Saved", description: "Thresholds apply from the next ceiling check." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const valid = isValidCeilingThresholds(parseThresholds(thresholds));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Gauge className="mr-2 h-5 w-5" />
+          Contract Ceilings
+        </CardTitle>
+        <CardDescription>
+          Email admins as billable events use up a contract's maximum amount, and decide what happens past it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4 max-w-md">
+          <div className="space-y-2">
+            <Label htmlFor="ceiling-thresholds">Alert Thresholds (% of ceiling)</Label>
+            <Input
+              id="ceiling-thresholds"
+              value={thresholds}
+              onChange={(e) => setThresholds(e.target.value)}
+              placeholder="75, 90, 100"
+              data-testid="input-ceiling-thresholds"
+            />
+            {!valid && thresholds.trim() && (
+              <p className="text-xs text-destructive">Use distinct whole percentages between 1 and 200.</p>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="ceiling-block">Block Over-Ceiling Billing</Label>
+              <p className="text-xs text-muted-foreground">
+                Refuse billable events that would exceed the ceiling instead of saving them with a warning
+              </p>
+            </div>
+            <Switch id="ceiling-block" checked={block} onCheckedChange={setBlock} data-testid="switch-ceiling-block" />
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !valid}
+            data-testid="button-save-ceiling-policy"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
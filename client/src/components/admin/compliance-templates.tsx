@@ -0,0 +1,422 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Layers, Plus, Pencil, Trash2, Download, Upload, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isValidReminderOffsets } from "@shared/reminders";
+import { describeTemplateOffset, type TemplateAnchor } from "@shared/templates";
+import { useComplianceTemplates, type ComplianceTemplateWithItems } from "@/hooks/use-compliance-templates";
+
+const CATEGORIES = ["Marketing Agreement", "Billing", "Deliverable", "Compliance", "End-of-Term", "Accounts Payable"] as const;
+
+interface TemplateItemFormState {
+  category: typeof CATEGORIES[number];
+  type: string;
+  commitment: string;
+  description: string;
+  responsibleParty: string;
+  anchor: TemplateAnchor;
+  direction: "after" | "before";
+  days: string;
+  reminderOffsets: string;
+  recurrenceRule: string;
+}
+
+interface TemplateFormState {
+  name: string;
+  description: string;
+  items: TemplateItemFormState[];
+}
+
+const emptyItem: TemplateItemFormState = {
+  category: "Compliance",
+  type: "",
+  commitment: "",
+  description: "",
+  responsibleParty: "",
+  anchor: "start",
+  direction: "after",
+  days: "30",
+  reminderOffsets: "",
+  recurrenceRule: "",
+};
+
+const emptyTemplate: TemplateFormState = { name: "", description: "", items: [emptyItem] };
+
+function itemIsValid(item: TemplateItemFormState) {
+  const days = Number(item.days);
+  return !!item.type.trim() && !!item.commitment.trim() && !!item.responsibleParty.trim() &&
+    Number.isInteger(days) && days >= 0 &&
+    (!item.reminderOffsets.trim() || isValidReminderOffsets(item.reminderOffsets));
+}
+
+export default function ComplianceTemplates() {
+  const { toast } = useToast();
+  const { data: templates } = useComplianceTemplates();
+  const [editingTemplate, setEditingTemplate] = useState<ComplianceTemplateWithItems | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TemplateFormState>(emptyTemplate);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const openCreate = () => {
+    setEditingTemplate(null);
+    setForm(emptyTemplate);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (template: ComplianceTemplateWithItems) => {
+    setEditingTemplate(template);
+    setForm({
+      name: template.name,
+      description: template.description || "",
+      items: template.items.map(item => ({
+        category: item.category,
+        type: item.type,
+        commitment: item.commitment,
+        description: item.description || "",
+        responsibleParty: item.responsibleParty,
+        anchor: item.anchor,
+        direction: item.offsetDays < 0 ? "before" : "after",
+        days: Math.abs(item.offsetDays).toString(),
+        reminderOffsets: item.reminderOffsets || "",
+        recurrenceRule: item.recurrenceRule || "",
+      })),
+    });
+    setDialogOpen(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<TemplateItemFormState>) => {
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        items: form.items.map(item => ({
+          category: item.category,
+          type: item.type.trim(),
+          commitment: item.commitment.trim(),
+          description: item.description.trim() || null,
+          responsibleParty: item.responsibleParty.trim(),
+          anchor: item.anchor,
+          offsetDays: (item.direction === "before" ? -1 : 1) * parseInt(item.days),
+          reminderOffsets: item.reminderOffsets.trim() || null,
+          recurrenceRule: item.recurrenceRule.trim() || null,
+        })),
+      };
+      if (editingTemplate) {
+        await apiRequest("PUT", `/api/compliance-templates/${editingTemplate.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/compliance-templates", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-templates"] });
+      setDialogOpen(false);
+      toast({
+        title: editingTemplate ? "Template Updated" : "Template Created",
+        description: `${form.name} has been saved.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/compliance-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-templates"] });
+      toast({ title: "Template Deleted", description: "Compliance items already created from it are unchanged." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiRequest("POST", "/api/compliance-templates/import", formData);
+      return response.json();
+    },
+    onSuccess: (result: { created: string[]; skipped: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-templates"] });
+      toast({
+        title: "Templates Imported",
+        description: result.skipped.length > 0
+          ? `${result.created.length} imported. Skipped existing: ${result.skipped.join(", ")}`
+          : `${result.created.length} templates imported.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportTemplates = (id?: string) => {
+    window.open(`/api/compliance-templates/export${id ? `?id=${id}` : ""}`, "_blank");
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Layers className="mr-2 h-5 w-5" />
+              Compliance Templates
+            </CardTitle>
+            <CardDescription>
+              Reusable sets of compliance items for similar contracts. Apply them from a contract's detail view.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+              data-testid="input-import-templates"
+            />
+            <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={importMutation.isPending} data-testid="button-import-templates">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => exportTemplates()} disabled={!templates?.length} data-testid="button-export-templates">
+              <Download className="mr-2 h-4 w-4" />
+              Export All
+            </Button>
+            <Button onClick={openCreate} data-testid="button-add-template">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Template
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!templates || templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates yet.</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id} data-testid={`row-template-${template.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && <div className="text-xs text-muted-foreground">{template.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{template.items.length}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => exportTemplates(template.id)} data-testid={`button-export-template-${template.id}`}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(template)} data-testid={`button-edit-template-${template.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(template.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-template-${template.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? "Edit Template" : "Add Template"}</DialogTitle>
+            <DialogDescription>
+              Due dates are set relative to the contract start or end date when the template is applied.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="State government services agreement"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  data-testid="input-template-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {form.items.map((item, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-3" data-testid={`template-item-${index}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">
+                      Item {index + 1}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {describeTemplateOffset({ anchor: item.anchor, offsetDays: (item.direction === "before" ? -1 : 1) * (parseInt(item.days) || 0) })}
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      disabled={form.items.length === 1}
+                      data-testid={`button-remove-template-item-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      value={item.commitment}
+                      onChange={(e) => updateItem(index, { commitment: e.target.value })}
+                      placeholder="Commitment"
+                      data-testid={`input-template-item-commitment-${index}`}
+                    />
+                    <Input
+                      value={item.type}
+                      onChange={(e) => updateItem(index, { type: e.target.value })}
+                      placeholder="Type (e.g. Report Submission)"
+                      data-testid={`input-template-item-type-${index}`}
+                    />
+                    <Select value={item.category} onValueChange={(value) => updateItem(index, { category: value as TemplateItemFormState["category"] })}>
+                      <SelectTrigger data-testid={`select-template-item-category-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={item.responsibleParty}
+                      onChange={(e) => updateItem(index, { responsibleParty: e.target.value })}
+                      placeholder="Responsible party"
+                      data-testid={`input-template-item-responsible-${index}`}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={item.days}
+                      onChange={(e) => updateItem(index, { days: e.target.value })}
+                      data-testid={`input-template-item-days-${index}`}
+                    />
+                    <Select value={item.direction} onValueChange={(value) => updateItem(index, { direction: value as "after" | "before" })}>
+                      <SelectTrigger data-testid={`select-template-item-direction-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="after">days after</SelectItem>
+                        <SelectItem value="before">days before</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={item.anchor} onValueChange={(value) => updateItem(index, { anchor: value as TemplateAnchor })}>
+                      <SelectTrigger data-testid={`select-template-item-anchor-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="start">contract start</SelectItem>
+                        <SelectItem value="end">contract end</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      value={item.reminderOffsets}
+                      onChange={(e) => updateItem(index, { reminderOffsets: e.target.value })}
+                      placeholder="Reminder days (optional, e.g. 30,14,7)"
+                      data-testid={`input-template-item-reminders-${index}`}
+                    />
+                    <Input
+                      value={item.recurrenceRule}
+                      onChange={(e) => updateItem(index, { recurrenceRule: e.target.value })}
+                      placeholder="Repeats (optional RRULE, e.g. FREQ=MONTHLY)"
+                      data-testid={`input-template-item-recurrence-${index}`}
+                    />
+                  </div>
+                  <Textarea
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                    placeholder="Description (optional)"
+                    rows={2}
+                    data-testid={`textarea-template-item-description-${index}`}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, items: [...prev.items, emptyItem] }))}
+                data-testid="button-add-template-item"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || !form.items.every(itemIsValid) || saveMutation.isPending}
+              data-testid="button-save-template"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
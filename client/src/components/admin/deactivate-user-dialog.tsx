@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { assignableUsers, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
+
+const KEEP_ASSIGNMENTS = "__keep__";
+
+interface TransferCounts {
+  complianceItems: number;
+  reviews: number;
+  objectives: number;
+}
+
+interface DeactivateUserDialogProps {
+  user: { id: string; username: string; deactivatedAt: string | Date | null } | null;
+  onClose: () => void;
+}
+
+const describeTransfer = ({ complianceItems, reviews, objectives }: TransferCounts) =>
+  `${complianceItems} item${complianceItems === 1 ? "" : "s"}, ${reviews} review${reviews === 1 ? "" : "s"} and ${objectives} objective${objectives === 1 ? "" : "s"} transferred.`;
+
+// Deactivates an active user, or hands a deactivated user's remaining work to someone else
+export default function DeactivateUserDialog({ user, onClose }: DeactivateUserDialogProps) {
+  const { toast } = useToast();
+  const { data: directory } = useUserDirectory();
+  const [transferToUserId, setTransferToUserId] = useState(KEEP_ASSIGNMENTS);
+  const transferOnly = !!user?.deactivatedAt;
+
+  const close = () => {
+    setTransferToUserId(KEEP_ASSIGNMENTS);
+    onClose();
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<{ transferred?: TransferCounts }> => {
+      const target = transferToUserId === KEEP_ASSIGNMENTS ? null : transferToUserId;
+      const response = await apiRequest("POST", `/api/users/${user?.id}/${transferOnly ? "transfer" : "deactivate"}`, {
+        transferToUserId: target,
+      });
+      return response.json();
+    },
+    onSuccess: ({ transferred }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/directory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/objectives"] });
+      toast({
+        title: transferOnly ? "Work Transferred" : "User Deactivated",
+        description: transferred ? describeTransfer(transferred) : `${user?.username} can no longer sign in.`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: transferOnly ? "Transfer Failed" : "Deactivate Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const candidates = assignableUsers(directory).filter((candidate) => candidate.id !== user?.id);
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{transferOnly ? `Transfer Work from ${user?.username}` : `Deactivate ${user?.username}`}</DialogTitle>
+          <DialogDescription>
+            {transferOnly
+              ? "Open compliance items, pending reviews and active objectives move to the user you choose. Completed work keeps its original owner."
+              : "They are signed out everywhere, their API tokens are revoked and they can no longer sign in. Their comments, evidence and audit history keep their name. You can reactivate them later."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Transfer open work to</Label>
+          <Select value={transferToUserId} onValueChange={setTransferToUserId}>
+            <SelectTrigger data-testid="select-transfer-user">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!transferOnly && <SelectItem value={KEEP_ASSIGNMENTS}>Nobody (leave assignments as they are)</SelectItem>}
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>{userDisplayName(candidate)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!transferOnly && (
+            <p className="text-xs text-muted-foreground">
+              Open compliance items, pending reviews and active objectives move to this user.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            variant={transferOnly ? "default" : "destructive"}
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending || (transferOnly && transferToUserId === KEEP_ASSIGNMENTS)}
+            data-testid="button-confirm-deactivate"
+          >
+            {mutation.isPending ? "Saving..." : transferOnly ? "Transfer" : "Deactivate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface IntegrityResult {
+  evidenceId: string;
+  versionNumber?: number;
+  title: string;
+  filePath: string | null;
+  status: "verified" | "altered" | "missing" | "unhashed" | "no_file";
+  expectedHash: string | null;
+  actualHash: string | null;
+}
+
+interface IntegrityScan {
+  scannedAt: string;
+  total: number;
+  verified: number;
+  altered: number;
+  missing: number;
+  unhashed: number;
+  backfilled: number;
+  results: IntegrityResult[];
+  orphanedFiles: string[];
+}
+
+export default function EvidenceIntegrityScan() {
+  const { toast } = useToast();
+  const [backfill, setBackfill] = useState(false);
+  const [scan, setScan] = useState<IntegrityScan | null>(null);
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/evidence-integrity-scan", { backfill });
+      return response.json() as Promise<IntegrityScan>;
+    },
+    onSuccess: (data) => {
+      setScan(data);
+      const failures = data.altered + data.missing;
+      toast({
+        title: failures > 0 ? "Integrity Problems Found" : "Integrity Scan Complete",
+        description: failures > 0
+          ? `${failures} of ${data.total} evidence files are missing or altered.`
+          : `${data.verified} of ${data.total} evidence files verified.`,
+        variant: failures > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Scan Failed",
+        description: error.message || "Failed to scan evidence integrity.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const problems = scan?.results.filter(r => r.status === "altered" || r.status === "missing" || r.status === "unhashed") || [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Evidence Integrity
+        </CardTitle>
+        <CardDescription>
+          Re-hash every stored evidence file and compare it with the SHA-256 hash recorded at upload
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="integrity-backfill"
+              checked={backfill}
+              onCheckedChange={(checked) => setBackfill(checked === true)}
+              data-testid="checkbox-integrity-backfill"
+            />
+            <Label htmlFor="integrity-backfill" className="text-sm font-normal">
+              Record hashes for files uploaded before hashing was enabled
+            </Label>
+          </div>
+          <Button
+            onClick={() => scanMutation.mutate()}
+            disabled={scanMutation.isPending}
+            data-testid="button-run-integrity-scan"
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+            {scanMutation.isPending ? "Scanning..." : "Run Integrity Scan"}
+          </Button>
+        </div>
+
+        {scan && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm" data-testid="integrity-scan-summary">
+              <Badge variant="outline">{scan.total} scanned</Badge>
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">{scan.verified} verified</Badge>
+              <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">{scan.altered} altered</Badge>
+              <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">{scan.missing} missing</Badge>
+              <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">{scan.unhashed} not hashed</Badge>
+              {scan.backfilled > 0 && <Badge variant="secondary">{scan.backfilled} hashes recorded</Badge>}
+              {scan.orphanedFiles.length > 0 && <Badge variant="secondary">{scan.orphanedFiles.length} unreferenced files</Badge>}
+              <span className="text-muted-foreground ml-auto">
+                {format(new Date(scan.scannedAt), 'MMM dd, yyyy HH:mm:ss')}
+              </span>
+            </div>
+
+            {problems.length > 0 && (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Evidence</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>File</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {problems.map((result) => (
+                      <TableRow
+                        key={`${result.evidenceId}-${result.versionNumber ?? "current"}`}
+                        data-testid={`row-integrity-${result.evidenceId}`}
+                      >
+                        <TableCell className="font-medium">
+                          {result.title}
+                          {result.versionNumber && (
+                            <span className="ml-1 text-xs text-muted-foreground">(version {result.versionNumber})</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={result.status === "unhashed" ? "secondary" : "destructive"}>
+                            {result.status === "unhashed" ? "not hashed" : result.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono text-muted-foreground">{result.filePath}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
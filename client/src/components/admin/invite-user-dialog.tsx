@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Send } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import UserAccessFields, { type UserAccess } from "./user-access-fields";
+
+const emptyInvitation = {
+  email: "",
+  fullName: "",
+  role: "user" as UserAccess["role"],
+  allOrganizations: true,
+  organizationIds: [] as string[],
+};
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Emails a signup link; the person picks their own username and password, and gets the access chosen here
+export default function InviteUserDialog({ open, onClose }: InviteUserDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyInvitation);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/invitations", {
+        ...form,
+        email: form.email.trim(),
+        fullName: form.fullName.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({ title: "Invitation Sent", description: `A signup link was emailed to ${form.email.trim()}.` });
+      setForm(emptyInvitation);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invitation Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            They receive a link to choose a username and password. The link works once and expires after 7 days.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              data-testid="input-invite-email"
+            />
+          </div>
+          <div>
+            <Label htmlFor="invite-fullname">Full Name (optional)</Label>
+            <Input
+              id="invite-fullname"
+              value={form.fullName}
+              onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+              data-testid="input-invite-fullname"
+            />
+          </div>
+          <UserAccessFields
+            idPrefix="invite"
+            value={form}
+            onChange={(access) => setForm({ ...form, ...access })}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => inviteMutation.mutate()}
+            disabled={!form.email.trim() || inviteMutation.isPending}
+            data-testid="button-send-invitation"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
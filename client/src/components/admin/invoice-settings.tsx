@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MAX_NET_TERMS_DAYS, MAX_TAX_RATE, formatInvoiceNumber } from "@shared/invoices";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Receipt } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface InvoiceSettings {
+  companyName: string;
+  companyAddress: string;
+  numberPrefix: string;
+  defaultTaxRate: number;
+  defaultNetTermsDays: number;
+}
+
+export default function InvoiceSettingsCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<InvoiceSettings | null>(null);
+
+  const { data: settings } = useQuery<InvoiceSettings>({
+    queryKey: ["/api/admin/invoice-settings"],
+  });
+
+  useEffect(() => {
+    if (settings) setDraft(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: InvoiceSettings) => {
+      await apiRequest("POST", "/api/admin/invoice-settings", values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoice-settings"] });
+      toast({ title: "Invoice Settings Saved", description: "The letterhead applies to every PDF from now on; terms to new invoices." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (changes: Partial<InvoiceSettings>) => setDraft((current) => (current ? { ...current, ...changes } : current));
+
+  const valid = !!draft
+    && draft.companyName.trim() !== ""
+    && /^[A-Za-z0-9-]{1,12}$/.test(draft.numberPrefix.trim())
+    && draft.defaultTaxRate >= 0 && draft.defaultTaxRate <= MAX_TAX_RATE
+    && Number.isInteger(draft.defaultNetTermsDays) && draft.defaultNetTermsDays >= 0 && draft.defaultNetTermsDays <= MAX_NET_TERMS_DAYS;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Receipt className="mr-2 h-5 w-5" />
+          Invoices
+        </CardTitle>
+        <CardDescription>
+          Letterhead printed on invoice PDFs, the invoice number prefix, and the terms new invoices start with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {draft && (
+          <div className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-company-name">Company Name</Label>
+              <Input
+                id="invoice-company-name"
+                value={draft.companyName}
+                onChange={(e) => update({ companyName: e.target.value })}
+                data-testid="input-invoice-company-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-company-address">Company Address</Label>
+              <Textarea
+                id="invoice-company-address"
+                value={draft.companyAddress}
+                onChange={(e) => update({ companyAddress: e.target.value })}
+                placeholder={"123 Main Street\nSpringfield, VA 22150"}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoice-prefix">Number Prefix</Label>
+                <Input
+                  id="invoice-prefix"
+                  value={draft.numberPrefix}
+                  onChange={(e) => update({ numberPrefix: e.target.value })}
+                  data-testid="input-invoice-prefix"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-tax-rate">Tax Rate %</Label>
+                <Input
+                  id="invoice-tax-rate"
+                  type="number"
+                  step="0.01"
+                  value={draft.defaultTaxRate}
+                  onChange={(e) => update({ defaultTaxRate: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-net-terms">Net Terms (days)</Label>
+                <Input
+                  id="invoice-net-terms"
+                  type="number"
+                  value={draft.defaultNetTermsDays}
+                  onChange={(e) => update({ defaultNetTermsDays: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Next numbers look like {formatInvoiceNumber(draft.numberPrefix.trim() || "INV", 1)}. Numbers are assigned in
+              sequence when an invoice is finalized.
+            </p>
+            <Button
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={saveMutation.isPending || !valid}
+              data-testid="button-save-invoice-settings"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type MfaPolicy = "optional" | "admins" | "all";
+
+interface MfaSettings {
+  policy: MfaPolicy;
+  enrolledUsers: number;
+}
+
+export default function MfaSettings() {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<MfaSettings>({
+    queryKey: ["/api/admin/mfa-settings"],
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (policy: MfaPolicy) => {
+      await apiRequest("POST", "/api/admin/mfa-settings", { policy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/mfa-settings"] });
+      toast({ title: "Two-Step Policy Saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Two-Step Verification
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app after the password.
+          {settings && ` ${settings.enrolledUsers} user${settings.enrolledUsers === 1 ? " has" : "s have"} it turned on.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-w-md">
+          <Label>Requirement</Label>
+          <Select
+            value={settings?.policy || "optional"}
+            onValueChange={(value) => policyMutation.mutate(value as MfaPolicy)}
+            disabled={!settings || policyMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-mfa-policy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="optional">Optional</SelectItem>
+              <SelectItem value="admins">Required for admins</SelectItem>
+              <SelectItem value="all">Required for everyone</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Users who are required but not yet enrolled set up an authenticator at their next password sign-in.
+            Single sign-on accounts rely on the identity provider's own verification.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { LoginThrottle } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { KeyRound, Unlock } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PasswordPolicy {
+  minLength: number;
+  requireMixedCharacters: boolean;
+  blockBreached: boolean;
+}
+
+// Throttle keys are "user:<username>" or "ip:<address>"
+const describeThrottleKey = (key: string) => {
+  const [kind, ...rest] = key.split(":");
+  return { kind: kind === "ip" ? "IP address" : "Username", value: rest.join(":") };
+};
+
+export default function PasswordPolicySettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PasswordPolicy | null>(null);
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/admin/password-policy"],
+  });
+
+  const { data: lockouts } = useQuery<LoginThrottle[]>({
+    queryKey: ["/api/admin/login-lockouts"],
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    if (policy) setForm(policy);
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PasswordPolicy) => {
+      await apiRequest("POST", "/api/admin/password-policy", values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/password-policy"] });
+      toast({ title: "Password Policy Saved", description: "The new rules apply the next time a password is set." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (key: string) => {
+      await apiRequest("DELETE", `/api/admin/login-lockouts/${encodeURIComponent(key)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/login-lockouts"] });
+      toast({ title: "Lockout Cleared" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unlock Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Passwords and Lockout
+        </CardTitle>
+        <CardDescription>
+          Rules for new passwords, and accounts or addresses locked after repeated failed sign-ins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {form && (
+          <div className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="password-min-length">Minimum Length</Label>
+              <Input
+                id="password-min-length"
+                type="number"
+                min={8}
+                max={128}
+                value={form.minLength}
+                onChange={(e) => setForm({ ...form, minLength: Number(e.target.value) })}
+                data-testid="input-password-min-length"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="password-require-mixed">Require Mixed Characters</Label>
+                <p className="text-xs text-muted-foreground">Three of: lowercase, uppercase, numbers, symbols</p>
+              </div>
+              <Switch
+                id="password-require-mixed"
+                checked={form.requireMixedCharacters}
+                onCheckedChange={(checked) => setForm({ ...form, requireMixedCharacters: checked })}
+                data-testid="switch-password-require-mixed"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="password-block-breached">Block Breached Passwords</Label>
+                <p className="text-xs text-muted-foreground">Reject the 10,000 most common passwords from public breaches</p>
+              </div>
+              <Switch
+                id="password-block-breached"
+                checked={form.blockBreached}
+                onCheckedChange={(checked) => setForm({ ...form, blockBreached: checked })}
+                data-testid="switch-password-block-breached"
+              />
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || form.minLength < 8 || form.minLength > 128}
+              data-testid="button-save-password-policy"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="text-sm font-medium">Current Lockouts</h4>
+            <p className="text-xs text-muted-foreground">
+              A username is locked after 5 failed attempts and an IP address after 20; each further failure doubles
+              the lock, up to an hour. Resetting the password also clears a username lock.
+            </p>
+          </div>
+          {!lockouts?.length ? (
+            <p className="text-sm text-muted-foreground">No accounts or addresses are locked.</p>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Locked</TableHead>
+                    <TableHead>Failures</TableHead>
+                    <TableHead>Until</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lockouts.map((lockout) => {
+                    const { kind, value } = describeThrottleKey(lockout.key);
+                    return (
+                      <TableRow key={lockout.key} data-testid={`row-lockout-${lockout.key}`}>
+                        <TableCell>
+                          <div className="font-medium font-mono text-sm">{value}</div>
+                          <div className="text-xs text-muted-foreground">{kind}</div>
+                        </TableCell>
+                        <TableCell>{lockout.failures}</TableCell>
+                        <TableCell className="text-sm">
+                          {lockout.lockedUntil ? format(new Date(lockout.lockedUntil), "MMM dd, HH:mm") : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => unlockMutation.mutate(lockout.key)}
+                            disabled={unlockMutation.isPending}
+                            data-testid={`button-unlock-${lockout.key}`}
+                          >
+                            <Unlock className="h-4 w-4 mr-1" />
+                            Unlock
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
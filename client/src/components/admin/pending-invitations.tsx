@@ -0,0 +1,116 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { UserInvitation } from "@shared/schema";
+import { ROLE_DEFINITIONS, isRole } from "@shared/permissions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type InvitationSummary = Omit<UserInvitation, "tokenHash" | "organizationIds"> & { organizationIds: string[] };
+
+// Invitations not yet accepted, shown under the user list; hidden when there are none
+export default function PendingInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations } = useQuery<InvitationSummary[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/invitations/${id}/resend`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({ title: "Invitation Resent", description: "A new link was emailed; the old one no longer works." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Resend Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/invitations/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({ title: "Invitation Revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!invitations?.length) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <h4 className="text-sm font-medium">Pending Invitations</h4>
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expiresAt) <= new Date();
+              return (
+                <TableRow key={invitation.id} data-testid={`row-invitation-${invitation.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{invitation.email}</div>
+                    {invitation.fullName && <div className="text-xs text-muted-foreground">{invitation.fullName}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">
+                      {isRole(invitation.role) ? ROLE_DEFINITIONS[invitation.role].label : invitation.role}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {expired ? (
+                      <Badge variant="destructive">Expired</Badge>
+                    ) : (
+                      format(new Date(invitation.expiresAt), "MMM dd, yyyy")
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => resendMutation.mutate(invitation.id)}
+                        disabled={resendMutation.isPending}
+                        data-testid={`button-resend-invitation-${invitation.id}`}
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(invitation.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-invitation-${invitation.id}`}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Play } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { JobRun, ScheduledJob } from "@shared/schema";
+
+interface ScheduledJobWithRuns extends ScheduledJob {
+  registered: boolean;
+  recentRuns: JobRun[];
+  recentFailures: number;
+}
+
+function formatTime(value: Date | string | null) {
+  return value ? format(new Date(value), 'MMM dd, yyyy HH:mm') : "—";
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (status === "succeeded") {
+    return <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">succeeded</Badge>;
+  }
+  if (status === "failed") {
+    return <Badge variant="destructive">failed</Badge>;
+  }
+  if (status === "running") {
+    return <Badge variant="secondary">running</Badge>;
+  }
+  return <Badge variant="outline">never run</Badge>;
+}
+
+export default function ScheduledJobs() {
+  const { toast } = useToast();
+
+  const { data: jobs, isLoading } = useQuery<ScheduledJobWithRuns[]>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 30000,
+  });
+
+  const updateJobMutation = useMutation({
+    mutationFn: async ({ name, enabled }: { name: string; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/admin/jobs/${name}`, { enabled });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update job.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+      return response.json() as Promise<JobRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({
+        title: run.status === "succeeded" ? "Job Completed" : "Job Failed",
+        description: run.status === "succeeded"
+          ? `${run.jobName} finished successfully.`
+          : run.error || `${run.jobName} failed.`,
+        variant: run.status === "succeeded" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Run Failed",
+        description: error.message || "Failed to run job.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Clock className="mr-2 h-5 w-5" />
+          Scheduled Jobs
+        </CardTitle>
+        <CardDescription>
+          Background jobs for alerts, overdue status and QuickBooks sync. Schedules are cron expressions in UTC.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading jobs...</p>
+        ) : !jobs || jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No jobs have been registered yet.</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.name} data-testid={`row-job-${job.name}`}>
+                    <TableCell>
+                      <div className="font-medium">{job.name}</div>
+                      <div className="text-xs text-muted-foreground">{job.description}</div>
+                      {job.lastStatus === "failed" && job.lastError && (
+                        <div className="text-xs text-destructive mt-1" data-testid={`text-job-error-${job.name}`}>
+                          {job.lastError}
+                          {job.attempt > 0 && ` (retry ${job.attempt} of ${job.maxRetries - 1} pending)`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{job.schedule}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <StatusBadge status={job.lockedBy ? "running" : job.lastStatus} />
+                        {job.recentFailures > 0 && (
+                          <span className="text-xs text-muted-foreground">{job.recentFailures} recent failures</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">{formatTime(job.lastRunAt)}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{job.enabled ? formatTime(job.nextRunAt) : "—"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={job.enabled}
+                        onCheckedChange={(enabled) => updateJobMutation.mutate({ name: job.name, enabled })}
+                        disabled={updateJobMutation.isPending}
+                        data-testid={`switch-job-enabled-${job.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runJobMutation.mutate(job.name)}
+                        disabled={!job.registered || runJobMutation.isPending}
+                        data-testid={`button-run-job-${job.name}`}
+                      >
+                        <Play className="mr-1 h-3 w-3" />
+                        {runJobMutation.isPending && runJobMutation.variables === job.name ? "Running..." : "Run Now"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
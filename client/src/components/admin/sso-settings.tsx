@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Fingerprint, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LocalLoginPolicy = "all" | "admins";
+
+interface SsoProvider {
+  key: string;
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  enabled: boolean;
+  autoProvision: boolean;
+  linkExistingUsers: boolean;
+  roleClaim: string;
+  adminValues: string;
+  userValues: string;
+  callbackUrl: string;
+}
+
+interface SsoSettings {
+  localLogin: LocalLoginPolicy;
+  providers: SsoProvider[];
+}
+
+const emptyProvider: Omit<SsoProvider, "callbackUrl"> = {
+  key: "",
+  displayName: "",
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  scopes: "openid profile email",
+  enabled: true,
+  autoProvision: true,
+  linkExistingUsers: false,
+  roleClaim: "groups",
+  adminValues: "",
+  userValues: "",
+};
+
+const PROVIDER_KEY_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+export default function SsoSettings() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isNew, setIsNew] = useState(true);
+  const [form, setForm] = useState(emptyProvider);
+
+  const { data: settings } = useQuery<SsoSettings>({
+    queryKey: ["/api/admin/sso-settings"],
+  });
+
+  const localLoginMutation = useMutation({
+    mutationFn: async (localLogin: LocalLoginPolicy) => {
+      await apiRequest("POST", "/api/admin/sso-settings", { localLogin });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sso-settings"] });
+      toast({ title: "Sign-In Policy Saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveProviderMutation = useMutation({
+    mutationFn: async () => {
+      const { key, clientSecret, ...provider } = form;
+      await apiRequest("POST", `/api/admin/sso-providers/${key}`, {
+        ...provider,
+        // Masked secret means keep the existing one
+        clientSecret: clientSecret === "********" ? "" : clientSecret,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sso-settings"] });
+      setDialogOpen(false);
+      toast({ title: "Provider Saved", description: `${form.displayName} sign-in settings updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteProviderMutation = useMutation({
+    mutationFn: async (key: string) => {
+      await apiRequest("DELETE", `/api/admin/sso-providers/${key}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sso-settings"] });
+      toast({ title: "Provider Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setForm(emptyProvider);
+    setIsNew(true);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (provider: SsoProvider) => {
+    const { callbackUrl, ...editable } = provider;
+    setForm(editable);
+    setIsNew(false);
+    setDialogOpen(true);
+  };
+
+  const callbackUrl = form.key
+    ? settings?.providers.find(p => p.key === form.key)?.callbackUrl ||
+      `${window.location.origin}/api/auth/sso/${form.key}/callback`
+    : "";
+  const keyInvalid = isNew && (!PROVIDER_KEY_PATTERN.test(form.key) || !!settings?.providers.some(p => p.key === form.key));
+  const hasEnabledProvider = !!settings?.providers.some(p => p.enabled);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Fingerprint className="mr-2 h-5 w-5" />
+          Single Sign-On
+        </CardTitle>
+        <CardDescription>
+          Let users sign in with Microsoft Entra ID, Google Workspace or any OpenID Connect provider.
+          Group or role claims from the provider decide who becomes an admin.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-w-md">
+          <Label>Password Sign-In</Label>
+          <Select
+            value={settings?.localLogin || "all"}
+            onValueChange={(value) => localLoginMutation.mutate(value as LocalLoginPolicy)}
+            disabled={!settings || localLoginMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-sso-local-login">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All users</SelectItem>
+              <SelectItem value="admins" disabled={!hasEnabledProvider && settings?.localLogin !== "admins"}>
+                Admins only (break-glass)
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            With "Admins only", everyone else must use single sign-on and self-registration is closed.
+            Keep at least one local admin password so you can get in if the provider is down.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Identity Providers</h4>
+            <Button size="sm" onClick={openNew} data-testid="button-add-sso-provider">
+              <Plus className="mr-1 h-4 w-4" />
+              Add Provider
+            </Button>
+          </div>
+
+          {!settings?.providers.length ? (
+            <p className="text-sm text-muted-foreground">No providers configured. Users sign in with a username and password.</p>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Issuer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settings.providers.map((provider) => (
+                    <TableRow key={provider.key} data-testid={`row-sso-provider-${provider.key}`}>
+                      <TableCell>
+                        <div className="font-medium">{provider.displayName}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{provider.key}</div>
+                      </TableCell>
+                      <TableCell className="text-sm font-mono break-all">{provider.issuer}</TableCell>
+                      <TableCell>
+                        <Badge variant={provider.enabled ? "default" : "secondary"}>
+                          {provider.enabled ? "Enabled" : "Disabled"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openEdit(provider)}
+                          data-testid={`button-edit-sso-provider-${provider.key}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteProviderMutation.mutate(provider.key)}
+                          disabled={deleteProviderMutation.isPending}
+                          data-testid={`button-delete-sso-provider-${provider.key}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isNew ? "Add Identity Provider" : `Edit ${form.displayName}`}</DialogTitle>
+            <DialogDescription>
+              Register BizGov as a web application with the provider, using the callback URL below as the redirect URI.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-key">Provider Key</Label>
+                <Input
+                  id="sso-key"
+                  value={form.key}
+                  onChange={(e) => setForm({ ...form, key: e.target.value.toLowerCase() })}
+                  placeholder="e.g. entra"
+                  disabled={!isNew}
+                  className={form.key && keyInvalid ? "border-destructive" : ""}
+                  data-testid="input-sso-key"
+                />
+                <p className="text-xs text-muted-foreground">Lowercase letters, digits and hyphens. Cannot be changed later.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-display-name">Button Label</Label>
+                <Input
+                  id="sso-display-name"
+                  value={form.displayName}
+                  onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                  placeholder="e.g. Microsoft"
+                  data-testid="input-sso-display-name"
+                />
+              </div>
+            </div>
+
+            {callbackUrl && (
+              <div className="space-y-2">
+                <Label>Callback URL</Label>
+                <Input value={callbackUrl} readOnly className="font-mono text-xs" data-testid="input-sso-callback-url" />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="sso-issuer">Issuer URL</Label>
+              <Input
+                id="sso-issuer"
+                value={form.issuer}
+                onChange={(e) => setForm({ ...form, issuer: e.target.value })}
+                placeholder="https://login.microsoftonline.com/<tenant-id>/v2.0"
+                data-testid="input-sso-issuer"
+              />
+              <p className="text-xs text-muted-foreground">
+                Endpoints are discovered from the issuer. Google uses https://accounts.google.com.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-client-id">Client ID</Label>
+                <Input
+                  id="sso-client-id"
+                  value={form.clientId}
+                  onChange={(e) => setForm({ ...form, clientId: e.target.value })}
+                  data-testid="input-sso-client-id"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-client-secret">Client Secret</Label>
+                <Input
+                  id="sso-client-secret"
+                  type="password"
+                  value={form.clientSecret}
+                  onChange={(e) => setForm({ ...form, clientSecret: e.target.value })}
+                  placeholder={isNew ? "" : "Leave blank to keep existing"}
+                  data-testid="input-sso-client-secret"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-scopes">Scopes</Label>
+                <Input
+                  id="sso-scopes"
+                  value={form.scopes}
+                  onChange={(e) => setForm({ ...form, scopes: e.target.value })}
+                  data-testid="input-sso-scopes"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-role-claim">Role Claim</Label>
+                <Input
+                  id="sso-role-claim"
+                  value={form.roleClaim}
+                  onChange={(e) => setForm({ ...form, roleClaim: e.target.value })}
+                  placeholder="groups"
+                  data-testid="input-sso-role-claim"
+                />
+                <p className="text-xs text-muted-foreground">e.g. groups, roles, or hd for a Google Workspace domain</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-admin-values">Admin Values</Label>
+                <Textarea
+                  id="sso-admin-values"
+                  value={form.adminValues}
+                  onChange={(e) => setForm({ ...form, adminValues: e.target.value })}
+                  placeholder="One group ID or role per line"
+                  rows={3}
+                  data-testid="input-sso-admin-values"
+                />
+                <p className="text-xs text-muted-foreground">
+                  When set, roles are updated at every sign-in: members become admins, everyone else users.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-user-values">Allowed User Values</Label>
+                <Textarea
+                  id="sso-user-values"
+                  value={form.userValues}
+                  onChange={(e) => setForm({ ...form, userValues: e.target.value })}
+                  placeholder="Leave empty to allow everyone"
+                  rows={3}
+                  data-testid="input-sso-user-values"
+                />
+                <p className="text-xs text-muted-foreground">Users without one of these values (or an admin value) are refused.</p>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sso-enabled" className="font-normal">Show on the sign-in page</Label>
+                <Switch
+                  id="sso-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                  data-testid="switch-sso-enabled"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sso-auto-provision" className="font-normal">Create accounts on first sign-in</Label>
+                <Switch
+                  id="sso-auto-provision"
+                  checked={form.autoProvision}
+                  onCheckedChange={(autoProvision) => setForm({ ...form, autoProvision })}
+                  data-testid="switch-sso-auto-provision"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sso-link-existing" className="font-normal">Link to existing accounts with the same verified email</Label>
+                <Switch
+                  id="sso-link-existing"
+                  checked={form.linkExistingUsers}
+                  onCheckedChange={(linkExistingUsers) => setForm({ ...form, linkExistingUsers })}
+                  data-testid="switch-sso-link-existing"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only link by email if the provider verifies addresses; otherwise anyone who controls a matching address could take over the account.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveProviderMutation.mutate()}
+              disabled={
+                keyInvalid ||
+                !form.displayName.trim() ||
+                !form.issuer.trim() ||
+                !form.clientId.trim() ||
+                saveProviderMutation.isPending
+              }
+              data-testid="button-save-sso-provider"
+            >
+              {saveProviderMutation.isPending ? "Saving..." : "Save Provider"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
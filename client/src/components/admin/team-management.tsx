@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Users, Plus, Pencil, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { assignableUsers, useTeams, useUserDirectory, userDisplayName, type TeamWithMembers } from "@/hooks/use-assignees";
+
+interface TeamFormState {
+  name: string;
+  description: string;
+  email: string;
+  memberIds: string[];
+}
+
+const emptyTeam: TeamFormState = { name: "", description: "", email: "", memberIds: [] };
+
+export default function TeamManagement() {
+  const { toast } = useToast();
+  const { data: teams } = useTeams();
+  const { data: directory } = useUserDirectory();
+  const [editingTeam, setEditingTeam] = useState<TeamWithMembers | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TeamFormState>(emptyTeam);
+
+  const openCreate = () => {
+    setEditingTeam(null);
+    setForm(emptyTeam);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (team: TeamWithMembers) => {
+    setEditingTeam(team);
+    setForm({
+      name: team.name,
+      description: team.description || "",
+      email: team.email || "",
+      memberIds: team.memberIds,
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleMember = (userId: string) => {
+    setForm(prev => ({
+      ...prev,
+      memberIds: prev.memberIds.includes(userId)
+        ? prev.memberIds.filter(id => id !== userId)
+        : [...prev.memberIds, userId],
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        email: form.email.trim() || null,
+        memberIds: form.memberIds,
+      };
+      if (editingTeam) {
+        await apiRequest("PUT", `/api/teams/${editingTeam.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/teams", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      setDialogOpen(false);
+      toast({
+        title: editingTeam ? "Team Updated" : "Team Created",
+        description: `${form.name} has been saved.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/teams/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      toast({ title: "Team Deleted", description: "Items assigned to the team are now unassigned from it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const memberNames = (team: TeamWithMembers) =>
+    team.memberIds
+      .map(id => directory?.find(u => u.id === id))
+      .filter(Boolean)
+      .map(u => userDisplayName(u!))
+      .join(", ");
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Users className="mr-2 h-5 w-5" />
+              Teams
+            </CardTitle>
+            <CardDescription>
+              Group users so compliance items can be assigned to a team. Members see team items under My Items.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} data-testid="button-add-team">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Team
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!teams || teams.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No teams yet.</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Alert Email</TableHead>
+                  <TableHead>Members</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map((team) => (
+                  <TableRow key={team.id} data-testid={`row-team-${team.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{team.name}</div>
+                      {team.description && <div className="text-xs text-muted-foreground">{team.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{team.email || "—"}</TableCell>
+                    <TableCell className="text-sm">{memberNames(team) || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(team)} data-testid={`button-edit-team-${team.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(team.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-team-${team.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTeam ? "Edit Team" : "Add Team"}</DialogTitle>
+            <DialogDescription>
+              Alerts for items assigned to the team without an individual assignee go to the team email.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name</Label>
+              <Input
+                id="team-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-team-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-description">Description</Label>
+              <Textarea
+                id="team-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="textarea-team-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-email">Alert Email</Label>
+              <Input
+                id="team-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="finance@healthtrixss.com"
+                data-testid="input-team-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                {assignableUsers(directory, form.memberIds).map((user) => (
+                  <div key={user.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`team-member-${user.id}`}
+                      checked={form.memberIds.includes(user.id)}
+                      onCheckedChange={() => toggleMember(user.id)}
+                      data-testid={`checkbox-team-member-${user.id}`}
+                    />
+                    <Label htmlFor={`team-member-${user.id}`} className="text-sm font-normal">
+                      {userDisplayName(user)}
+                      {user.email && <span className="text-muted-foreground"> ({user.email})</span>}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || saveMutation.isPending}
+              data-testid="button-save-team"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Team"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Organization } from "@shared/schema";
+import { ROLES, ROLE_DEFINITIONS, type Role } from "@shared/permissions";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface UserAccess {
+  role: Role;
+  allOrganizations: boolean;
+  organizationIds: string[];
+}
+
+interface UserAccessFieldsProps {
+  idPrefix: string;
+  value: UserAccess;
+  onChange: (value: UserAccess) => void;
+}
+
+export default function UserAccessFields({ idPrefix, value, onChange }: UserAccessFieldsProps) {
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const toggleOrganization = (organizationId: string, checked: boolean) => {
+    const organizationIds = checked
+      ? [...value.organizationIds, organizationId]
+      : value.organizationIds.filter(id => id !== organizationId);
+    onChange({ ...value, organizationIds });
+  };
+
+  return (
+    <>
+      <div>
+        <Label htmlFor={`${idPrefix}-role`}>Role</Label>
+        <Select value={value.role} onValueChange={(role: Role) => onChange({ ...value, role })}>
+          <SelectTrigger id={`${idPrefix}-role`} data-testid={`select-${idPrefix}-role`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLES.map(role => (
+              <SelectItem key={role} value={role}>{ROLE_DEFINITIONS[role].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground mt-1">{ROLE_DEFINITIONS[value.role].description}</p>
+      </div>
+
+      {value.role !== "admin" && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`${idPrefix}-all-organizations`}>Access to all organizations</Label>
+            <Switch
+              id={`${idPrefix}-all-organizations`}
+              checked={value.allOrganizations}
+              onCheckedChange={(allOrganizations) => onChange({ ...value, allOrganizations })}
+              data-testid={`switch-${idPrefix}-all-organizations`}
+            />
+          </div>
+          {!value.allOrganizations && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Only records belonging to the selected organizations are visible to this user.
+              </p>
+              <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-2">
+                {organizations?.length ? organizations.map(org => (
+                  <label key={org.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={value.organizationIds.includes(org.id)}
+                      onCheckedChange={(checked) => toggleOrganization(org.id, checked === true)}
+                      data-testid={`checkbox-${idPrefix}-organization-${org.id}`}
+                    />
+                    {org.name}
+                  </label>
+                )) : (
+                  <p className="text-sm text-muted-foreground">No organizations yet.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
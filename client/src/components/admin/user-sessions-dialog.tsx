@@ -0,0 +1,87 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import SessionList, { type SessionSummary } from "@/components/account/session-list";
+
+interface UserSessionsDialogProps {
+  user: { id: string; username: string } | null;
+  onClose: () => void;
+}
+
+// Where a user is signed in; an admin can end one session or all of them, e.g. for a lost laptop
+export default function UserSessionsDialog({ user, onClose }: UserSessionsDialogProps) {
+  const { toast } = useToast();
+  const queryKey = [`/api/users/${user?.id}/sessions`];
+
+  const { data: sessions, isLoading } = useQuery<SessionSummary[]>({
+    queryKey,
+    enabled: !!user,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("POST", `/api/users/${user?.id}/sessions/${sessionId}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Session Ended" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign Out Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async (): Promise<{ count: number }> => {
+      const response = await apiRequest("POST", `/api/users/${user?.id}/sessions/revoke`);
+      return response.json();
+    },
+    onSuccess: ({ count }) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "User Signed Out", description: `${count} session${count === 1 ? "" : "s"} ended.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign Out Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revocable = sessions?.filter((session) => !session.current).length ?? 0;
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sessions for {user?.username}</DialogTitle>
+          <DialogDescription>
+            Browsers where this user is signed in. Changing their password or role signs them out everywhere.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <SessionList
+            sessions={sessions ?? []}
+            onRevoke={(session) => revokeMutation.mutate(session.id)}
+            revoking={revokeMutation.isPending}
+            emptyMessage="This user is not signed in anywhere."
+          />
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button
+            variant="destructive"
+            onClick={() => revokeAllMutation.mutate()}
+            disabled={revocable === 0 || revokeAllMutation.isPending}
+            data-testid="button-revoke-all-sessions"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {revokeAllMutation.isPending ? "Signing Out..." : "Sign Out Everywhere"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+// Asks for the account's email address; the server emails a reset link if it knows the address
+export default function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async (): Promise<{ message: string }> => {
+      const response = await apiRequest("POST", "/api/password-reset/request", { email });
+      return response.json();
+    },
+  });
+
+  if (requestMutation.isSuccess) {
+    return (
+      <div className="space-y-4">
+        <Alert data-testid="alert-reset-requested">
+          <AlertDescription>
+            {requestMutation.data.message} The link expires in an hour. Check your junk folder if it does not arrive.
+          </AlertDescription>
+        </Alert>
+        <Button variant="ghost" className="w-full" onClick={onBack}>Back to sign in</Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        requestMutation.mutate();
+      }}
+    >
+      <div>
+        <p className="text-sm font-medium">Reset your password</p>
+        <p className="text-xs text-muted-foreground">Enter the email address on your account and we will send you a reset link.</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reset-email">Email</Label>
+        <Input
+          id="reset-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          autoFocus
+          required
+          data-testid="input-reset-email"
+        />
+      </div>
+      {requestMutation.error && (
+        <Alert variant="destructive">
+          <AlertDescription>{requestMutation.error.message}</AlertDescription>
+        </Alert>
+      )}
+      <Button
+        type="submit"
+        className="w-full bg-ht-blue hover:bg-ht-blue/90"
+        disabled={requestMutation.isPending}
+        data-testid="button-request-reset"
+      >
+        {requestMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          "Send Reset Link"
+        )}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>Back to sign in</Button>
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import MfaEnrollment from "@/components/account/mfa-enrollment";
+import RecoveryCodes from "@/components/account/recovery-codes";
+import TotpCodeInput from "@/components/account/totp-code-input";
+
+type MfaLoginResult = User & { recoveryCodes?: string[] };
+
+interface MfaLoginStepProps {
+  setupRequired: boolean;
+  onCancel: () => void;
+}
+
+// API errors arrive as "401: {json}"; show just the message
+function errorMessage(error: Error | null) {
+  if (!error) return null;
+  const match = error.message.match(/^\d+: (.*)$/);
+  try {
+    return match ? JSON.parse(match[1]).error || match[1] : error.message;
+  } catch {
+    return match ? match[1] : error.message;
+  }
+}
+
+// Second sign-in step after the password: a code from the authenticator app, a recovery code,
+// or, when policy requires MFA and none is set up yet, enrollment
+export default function MfaLoginStep({ setupRequired, onCancel }: MfaLoginStepProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [signedIn, setSignedIn] = useState<MfaLoginResult | null>(null);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (input: { code?: string; recoveryCode?: string }): Promise<MfaLoginResult> => {
+      const response = await apiRequest("POST", "/api/login/mfa", input);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.recoveryCodes) {
+        // Show the new recovery codes before leaving the sign-in page
+        setSignedIn(result);
+      } else {
+        queryClient.setQueryData(["/api/user"], result);
+      }
+    },
+    onError: () => setCode(""),
+  });
+
+  if (signedIn?.recoveryCodes) {
+    const { recoveryCodes, ...user } = signedIn;
+    return (
+      <div className="space-y-4">
+        <p className="text-sm font-medium">Two-step verification is on.</p>
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button className="w-full" onClick={() => { queryClient.setQueryData(["/api/user"], user); }} data-testid="button-mfa-continue">
+          Continue to BizGov
+        </Button>
+      </div>
+    );
+  }
+
+  if (setupRequired) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium">Set up two-step verification</p>
+          <p className="text-xs text-muted-foreground">Your organization requires an authenticator app for password sign-in.</p>
+        </div>
+        <MfaEnrollment
+          setupUrl="/api/login/mfa/setup"
+          onVerify={(value) => verifyMutation.mutate({ code: value })}
+          isVerifying={verifyMutation.isPending}
+          error={errorMessage(verifyMutation.error)}
+        />
+        <Button variant="ghost" className="w-full" onClick={onCancel}>Back to sign in</Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        verifyMutation.mutate(useRecoveryCode ? { recoveryCode } : { code });
+      }}
+    >
+      <div>
+        <p className="text-sm font-medium">Two-step verification</p>
+        <p className="text-xs text-muted-foreground">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up your authenticator."
+            : "Enter the six-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="mfa-recovery-code">Recovery Code</Label>
+          <Input
+            id="mfa-recovery-code"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="xxxx-xxxx-xxxx"
+            autoComplete="off"
+            autoFocus
+            data-testid="input-mfa-recovery-code"
+          />
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => verifyMutation.mutate({ code: value })}
+            disabled={verifyMutation.isPending}
+          />
+        </div>
+      )}
+
+      {verifyMutation.error && (
+        <Alert variant="destructive">
+          <AlertDescription>{errorMessage(verifyMutation.error)}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full bg-ht-blue hover:bg-ht-blue/90"
+        disabled={verifyMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+        data-testid="button-verify-mfa"
+      >
+        {verifyMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={() => setUseRecoveryCode(!useRecoveryCode)} data-testid="button-toggle-recovery-code">
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+        <Button type="button" variant="link" className="px-0" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    </form>
+  );
+}
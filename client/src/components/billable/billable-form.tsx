@@ -16,11 +16,16 @@ import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { RATE_UNIT_LABELS, rateOn } from "@shared/rate-cards";
+import type { RateCardResponse } from "@/components/contracts/contract-rate-card";
+
+const OFF_CARD = "__off_card__";
 
 const formSchema = z.object({
   customerId: z.string().min(1, "Organization is required"),
   contractId: z.string().optional(),
   complianceItemId: z.string().optional(),
+  rateCardLineId: z.string().optional(),
   description: z.string().min(1, "Description is required"),
   rate: z.string().min(1, "Rate is required"),
   units: z.string().min(1, "Units is required"),
@@ -46,6 +51,7 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
       customerId: event?.customerId || "",
       contractId: event?.contractId || "",
       complianceItemId: event?.complianceItemId || "",
+      rateCardLineId: event?.rateCardLineId || (event ? OFF_CARD : ""),
       description: event?.description || "",
       rate: event?.rate || "",
       units: event?.units || "",
@@ -68,6 +74,23 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
     enabled: !!form.watch("customerId"),
   });
 
+  const selectedContractId = form.watch("contractId");
+  const { data: rateCard } = useQuery<RateCardResponse>({
+    queryKey: [`/api/contracts/${selectedContractId}/rate-card`],
+    enabled: !!selectedContractId && selectedContractId !== "__none__",
+  });
+  const rateCardLines = selectedContractId && selectedContractId !== "__none__" ? rateCard?.lines ?? [] : [];
+  const selectedLine = rateCardLines.find((line) => line.id === form.watch("rateCardLineId"));
+  const billingDate = form.watch("billingDate");
+  const cardRate = selectedLine && rateCard && billingDate ? rateOn(selectedLine, rateCard.optionPeriods, billingDate) : null;
+
+  // Picking a line, or moving the billing date, prices the event from the card
+  const applyCardRate = (lineId: string | undefined, billingDate: Date | undefined) => {
+    const line = rateCardLines.find((l) => l.id === lineId);
+    const resolved = line && rateCard && billingDate ? rateOn(line, rateCard.optionPeriods, billingDate) : null;
+    if (resolved) form.setValue("rate", resolved.rate.toFixed(2));
+  };
+
   const rate = parseFloat(form.watch("rate") || "0");
   const units = parseFloat(form.watch("units") || "0");
   const totalAmount = rate * units;
@@ -82,6 +105,7 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
         billingDate: data.billingDate.toISOString(),
         contractId: (data.contractId && data.contractId !== "__none__") ? data.contractId : null,
         complianceItemId: (data.complianceItemId && data.complianceItemId !== "__none__") ? data.complianceItemId : null,
+        rateCardLineId: selectedLine ? selectedLine.id : null,
       };
       
       if (isEditing) {
@@ -92,18 +116,38 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
         return response.json();
       }
     },
-    onSuccess: () => {
+    onSuccess: (result: { ceilingWarning?: string; offCardReason?: string | null }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/billable-events"] });
-      toast({
-        title: isEditing ? "Event Updated" : "Event Created",
-        description: `Billable event has been ${isEditing ? "updated" : "created"} successfully.`,
-      });
+      // Billing also counts toward the burn-down and roll-up of every parent contract
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).endsWith("/burn-down") });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts/hierarchy"] });
+      if (result.ceilingWarning) {
+        toast({
+          title: "Contract Ceiling Exceeded",
+          description: `${result.ceilingWarning}. The event was saved.`,
+          variant: "destructive",
+        });
+      } else if (result.offCardReason) {
+        toast({
+          title: "Billed Off Rate Card",
+          description: `${result.offCardReason}. The event was saved and flagged for review.`,
+        });
+      } else {
+        toast({
+          title: isEditing ? "Event Updated" : "Event Created",
+          description: `Billable event has been ${isEditing ? "updated" : "created"} successfully.`,
+        });
+      }
       onSuccess();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
+      // A blocked over-ceiling event comes back as a 409 with the reason in the body
+      const ceilingError = error.message.startsWith("409:")
+        ? (JSON.parse(error.message.slice(4)) as { error?: string }).error
+        : undefined;
       toast({
         title: isEditing ? "Update Failed" : "Creation Failed",
-        description: `Failed to ${isEditing ? "update" : "create"} billable event.`,
+        description: ceilingError || `Failed to ${isEditing ? "update" : "create"} billable event.`,
         variant: "destructive",
       });
     },
@@ -159,7 +203,13 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Contract (Optional)</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("rateCardLineId", "");
+                      }}
+                      defaultValue={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-contract">
                           <SelectValue placeholder="Select contract..." />
@@ -225,6 +275,56 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
               )}
             />
             
+            {rateCardLines.length > 0 && (
+              <FormField
+                control={form.control}
+                name="rateCardLineId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Rate Card Line
+                      {rateCard?.ownerContractId !== selectedContractId && rateCard?.ownerTitle && (
+                        <span className="font-normal text-muted-foreground"> (from {rateCard.ownerTitle})</span>
+                      )}
+                    </FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        applyCardRate(value, form.getValues("billingDate"));
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-rate-card-line">
+                          <SelectValue placeholder="Select labor category or service item..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rateCardLines.map((line) => (
+                          <SelectItem key={line.id} value={line.id}>
+                            {line.name} (per {RATE_UNIT_LABELS[line.unit].toLowerCase()})
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={OFF_CARD}>Off-card rate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {!selectedLine && field.value === OFF_CARD && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">Off-card events are flagged for review.</p>
+                    )}
+                    {selectedLine && !cardRate && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">This line has no rate effective on the billing date.</p>
+                    )}
+                    {cardRate && Math.abs(cardRate.rate - rate) >= 0.005 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        The card rate is ${cardRate.rate.toFixed(2)}; a different rate will be flagged as off-card.
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
@@ -307,7 +407,10 @@ export default function BillableForm({ onClose, onSuccess, event }: BillableForm
                         <Calendar
                           mode="single"
                           selected={field.value}
-                          onSelect={field.onChange}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            applyCardRate(form.getValues("rateCardLineId"), date);
+                          }}
                           initialFocus
                         />
                       </PopoverContent>
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { CalendarFeed, Contract, Organization } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarPlus, Copy, ExternalLink, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type FeedScope = CalendarFeed["scope"];
+type FeedSummary = Omit<CalendarFeed, "tokenHash">;
+
+const SCOPE_LABELS: Record<FeedScope, string> = {
+  user: "My items",
+  organization: "Organization",
+  contract: "Contract",
+};
+
+interface CalendarFeedsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  defaultScope?: FeedScope;
+  organizationId?: string;
+  contractId?: string;
+}
+
+export default function CalendarFeedsDialog({ open, onClose, defaultScope = "user", organizationId, contractId }: CalendarFeedsDialogProps) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<FeedScope>(defaultScope);
+  const [selectedOrganizationId, setSelectedOrganizationId] = useState(organizationId || "");
+  const [selectedContractId, setSelectedContractId] = useState(contractId || "");
+  const [name, setName] = useState("");
+  const [newFeedUrl, setNewFeedUrl] = useState<string | null>(null);
+
+  const { data: feeds } = useQuery<FeedSummary[]>({
+    queryKey: ["/api/calendar-feeds"],
+    enabled: open,
+  });
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: open,
+  });
+
+  const { data: contracts } = useQuery<Contract[]>({
+    queryKey: ["/api/contracts"],
+    enabled: open,
+  });
+
+  const getTargetName = (feed: FeedSummary) => {
+    if (feed.scope === "contract") return contracts?.find(c => c.id === feed.contractId)?.title;
+    if (feed.scope === "organization") return organizations?.find(o => o.id === feed.organizationId)?.name;
+    return null;
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar-feeds", {
+        scope,
+        organizationId: scope === "organization" ? selectedOrganizationId : null,
+        contractId: scope === "contract" ? selectedContractId : null,
+        name: name.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (feed: FeedSummary & { url: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      setNewFeedUrl(feed.url);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Feed Not Created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/calendar-feeds/${id}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      toast({ title: "Feed Revoked", description: "Calendars subscribed to this feed will stop updating." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!newFeedUrl) return;
+    await navigator.clipboard.writeText(newFeedUrl);
+    toast({ title: "Copied", description: "Feed URL copied to the clipboard." });
+  };
+
+  const handleClose = () => {
+    setNewFeedUrl(null);
+    onClose();
+  };
+
+  const canCreate =
+    scope === "user" ||
+    (scope === "organization" && !!selectedOrganizationId) ||
+    (scope === "contract" && !!selectedContractId);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-calendar-feeds">
+        <DialogHeader>
+          <DialogTitle>Calendar Subscriptions</DialogTitle>
+          <DialogDescription>
+            Subscribe to compliance deadlines and contract end dates from Outlook, Google Calendar or any
+            calendar app that accepts an ICS URL. Subscribed calendars update as items change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Feed Contents</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as FeedScope)}>
+                <SelectTrigger data-testid="select-feed-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">Items assigned to me or my teams</SelectItem>
+                  <SelectItem value="organization">One organization</SelectItem>
+                  <SelectItem value="contract">One contract</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scope === "organization" && (
+              <div className="space-y-2">
+                <Label>Organization</Label>
+                <Select value={selectedOrganizationId} onValueChange={setSelectedOrganizationId}>
+                  <SelectTrigger data-testid="select-feed-organization">
+                    <SelectValue placeholder="Select an organization..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {organizations?.map((org) => (
+                      <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {scope === "contract" && (
+              <div className="space-y-2">
+                <Label>Contract</Label>
+                <Select value={selectedContractId} onValueChange={setSelectedContractId}>
+                  <SelectTrigger data-testid="select-feed-contract">
+                    <SelectValue placeholder="Select a contract..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contracts?.map((contract) => (
+                      <SelectItem key={contract.id} value={contract.id}>{contract.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="feed-name">Calendar Name</Label>
+            <Input
+              id="feed-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Optional, shown in your calendar app"
+              maxLength={100}
+              data-testid="input-feed-name"
+            />
+          </div>
+
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canCreate || createMutation.isPending}
+            data-testid="button-create-feed"
+          >
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Creating..." : "Create Feed URL"}
+          </Button>
+
+          {newFeedUrl && (
+            <Alert data-testid="alert-new-feed-url">
+              <AlertDescription className="space-y-2">
+                <p className="text-sm">
+                  Copy this URL now. It is not shown again; if you lose it, revoke the feed and create a new one.
+                  Anyone with the URL can read the feed.
+                </p>
+                <div className="flex gap-2">
+                  <Input value={newFeedUrl} readOnly className="font-mono text-xs" data-testid="input-new-feed-url" />
+                  <Button variant="outline" size="icon" onClick={copyUrl} title="Copy URL" data-testid="button-copy-feed-url">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" asChild title="Open in calendar app">
+                    <a href={newFeedUrl.replace(/^https?:/, "webcal:")} data-testid="link-subscribe-feed">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Separator />
+
+          <div>
+            <div className="text-sm font-semibold mb-2">Your Feeds</div>
+            {!feeds || feeds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no calendar feeds.</p>
+            ) : (
+              <ul className="space-y-2">
+                {feeds.map((feed) => (
+                  <li key={feed.id} className="flex items-center justify-between gap-4 border rounded-lg p-3" data-testid={`row-feed-${feed.id}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{feed.name}</span>
+                        <Badge variant="secondary">{SCOPE_LABELS[feed.scope]}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {getTargetName(feed) && <>{getTargetName(feed)} · </>}
+                        Created {format(new Date(feed.createdAt), "MMM dd, yyyy")}
+                        {" · "}
+                        {feed.lastAccessedAt
+                          ? `Last synced ${format(new Date(feed.lastAccessedAt), "MMM dd, yyyy HH:mm")}`
+                          : "Never synced"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(feed.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-feed-${feed.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
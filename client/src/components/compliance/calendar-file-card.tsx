@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Organization } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CheckCircle, Download, FileCode, RefreshCw, Upload } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarIssue {
+  line: number | null;
+  column: number | null;
+  path: string;
+  message: string;
+}
+
+interface CalendarImportResult {
+  organizations: { created: number; updated: number; unchanged: number };
+  contracts: { created: number; updated: number; unchanged: number };
+  items: { imported: number; updated: number; skipped: number };
+}
+
+// apiRequest errors look like `400: {"error": "...", "issues": [...]}`
+function parseImportError(error: Error): { message: string; issues: CalendarIssue[] } {
+  const match = error.message.match(/^\d+:\s*(\{[\s\S]*\})$/);
+  if (match) {
+    try {
+      const data = JSON.parse(match[1]);
+      return { message: data.error || error.message, issues: data.issues || [] };
+    } catch {
+      // Fall through to the raw message
+    }
+  }
+  return { message: error.message, issues: [] };
+}
+
+export default function CalendarFileCard() {
+  const { toast } = useToast();
+  const [exportOrganizationId, setExportOrganizationId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [duplicateHandling, setDuplicateHandling] = useState<"skip" | "update">("skip");
+  const [issues, setIssues] = useState<CalendarIssue[]>([]);
+  const [validated, setValidated] = useState(false);
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const query = exportOrganizationId ? `?organizationId=${exportOrganizationId}` : "";
+      return apiRequest("GET", `/api/compliance-calendar/export${query}`);
+    },
+    onSuccess: async (response) => {
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `compliance-calendar-${new Date().toISOString().split('T')[0]}.yaml`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({ title: "Export Failed", description: "Failed to export compliance calendar.", variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append('file', file!);
+      formData.append('duplicateHandling', duplicateHandling);
+      if (dryRun) formData.append('dryRun', 'true');
+      const response = await apiRequest("POST", "/api/compliance-calendar/import", formData);
+      return response.json();
+    },
+    onSuccess: (result, dryRun) => {
+      setIssues([]);
+      if (dryRun) {
+        setValidated(true);
+        toast({
+          title: "Calendar Is Valid",
+          description: `${result.organizations} organizations, ${result.contracts} contracts and ${result.complianceItems} compliance items.`,
+        });
+        return;
+      }
+
+      const { organizations, contracts, items } = result as CalendarImportResult;
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      toast({
+        title: "Calendar Imported",
+        description: `Organizations: ${organizations.created} created, ${organizations.updated} updated. ` +
+          `Contracts: ${contracts.created} created, ${contracts.updated} updated. ` +
+          `Items: ${items.imported} imported, ${items.updated} updated, ${items.skipped} skipped.`,
+      });
+      setFile(null);
+      setValidated(false);
+    },
+    onError: (error: Error) => {
+      const { message, issues } = parseImportError(error);
+      setIssues(issues);
+      setValidated(false);
+      toast({ title: "Calendar Import Failed", description: message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileCode className="w-5 h-5 mr-2" />
+          YAML Compliance Calendar
+        </CardTitle>
+        <CardDescription>
+          Keep organizations, contracts and compliance items in a YAML file that can be version-controlled in git
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Export Calendar</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Download the current calendar. Recurring items are written once per series with their recurrence rule.
+          </p>
+          <div className="flex items-end gap-3">
+            <div className="w-64">
+              <Label>Organization</Label>
+              <Select
+                value={exportOrganizationId || "__all__"}
+                onValueChange={(value) => setExportOrganizationId(value === "__all__" ? "" : value)}
+              >
+                <SelectTrigger className="mt-1" data-testid="select-calendar-export-organization">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__all__">All organizations</SelectItem>
+                  {organizations?.map((org) => (
+                    <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => exportMutation.mutate()}
+              disabled={exportMutation.isPending}
+              data-testid="button-export-calendar"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {exportMutation.isPending ? "Exporting..." : "Export YAML"}
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Import Calendar</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            The whole file is checked first and nothing is imported if any line has an error. See the{" "}
+            <a href="/api/compliance-calendar/spec" target="_blank" rel="noreferrer" className="text-primary hover:underline">
+              calendar format specification
+            </a>.
+          </p>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="calendar-file">Select YAML file</Label>
+                <Input
+                  id="calendar-file"
+                  type="file"
+                  accept=".yaml,.yml"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setIssues([]);
+                    setValidated(false);
+                  }}
+                  className="mt-1"
+                  data-testid="input-calendar-file"
+                />
+              </div>
+              <div>
+                <Label>Existing Records</Label>
+                <Select value={duplicateHandling} onValueChange={(value) => setDuplicateHandling(value as "skip" | "update")}>
+                  <SelectTrigger className="mt-1" data-testid="select-calendar-duplicates">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip (keep current values)</SelectItem>
+                    <SelectItem value="update">Update from file</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => importMutation.mutate(true)}
+                disabled={!file || importMutation.isPending}
+                data-testid="button-validate-calendar"
+              >
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Validate
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={!file || importMutation.isPending}
+                className="bg-secondary text-secondary-foreground hover:bg-secondary/90"
+                data-testid="button-import-calendar"
+              >
+                {importMutation.isPending ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Import Calendar
+              </Button>
+            </div>
+
+            {validated && (
+              <p className="text-sm text-green-600" data-testid="text-calendar-valid">
+                {file?.name} is valid and ready to import.
+              </p>
+            )}
+
+            {issues.length > 0 && (
+              <Alert variant="destructive" data-testid="alert-calendar-issues">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="space-y-1 text-sm font-mono">
+                    {issues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.line !== null ? `Line ${issue.line}, column ${issue.column}` : "File"}
+                        {issue.path && <span className="text-muted-foreground"> ({issue.path})</span>}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,10 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { ComplianceItem, Organization } from "@shared/schema";
+import { ComplianceItem, Contract, Organization } from "@shared/schema";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, Check } from "lucide-react";
+import { ChevronLeft, ChevronRight, Send, Repeat, RefreshCw } from "lucide-react";
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isSameMonth, addMonths, subMonths, startOfWeek, endOfWeek, parseISO } from "date-fns";
 import {
   Dialog,
@@ -22,14 +22,24 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getOccurrences, describeRecurrenceRule } from "@shared/recurrence";
+import { renewalStatus } from "@shared/renewals";
+import { useReviewAction, SUBMITTABLE_STATUSES } from "@/hooks/use-review-workflow";
+
+// Future occurrence of a recurring item that has not been created yet
+interface ProjectedOccurrence {
+  item: ComplianceItem;
+  dueDate: Date;
+}
 
 interface ComplianceCalendarProps {
   items: ComplianceItem[];
   customers?: Organization[];
+  renewals?: Contract[]; // Contracts whose renewal notice deadlines are marked on the calendar
   onRefresh?: () => void;
 }
 
-export default function ComplianceCalendar({ items, customers, onRefresh }: ComplianceCalendarProps) {
+export default function ComplianceCalendar({ items, customers, renewals = [], onRefresh }: ComplianceCalendarProps) {
   const { toast } = useToast();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
@@ -37,11 +47,7 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ itemId, status }: { itemId: string; status: string }) => {
-      const updates: any = { status };
-      if (status === "complete") {
-        updates.completedAt = new Date().toISOString();
-      }
-      const response = await apiRequest("PUT", `/api/compliance-items/${itemId}`, updates);
+      const response = await apiRequest("PUT", `/api/compliance-items/${itemId}`, { status });
       return response.json();
     },
     onSuccess: () => {
@@ -53,10 +59,10 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
         description: "Compliance item status has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Failed to update compliance item status.",
+        description: error.message || "Failed to update compliance item status.",
         variant: "destructive",
       });
     },
@@ -69,6 +75,8 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
     },
   });
 
+  const reviewAction = useReviewAction(onRefresh);
+
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
   const calendarStart = startOfWeek(monthStart);
@@ -76,6 +84,48 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
   
   const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
+  // Project upcoming occurrences from the latest open occurrence of each series
+  const projectedOccurrences = useMemo(() => {
+    const latestBySeries = new Map<string, ComplianceItem>();
+    for (const item of items) {
+      if (!item.recurrenceRule || !item.dueDate || item.status === "complete") continue;
+      const key = item.seriesId || item.id;
+      const current = latestBySeries.get(key);
+      if (!current || new Date(item.dueDate) > new Date(current.dueDate!)) {
+        latestBySeries.set(key, item);
+      }
+    }
+
+    const projected: ProjectedOccurrence[] = [];
+    latestBySeries.forEach(item => {
+      try {
+        const dates = getOccurrences(item.recurrenceRule!, new Date(item.dueDate!), { limit: 24, until: calendarEnd });
+        dates.forEach(dueDate => projected.push({ item, dueDate }));
+      } catch {
+        // Ignore invalid rules in the preview; the server validates them on save
+      }
+    });
+    return projected;
+  }, [items, calendarEnd.getTime()]);
+
+  // Notice deadlines still awaiting a decision, keyed by their UTC calendar day
+  const noticeDeadlines = useMemo(() => {
+    return renewals.flatMap(contract => {
+      const status = renewalStatus(contract);
+      if (!contract.noticePeriodDays || !status.noticeDeadline || !status.decisionPending) return [];
+      return [{ contract, day: status.noticeDeadline.toISOString().slice(0, 10) }];
+    });
+  }, [renewals]);
+
+  const getNoticeDeadlinesForDate = (date: Date) => {
+    const day = format(date, "yyyy-MM-dd");
+    return noticeDeadlines.filter(deadline => deadline.day === day);
+  };
+
+  const getProjectedForDate = (date: Date) => {
+    return projectedOccurrences.filter(p => isSameDay(p.dueDate, date));
+  };
+
   const getItemsForDate = (date: Date) => {
     return items.filter(item => {
       if (!item.dueDate) return false;
@@ -101,6 +151,10 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
         return "bg-red-500/20 text-red-700 dark:text-red-400 border-red-500/50";
       case "pending":
         return "bg-yellow-500/20 text-yellow-700 dark:text-yellow-400 border-yellow-500/50";
+      case "in_review":
+        return "bg-blue-500/20 text-blue-700 dark:text-blue-400 border-blue-500/50";
+      case "rejected":
+        return "bg-orange-500/20 text-orange-700 dark:text-orange-400 border-orange-500/50";
       default:
         return "bg-gray-500/20 text-gray-700 dark:text-gray-400 border-gray-500/50";
     }
@@ -174,6 +228,8 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
         <div className="grid grid-cols-7">
           {calendarDays.map((day, index) => {
             const dayItems = getItemsForDate(day);
+            const dayProjected = getProjectedForDate(day);
+            const dayNotices = getNoticeDeadlinesForDate(day);
             const isCurrentMonth = isSameMonth(day, currentMonth);
             const isToday = isSameDay(day, new Date());
 
@@ -204,6 +260,22 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
                 </div>
                 
                 <div className="space-y-1">
+                  {dayNotices.map(({ contract }) => (
+                    <div
+                      key={`notice-${contract.id}`}
+                      className="w-full text-left p-1.5 rounded text-xs border bg-purple-500/20 text-purple-700 dark:text-purple-400 border-purple-500/50"
+                      title={`Renewal notice due for ${contract.title}`}
+                      data-testid={`calendar-notice-${contract.id}`}
+                    >
+                      <div className="font-medium truncate flex items-center gap-1">
+                        <RefreshCw className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">Notice: {contract.title}</span>
+                      </div>
+                      <div className="text-[10px] opacity-70 truncate">
+                        {getCustomerName(contract.customerId)}
+                      </div>
+                    </div>
+                  ))}
                   {dayItems.slice(0, 3).map((item) => (
                     <button
                       key={item.id}
@@ -213,14 +285,31 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
                       )} hover:opacity-80 transition-opacity`}
                       data-testid={`calendar-item-${item.id}`}
                     >
-                      <div className="font-medium truncate">
-                        {item.commitment}
+                      <div className="font-medium truncate flex items-center gap-1">
+                        {item.recurrenceRule && <Repeat className="h-3 w-3 flex-shrink-0" />}
+                        <span className="truncate">{item.commitment}</span>
                       </div>
                       <div className="text-[10px] opacity-70 truncate">
                         {getCustomerName(item.customerId)}
                       </div>
                     </button>
                   ))}
+                  {dayItems.length < 3 && dayProjected.slice(0, 3 - dayItems.length).map((projected) => (
+                    <div
+                      key={`${projected.item.id}-${projected.dueDate.toISOString()}`}
+                      className="w-full text-left p-1.5 rounded text-xs border border-dashed text-muted-foreground"
+                      title={`Projected: ${describeRecurrenceRule(projected.item.recurrenceRule)}`}
+                      data-testid={`calendar-projected-${projected.item.id}`}
+                    >
+                      <div className="font-medium truncate flex items-center gap-1">
+                        <Repeat className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{projected.item.commitment}</span>
+                      </div>
+                      <div className="text-[10px] opacity-70 truncate">
+                        Projected
+                      </div>
+                    </div>
+                  ))}
                   {dayItems.length > 3 && (
                     <button
                       onClick={() => setSelectedDate(day)}
@@ -276,6 +365,12 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
                     <span className="text-muted-foreground">Responsible:</span>
                     <span className="ml-2 font-medium">{item.responsibleParty}</span>
                   </div>
+                  {item.recurrenceRule && (
+                    <div className="col-span-2">
+                      <span className="text-muted-foreground">Repeats:</span>
+                      <span className="ml-2 font-medium">{describeRecurrenceRule(item.recurrenceRule)}</span>
+                    </div>
+                  )}
                   {item.completedAt && (
                     <div>
                       <span className="text-muted-foreground">Completed:</span>
@@ -314,26 +409,25 @@ export default function ComplianceCalendar({ items, customers, onRefresh }: Comp
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="complete">Complete</SelectItem>
                         <SelectItem value="overdue">Overdue</SelectItem>
                         <SelectItem value="na">N/A</SelectItem>
+                        <SelectItem value="in_review" disabled>In Review</SelectItem>
+                        <SelectItem value="rejected" disabled>Rejected</SelectItem>
+                        <SelectItem value="complete" disabled>Complete</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
-                  {item.status !== "complete" && (
+                  {SUBMITTABLE_STATUSES.includes(item.status) && (
                     <Button
                       variant="default"
                       size="sm"
                       className="mt-6"
-                      onClick={() => {
-                        setUpdatingItems(prev => new Set(prev).add(item.id));
-                        updateStatusMutation.mutate({ itemId: item.id, status: "complete" });
-                      }}
-                      disabled={updatingItems.has(item.id)}
-                      data-testid={`button-mark-complete-${item.id}`}
+                      onClick={() => reviewAction.mutate({ itemId: item.id, action: "submit-review" })}
+                      disabled={reviewAction.isPending}
+                      data-testid={`button-submit-review-${item.id}`}
                     >
-                      <Check className="h-4 w-4 mr-2" />
-                      Mark Complete
+                      <Send className="h-4 w-4 mr-2" />
+                      Submit for Review
                     </Button>
                   )}
                 </div>
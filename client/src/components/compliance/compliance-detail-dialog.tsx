@@ -1,9 +1,13 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ClipboardList, Calendar, Building2, User, X, Edit } from "lucide-react";
+import { ClipboardList, Calendar, Building2, User, Users, X, Edit, ShieldCheck } from "lucide-react";
 import { format } from "date-fns";
 import type { ComplianceItem } from "@shared/schema";
+import { parseEvidenceRequirements } from "@shared/calendar";
+import { useTeams, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
+import { formatStatus } from "@/hooks/use-review-workflow";
+import ReviewActions from "./review-actions";
 
 interface ComplianceDetailDialogProps {
   item: ComplianceItem | null;
@@ -20,6 +24,10 @@ const getStatusColor = (status: string) => {
       return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100";
     case "overdue":
       return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100";
+    case "in_review":
+      return "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-100";
+    case "rejected":
+      return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100";
     case "na":
       return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100";
     default:
@@ -52,8 +60,18 @@ export default function ComplianceDetailDialog({
   onEdit,
   organizationName
 }: ComplianceDetailDialogProps) {
+  const { data: directory } = useUserDirectory();
+  const { data: teams } = useTeams();
+
   if (!item) return null;
 
+  const assignee = directory?.find(u => u.id === item.assigneeId);
+  const team = teams?.find(t => t.id === item.teamId);
+  const nameOf = (userId: string | null) => {
+    const user = directory?.find(u => u.id === userId);
+    return user ? userDisplayName(user) : "Unknown user";
+  };
+
   return (
     <Dialog open={!!item} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl" data-testid="dialog-compliance-detail">
@@ -89,7 +107,7 @@ export default function ComplianceDetailDialog({
               <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Status</label>
               <div className="mt-1">
                 <Badge variant="secondary" className={getStatusColor(item.status)}>
-                  {item.status.toUpperCase()}
+                  {formatStatus(item.status)}
                 </Badge>
               </div>
             </div>
@@ -119,6 +137,18 @@ export default function ComplianceDetailDialog({
             </div>
           )}
 
+          {/* Evidence Requirements */}
+          {item.evidenceRequirements && (
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Evidence Required</label>
+              <ul className="mt-1 list-disc pl-5 text-sm text-foreground" data-testid="list-evidence-requirements">
+                {parseEvidenceRequirements(item.evidenceRequirements).map((requirement, index) => (
+                  <li key={index}>{requirement}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Organization */}
           {organizationName && (
             <div>
@@ -141,6 +171,56 @@ export default function ComplianceDetailDialog({
             </div>
           )}
 
+          {/* Assignment */}
+          {(assignee || team) && (
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Assigned To</label>
+              <div className="mt-1 flex flex-wrap items-center gap-4 p-3 bg-muted/50 rounded-lg" data-testid="text-compliance-assignment">
+                {assignee && (
+                  <span className="flex items-center gap-2 font-medium text-sm">
+                    <User className="h-4 w-4 text-primary" />
+                    {userDisplayName(assignee)}
+                    {assignee.email && <span className="text-muted-foreground font-normal">({assignee.email})</span>}
+                  </span>
+                )}
+                {team && (
+                  <span className="flex items-center gap-2 font-medium text-sm">
+                    <Users className="h-4 w-4 text-primary" />
+                    {team.name}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Review */}
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Review</label>
+            <div className="mt-1 space-y-3 p-3 bg-muted/50 rounded-lg" data-testid="section-compliance-review">
+              <div className="flex items-center gap-2 text-sm">
+                <ShieldCheck className="h-4 w-4 text-primary" />
+                <span className="font-medium">Reviewer:</span>
+                <span>{item.reviewerId ? nameOf(item.reviewerId) : "Any admin"}</span>
+              </div>
+              {item.submittedAt && (
+                <p className="text-sm text-muted-foreground">
+                  Submitted by {nameOf(item.submittedBy)} on {format(new Date(item.submittedAt), 'MMM dd, yyyy HH:mm')}
+                </p>
+              )}
+              {item.reviewedAt && (
+                <p className="text-sm text-muted-foreground">
+                  {item.status === "rejected" ? "Rejected" : "Approved"} by {nameOf(item.reviewedBy)} on {format(new Date(item.reviewedAt), 'MMM dd, yyyy HH:mm')}
+                </p>
+              )}
+              {item.reviewComment && (
+                <p className="text-sm text-foreground whitespace-pre-wrap border-l-2 pl-3" data-testid="text-review-comment">
+                  {item.reviewComment}
+                </p>
+              )}
+              <ReviewActions item={item} onDone={onClose} />
+            </div>
+          </div>
+
           {/* Notes */}
           {item.notes && (
             <div>
@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import type { Organization, ComplianceItem, Contract } from "@shared/schema";
+import type { Organization, ComplianceItem, ComplianceItemWithNextOccurrence, Contract, AlertPolicy } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -14,24 +14,53 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
-import { CalendarIcon, Loader2 } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CalendarIcon, Loader2, Repeat } from "lucide-react";
 import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { assignableUsers, useTeams, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
 import { cn } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { buildPresetRule, detectPreset, describeRecurrenceRule, isValidRecurrenceRule } from "@shared/recurrence";
+import { DEFAULT_REMINDER_OFFSETS, formatReminderOffsets, isValidReminderOffsets } from "@shared/reminders";
+import { formatEvidenceRequirements } from "@shared/calendar";
+import { canHaveChildren } from "@shared/contract-hierarchy";
 import ComplianceComments from "./compliance-comments";
 
 const formSchema = z.object({
   customerId: z.string().min(1, "Organization is required"),
   contractId: z.string().optional(),
+  appliesToChildren: z.boolean().default(false),
   category: z.enum(["Marketing Agreement", "Billing", "Deliverable", "Compliance", "End-of-Term", "Accounts Payable"]),
   type: z.string().min(1, "Type is required"),
   commitment: z.string().min(1, "Commitment is required"),
   description: z.string().optional(),
-  responsibleParty: z.string().min(1, "Responsible party is required"),
+  evidenceRequirements: z.string().optional(),
+  responsibleParty: z.string().optional(),
+  assigneeId: z.string().optional(),
+  teamId: z.string().optional(),
+  reviewerId: z.string().optional(),
   dueDate: z.date().optional(),
-  status: z.enum(["pending", "complete", "overdue", "na"]).default("pending"),
-});
+  status: z.enum(["pending", "complete", "overdue", "na", "in_review", "rejected"]).default("pending"),
+  recurrencePreset: z.enum(["none", "monthly", "quarterly", "annually", "nth_business_day", "custom"]).default("none"),
+  nthBusinessDay: z.coerce.number().int().min(1).max(23).default(1),
+  customRule: z.string().optional(),
+  scope: z.enum(["this", "future"]).default("this"),
+  reminderOffsets: z.string().optional().refine(
+    val => !val?.trim() || isValidReminderOffsets(val),
+    { message: "Enter whole days separated by commas, e.g. 30,14,7,1" }
+  ),
+}).refine(
+  data => !!data.responsibleParty?.trim() || !!data.assigneeId || !!data.teamId,
+  { message: "Choose an assignee or team, or enter a responsible party", path: ["responsibleParty"] }
+).refine(
+  data => data.recurrencePreset !== "custom" || (!!data.customRule && isValidRecurrenceRule(data.customRule)),
+  { message: "Enter a valid RRULE, e.g. FREQ=MONTHLY;BYMONTHDAY=15", path: ["customRule"] }
+).refine(
+  data => data.recurrencePreset === "none" || !!data.dueDate,
+  { message: "Recurring items need a due date", path: ["dueDate"] }
+);
 
 type FormData = z.infer<typeof formSchema>;
 
@@ -70,19 +99,31 @@ const formatOrgType = (orgType: string) => {
 export default function ComplianceForm({ onClose, onSuccess, item, prefilledCustomerId, prefilledContractId }: ComplianceFormProps) {
   const { toast } = useToast();
   const isEditing = !!item;
+  const isInSeries = !!item?.seriesId;
+  const initialRecurrence = detectPreset(item?.recurrenceRule);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       customerId: item?.customerId || prefilledCustomerId || "",
       contractId: item?.contractId || prefilledContractId || undefined,
+      appliesToChildren: item?.appliesToChildren ?? false,
       category: item?.category || "Compliance",
       type: item?.type || "",
       commitment: item?.commitment || "",
       description: item?.description || "",
+      evidenceRequirements: item?.evidenceRequirements || "",
       responsibleParty: item?.responsibleParty || "",
+      assigneeId: item?.assigneeId || undefined,
+      teamId: item?.teamId || undefined,
+      reviewerId: item?.reviewerId || undefined,
       dueDate: item?.dueDate ? new Date(item.dueDate) : undefined,
       status: item?.status || "pending",
+      recurrencePreset: initialRecurrence.preset,
+      nthBusinessDay: initialRecurrence.nthBusinessDay || 1,
+      customRule: initialRecurrence.preset === "custom" ? item?.recurrenceRule || "" : "",
+      scope: "this",
+      reminderOffsets: item?.reminderOffsets || "",
     },
   });
 
@@ -94,9 +135,18 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
     queryKey: ["/api/contracts"],
   });
 
+  const { data: alertPolicies } = useQuery<AlertPolicy[]>({
+    queryKey: ["/api/alert-policies"],
+  });
+
+  const { data: directory } = useUserDirectory();
+  const { data: teams } = useTeams();
+
   // Watch the selected organization to filter contracts
   const selectedOrgId = form.watch("customerId");
   const selectedContractId = form.watch("contractId");
+  // Only items on a master agreement or SOW can extend to the contracts beneath it
+  const parentContract = contracts?.find(c => c.id === selectedContractId && canHaveChildren(c.contractType));
   
   // Clear contract when organization changes if the contract doesn't belong to the new org
   useEffect(() => {
@@ -132,12 +182,50 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
     return orgContracts;
   }, [contracts, selectedOrgId, selectedContractId]);
 
+  const recurrencePreset = form.watch("recurrencePreset");
+  const watchedDueDate = form.watch("dueDate");
+  const nthBusinessDay = form.watch("nthBusinessDay");
+  const customRule = form.watch("customRule");
+  const watchedCategory = form.watch("category");
+
+  // Reminder schedule used when the item has no override of its own
+  const categoryReminderOffsets = alertPolicies?.find(p => p.category === watchedCategory)?.reminderOffsets
+    || formatReminderOffsets(DEFAULT_REMINDER_OFFSETS);
+
+  // Free-text label shown in lists when only an assignee or team was chosen
+  const defaultResponsibleParty = (data: Pick<FormData, "assigneeId" | "teamId">) => {
+    const assignee = directory?.find(u => u.id === data.assigneeId);
+    if (assignee) return userDisplayName(assignee);
+    return teams?.find(t => t.id === data.teamId)?.name || "";
+  };
+
+  const buildRecurrenceRule = (data: Pick<FormData, "recurrencePreset" | "dueDate" | "nthBusinessDay" | "customRule">) => {
+    if (data.recurrencePreset === "custom") {
+      return data.customRule?.trim() || null;
+    }
+    return buildPresetRule(data.recurrencePreset, data.dueDate, data.nthBusinessDay);
+  };
+
+  const recurrenceSummary = describeRecurrenceRule(
+    buildRecurrenceRule({ recurrencePreset, dueDate: watchedDueDate, nthBusinessDay, customRule })
+  );
+
   const createMutation = useMutation({
-    mutationFn: async (data: FormData) => {
+    mutationFn: async (data: FormData): Promise<ComplianceItemWithNextOccurrence> => {
+      const { recurrencePreset, nthBusinessDay, customRule, scope, ...fields } = data;
       const payload = {
-        ...data,
+        ...fields,
         dueDate: data.dueDate?.toISOString() || null,
         contractId: data.contractId && data.contractId !== "" ? data.contractId : undefined,
+        appliesToChildren: !!parentContract && data.appliesToChildren,
+        recurrenceRule: buildRecurrenceRule(data),
+        reminderOffsets: data.reminderOffsets?.trim() || null,
+        evidenceRequirements: formatEvidenceRequirements(data.evidenceRequirements?.split("\n") ?? []),
+        assigneeId: data.assigneeId || null,
+        teamId: data.teamId || null,
+        reviewerId: data.reviewerId || null,
+        responsibleParty: data.responsibleParty?.trim() || defaultResponsibleParty(data),
+        ...(isEditing && isInSeries ? { scope } : {}),
       };
       
       try {
@@ -153,12 +241,14 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
         throw err;
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
       toast({
         title: isEditing ? "Item Updated" : "Item Created",
-        description: `Compliance item has been ${isEditing ? "updated" : "created"} successfully.`,
+        description: result.nextOccurrence?.dueDate
+          ? `Compliance item completed. Next occurrence scheduled for ${format(new Date(result.nextOccurrence.dueDate), "PPP")}.`
+          : `Compliance item has been ${isEditing ? "updated" : "created"} successfully.`,
       });
       onSuccess();
     },
@@ -282,6 +372,30 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
                 </FormItem>
               )}
             />
+
+            {parentContract && (
+              <FormField
+                control={form.control}
+                name="appliesToChildren"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-applies-to-children"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Applies to all child contracts</FormLabel>
+                      <p className="text-xs text-muted-foreground">
+                        Show this requirement on every SOW and task order under {parentContract.title}
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
             
             <FormField
               control={form.control}
@@ -350,6 +464,28 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="evidenceRequirements"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Evidence Required</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={2}
+                      placeholder="e.g. Signed quarterly report"
+                      {...field}
+                      data-testid="textarea-evidence-requirements"
+                    />
+                  </FormControl>
+                  <p className="text-xs text-muted-foreground">
+                    One requirement per line.
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
@@ -403,7 +539,7 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
                     <FormLabel>Responsible Party</FormLabel>
                     <FormControl>
                       <Input 
-                        placeholder="Enter responsible party..." 
+                        placeholder="External party, or leave blank to use the assignee" 
                         {...field}
                         data-testid="input-responsible"
                       />
@@ -413,7 +549,231 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
                 )}
               />
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="assigneeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assignee</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "__none__" ? undefined : value)}
+                      value={field.value || "__none__"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-assignee">
+                          <SelectValue placeholder="Unassigned" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__none__">Unassigned</SelectItem>
+                        {assignableUsers(directory, [field.value]).map((user) => (
+                          <SelectItem key={user.id} value={user.id}>
+                            {userDisplayName(user)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="teamId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Team</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "__none__" ? undefined : value)}
+                      value={field.value || "__none__"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-team">
+                          <SelectValue placeholder="No team" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__none__">No team</SelectItem>
+                        {teams?.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reviewerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reviewer</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "__none__" ? undefined : value)}
+                      value={field.value || "__none__"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reviewer">
+                          <SelectValue placeholder="Any admin" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__none__">Any admin</SelectItem>
+                        {assignableUsers(directory, [field.value]).map((user) => (
+                          <SelectItem key={user.id} value={user.id}>
+                            {userDisplayName(user)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Approves the item before it is marked complete.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="recurrencePreset"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Repeat className="h-4 w-4" />
+                        Repeats
+                      </FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurrence">
+                            <SelectValue placeholder="Does not repeat" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Does not repeat</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                          <SelectItem value="quarterly">Quarterly</SelectItem>
+                          <SelectItem value="annually">Annually</SelectItem>
+                          <SelectItem value="nth_business_day">Nth business day of the month</SelectItem>
+                          <SelectItem value="custom">Custom (RRULE)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {recurrencePreset === "nth_business_day" && (
+                  <FormField
+                    control={form.control}
+                    name="nthBusinessDay"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Business Day</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={23}
+                            {...field}
+                            data-testid="input-nth-business-day"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrencePreset === "custom" && (
+                  <FormField
+                    control={form.control}
+                    name="customRule"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Recurrence Rule</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+                            {...field}
+                            data-testid="input-custom-rrule"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {recurrencePreset !== "none" && (
+                <p className="text-sm text-muted-foreground" data-testid="text-recurrence-summary">
+                  {recurrenceSummary}. The next occurrence is created when this one is marked complete.
+                </p>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reminderOffsets"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reminder Days</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={`${categoryReminderOffsets} (${watchedCategory} default)`}
+                      {...field}
+                      data-testid="input-reminder-offsets"
+                    />
+                  </FormControl>
+                  <p className="text-xs text-muted-foreground">
+                    Days before the due date to email a reminder. Leave blank to use the category schedule.
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && isInSeries && (
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Apply Changes To</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        className="flex gap-6"
+                        data-testid="radio-series-scope"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="this" id="scope-this" />
+                          <Label htmlFor="scope-this" className="cursor-pointer">This occurrence</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="future" id="scope-future" />
+                          <Label htmlFor="scope-future" className="cursor-pointer">All future occurrences</Label>
+                        </div>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {isEditing && (
               <FormField
                 control={form.control}
@@ -429,11 +789,16 @@ export default function ComplianceForm({ onClose, onSuccess, item, prefilledCust
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="complete">Complete</SelectItem>
                         <SelectItem value="overdue">Overdue</SelectItem>
                         <SelectItem value="na">N/A</SelectItem>
+                        <SelectItem value="in_review" disabled>In Review</SelectItem>
+                        <SelectItem value="rejected" disabled>Rejected</SelectItem>
+                        <SelectItem value="complete" disabled>Complete</SelectItem>
                       </SelectContent>
                     </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Items are completed by submitting them for review; the reviewer approves or rejects them.
+                    </p>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -1,14 +1,12 @@
 import { useState, useEffect, Fragment } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import type { Organization, ComplianceItem, Evidence, Contract } from "@shared/schema";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Check, RefreshCw, Settings2, ChevronDown, ChevronRight, Shield } from "lucide-react";
+import { Edit, Send, RefreshCw, Settings2, ChevronDown, ChevronRight, Shield } from "lucide-react";
 import { format } from "date-fns";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Popover,
@@ -18,6 +16,8 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import ComplianceDetailDialog from "./compliance-detail-dialog";
+import { useTeams, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
+import { useReviewAction, formatStatus, SUBMITTABLE_STATUSES } from "@/hooks/use-review-workflow";
 
 interface ComplianceTableProps {
   data: ComplianceItem[];
@@ -27,7 +27,7 @@ interface ComplianceTableProps {
   showCustomerColumn?: boolean;
 }
 
-type ColumnKey = 'dueDate' | 'commitment' | 'type' | 'category' | 'organization' | 'contract' | 'responsible' | 'status';
+type ColumnKey = 'dueDate' | 'commitment' | 'type' | 'category' | 'organization' | 'contract' | 'responsible' | 'assignee' | 'status';
 
 interface ColumnConfig {
   key: ColumnKey;
@@ -44,6 +44,7 @@ const COLUMNS: ColumnConfig[] = [
   { key: 'organization', label: 'Organization', defaultVisible: true },
   { key: 'contract', label: 'Contract', defaultVisible: true },
   { key: 'responsible', label: 'Responsible', defaultVisible: true },
+  { key: 'assignee', label: 'Assignee', defaultVisible: true },
   { key: 'status', label: 'Status', defaultVisible: true },
 ];
 
@@ -56,25 +57,25 @@ export default function ComplianceTable({
   onEdit,
   showCustomerColumn = false 
 }: ComplianceTableProps) {
-  const { toast } = useToast();
   const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   const [detailItem, setDetailItem] = useState<ComplianceItem | null>(null);
   const [visibleColumns, setVisibleColumns] = useState<Record<ColumnKey, boolean>>(() => {
-    // Load from localStorage or use defaults
+    const defaults = COLUMNS.reduce((acc, col) => {
+      acc[col.key] = col.defaultVisible;
+      return acc;
+    }, {} as Record<ColumnKey, boolean>);
+
+    // Load from localStorage, keeping defaults for columns added since it was saved
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       try {
-        return JSON.parse(stored);
+        return { ...defaults, ...JSON.parse(stored) };
       } catch {
         // Fallback to defaults if parsing fails
       }
     }
-    // Initialize with defaults
-    return COLUMNS.reduce((acc, col) => {
-      acc[col.key] = col.defaultVisible;
-      return acc;
-    }, {} as Record<ColumnKey, boolean>);
+    return defaults;
   });
 
   // Save to localStorage whenever column visibility changes
@@ -97,6 +98,15 @@ export default function ComplianceTable({
     queryKey: ["/api/contracts"],
   });
 
+  const { data: directory } = useUserDirectory();
+  const { data: teams } = useTeams();
+
+  const getAssigneeLabel = (item: ComplianceItem) => {
+    const assignee = directory?.find((u) => u.id === item.assigneeId);
+    const team = teams?.find((t) => t.id === item.teamId);
+    return [assignee && userDisplayName(assignee), team?.name].filter(Boolean).join(" · ") || "—";
+  };
+
   // Fetch evidence for expanded compliance item
   const { data: allEvidence = [] } = useQuery<Evidence[]>({
     queryKey: ["/api/evidence"],
@@ -106,39 +116,7 @@ export default function ComplianceTable({
   // Filter evidence for the expanded compliance item
   const expandedEvidence = allEvidence.filter(evidence => evidence.complianceItemId === expandedItemId);
 
-  const updateStatusMutation = useMutation({
-    mutationFn: async ({ itemId, status }: { itemId: string; status: string }) => {
-      const updates: any = { status };
-      if (status === "complete") {
-        updates.completedAt = new Date().toISOString();
-      }
-      const response = await apiRequest("PUT", `/api/compliance-items/${itemId}`, updates);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
-      onRefresh?.();
-      toast({
-        title: "Status Updated",
-        description: "Compliance item status has been updated successfully.",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Update Failed",
-        description: "Failed to update compliance item status.",
-        variant: "destructive",
-      });
-    },
-    onSettled: (_, __, variables) => {
-      setUpdatingItems(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(variables.itemId);
-        return newSet;
-      });
-    },
-  });
+  const reviewAction = useReviewAction(onRefresh);
 
   const getOrganizationName = (customerId: string) => {
     const organization = organizations?.find((org) => org.id === customerId);
@@ -159,6 +137,10 @@ export default function ComplianceTable({
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400";
       case "overdue":
         return "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400";
+      case "in_review":
+        return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400";
+      case "rejected":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400";
       case "na":
         return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400";
       default:
@@ -204,9 +186,17 @@ export default function ComplianceTable({
     return "bg-green-500"; // Future
   };
 
-  const handleMarkComplete = (itemId: string) => {
+  const handleSubmitForReview = (itemId: string) => {
     setUpdatingItems(prev => new Set(prev).add(itemId));
-    updateStatusMutation.mutate({ itemId, status: "complete" });
+    reviewAction.mutate({ itemId, action: "submit-review" }, {
+      onSettled: () => {
+        setUpdatingItems(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(itemId);
+          return newSet;
+        });
+      },
+    });
   };
 
   if (isLoading) {
@@ -295,6 +285,7 @@ export default function ComplianceTable({
             {showCustomerColumn && visibleColumns.organization && <TableHead>Organization</TableHead>}
             {visibleColumns.contract && <TableHead>Contract</TableHead>}
             {visibleColumns.responsible && <TableHead>Responsible</TableHead>}
+            {visibleColumns.assignee && <TableHead>Assignee</TableHead>}
             {visibleColumns.status && <TableHead>Status</TableHead>}
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
@@ -382,13 +373,18 @@ export default function ComplianceTable({
                   {item.responsibleParty}
                 </TableCell>
               )}
+              {visibleColumns.assignee && (
+                <TableCell className="whitespace-nowrap text-sm text-foreground" data-testid={`text-assignee-${item.id}`}>
+                  {getAssigneeLabel(item)}
+                </TableCell>
+              )}
               {visibleColumns.status && (
                 <TableCell className="whitespace-nowrap">
                   <Badge 
                     variant="secondary"
                     className={getStatusColor(item.status)}
                   >
-                    {item.status.toUpperCase()}
+                    {formatStatus(item.status)}
                   </Badge>
                 </TableCell>
               )}
@@ -402,15 +398,16 @@ export default function ComplianceTable({
                   >
                     <Edit className="h-4 w-4 text-primary" />
                   </Button>
-                  {item.status !== "complete" && (
+                  {SUBMITTABLE_STATUSES.includes(item.status) && (
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      onClick={() => handleMarkComplete(item.id)}
+                      onClick={() => handleSubmitForReview(item.id)}
                       disabled={updatingItems.has(item.id)}
-                      data-testid={`button-complete-${item.id}`}
+                      title="Submit for review"
+                      data-testid={`button-submit-review-${item.id}`}
                     >
-                      <Check className={`h-4 w-4 ${updatingItems.has(item.id) ? 'animate-spin' : 'text-secondary'}`} />
+                      <Send className={`h-4 w-4 ${updatingItems.has(item.id) ? 'animate-pulse' : 'text-secondary'}`} />
                     </Button>
                   )}
                 </div>
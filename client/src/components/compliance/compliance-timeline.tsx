@@ -4,7 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from "lucide-react";
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Repeat } from "lucide-react";
 import {
   format,
   startOfMonth,
@@ -22,13 +22,14 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { describeRecurrenceRule } from "@shared/recurrence";
 
 interface ComplianceTimelineProps {
   items: ComplianceItem[];
   customers?: Customer[];
 }
 
-type GroupBy = "customer" | "category" | "status";
+type GroupBy = "customer" | "category" | "status" | "series";
 
 export default function ComplianceTimeline({ items, customers }: ComplianceTimelineProps) {
   const [timelineStart, setTimelineStart] = useState(subMonths(new Date(), 2));
@@ -51,6 +52,10 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
         return "bg-red-500 hover:bg-red-600";
       case "pending":
         return "bg-yellow-500 hover:bg-yellow-600";
+      case "in_review":
+        return "bg-blue-500 hover:bg-blue-600";
+      case "rejected":
+        return "bg-orange-500 hover:bg-orange-600";
       default:
         return "bg-gray-500 hover:bg-gray-600";
     }
@@ -72,6 +77,11 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
         case "status":
           key = item.status;
           break;
+        case "series":
+          key = item.recurrenceRule || item.seriesId
+            ? `${item.commitment} (${getCustomerName(item.customerId)})`
+            : "One-off items";
+          break;
         default:
           key = "All Items";
       }
@@ -168,6 +178,7 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
               <SelectItem value="customer">By Customer</SelectItem>
               <SelectItem value="category">By Category</SelectItem>
               <SelectItem value="status">By Status</SelectItem>
+              <SelectItem value="series">By Series</SelectItem>
             </SelectContent>
           </Select>
           <Button
@@ -213,7 +224,7 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
           {/* Month Headers */}
           <div className="flex border-b bg-muted/50 sticky top-0 z-10">
             <div className="w-48 p-3 border-r font-semibold flex-shrink-0">
-              {groupBy === "customer" ? "Customer" : groupBy === "category" ? "Category" : "Status"}
+              {groupBy === "customer" ? "Customer" : groupBy === "category" ? "Category" : groupBy === "series" ? "Series" : "Status"}
             </div>
             <div className="flex-1 flex">
               {months.map((month, index) => (
@@ -267,7 +278,8 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
                                 }}
                                 data-testid={`timeline-bar-${item.id}`}
                               >
-                                <span className="truncate font-medium">
+                                <span className="truncate font-medium flex items-center gap-1">
+                                  {item.recurrenceRule && <Repeat className="h-3 w-3 flex-shrink-0" />}
                                   {item.commitment}
                                 </span>
                               </div>
@@ -283,6 +295,9 @@ export default function ComplianceTimeline({ items, customers }: ComplianceTimel
                                     <div>Due: {format(typeof item.dueDate === 'string' ? parseISO(item.dueDate) : item.dueDate, "MMM d, yyyy")}</div>
                                   )}
                                   <div>Responsible: {item.responsibleParty}</div>
+                                  {item.recurrenceRule && (
+                                    <div>Repeats: {describeRecurrenceRule(item.recurrenceRule)}</div>
+                                  )}
                                 </div>
                               </div>
                             </TooltipContent>
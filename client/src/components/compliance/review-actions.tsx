@@ -0,0 +1,79 @@
+import { useState } from "react";
+import type { ComplianceItem } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, XCircle, Send } from "lucide-react";
+import { useCanReview, useReviewAction, SUBMITTABLE_STATUSES } from "@/hooks/use-review-workflow";
+
+interface ReviewActionsProps {
+  item: ComplianceItem;
+  onDone?: () => void;
+}
+
+export default function ReviewActions({ item, onDone }: ReviewActionsProps) {
+  const [comment, setComment] = useState("");
+  const canReview = useCanReview();
+  const reviewAction = useReviewAction(() => {
+    setComment("");
+    onDone?.();
+  });
+
+  if (SUBMITTABLE_STATUSES.includes(item.status)) {
+    return (
+      <div className="space-y-2">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Note for the reviewer (optional)"
+          rows={2}
+          data-testid={`textarea-submit-comment-${item.id}`}
+        />
+        <Button
+          size="sm"
+          onClick={() => reviewAction.mutate({ itemId: item.id, action: "submit-review", comment })}
+          disabled={reviewAction.isPending}
+          data-testid={`button-submit-review-${item.id}`}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          Submit for Review
+        </Button>
+        <p className="text-xs text-muted-foreground">At least one evidence record must be linked to the item.</p>
+      </div>
+    );
+  }
+
+  if (!canReview(item)) return null;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Review comment (required to reject)"
+        rows={2}
+        data-testid={`textarea-review-comment-${item.id}`}
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => reviewAction.mutate({ itemId: item.id, action: "approve", comment })}
+          disabled={reviewAction.isPending}
+          data-testid={`button-approve-${item.id}`}
+        >
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => reviewAction.mutate({ itemId: item.id, action: "reject", comment })}
+          disabled={reviewAction.isPending || !comment.trim()}
+          data-testid={`button-reject-${item.id}`}
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
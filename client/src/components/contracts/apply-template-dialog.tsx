@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import type { Contract } from "@shared/schema";
+import { resolveTemplateDueDate, describeTemplateOffset } from "@shared/templates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useComplianceTemplates } from "@/hooks/use-compliance-templates";
+import { assignableUsers, useTeams, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
+
+interface ApplyTemplateDialogProps {
+  contract: Contract;
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ApplyTemplateDialog({ contract, open, onClose }: ApplyTemplateDialogProps) {
+  const { toast } = useToast();
+  const { data: templates } = useComplianceTemplates(open);
+  const { data: directory } = useUserDirectory();
+  const { data: teams } = useTeams();
+  const [templateId, setTemplateId] = useState("");
+  const [assigneeId, setAssigneeId] = useState("");
+  const [teamId, setTeamId] = useState("");
+
+  const template = templates?.find(t => t.id === templateId);
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/contracts/${contract.id}/apply-template`, {
+        templateId,
+        assigneeId: assigneeId || null,
+        teamId: teamId || null,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { created: unknown[]; skipped: Array<{ commitment: string }> }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      toast({
+        title: "Template Applied",
+        description: result.skipped.length > 0
+          ? `${result.created.length} items created, ${result.skipped.length} skipped because the contract has no end date.`
+          : `${result.created.length} compliance items created for this contract.`,
+      });
+      setTemplateId("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Apply Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-apply-template">
+        <DialogHeader>
+          <DialogTitle>Apply Compliance Template</DialogTitle>
+          <DialogDescription>
+            Create the template's compliance items for {contract.title}, with due dates based on the contract dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger data-testid="select-template">
+                <SelectValue placeholder={templates?.length === 0 ? "No templates yet" : "Select a template..."} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates?.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name} ({t.items.length} items)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {template?.description && <p className="text-xs text-muted-foreground">{template.description}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Assign Items To</Label>
+              <Select value={assigneeId || "__none__"} onValueChange={(value) => setAssigneeId(value === "__none__" ? "" : value)}>
+                <SelectTrigger data-testid="select-template-assignee">
+                  <SelectValue placeholder="Unassigned" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">Unassigned</SelectItem>
+                  {assignableUsers(directory).map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{userDisplayName(user)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={teamId || "__none__"} onValueChange={(value) => setTeamId(value === "__none__" ? "" : value)}>
+                <SelectTrigger data-testid="select-template-team">
+                  <SelectValue placeholder="No team" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">No team</SelectItem>
+                  {teams?.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {template && (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Commitment</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Offset</TableHead>
+                    <TableHead>Due Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {template.items.map((item) => {
+                    const dueDate = resolveTemplateDueDate(contract, item);
+                    return (
+                      <TableRow key={item.id} data-testid={`row-template-preview-${item.id}`}>
+                        <TableCell className="text-sm">{item.commitment}</TableCell>
+                        <TableCell><Badge variant="secondary">{item.category}</Badge></TableCell>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{describeTemplateOffset(item)}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {dueDate ? format(dueDate, "MMM dd, yyyy") : <span className="text-muted-foreground">Skipped (no end date)</span>}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!template || applyMutation.isPending}
+            data-testid="button-apply-template"
+          >
+            {applyMutation.isPending ? "Applying..." : `Create ${template?.items.length ?? 0} Items`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Contract, ContractAmendment, Evidence } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FilePen, FileText, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const NO_DOCUMENT = "__none__";
+
+interface ContractAmendmentsProps {
+  contract: Contract;
+  onContractChange: (contract: Contract) => void;
+}
+
+const formatDay = (date: Date | string | null) => (date ? format(new Date(date), "MMM dd, yyyy") : "Ongoing");
+
+const formatCurrency = (amount: string | null) =>
+  amount ? new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(parseFloat(amount)) : "None";
+
+const emptyForm = { effectiveDate: "", endDate: "", maxAmount: "", scopeChange: "", evidenceId: NO_DOCUMENT };
+
+// Modification history: the base terms followed by each amendment and what it changed
+export default function ContractAmendments({ contract, onContractChange }: ContractAmendmentsProps) {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: amendments = [] } = useQuery<ContractAmendment[]>({
+    queryKey: [`/api/contracts/${contract.id}/amendments`],
+  });
+
+  const { data: allEvidence = [] } = useQuery<Evidence[]>({
+    queryKey: ["/api/evidence"],
+    enabled: isFormOpen || amendments.some((amendment) => amendment.evidenceId),
+  });
+  const contractEvidence = allEvidence.filter((evidence) => evidence.contractId === contract.id);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}/amendments`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contracts/renewals"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<{ amendment: ContractAmendment; contract: Contract }> => {
+      const response = await apiRequest("POST", `/api/contracts/${contract.id}/amendments`, {
+        effectiveDate: form.effectiveDate,
+        endDate: form.endDate || null,
+        maxAmount: form.maxAmount ? parseFloat(form.maxAmount) : null,
+        scopeChange: form.scopeChange,
+        evidenceId: form.evidenceId === NO_DOCUMENT ? null : form.evidenceId,
+      });
+      return response.json();
+    },
+    onSuccess: ({ amendment, contract: updated }) => {
+      invalidate();
+      onContractChange(updated);
+      toast({
+        title: `Amendment ${amendment.amendmentNumber} Recorded`,
+        description: amendment.appliedAt
+          ? "The contract terms have been updated."
+          : `It takes effect on ${formatDay(amendment.effectiveDate)}.`,
+      });
+      setForm(emptyForm);
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Amendment Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (amendmentId: string) => {
+      await apiRequest("DELETE", `/api/contracts/${contract.id}/amendments/${amendmentId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Amendment Withdrawn", description: "The scheduled amendment has been deleted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Base terms are what the first applied amendment replaced, or the current terms if none has applied
+  const firstApplied = amendments.find((amendment) => amendment.appliedAt);
+  const baseEndDate = firstApplied ? firstApplied.previousEndDate : contract.endDate;
+  const baseMaxAmount = firstApplied ? firstApplied.previousMaxAmount : contract.maxAmount;
+
+  const documentTitle = (evidenceId: string) => allEvidence.find((evidence) => evidence.id === evidenceId)?.title || "Signed amendment";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Modification History</label>
+        <Button variant="outline" size="sm" onClick={() => setIsFormOpen(true)} data-testid="button-add-amendment">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Amendment
+        </Button>
+      </div>
+
+      <ol className="mt-2 space-y-2 text-sm">
+        <li className="p-3 bg-muted/50 rounded-lg" data-testid="amendment-base">
+          <div className="font-medium">Base contract</div>
+          <div className="text-muted-foreground">
+            Starts {formatDay(contract.startDate)} · ends {formatDay(baseEndDate)} · ceiling {formatCurrency(baseMaxAmount)}
+          </div>
+        </li>
+        {amendments.map((amendment) => (
+          <li key={amendment.id} className="p-3 bg-muted/50 rounded-lg space-y-1" data-testid={`amendment-${amendment.amendmentNumber}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 font-medium">
+                <FilePen className="h-4 w-4 text-primary" />
+                Amendment {amendment.amendmentNumber}
+                <span className="font-normal text-muted-foreground">effective {formatDay(amendment.effectiveDate)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={amendment.appliedAt ? "default" : "secondary"}>
+                  {amendment.appliedAt ? "Applied" : "Scheduled"}
+                </Badge>
+                {!amendment.appliedAt && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteMutation.mutate(amendment.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-amendment-${amendment.amendmentNumber}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {amendment.endDate && (
+              <div>
+                End date: {amendment.appliedAt ? `${formatDay(amendment.previousEndDate)} → ` : ""}{formatDay(amendment.endDate)}
+              </div>
+            )}
+            {amendment.maxAmount && (
+              <div>
+                Ceiling: {amendment.appliedAt ? `${formatCurrency(amendment.previousMaxAmount)} → ` : ""}{formatCurrency(amendment.maxAmount)}
+              </div>
+            )}
+            {amendment.scopeChange && <div className="whitespace-pre-wrap">Scope: {amendment.scopeChange}</div>}
+            {amendment.evidenceId && (
+              <a
+                href={`/api/evidence/${amendment.evidenceId}/download`}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                <FileText className="h-3 w-3" />
+                {documentTitle(amendment.evidenceId)}
+              </a>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Amendment {amendments.length + 1}</DialogTitle>
+            <DialogDescription>
+              Record a signed modification. Leave a term blank to keep it unchanged. Amendments effective today or
+              earlier update the contract immediately; later ones apply on their effective date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="amendment-effective-date">Effective Date *</Label>
+                <Input
+                  id="amendment-effective-date"
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                  data-testid="input-amendment-effective-date"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="amendment-end-date">New End Date</Label>
+                <Input
+                  id="amendment-end-date"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  data-testid="input-amendment-end-date"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="amendment-max-amount">New Ceiling</Label>
+              <Input
+                id="amendment-max-amount"
+                type="number"
+                step="0.01"
+                value={form.maxAmount}
+                onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+                placeholder={contract.maxAmount || "0.00"}
+                data-testid="input-amendment-max-amount"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="amendment-scope">Scope Change</Label>
+              <Textarea
+                id="amendment-scope"
+                rows={3}
+                value={form.scopeChange}
+                onChange={(e) => setForm({ ...form, scopeChange: e.target.value })}
+                placeholder="Describe added or removed work"
+                data-testid="textarea-amendment-scope"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Signed Document</Label>
+              <Select value={form.evidenceId} onValueChange={(value) => setForm({ ...form, evidenceId: value })}>
+                <SelectTrigger data-testid="select-amendment-evidence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DOCUMENT}>No document</SelectItem>
+                  {contractEvidence.map((evidence) => (
+                    <SelectItem key={evidence.id} value={evidence.id}>{evidence.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Upload the signed amendment to the Evidence Locker against this contract to link it here.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !form.effectiveDate || (!form.endDate && !form.maxAmount && !form.scopeChange.trim())}
+              data-testid="button-save-amendment"
+            >
+              {createMutation.isPending ? "Saving..." : "Record Amendment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
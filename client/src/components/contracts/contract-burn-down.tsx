@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import type { Contract } from "@shared/schema";
+import type { CeilingBurnDown, CeilingEnforcement } from "@shared/ceilings";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+type BurnDownResponse = CeilingBurnDown & { thresholds: number[]; enforcement: CeilingEnforcement };
+
+const chartConfig = {
+  consumed: { label: "Billed to date", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatCurrency = (amount: number | null) =>
+  amount === null ? "—" : new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const formatDay = (date: string | null) => (date ? format(new Date(`${date}T00:00:00`), "MMM dd, yyyy") : "—");
+
+// Ceiling burn-down: cumulative billed amount against the contract's maximum amount
+export default function ContractBurnDown({ contract }: { contract: Contract }) {
+  const { data: burnDown } = useQuery<BurnDownResponse>({
+    queryKey: [`/api/contracts/${contract.id}/burn-down`],
+  });
+
+  if (!burnDown || burnDown.ceiling === null) return null;
+
+  const percentUsed = burnDown.percentUsed ?? 0;
+  const overCeiling = burnDown.remaining !== null && burnDown.remaining < 0;
+  const projectedOver = burnDown.projectedAtEnd !== null && burnDown.projectedAtEnd > burnDown.ceiling;
+
+  const tiles = [
+    { label: "Billed", value: formatCurrency(burnDown.consumed) },
+    { label: "Remaining", value: formatCurrency(burnDown.remaining), warn: overCeiling },
+    { label: "Projected at End", value: formatCurrency(burnDown.projectedAtEnd), warn: projectedOver },
+    { label: "Ceiling Reached", value: formatDay(burnDown.projectedExhaustionDate) },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Ceiling Burn-Down</label>
+        <Badge variant={overCeiling ? "destructive" : percentUsed >= Math.min(...burnDown.thresholds) ? "secondary" : "outline"}>
+          {percentUsed}% used
+        </Badge>
+      </div>
+
+      <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="p-3 bg-muted/50 rounded-lg">
+            <div className="text-xs text-muted-foreground">{tile.label}</div>
+            <div className={`font-semibold ${tile.warn ? "text-destructive" : ""}`}>{tile.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {burnDown.series.length > 0 ? (
+        <ChartContainer config={chartConfig} className="mt-3 h-56 w-full aspect-auto" data-testid="chart-burn-down">
+          <AreaChart data={burnDown.series} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date) => format(new Date(`${date}T00:00:00`), "MMM d")} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={70}
+              domain={[0, (max: number) => Math.max(max, burnDown.ceiling!)]}
+              tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+            />
+            <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />} />
+            {burnDown.thresholds.filter((threshold) => threshold < 100).map((threshold) => (
+              <ReferenceLine
+                key={threshold}
+                y={(burnDown.ceiling! * threshold) / 100}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+                label={{ value: `${threshold}%`, position: "insideTopLeft", fontSize: 10 }}
+              />
+            ))}
+            <ReferenceLine
+              y={burnDown.ceiling}
+              stroke="hsl(var(--destructive))"
+              label={{ value: "Ceiling", position: "insideTopLeft", fontSize: 10 }}
+            />
+            <Area type="stepAfter" dataKey="consumed" stroke="var(--color-consumed)" fill="var(--color-consumed)" fillOpacity={0.2} />
+          </AreaChart>
+        </ChartContainer>
+      ) : (
+        <p className="mt-2 text-sm text-muted-foreground">No billable events have been recorded against this contract yet.</p>
+      )}
+    </div>
+  );
+}
@@ -7,12 +7,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileSignature, Calendar, Building2, DollarSign, X, Edit, Save, Plus, ClipboardList } from "lucide-react";
+import { FileSignature, Calendar, Building2, DollarSign, X, Edit, Save, Plus, ClipboardList, Layers, CalendarPlus, RefreshCw } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Contract, Organization } from "@shared/schema";
+import type { Contract, ContractOptionPeriod, Organization } from "@shared/schema";
+import { RENEWAL_DECISION_LABELS, renewalStatus } from "@shared/renewals";
+import { CONTRACT_TYPE_LABELS } from "@shared/contract-hierarchy";
 import ComplianceForm from "@/components/compliance/compliance-form";
+import ApplyTemplateDialog from "./apply-template-dialog";
+import ContractAmendments from "./contract-amendments";
+import ContractBurnDown from "./contract-burn-down";
+import ContractHierarchy from "./contract-hierarchy";
+import ContractRateCard from "./contract-rate-card";
+import RenewalTermsFields, { EMPTY_RENEWAL_TERMS, renewalTermsFromContract, renewalTermsPayload } from "./renewal-terms-fields";
+import CalendarFeedsDialog from "@/components/compliance/calendar-feeds-dialog";
 
 interface ContractDetailDialogProps {
   contract: Contract | null;
@@ -31,6 +40,8 @@ export default function ContractDetailDialog({
   const [isEditMode, setIsEditMode] = useState(false);
   const [displayContract, setDisplayContract] = useState<Contract | null>(contract);
   const [isCreateComplianceOpen, setIsCreateComplianceOpen] = useState(false);
+  const [isApplyTemplateOpen, setIsApplyTemplateOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     description: "",
@@ -40,6 +51,7 @@ export default function ContractDetailDialog({
     maxAmount: "",
     isActive: true,
   });
+  const [renewalTerms, setRenewalTerms] = useState(EMPTY_RENEWAL_TERMS);
 
   // Update display contract when prop changes
   useEffect(() => {
@@ -52,12 +64,18 @@ export default function ContractDetailDialog({
     enabled: isEditMode,
   });
 
+  const { data: optionPeriods = [] } = useQuery<ContractOptionPeriod[]>({
+    queryKey: [`/api/contracts/${displayContract?.id}/option-periods`],
+    enabled: !!displayContract,
+  });
+
   // Update contract mutation
   const updateContractMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const response = await apiRequest("PATCH", `/api/contracts/${displayContract?.id}`, {
         ...data,
         maxAmount: data.maxAmount ? parseFloat(data.maxAmount) : null,
+        ...renewalTermsPayload(renewalTerms),
       });
       return response.json();
     },
@@ -67,6 +85,8 @@ export default function ContractDetailDialog({
       
       // Invalidate both base and organization-scoped contract queries
       queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts/renewals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${updatedContract.id}/option-periods`] });
       if (updatedContract.customerId) {
         queryClient.invalidateQueries({ 
           queryKey: ["/api/contracts", { organizationId: updatedContract.customerId }] 
@@ -99,6 +119,7 @@ export default function ContractDetailDialog({
       maxAmount: displayContract.maxAmount || "",
       isActive: displayContract.isActive,
     });
+    setRenewalTerms(renewalTermsFromContract(displayContract, optionPeriods));
     setIsEditMode(true);
   };
 
@@ -159,6 +180,24 @@ export default function ContractDetailDialog({
                   <Plus className="h-4 w-4 mr-1" />
                   Add Compliance
                 </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => setIsApplyTemplateOpen(true)}
+                  data-testid="button-apply-template-open"
+                >
+                  <Layers className="h-4 w-4 mr-1" />
+                  Apply Template
+                </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => setIsFeedsOpen(true)}
+                  data-testid="button-contract-calendar-feed"
+                >
+                  <CalendarPlus className="h-4 w-4 mr-1" />
+                  Subscribe
+                </Button>
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -270,6 +309,11 @@ export default function ContractDetailDialog({
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="grid gap-2">
+                <Label>Renewal</Label>
+                <RenewalTermsFields value={renewalTerms} onChange={setRenewalTerms} contractEndDate={formData.endDate || null} />
+              </div>
             </div>
           </div>
         ) : (
@@ -278,13 +322,19 @@ export default function ContractDetailDialog({
             {/* Status */}
             <div>
               <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Status</label>
-              <div className="mt-1">
+              <div className="mt-1 flex items-center gap-2">
                 <Badge variant={displayContract.isActive ? "default" : "secondary"}>
                   {displayContract.isActive ? "Active" : "Inactive"}
                 </Badge>
+                {displayContract.contractType !== "standalone" && (
+                  <Badge variant="outline">{CONTRACT_TYPE_LABELS[displayContract.contractType]}</Badge>
+                )}
               </div>
             </div>
 
+            {/* Hierarchy */}
+            <ContractHierarchy contract={displayContract} onViewContract={setDisplayContract} />
+
             {/* Description */}
             {displayContract.description && (
               <div>
@@ -337,6 +387,56 @@ export default function ContractDetailDialog({
               </div>
             </div>
 
+            {/* Renewal */}
+            {displayContract.endDate && (
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Renewal</label>
+                <div className="mt-1 space-y-2 p-3 bg-muted/50 rounded-lg text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <RefreshCw className="h-4 w-4 text-primary" />
+                      {displayContract.autoRenew
+                        ? `Auto-renews${displayContract.renewalTermMonths ? ` every ${displayContract.renewalTermMonths} months` : ""}`
+                        : displayContract.renewalTermMonths ? `Renewal term ${displayContract.renewalTermMonths} months` : "No automatic renewal"}
+                    </span>
+                    <Badge variant="outline" data-testid="badge-renewal-decision">
+                      {RENEWAL_DECISION_LABELS[displayContract.renewalDecision]}
+                    </Badge>
+                  </div>
+                  {displayContract.noticePeriodDays ? (
+                    <p>
+                      Notice due {formatDate(renewalStatus(displayContract).noticeDeadline, 'MMM dd, yyyy')} ({displayContract.noticePeriodDays} days before the term ends)
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground">No notice period</p>
+                  )}
+                  {optionPeriods.length > 0 && (
+                    <ul className="space-y-1 pt-1 border-t">
+                      {optionPeriods.map((period) => (
+                        <li key={period.id} className="flex items-center justify-between" data-testid={`option-period-${period.id}`}>
+                          <span>
+                            {period.label}: {formatDate(period.startDate, 'MMM dd, yyyy')} – {formatDate(period.endDate, 'MMM dd, yyyy')}
+                          </span>
+                          <Badge variant={period.status === "exercised" ? "default" : "secondary"} className="capitalize">
+                            {period.status}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Ceiling Burn-Down */}
+            {displayContract.maxAmount && <ContractBurnDown contract={displayContract} />}
+
+            {/* Rate Card */}
+            <ContractRateCard contract={displayContract} />
+
+            {/* Amendments */}
+            <ContractAmendments contract={displayContract} onContractChange={setDisplayContract} />
+
             {/* Metadata */}
             <div className="grid grid-cols-2 gap-4 pt-4 border-t">
               <div>
@@ -381,6 +481,23 @@ export default function ContractDetailDialog({
       </DialogContent>
     </Dialog>
 
+    {/* Apply Compliance Template */}
+    <ApplyTemplateDialog
+      contract={displayContract}
+      open={isApplyTemplateOpen}
+      onClose={() => setIsApplyTemplateOpen(false)}
+    />
+
+    {/* Calendar feed for this contract */}
+    {isFeedsOpen && (
+      <CalendarFeedsDialog
+        open={isFeedsOpen}
+        onClose={() => setIsFeedsOpen(false)}
+        defaultScope="contract"
+        contractId={displayContract.id}
+      />
+    )}
+
     {/* Create Compliance Item Form */}
     {isCreateComplianceOpen && displayContract && (
       <ComplianceForm
@@ -1,5 +1,6 @@
+import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import type { Organization, Contract } from "@shared/schema";
+import type { Organization, Contract, ContractOptionPeriod } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -8,7 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +18,8 @@ import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { ALLOWED_PARENT_TYPES, CONTRACT_TYPES, CONTRACT_TYPE_LABELS, descendantsOf } from "@shared/contract-hierarchy";
+import RenewalTermsFields, { EMPTY_RENEWAL_TERMS, renewalTermsFromContract, renewalTermsPayload } from "./renewal-terms-fields";
 
 const formSchema = z.object({
   customerId: z.string().min(1, "Organization is required"),
@@ -26,6 +29,8 @@ const formSchema = z.object({
   endDate: z.date().optional(),
   maxAmount: z.string().optional(),
   isActive: z.boolean().default(true),
+  contractType: z.enum(CONTRACT_TYPES).default("standalone"),
+  parentContractId: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -75,13 +80,39 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
       endDate: contract?.endDate ? new Date(contract.endDate) : undefined,
       maxAmount: contract?.maxAmount || "",
       isActive: contract?.isActive ?? true,
+      contractType: contract?.contractType ?? "standalone",
+      parentContractId: contract?.parentContractId || "",
     },
   });
 
+  const { data: allContracts = [] } = useQuery<Contract[]>({
+    queryKey: ["/api/contracts"],
+  });
+
+  // A parent must be in the same organization, of a type this one may sit under, and not beneath this contract
+  const customerId = form.watch("customerId");
+  const contractType = form.watch("contractType");
+  const parentTypes = ALLOWED_PARENT_TYPES[contractType];
+  const excluded = new Set(contract ? [contract.id, ...descendantsOf(contract.id, allContracts).map((c) => c.id)] : []);
+  const parentOptions = allContracts.filter(
+    (c) => c.customerId === customerId && parentTypes.includes(c.contractType) && !excluded.has(c.id)
+  );
+  const parent = allContracts.find((c) => c.id === form.watch("parentContractId"));
+
   const { data: organizations } = useQuery<Organization[]>({
     queryKey: ["/api/organizations"],
   });
 
+  const [renewalTerms, setRenewalTerms] = useState(() => contract ? renewalTermsFromContract(contract) : EMPTY_RENEWAL_TERMS);
+  const { data: optionPeriods } = useQuery<ContractOptionPeriod[]>({
+    queryKey: [`/api/contracts/${contract?.id}/option-periods`],
+    enabled: isEditing,
+  });
+
+  useEffect(() => {
+    if (contract && optionPeriods) setRenewalTerms(renewalTermsFromContract(contract, optionPeriods));
+  }, [contract, optionPeriods]);
+
   const createMutation = useMutation({
     mutationFn: async (data: FormData) => {
       const payload = {
@@ -89,6 +120,8 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
         startDate: data.startDate.toISOString(),
         endDate: data.endDate?.toISOString() || null,
         maxAmount: data.maxAmount && data.maxAmount.trim() !== "" ? parseFloat(data.maxAmount) : null,
+        parentContractId: parentTypes.length > 0 ? data.parentContractId || null : null,
+        ...renewalTermsPayload(renewalTerms),
       };
       
       if (isEditing) {
@@ -101,16 +134,25 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts/renewals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts/hierarchy"] });
+      if (isEditing) {
+        queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}/option-periods`] });
+      }
       toast({
         title: isEditing ? "Contract Updated" : "Contract Created",
         description: `Contract has been ${isEditing ? "updated" : "created"} successfully.`,
       });
       onSuccess();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
+      // Hierarchy problems come back as a 400 with the reason in the body
+      const reason = error.message.startsWith("400:")
+        ? (JSON.parse(error.message.slice(4)) as { error?: string }).error
+        : undefined;
       toast({
         title: isEditing ? "Update Failed" : "Creation Failed",
-        description: `Failed to ${isEditing ? "update" : "create"} contract.`,
+        description: reason && reason !== "Invalid input" ? reason : `Failed to ${isEditing ? "update" : "create"} contract.`,
         variant: "destructive",
       });
     },
@@ -164,6 +206,58 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
               )}
             />
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="contractType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contract Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-contract-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CONTRACT_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{CONTRACT_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {parentTypes.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="parentContractId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent Contract</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-parent-contract">
+                            <SelectValue placeholder={parentOptions.length > 0 ? "Select parent..." : "No eligible parent contracts"} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {parentOptions.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.title} ({CONTRACT_TYPE_LABELS[option.contractType]})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             <FormField
               control={form.control}
               name="title"
@@ -260,12 +354,13 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
                               "w-full pl-3 text-left font-normal",
                               !field.value && "text-muted-foreground"
                             )}
+                            disabled={isEditing}
                             data-testid="button-end-date"
                           >
                             {field.value ? (
                               format(field.value, "PPP")
                             ) : (
-                              <span>Pick end date</span>
+                              <span>{parent && parentTypes.length > 0 ? "Inherit from parent" : "Pick end date"}</span>
                             )}
                             <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
                           </Button>
@@ -283,6 +378,7 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
                         />
                       </PopoverContent>
                     </Popover>
+                    {isEditing && <FormDescription>Change by recording an amendment</FormDescription>}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -301,14 +397,22 @@ export default function ContractForm({ onClose, onSuccess, contract, prefilledCu
                       step="0.01"
                       placeholder="Enter maximum amount..." 
                       {...field}
+                      disabled={isEditing}
                       data-testid="input-max-amount"
                     />
                   </FormControl>
+                  {isEditing && <FormDescription>Change by recording an amendment</FormDescription>}
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            <RenewalTermsFields
+              value={renewalTerms}
+              onChange={setRenewalTerms}
+              contractEndDate={form.watch("endDate")}
+            />
+            
             <div className="flex justify-end space-x-3 pt-4">
               <Button 
                 type="button" 
@@ -0,0 +1,137 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ComplianceItem, Contract } from "@shared/schema";
+import { CONTRACT_TYPE_LABELS, canHaveChildren, type ContractRollup, type EffectiveTerms } from "@shared/contract-hierarchy";
+import { Badge } from "@/components/ui/badge";
+import { ChevronRight, GitBranch } from "lucide-react";
+import { format } from "date-fns";
+
+interface ContractHierarchyResponse {
+  ancestors: Contract[];
+  effectiveTerms: EffectiveTerms;
+  rollup: ContractRollup;
+  children: Array<{ contract: Contract; rollup: ContractRollup }>;
+  inheritedCompliance: ComplianceItem[];
+}
+
+interface ContractHierarchyProps {
+  contract: Contract;
+  onViewContract: (contract: Contract) => void;
+}
+
+const formatCurrency = (amount: number | null) =>
+  amount === null ? "No ceiling" : new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+export function RollupSummary({ rollup }: { rollup: ContractRollup }) {
+  return (
+    <span className="text-muted-foreground">
+      {formatCurrency(rollup.billed)} billed
+      {rollup.ceiling !== null && ` of ${formatCurrency(rollup.ceiling)}`}
+      {" · "}
+      {rollup.overdueItems > 0 ? (
+        <span className="text-destructive">{rollup.overdueItems} overdue</span>
+      ) : (
+        `${rollup.openItems} open`
+      )}
+      {" items"}
+    </span>
+  );
+}
+
+// Parent chain, inherited terms, child contracts with their roll-ups and requirements set on a parent
+export default function ContractHierarchy({ contract, onViewContract }: ContractHierarchyProps) {
+  const { data: hierarchy } = useQuery<ContractHierarchyResponse>({
+    queryKey: [`/api/contracts/${contract.id}/hierarchy`],
+    enabled: !!contract.parentContractId || canHaveChildren(contract.contractType),
+  });
+
+  if (!hierarchy) return null;
+
+  const { ancestors, effectiveTerms, rollup, children, inheritedCompliance } = hierarchy;
+  const sourceTitle = (id: string | undefined) => ancestors.find((ancestor) => ancestor.id === id)?.title;
+  const inherited = [
+    effectiveTerms.inheritedFrom.endDate && effectiveTerms.endDate &&
+      `Ends ${format(new Date(effectiveTerms.endDate), "MMM dd, yyyy")} (from ${sourceTitle(effectiveTerms.inheritedFrom.endDate)})`,
+    effectiveTerms.inheritedFrom.noticePeriodDays &&
+      `${effectiveTerms.noticePeriodDays} days' notice (from ${sourceTitle(effectiveTerms.inheritedFrom.noticePeriodDays)})`,
+    effectiveTerms.inheritedFrom.renewalTermMonths &&
+      `Renews for ${effectiveTerms.renewalTermMonths} months (from ${sourceTitle(effectiveTerms.inheritedFrom.renewalTermMonths)})`,
+  ].filter(Boolean);
+  const overAllocated = rollup.ceiling !== null && rollup.allocated > rollup.ceiling;
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Contract Hierarchy</label>
+
+      {ancestors.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-sm" data-testid="contract-ancestors">
+          {[...ancestors].reverse().map((ancestor) => (
+            <span key={ancestor.id} className="flex items-center gap-1">
+              <button className="text-primary hover:underline" onClick={() => onViewContract(ancestor)}>
+                {ancestor.title}
+              </button>
+              <ChevronRight className="h-3 w-3 text-muted-foreground" />
+            </span>
+          ))}
+          <span className="font-medium">{contract.title}</span>
+        </div>
+      )}
+
+      {inherited.length > 0 && (
+        <div className="p-3 bg-muted/50 rounded-lg text-sm">
+          <div className="font-medium mb-1">Inherited terms</div>
+          <ul className="list-disc ml-5 text-muted-foreground">
+            {inherited.map((term) => <li key={term as string}>{term}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {canHaveChildren(contract.contractType) && (
+        <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Roll-up</span>
+            <RollupSummary rollup={rollup} />
+          </div>
+          {rollup.ceiling !== null && (
+            <div className={overAllocated ? "text-destructive" : "text-muted-foreground"}>
+              {formatCurrency(rollup.allocated)} of the ceiling allocated to child contracts
+              {overAllocated && " — more than the ceiling"}
+            </div>
+          )}
+          {children.length === 0 ? (
+            <div className="text-muted-foreground">No child contracts yet.</div>
+          ) : (
+            <ul className="space-y-1">
+              {children.map(({ contract: child, rollup: childRollup }) => (
+                <li key={child.id} className="flex items-center justify-between gap-2" data-testid={`child-contract-${child.id}`}>
+                  <button className="flex items-center gap-2 text-left hover:text-primary hover:underline" onClick={() => onViewContract(child)}>
+                    <GitBranch className="h-3 w-3" />
+                    {child.title}
+                    <Badge variant="outline" className="text-xs">{CONTRACT_TYPE_LABELS[child.contractType]}</Badge>
+                  </button>
+                  <RollupSummary rollup={childRollup} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {inheritedCompliance.length > 0 && (
+        <div className="p-3 bg-muted/50 rounded-lg text-sm">
+          <div className="font-medium mb-1">Requirements from parent contracts</div>
+          <ul className="space-y-1">
+            {inheritedCompliance.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2">
+                <span>
+                  {item.commitment}
+                  <span className="text-muted-foreground"> · {sourceTitle(item.contractId ?? undefined)}</span>
+                </span>
+                <Badge variant={item.status === "overdue" ? "destructive" : "secondary"}>{item.status}</Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Contract, ContractOptionPeriod, ContractRateCardLineWithRates } from "@shared/schema";
+import { RATE_UNITS, RATE_UNIT_LABELS, rateOn, type RateUnit } from "@shared/rate-cards";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface RateCardResponse {
+  ownerContractId: string | null;
+  ownerTitle: string | null;
+  lines: ContractRateCardLineWithRates[];
+  optionPeriods: ContractOptionPeriod[];
+}
+
+interface DraftRate {
+  effectiveDate: string;
+  rate: string;
+}
+
+interface DraftLine {
+  id?: string;
+  name: string;
+  unit: RateUnit;
+  escalationPercent: string;
+  rates: DraftRate[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const toDraft = (line: ContractRateCardLineWithRates): DraftLine => ({
+  id: line.id,
+  name: line.name,
+  unit: line.unit,
+  escalationPercent: line.escalationPercent || "",
+  rates: line.rates.map((rate) => ({ effectiveDate: format(new Date(rate.effectiveDate), "yyyy-MM-dd"), rate: rate.rate })),
+});
+
+// Negotiated rates by labor category or service item, with the rate in force today
+export default function ContractRateCard({ contract }: { contract: Contract }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DraftLine[] | null>(null);
+
+  const { data: card } = useQuery<RateCardResponse>({
+    queryKey: [`/api/contracts/${contract.id}/rate-card`],
+  });
+
+  const inherited = !!card?.ownerContractId && card.ownerContractId !== contract.id;
+
+  const saveMutation = useMutation({
+    mutationFn: async (lines: DraftLine[]) => {
+      await apiRequest("PUT", `/api/contracts/${contract.id}/rate-card`, {
+        lines: lines.map((line) => ({
+          id: line.id,
+          name: line.name,
+          unit: line.unit,
+          escalationPercent: line.escalationPercent ? parseFloat(line.escalationPercent) : null,
+          rates: line.rates.map((rate) => ({ effectiveDate: rate.effectiveDate, rate: parseFloat(rate.rate) })),
+        })),
+      });
+    },
+    onSuccess: () => {
+      // Child contracts may inherit this card
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).endsWith("/rate-card") });
+      toast({ title: "Rate Card Saved", description: "New billable events will be priced from it." });
+      setDraft(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openEditor = () => {
+    const lines = !card || inherited ? [] : card.lines.map(toDraft);
+    setDraft(lines.length > 0 ? lines : [{ name: "", unit: "hour", escalationPercent: "", rates: [{ effectiveDate: format(new Date(contract.startDate), "yyyy-MM-dd"), rate: "" }] }]);
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) =>
+    setDraft((lines) => lines!.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const updateRate = (lineIndex: number, rateIndex: number, changes: Partial<DraftRate>) =>
+    updateLine(lineIndex, { rates: draft![lineIndex].rates.map((rate, i) => (i === rateIndex ? { ...rate, ...changes } : rate)) });
+
+  const complete = draft?.every((line) => line.name.trim() && line.rates.length > 0 && line.rates.every((rate) => rate.effectiveDate && parseFloat(rate.rate) > 0));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Rate Card</label>
+        <Button variant="outline" size="sm" onClick={openEditor} data-testid="button-edit-rate-card">
+          <Edit className="h-4 w-4 mr-1" />
+          {inherited ? "Create Own Rate Card" : "Edit Rate Card"}
+        </Button>
+      </div>
+
+      {!card || card.lines.length === 0 ? (
+        <p className="mt-2 text-sm text-muted-foreground">No rate card. Billable events on this contract can use any rate.</p>
+      ) : (
+        <div className="mt-2 space-y-2">
+          {inherited && <p className="text-sm text-muted-foreground">Inherited from {card.ownerTitle}.</p>}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category / Item</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Rate Today</TableHead>
+                <TableHead>Escalation</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {card.lines.map((line) => {
+                const today = rateOn(line, card.optionPeriods, new Date());
+                return (
+                  <TableRow key={line.id} data-testid={`rate-card-line-${line.id}`}>
+                    <TableCell className="font-medium">{line.name}</TableCell>
+                    <TableCell>{RATE_UNIT_LABELS[line.unit]}</TableCell>
+                    <TableCell>
+                      {today ? formatCurrency(today.rate) : <span className="text-muted-foreground">Not yet effective</span>}
+                    </TableCell>
+                    <TableCell>{line.escalationPercent ? `${line.escalationPercent}% per option period` : "None"}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rate Card: {contract.title}</DialogTitle>
+            <DialogDescription>
+              Add a line for each labor category or service item. A rate applies from its effective date until the next
+              one; the escalation is added at the start of each option period after it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {draft?.map((line, lineIndex) => (
+              <div key={lineIndex} className="p-3 border rounded-lg space-y-3">
+                <div className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-end">
+                  <div className="grid gap-1">
+                    <Label>Labor Category / Service Item</Label>
+                    <Input
+                      value={line.name}
+                      onChange={(e) => updateLine(lineIndex, { name: e.target.value })}
+                      placeholder="e.g. Senior Analyst"
+                      data-testid={`input-rate-line-name-${lineIndex}`}
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <Label>Unit</Label>
+                    <Select value={line.unit} onValueChange={(unit) => updateLine(lineIndex, { unit: unit as RateUnit })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RATE_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>{RATE_UNIT_LABELS[unit]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-1">
+                    <Label>Escalation %</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={line.escalationPercent}
+                      onChange={(e) => updateLine(lineIndex, { escalationPercent: e.target.value })}
+                      placeholder="0"
+                    />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setDraft(draft.filter((_, i) => i !== lineIndex))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {line.rates.map((rate, rateIndex) => (
+                    <div key={rateIndex} className="flex items-center gap-2">
+                      <Input
+                        type="date"
+                        className="w-44"
+                        value={rate.effectiveDate}
+                        onChange={(e) => updateRate(lineIndex, rateIndex, { effectiveDate: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        className="w-36"
+                        value={rate.rate}
+                        onChange={(e) => updateRate(lineIndex, rateIndex, { rate: e.target.value })}
+                        placeholder="Rate"
+                      />
+                      {line.rates.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateLine(lineIndex, { rates: line.rates.filter((_, i) => i !== rateIndex) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateLine(lineIndex, { rates: [...line.rates, { effectiveDate: "", rate: "" }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Effective-Dated Rate
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft([...(draft ?? []), { name: "", unit: "hour", escalationPercent: "", rates: [{ effectiveDate: "", rate: "" }] }])}
+              data-testid="button-add-rate-line"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Line
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(draft!)}
+              disabled={saveMutation.isPending || !complete}
+              data-testid="button-save-rate-card"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Rate Card"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
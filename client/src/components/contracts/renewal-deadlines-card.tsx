@@ -0,0 +1,69 @@
+import { Link } from "wouter";
+import type { Organization } from "@shared/schema";
+import { RENEWAL_DECISION_LABELS, renewalStatus } from "@shared/renewals";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import type { RenewalContract } from "./renewal-pipeline";
+
+const DASHBOARD_WINDOW_DAYS = 90;
+
+interface RenewalDeadlinesCardProps {
+  renewals: RenewalContract[];
+  organizations?: Organization[];
+}
+
+// Notice deadlines in the next 90 days (and any already missed) for contracts still awaiting a decision
+export default function RenewalDeadlinesCard({ renewals, organizations }: RenewalDeadlinesCardProps) {
+  const deadlines = renewals
+    .map((contract) => ({ contract, status: renewalStatus(contract) }))
+    .filter(({ status }) =>
+      status.decisionPending &&
+      status.daysToNotice !== null && status.daysToNotice <= DASHBOARD_WINDOW_DAYS &&
+      status.daysToEnd !== null && status.daysToEnd >= 0
+    )
+    .sort((a, b) => a.status.daysToNotice! - b.status.daysToNotice!);
+
+  if (deadlines.length === 0) return null;
+
+  return (
+    <Card className="mb-6" data-testid="card-renewal-deadlines">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <RefreshCw className="w-5 h-5 mr-2" />
+            Renewal Deadlines
+          </CardTitle>
+          <CardDescription>Contract notice deadlines in the next {DASHBOARD_WINDOW_DAYS} days</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/contracts">View pipeline</Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deadlines.slice(0, 5).map(({ contract, status }) => (
+          <div key={contract.id} className="flex items-center justify-between text-sm" data-testid={`renewal-deadline-${contract.id}`}>
+            <div>
+              <div className="font-medium">{contract.title}</div>
+              <div className="text-xs text-muted-foreground">
+                {organizations?.find((org) => org.id === contract.customerId)?.name || "Unknown Organization"} · notice by{" "}
+                {format(status.noticeDeadline!, "MMM dd, yyyy")}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{RENEWAL_DECISION_LABELS[contract.renewalDecision]}</Badge>
+              <span className={`text-xs font-medium ${status.daysToNotice! < 0 ? "text-red-600 dark:text-red-400" : status.daysToNotice! <= 14 ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"}`}>
+                {status.daysToNotice! < 0 ? "Missed" : status.daysToNotice === 0 ? "Today" : `${status.daysToNotice}d`}
+              </span>
+            </div>
+          </div>
+        ))}
+        {deadlines.length > 5 && (
+          <p className="text-xs text-muted-foreground">and {deadlines.length - 5} more</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
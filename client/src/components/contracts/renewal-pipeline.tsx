@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Contract, ContractOptionPeriod } from "@shared/schema";
+import {
+  RENEWAL_DECISIONS,
+  RENEWAL_DECISION_LABELS,
+  RENEWAL_WINDOWS,
+  nextOptionPeriod,
+  renewalStatus,
+  type RenewalDecision,
+} from "@shared/renewals";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type RenewalContract = Contract & { optionPeriods: ContractOptionPeriod[] };
+
+interface RenewalPipelineProps {
+  getOrganizationName: (customerId: string) => string;
+  onViewContract: (contract: Contract) => void;
+}
+
+const decisionBadgeClass: Record<RenewalDecision, string> = {
+  pending: "bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900 dark:text-amber-100",
+  renew: "bg-green-100 text-green-800 border-green-300 dark:bg-green-900 dark:text-green-100",
+  renegotiate: "bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900 dark:text-blue-100",
+  terminate: "bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-900 dark:text-gray-100",
+};
+
+const formatDay = (date: Date | string | null) => (date ? format(new Date(date), "MMM dd, yyyy") : "—");
+
+// Contracts whose term ends within the selected window, with the renewal decision still to record
+export default function RenewalPipeline({ getOrganizationName, onViewContract }: RenewalPipelineProps) {
+  const { toast } = useToast();
+  const [windowDays, setWindowDays] = useState(String(RENEWAL_WINDOWS[2]));
+
+  const { data: renewals = [], isLoading } = useQuery<RenewalContract[]>({
+    queryKey: ["/api/contracts/renewals"],
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ contractId, decision }: { contractId: string; decision: RenewalDecision }) => {
+      const response = await apiRequest("POST", `/api/contracts/${contractId}/renewal-decision`, { decision });
+      return response.json();
+    },
+    onSuccess: (contract: Contract, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts/renewals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}/option-periods`] });
+      toast({
+        title: "Renewal Decision Recorded",
+        description: decision === "renew"
+          ? `${contract.title} now runs to ${formatDay(contract.endDate)}.`
+          : `${contract.title}: ${RENEWAL_DECISION_LABELS[decision]}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Decision Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rows = renewals
+    .map((contract) => ({ contract, status: renewalStatus(contract), option: nextOptionPeriod(contract.optionPeriods) }))
+    .filter(({ status }) => status.daysToEnd !== null && status.daysToEnd >= 0 && status.daysToEnd <= Number(windowDays));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <RefreshCw className="w-5 h-5 mr-2" />
+              Renewal Pipeline
+            </CardTitle>
+            <CardDescription>Contracts whose term ends soon and the renewal decision for each</CardDescription>
+          </div>
+          <Tabs value={windowDays} onValueChange={setWindowDays}>
+            <TabsList>
+              {RENEWAL_WINDOWS.map((days) => (
+                <TabsTrigger key={days} value={String(days)} data-testid={`tab-renewals-${days}`}>
+                  {days} days
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-muted-foreground text-sm">Loading renewals...</div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-renewals">
+            No active contracts end in the next {windowDays} days.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Organization</TableHead>
+                  <TableHead>Term Ends</TableHead>
+                  <TableHead>Notice Due</TableHead>
+                  <TableHead>Next Option</TableHead>
+                  <TableHead>Decision</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ contract, status, option }) => (
+                  <TableRow key={contract.id} data-testid={`row-renewal-${contract.id}`}>
+                    <TableCell>
+                      <button className="font-medium text-left hover:underline" onClick={() => onViewContract(contract)}>
+                        {contract.title}
+                      </button>
+                      {contract.autoRenew && (
+                        <Badge variant="outline" className="ml-2 text-xs">Auto-renews</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{getOrganizationName(contract.customerId)}</TableCell>
+                    <TableCell>
+                      {formatDay(contract.endDate)}
+                      <div className="text-xs text-muted-foreground">in {status.daysToEnd} days</div>
+                    </TableCell>
+                    <TableCell>
+                      {contract.noticePeriodDays ? (
+                        <>
+                          {formatDay(status.noticeDeadline)}
+                          <div className={`text-xs ${status.daysToNotice! < 0 ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
+                            {status.daysToNotice! < 0 ? `${-status.daysToNotice!} days ago` : `in ${status.daysToNotice} days`}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">No notice period</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {option ? `${option.label} (to ${formatDay(option.endDate)})` : <span className="text-muted-foreground">None</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={contract.renewalDecision}
+                        onValueChange={(decision) => decisionMutation.mutate({ contractId: contract.id, decision: decision as RenewalDecision })}
+                        disabled={decisionMutation.isPending}
+                      >
+                        <SelectTrigger className="w-44" data-testid={`select-renewal-decision-${contract.id}`}>
+                          <SelectValue>
+                            <Badge variant="outline" className={decisionBadgeClass[contract.renewalDecision]}>
+                              {RENEWAL_DECISION_LABELS[contract.renewalDecision]}
+                            </Badge>
+                          </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RENEWAL_DECISIONS.map((decision) => (
+                            <SelectItem key={decision} value={decision}>{RENEWAL_DECISION_LABELS[decision]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
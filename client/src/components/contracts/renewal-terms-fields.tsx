@@ -0,0 +1,177 @@
+import { addYears, format, parseISO } from "date-fns";
+import type { Contract, ContractOptionPeriod } from "@shared/schema";
+import { MAX_NOTICE_PERIOD_DAYS } from "@shared/renewals";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+
+export interface OptionPeriodDraft {
+  id?: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  status?: string;
+}
+
+export interface RenewalTerms {
+  autoRenew: boolean;
+  renewalTermMonths: string;
+  noticePeriodDays: string;
+  optionPeriods: OptionPeriodDraft[];
+}
+
+export const EMPTY_RENEWAL_TERMS: RenewalTerms = {
+  autoRenew: false,
+  renewalTermMonths: "",
+  noticePeriodDays: "",
+  optionPeriods: [],
+};
+
+// Stored dates are UTC midnight, so the calendar day comes from the ISO string
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+export function renewalTermsFromContract(contract: Contract, periods: ContractOptionPeriod[] = []): RenewalTerms {
+  return {
+    autoRenew: contract.autoRenew,
+    renewalTermMonths: contract.renewalTermMonths?.toString() ?? "",
+    noticePeriodDays: contract.noticePeriodDays?.toString() ?? "",
+    optionPeriods: periods.map((period) => ({
+      id: period.id,
+      label: period.label,
+      startDate: toDateInput(period.startDate),
+      endDate: toDateInput(period.endDate),
+      status: period.status,
+    })),
+  };
+}
+
+// Fields sent with the contract on create and update
+export function renewalTermsPayload(terms: RenewalTerms) {
+  return {
+    autoRenew: terms.autoRenew,
+    renewalTermMonths: terms.renewalTermMonths.trim() ? parseInt(terms.renewalTermMonths, 10) : null,
+    noticePeriodDays: terms.noticePeriodDays.trim() ? parseInt(terms.noticePeriodDays, 10) : null,
+    optionPeriods: terms.optionPeriods.map(({ id, label, startDate, endDate }) => ({ id, label, startDate, endDate })),
+  };
+}
+
+interface RenewalTermsFieldsProps {
+  value: RenewalTerms;
+  onChange: (value: RenewalTerms) => void;
+  contractEndDate?: Date | string | null;
+}
+
+// Auto-renewal, notice period and option-year schedule for a contract
+export default function RenewalTermsFields({ value, onChange, contractEndDate }: RenewalTermsFieldsProps) {
+  const updatePeriod = (index: number, changes: Partial<OptionPeriodDraft>) => {
+    onChange({
+      ...value,
+      optionPeriods: value.optionPeriods.map((period, i) => (i === index ? { ...period, ...changes } : period)),
+    });
+  };
+
+  // Each new option year starts where the previous one (or the base term) ends
+  const addPeriod = () => {
+    const previousEnd = value.optionPeriods[value.optionPeriods.length - 1]?.endDate || (contractEndDate ? toDateInput(contractEndDate) : "");
+    const endDate = previousEnd ? format(addYears(parseISO(previousEnd), 1), "yyyy-MM-dd") : "";
+    onChange({
+      ...value,
+      optionPeriods: [...value.optionPeriods, { label: `Option Year ${value.optionPeriods.length + 1}`, startDate: previousEnd, endDate }],
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="auto-renew">Auto-renews</Label>
+          <p className="text-xs text-muted-foreground">Renews for the renewal term unless notice is given.</p>
+        </div>
+        <Switch
+          id="auto-renew"
+          checked={value.autoRenew}
+          onCheckedChange={(checked) => onChange({ ...value, autoRenew: checked })}
+          data-testid="switch-auto-renew"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="renewal-term-months">Renewal Term (months)</Label>
+          <Input
+            id="renewal-term-months"
+            type="number"
+            min={1}
+            max={120}
+            value={value.renewalTermMonths}
+            onChange={(e) => onChange({ ...value, renewalTermMonths: e.target.value })}
+            placeholder="12"
+            data-testid="input-renewal-term-months"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="notice-period-days">Notice Period (days)</Label>
+          <Input
+            id="notice-period-days"
+            type="number"
+            min={0}
+            max={MAX_NOTICE_PERIOD_DAYS}
+            value={value.noticePeriodDays}
+            onChange={(e) => onChange({ ...value, noticePeriodDays: e.target.value })}
+            placeholder="60"
+            data-testid="input-notice-period-days"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Option Periods</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addPeriod} data-testid="button-add-option-period">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Option
+          </Button>
+        </div>
+        {value.optionPeriods.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No option years. Renewing extends the contract by the renewal term.</p>
+        ) : (
+          value.optionPeriods.map((period, index) => (
+            <div key={period.id ?? `new-${index}`} className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-2">
+              <Input
+                value={period.label}
+                onChange={(e) => updatePeriod(index, { label: e.target.value })}
+                disabled={!!period.status && period.status !== "pending"}
+                data-testid={`input-option-label-${index}`}
+              />
+              <Input
+                type="date"
+                value={period.startDate}
+                onChange={(e) => updatePeriod(index, { startDate: e.target.value })}
+                disabled={!!period.status && period.status !== "pending"}
+                data-testid={`input-option-start-${index}`}
+              />
+              <Input
+                type="date"
+                value={period.endDate}
+                onChange={(e) => updatePeriod(index, { endDate: e.target.value })}
+                disabled={!!period.status && period.status !== "pending"}
+                data-testid={`input-option-end-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...value, optionPeriods: value.optionPeriods.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-option-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
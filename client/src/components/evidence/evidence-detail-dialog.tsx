@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Shield, Download, File, Calendar, Building2, FileSignature, ClipboardList, X, Edit, MessageSquare, Trash2 } from "lucide-react";
+import { Shield, ShieldCheck, ShieldAlert, ShieldQuestion, Download, File, Calendar, Building2, FileSignature, ClipboardList, X, Edit, MessageSquare, Trash2, RefreshCw, History, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -24,6 +24,57 @@ interface EvidenceComment {
   };
 }
 
+interface EvidenceIntegrity {
+  evidenceId: string;
+  status: "verified" | "altered" | "missing" | "unhashed" | "no_file";
+  expectedHash: string | null;
+  actualHash: string | null;
+  checkedAt: string;
+}
+
+interface EvidenceVersionEntry {
+  id: string;
+  versionNumber: number;
+  originalFilename: string | null;
+  fileHash: string | null;
+  restoredFromVersion: number | null;
+  createdAt: string;
+  isCurrent: boolean;
+  uploader: {
+    id: string;
+    username: string;
+    fullName: string | null;
+  } | null;
+}
+
+const integrityDisplay: Record<EvidenceIntegrity["status"], { label: string; description: string; className: string }> = {
+  verified: {
+    label: "Verified",
+    description: "File contents match the SHA-256 hash recorded at upload.",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  },
+  altered: {
+    label: "Altered",
+    description: "File contents no longer match the hash recorded at upload.",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  },
+  missing: {
+    label: "Missing",
+    description: "The stored file could not be found.",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  },
+  unhashed: {
+    label: "Not Hashed",
+    description: "This file was stored before hashing was enabled, so there is nothing to compare against.",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  },
+  no_file: {
+    label: "No File",
+    description: "No file is attached to this evidence.",
+    className: "bg-muted text-muted-foreground",
+  },
+};
+
 interface EvidenceDetailDialogProps {
   evidence: Evidence | null;
   onClose: () => void;
@@ -58,6 +109,49 @@ export default function EvidenceDetailDialog({
     enabled: !!evidence,
   });
 
+  // Re-hash the stored file on the server
+  const { data: integrity, isFetching: isVerifying, refetch: reverify } = useQuery<EvidenceIntegrity>({
+    queryKey: ["/api/evidence", evidence?.id, "verify"],
+    queryFn: async () => {
+      const response = await fetch(`/api/evidence/${evidence?.id}/verify`);
+      if (!response.ok) throw new Error("Failed to verify evidence");
+      return response.json();
+    },
+    enabled: !!evidence?.filePath,
+  });
+
+  // Fetch file version history
+  const { data: versions = [] } = useQuery<EvidenceVersionEntry[]>({
+    queryKey: ["/api/evidence", evidence?.id, "versions"],
+    queryFn: async () => {
+      const response = await fetch(`/api/evidence/${evidence?.id}/versions`);
+      if (!response.ok) throw new Error("Failed to fetch versions");
+      return response.json();
+    },
+    enabled: !!evidence?.filePath,
+  });
+
+  // Restore version mutation
+  const restoreVersionMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return apiRequest("POST", `/api/evidence/${evidence?.id}/versions/${versionId}/restore`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/evidence"] });
+      toast({
+        title: "Version restored",
+        description: "The selected version is now the current file.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Add comment mutation
   const addCommentMutation = useMutation({
     mutationFn: async (comment: string) => {
@@ -144,6 +238,10 @@ export default function EvidenceDetailDialog({
     }
   };
 
+  const handleVersionDownload = (versionId: string) => {
+    window.open(`/api/evidence/${evidence.id}/versions/${versionId}/download`, '_blank');
+  };
+
   const handleView = async () => {
     if (!evidence.filePath) return;
     window.open(`/api/evidence/${evidence.id}/download`, '_blank');
@@ -219,6 +317,123 @@ export default function EvidenceDetailDialog({
             </div>
           </div>
 
+          {/* Integrity */}
+          {evidence.filePath && (
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Integrity</label>
+              <div className="mt-1 p-3 bg-muted/50 rounded-lg space-y-2" data-testid="section-evidence-integrity">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {integrity?.status === "verified" ? (
+                      <ShieldCheck className="h-4 w-4 text-green-600" />
+                    ) : integrity?.status === "altered" || integrity?.status === "missing" ? (
+                      <ShieldAlert className="h-4 w-4 text-destructive" />
+                    ) : (
+                      <ShieldQuestion className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    {integrity ? (
+                      <Badge className={integrityDisplay[integrity.status].className} data-testid="badge-integrity-status">
+                        {integrityDisplay[integrity.status].label}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        {isVerifying ? "Verifying..." : "Not verified"}
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => reverify()}
+                    disabled={isVerifying}
+                    data-testid="button-verify-integrity"
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${isVerifying ? "animate-spin" : ""}`} />
+                    Re-verify
+                  </Button>
+                </div>
+                {integrity && (
+                  <>
+                    <p className="text-xs text-muted-foreground">{integrityDisplay[integrity.status].description}</p>
+                    {(integrity.expectedHash || integrity.actualHash) && (
+                      <div className="text-xs font-mono break-all space-y-1">
+                        {integrity.expectedHash && (
+                          <div><span className="text-muted-foreground">Recorded: </span>{integrity.expectedHash}</div>
+                        )}
+                        {integrity.actualHash && integrity.actualHash !== integrity.expectedHash && (
+                          <div><span className="text-muted-foreground">Current: </span>{integrity.actualHash}</div>
+                        )}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Checked {format(new Date(integrity.checkedAt), 'MMM dd, yyyy HH:mm:ss')}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Version History */}
+          {versions.length > 0 && (
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                <History className="h-4 w-4" />
+                Version History
+              </label>
+              <div className="mt-1 space-y-2 max-h-60 overflow-y-auto">
+                {versions.map((version) => (
+                  <div
+                    key={version.id}
+                    className="p-3 bg-muted/50 rounded-lg flex items-center justify-between gap-3"
+                    data-testid={`version-${version.versionNumber}`}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">v{version.versionNumber}</Badge>
+                        {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                        <span className="text-sm font-medium truncate">{version.originalFilename || "Unnamed file"}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {version.uploader ? (version.uploader.fullName || version.uploader.username) : "Unknown user"}
+                        {" · "}
+                        {format(new Date(version.createdAt), 'MMM dd, yyyy HH:mm')}
+                        {version.restoredFromVersion && ` · restored from v${version.restoredFromVersion}`}
+                      </div>
+                      {version.fileHash && (
+                        <div className="text-xs font-mono text-muted-foreground truncate" title={version.fileHash}>
+                          {version.fileHash.slice(0, 16)}…
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleVersionDownload(version.id)}
+                        data-testid={`button-download-version-${version.versionNumber}`}
+                      >
+                        <Download className="h-3 w-3" />
+                      </Button>
+                      {!version.isCurrent && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreVersionMutation.mutate(version.id)}
+                          disabled={restoreVersionMutation.isPending}
+                          data-testid={`button-restore-version-${version.versionNumber}`}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Associations */}
           <div className="space-y-3">
             <label className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Associated With</label>
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { InvoiceWithLineItems } from "@shared/schema";
+import { INVOICE_STATUS_LABELS, canTransition, type InvoiceStatus } from "@shared/invoices";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, CheckCircle, Download, Send, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, invoiceErrorReason } from "./invoice-form";
+
+interface InvoiceDetailDialogProps {
+  invoiceId: string;
+  organizationName: string;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+export const STATUS_BADGE_VARIANTS: Record<InvoiceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  issued: "secondary",
+  paid: "default",
+  void: "destructive",
+};
+
+const formatDate = (value: Date | string | null) => (value ? format(new Date(value), "MMM dd, yyyy") : "—");
+
+// Line items, totals and the draft → issued → paid / void actions for one invoice
+export default function InvoiceDetailDialog({ invoiceId, organizationName, canManage, onClose }: InvoiceDetailDialogProps) {
+  const { toast } = useToast();
+  const [voidReason, setVoidReason] = useState<string | null>(null);
+
+  const { data: invoice } = useQuery<InvoiceWithLineItems>({
+    queryKey: [`/api/invoices/${invoiceId}`],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: "finalize" | "mark-paid" | "void" | "delete"; body?: object }) => {
+      if (action === "delete") {
+        await apiRequest("DELETE", `/api/invoices/${invoiceId}`);
+      } else {
+        await apiRequest("POST", `/api/invoices/${invoiceId}/${action}`, body ?? {});
+      }
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/unbilled-events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billable-events"] });
+      const messages = {
+        finalize: ["Invoice Issued", "The invoice number is assigned and its events are locked."],
+        "mark-paid": ["Invoice Paid", "The invoice and its events are marked paid."],
+        void: ["Invoice Voided", "Its events are unbilled again and can go on a new invoice."],
+        delete: ["Draft Deleted", "Its events are unbilled again."],
+      };
+      toast({ title: messages[action][0], description: messages[action][1] });
+      setVoidReason(null);
+      if (action === "delete") {
+        onClose();
+      } else {
+        queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoiceId}`] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action Failed", description: invoiceErrorReason(error) ?? error.message, variant: "destructive" });
+    },
+  });
+
+  const downloadPdf = async () => {
+    const response = await fetch(`/api/invoices/${invoiceId}/pdf`, { credentials: "include" });
+    if (!response.ok) {
+      toast({ title: "Download Failed", description: "Could not generate the invoice PDF.", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${invoice?.invoiceNumber ?? "draft-invoice"}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const overdue = invoice?.status === "issued" && !!invoice.dueDate && new Date(invoice.dueDate) < new Date();
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {invoice?.invoiceNumber ?? "Draft Invoice"}
+            {invoice && <Badge variant={STATUS_BADGE_VARIANTS[invoice.status]}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>}
+            {overdue && <Badge variant="destructive">Overdue</Badge>}
+          </DialogTitle>
+          <DialogDescription>{organizationName}</DialogDescription>
+        </DialogHeader>
+
+        {!invoice ? (
+          <p className="text-sm text-muted-foreground">Loading invoice...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Issued</div>
+                <div>{formatDate(invoice.issueDate)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Due</div>
+                <div className={overdue ? "text-destructive" : undefined}>{formatDate(invoice.dueDate)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Terms</div>
+                <div>Net {invoice.netTermsDays}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">{invoice.status === "void" ? "Voided" : "Paid"}</div>
+                <div>{formatDate(invoice.status === "void" ? invoice.voidedAt : invoice.paidAt)}</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoice.lineItems.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(line.billingDate)}</TableCell>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-right">{Number(line.units)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.rate)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="ml-auto w-64 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(invoice.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax ({Number(invoice.taxRate)}%)</span>
+                <span>{formatCurrency(invoice.taxAmount)}</span>
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Total</span>
+                <span data-testid="text-invoice-total">{formatCurrency(invoice.total)}</span>
+              </div>
+            </div>
+
+            {invoice.notes && <p className="text-sm whitespace-pre-line text-muted-foreground">{invoice.notes}</p>}
+            {invoice.voidReason && <p className="text-sm text-destructive">Voided: {invoice.voidReason}</p>}
+
+            {voidReason !== null && (
+              <div className="grid gap-1">
+                <Label>Reason for voiding</Label>
+                <Input
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  placeholder="e.g. Issued with the wrong rate"
+                  autoFocus
+                  data-testid="input-void-reason"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={downloadPdf} disabled={!invoice} data-testid="button-download-invoice-pdf">
+            <Download className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+          {canManage && invoice?.status === "draft" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => actionMutation.mutate({ action: "delete" })}
+                disabled={actionMutation.isPending}
+                data-testid="button-delete-invoice"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete Draft
+              </Button>
+              <Button
+                onClick={() => actionMutation.mutate({ action: "finalize" })}
+                disabled={actionMutation.isPending}
+                data-testid="button-finalize-invoice"
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Finalize &amp; Issue
+              </Button>
+            </>
+          )}
+          {canManage && invoice && canTransition(invoice.status, "void") && (
+            voidReason === null ? (
+              <Button variant="outline" onClick={() => setVoidReason("")} data-testid="button-void-invoice">
+                <Ban className="h-4 w-4 mr-1" />
+                Void
+              </Button>
+            ) : (
+              <Button
+                variant="destructive"
+                onClick={() => actionMutation.mutate({ action: "void", body: { reason: voidReason } })}
+                disabled={actionMutation.isPending || !voidReason.trim()}
+                data-testid="button-confirm-void-invoice"
+              >
+                Confirm Void
+              </Button>
+            )
+          )}
+          {canManage && invoice && canTransition(invoice.status, "paid") && (
+            <Button
+              onClick={() => actionMutation.mutate({ action: "mark-paid" })}
+              disabled={actionMutation.isPending}
+              data-testid="button-mark-invoice-paid"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Mark Paid
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
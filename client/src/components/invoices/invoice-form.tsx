@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { BillableEvent, Contract, InvoiceWithLineItems, Organization } from "@shared/schema";
+import { invoiceTotals } from "@shared/invoices";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const ALL_CONTRACTS = "__all__";
+
+interface InvoiceFormProps {
+  onClose: () => void;
+  onCreated: (invoice: InvoiceWithLineItems) => void;
+}
+
+export const formatCurrency = (amount: string | number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(Number(amount));
+
+// The reason the server gave for a rejected invoice action, from an apiRequest error
+export const invoiceErrorReason = (error: Error) =>
+  /^4\d\d:/.test(error.message) ? (JSON.parse(error.message.slice(4)) as { error?: string }).error : undefined;
+
+// Drafts an invoice from an organization's unbilled events, optionally for one contract
+export default function InvoiceForm({ onClose, onCreated }: InvoiceFormProps) {
+  const { toast } = useToast();
+  const [customerId, setCustomerId] = useState("");
+  const [contractId, setContractId] = useState(ALL_CONTRACTS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [taxRate, setTaxRate] = useState("");
+  const [netTermsDays, setNetTermsDays] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const { data: contracts } = useQuery<Contract[]>({
+    queryKey: ["/api/contracts", { organizationId: customerId }],
+    enabled: !!customerId,
+  });
+
+  const { data: events, isLoading: eventsLoading } = useQuery<BillableEvent[]>({
+    queryKey: ["/api/invoices/unbilled-events", { organizationId: customerId, contractId: contractId === ALL_CONTRACTS ? "" : contractId }],
+    enabled: !!customerId,
+  });
+
+  const chosen = events?.filter((event) => selected.has(event.id)) ?? [];
+  const preview = invoiceTotals(chosen.map((event) => event.totalAmount), taxRate ? parseFloat(taxRate) || 0 : 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/invoices", {
+        customerId,
+        contractId: contractId === ALL_CONTRACTS ? null : contractId,
+        billableEventIds: chosen.map((event) => event.id),
+        taxRate: taxRate === "" ? undefined : parseFloat(taxRate),
+        netTermsDays: netTermsDays === "" ? undefined : parseInt(netTermsDays, 10),
+        notes,
+      });
+      return (await response.json()) as InvoiceWithLineItems;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/unbilled-events"] });
+      toast({ title: "Draft Invoice Created", description: "Review it, then finalize to assign an invoice number." });
+      onCreated(invoice);
+    },
+    onError: (error: Error) => {
+      const reason = invoiceErrorReason(error);
+      toast({
+        title: "Creation Failed",
+        description: reason && reason !== "Invalid input" ? reason : "Failed to create invoice.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectOrganization = (id: string) => {
+    setCustomerId(id);
+    setContractId(ALL_CONTRACTS);
+    setSelected(new Set());
+  };
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+          <DialogDescription>
+            Choose the unbilled events to include. The invoice is saved as a draft; finalizing it assigns the next
+            invoice number and locks the events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-1">
+              <Label>Organization</Label>
+              <Select value={customerId} onValueChange={selectOrganization}>
+                <SelectTrigger data-testid="select-invoice-organization">
+                  <SelectValue placeholder="Select organization" />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations?.map((organization) => (
+                    <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label>Contract</Label>
+              <Select
+                value={contractId}
+                onValueChange={(id) => {
+                  setContractId(id);
+                  setSelected(new Set());
+                }}
+                disabled={!customerId}
+              >
+                <SelectTrigger data-testid="select-invoice-contract">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CONTRACTS}>All contracts</SelectItem>
+                  {contracts?.map((contract) => (
+                    <SelectItem key={contract.id} value={contract.id}>{contract.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {customerId && (
+            <div className="border rounded-lg">
+              {eventsLoading ? (
+                <p className="p-4 text-sm text-muted-foreground">Loading unbilled events...</p>
+              ) : !events || events.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">No unbilled events for this selection.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selected.size === events.length}
+                          onCheckedChange={(checked) => setSelected(checked ? new Set(events.map((event) => event.id)) : new Set())}
+                          aria-label="Select all events"
+                        />
+                      </TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id} data-testid={`unbilled-event-${event.id}`}>
+                        <TableCell>
+                          <Checkbox checked={selected.has(event.id)} onCheckedChange={(checked) => toggle(event.id, checked === true)} />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{format(new Date(event.billingDate), "MMM dd, yyyy")}</TableCell>
+                        <TableCell>{event.description}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(event.totalAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-1">
+              <Label>Tax Rate %</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+                placeholder="Default"
+                data-testid="input-invoice-tax-rate"
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label>Net Terms (days)</Label>
+              <Input
+                type="number"
+                value={netTermsDays}
+                onChange={(e) => setNetTermsDays(e.target.value)}
+                placeholder="Default"
+                data-testid="input-invoice-net-terms"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-1">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Printed on the invoice, e.g. payment instructions" />
+          </div>
+
+          {chosen.length > 0 && (
+            <div className="p-3 bg-muted/50 rounded-lg text-sm flex justify-between">
+              <span>{chosen.length} event{chosen.length === 1 ? "" : "s"} selected</span>
+              <span>
+                {formatCurrency(preview.subtotal)}
+                {taxRate && ` + ${formatCurrency(preview.taxAmount)} tax`}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || chosen.length === 0}
+            data-testid="button-create-invoice"
+          >
+            {createMutation.isPending ? "Creating..." : "Create Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,12 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { Bell, LogOut } from "lucide-react";
+import { Bell, LogOut, ShieldCheck } from "lucide-react";
+import SecurityDialog from "@/components/account/security-dialog";
 
 export default function Header() {
   const { user, logoutMutation } = useAuth();
+  const [showSecurity, setShowSecurity] = useState(false);
 
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -56,6 +59,17 @@ export default function Header() {
               </span>
             </div>
           </div>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSecurity(true)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            title="Account security"
+            data-testid="button-account-security"
+          >
+            <ShieldCheck className="h-4 w-4" />
+          </Button>
           
           <Button 
             variant="ghost"
@@ -69,6 +83,8 @@ export default function Header() {
           </Button>
         </div>
       </div>
+
+      <SecurityDialog open={showSecurity} onClose={() => setShowSecurity(false)} />
     </header>
   );
 }
@@ -2,6 +2,7 @@ import { useLocation, Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
+import { canOpenPage } from "@shared/permissions";
 import { 
   LayoutDashboard, 
   FileText, 
@@ -13,7 +14,11 @@ import {
   Settings,
   Building2,
   HelpCircle,
-  Target
+  Target,
+  UserCheck,
+  ClipboardCheck,
+  ScrollText,
+  Receipt
 } from "lucide-react";
 
 const navigation = [
@@ -42,11 +47,26 @@ const navigation = [
     href: "/compliance",
     icon: Calendar,
   },
+  {
+    name: "My Items",
+    href: "/my-items",
+    icon: UserCheck,
+  },
+  {
+    name: "Review Queue",
+    href: "/reviews",
+    icon: ClipboardCheck,
+  },
   {
     name: "Billable Events",
     href: "/billable-events",
     icon: DollarSign,
   },
+  {
+    name: "Invoices",
+    href: "/invoices",
+    icon: Receipt,
+  },
   {
     name: "Evidence Locker",
     href: "/evidence-locker",
@@ -57,6 +77,11 @@ const navigation = [
     href: "/export-import",
     icon: Download,
   },
+  {
+    name: "Audit Log",
+    href: "/audit-log",
+    icon: ScrollText,
+  },
   {
     name: "Help",
     href: "/help",
@@ -67,7 +92,6 @@ const navigation = [
 export default function Sidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
-  const isAdmin = user?.role === "admin";
 
   const isActive = (href: string) => {
     if (href === "/") {
@@ -80,7 +104,7 @@ export default function Sidebar() {
     <nav className="fixed left-0 top-0 w-64 bg-card dark:bg-sidebar border-r border-border dark:border-sidebar-border flex flex-col h-screen z-40">
       <div className="p-6 flex-1 overflow-y-auto">
         <ul className="space-y-2">
-          {navigation.map((item) => {
+          {navigation.filter((item) => canOpenPage(user?.role, item.href)).map((item) => {
             const Icon = item.icon;
             const active = isActive(item.href);
             
@@ -104,7 +128,7 @@ export default function Sidebar() {
             );
           })}
           
-          {isAdmin && (
+          {canOpenPage(user?.role, "/admin") && (
             <li>
               <Link href="/admin">
                 <Button
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Team } from "@shared/schema";
+
+export interface DirectoryUser {
+  id: string;
+  username: string;
+  fullName: string | null;
+  email: string | null;
+  active: boolean;
+}
+
+export interface TeamWithMembers extends Team {
+  memberIds: string[];
+}
+
+export function userDisplayName(user: Pick<DirectoryUser, "username" | "fullName">) {
+  return user.fullName || user.username;
+}
+
+// Users who can be given new work; a deactivated user is kept only when already selected
+export function assignableUsers(directory: DirectoryUser[] | undefined, selectedIds: (string | null | undefined)[] = []) {
+  return directory?.filter((user) => user.active || selectedIds.includes(user.id)) ?? [];
+}
+
+export function useUserDirectory() {
+  return useQuery<DirectoryUser[]>({
+    queryKey: ["/api/users/directory"],
+  });
+}
+
+export function useTeams() {
+  return useQuery<TeamWithMembers[]>({
+    queryKey: ["/api/teams"],
+  });
+}
@@ -12,13 +12,21 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Accounts with MFA get a challenge instead of a session until the code is verified
+export type MfaChallenge = { mfaRequired: true } | { mfaSetupRequired: true };
+type LoginResult = SelectUser | MfaChallenge;
+
+export function isMfaChallenge(result: LoginResult | undefined): result is MfaChallenge {
+  return !!result && ("mfaRequired" in result || "mfaSetupRequired" in result);
+}
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -36,8 +44,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResult) => {
+      if (!isMfaChallenge(result)) {
+        queryClient.setQueryData(["/api/user"], result);
+      }
     },
     onError: (error: Error) => {
       toast({
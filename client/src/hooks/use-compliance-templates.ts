@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ComplianceTemplate, ComplianceTemplateItem } from "@shared/schema";
+
+export interface ComplianceTemplateWithItems extends ComplianceTemplate {
+  items: ComplianceTemplateItem[];
+}
+
+export function useComplianceTemplates(enabled: boolean = true) {
+  return useQuery<ComplianceTemplateWithItems[]>({
+    queryKey: ["/api/compliance-templates"],
+    enabled,
+  });
+}
@@ -0,0 +1,56 @@
+import { useMutation } from "@tanstack/react-query";
+import type { ComplianceItem, ComplianceItemWithNextOccurrence } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+type ReviewAction = "submit-review" | "approve" | "reject";
+
+const ACTION_TOASTS: Record<ReviewAction, { title: string; description: string }> = {
+  "submit-review": { title: "Submitted for Review", description: "The reviewer can now approve or reject the item." },
+  approve: { title: "Item Approved", description: "The compliance item is now complete." },
+  reject: { title: "Item Rejected", description: "The item has been returned with your comment." },
+};
+
+export const SUBMITTABLE_STATUSES = ["pending", "overdue", "rejected"];
+
+export function formatStatus(status: string) {
+  return status.replace("_", " ").toUpperCase();
+}
+
+/**
+ * Mirrors the server's maker-checker rule so review buttons only show for users who may use them.
+ */
+export function useCanReview() {
+  const { user } = useAuth();
+  return (item: Pick<ComplianceItem, "status" | "submittedBy" | "reviewerId">) => {
+    if (!user || item.status !== "in_review" || item.submittedBy === user.id) return false;
+    return user.role === "admin" || item.reviewerId === user.id;
+  };
+}
+
+export function useReviewAction(onDone?: () => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ itemId, action, comment }: { itemId: string; action: ReviewAction; comment?: string }): Promise<ComplianceItemWithNextOccurrence> => {
+      const response = await apiRequest("POST", `/api/compliance-items/${itemId}/${action}`, { comment: comment || null });
+      return response.json();
+    },
+    onSuccess: (result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      onDone?.();
+      toast({
+        title: ACTION_TOASTS[action].title,
+        description: result.nextOccurrence?.dueDate
+          ? `${ACTION_TOASTS[action].description} Next occurrence created.`
+          : ACTION_TOASTS[action].description,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Action Failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
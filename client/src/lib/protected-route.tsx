@@ -1,6 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { canOpenPage } from "@shared/permissions";
 
 export function ProtectedRoute({
   path,
@@ -29,5 +30,14 @@ export function ProtectedRoute({
     );
   }
 
+  // Pages the user's role cannot use send them back to the dashboard
+  if (!canOpenPage(user.role, path)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/" />
+      </Route>
+    );
+  }
+
   return <Component />
 }
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import type { User as SelectUser } from "@shared/schema";
+import { ROLE_DEFINITIONS, isRole } from "@shared/permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface InvitationDetails {
+  email: string;
+  fullName: string | null;
+  role: string;
+}
+
+// API errors arrive as "400: {json}"; show the message and any policy problems
+function parseError(error: Error): { message: string; details: string[] } {
+  const match = error.message.match(/^\d+: (.*)$/);
+  try {
+    const body = JSON.parse(match?.[1] ?? "");
+    return { message: body.error || error.message, details: Array.isArray(body.details) ? body.details.filter((d: unknown) => typeof d === "string") : [] };
+  } catch {
+    return { message: match ? match[1] : error.message, details: [] };
+  }
+}
+
+export default function AcceptInvitePage() {
+  const [, setLocation] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+  // fullName stays null until edited, so the name from the invitation shows as the default
+  const [form, setForm] = useState({ username: "", fullName: null as string | null, password: "", confirmPassword: "" });
+
+  const { data: invitation, isLoading, error: lookupError } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invitations/lookup?token=${encodeURIComponent(token)}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (): Promise<SelectUser> => {
+      const response = await apiRequest("POST", "/api/invitations/accept", {
+        token,
+        username: form.username.trim(),
+        fullName: (form.fullName ?? invitation?.fullName ?? "").trim() || null,
+        password: form.password,
+      });
+      return response.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setLocation("/");
+    },
+  });
+
+  const mismatch = form.confirmPassword.length > 0 && form.password !== form.confirmPassword;
+  const error = acceptMutation.error ? parseError(acceptMutation.error) : null;
+  const roleLabel = invitation && isRole(invitation.role) ? ROLE_DEFINITIONS[invitation.role].label : invitation?.role;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-ht-blue via-ht-teal to-ht-blue flex items-center justify-center p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-lg ht-gradient flex items-center justify-center">
+            <span className="text-white font-bold text-2xl">HT</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">BizGov</h1>
+          <p className="text-white/80">Compliance Hub</p>
+        </div>
+
+        <Card className="backdrop-blur-sm bg-white/95 border-white/20">
+          <CardHeader>
+            <CardTitle>Create Your Account</CardTitle>
+            <CardDescription>
+              {invitation ? `You have been invited as ${roleLabel} for ${invitation.email}.` : "Accept your invitation to BizGov."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !token || lookupError || !invitation ? (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {lookupError ? parseError(lookupError).message : "This invitation link is incomplete. Open the link from the email again."}
+                  </AlertDescription>
+                </Alert>
+                <Button variant="ghost" className="w-full" asChild>
+                  <Link href="/auth">Go to sign in</Link>
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  acceptMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="invite-fullname">Full Name</Label>
+                  <Input
+                    id="invite-fullname"
+                    value={form.fullName ?? invitation.fullName ?? ""}
+                    onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                    data-testid="input-invite-fullname"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-username">Username</Label>
+                  <Input
+                    id="invite-username"
+                    value={form.username}
+                    onChange={(e) => setForm({ ...form, username: e.target.value })}
+                    autoComplete="username"
+                    required
+                    data-testid="input-invite-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-password">Password</Label>
+                  <Input
+                    id="invite-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    autoComplete="new-password"
+                    required
+                    data-testid="input-invite-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+                  <Input
+                    id="invite-confirm-password"
+                    type="password"
+                    value={form.confirmPassword}
+                    onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                    autoComplete="new-password"
+                    required
+                    data-testid="input-invite-confirm-password"
+                  />
+                  {mismatch && <p className="text-xs text-destructive">The passwords do not match.</p>}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {error.message}
+                      {error.details.length > 0 && (
+                        <ul className="mt-1 list-disc pl-4">
+                          {error.details.map((detail) => <li key={detail}>{detail}</li>)}
+                        </ul>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full bg-ht-blue hover:bg-ht-blue/90"
+                  disabled={!form.username.trim() || !form.password || mismatch || acceptMutation.isPending}
+                  data-testid="button-accept-invite"
+                >
+                  {acceptMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Creating Account...
+                    </>
+                  ) : (
+                    "Create Account"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,21 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import Sidebar from "@/components/layout/sidebar";
 import AuditLogViewer from "@/components/admin/audit-log-viewer";
+import EvidenceIntegrityScan from "@/components/admin/evidence-integrity-scan";
+import ScheduledJobs from "@/components/admin/scheduled-jobs";
+import AlertRules from "@/components/admin/alert-rules";
+import CeilingPolicySettings from "@/components/admin/ceiling-policy";
+import InvoiceSettingsCard from "@/components/admin/invoice-settings";
+import TeamManagement from "@/components/admin/team-management";
+import ComplianceTemplates from "@/components/admin/compliance-templates";
+import SsoSettings from "@/components/admin/sso-settings";
+import MfaSettings from "@/components/admin/mfa-settings";
+import PasswordPolicySettings from "@/components/admin/password-policy";
+import UserAccessFields from "@/components/admin/user-access-fields";
+import UserSessionsDialog from "@/components/admin/user-sessions-dialog";
+import InviteUserDialog from "@/components/admin/invite-user-dialog";
+import PendingInvitations from "@/components/admin/pending-invitations";
+import DeactivateUserDialog from "@/components/admin/deactivate-user-dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,25 +28,35 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings, UserPlus, Pencil, Trash2, Database, AlertTriangle, Key, Activity, RefreshCw, CheckCircle, XCircle, AlertCircle as AlertCircleIcon, Mail, Send } from "lucide-react";
+import { Settings, UserPlus, Pencil, Trash2, Database, AlertTriangle, Key, Activity, RefreshCw, CheckCircle, XCircle, AlertCircle as AlertCircleIcon, Mail, Send, ShieldOff, MonitorSmartphone, UserX, UserCheck, ArrowRightLeft, MailPlus } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { User } from "@shared/schema";
+import { ROLE_DEFINITIONS, isRole, type Role } from "@shared/permissions";
 
-type UserWithoutPassword = Omit<User, "password">;
+type UserWithoutPassword = Omit<User, "password"> & { organizationIds: string[]; mfaEnabled: boolean };
+
+const emptyUserForm = {
+  username: "",
+  email: "",
+  fullName: "",
+  password: "",
+  role: "user" as Role,
+  allOrganizations: true,
+  organizationIds: [] as string[],
+};
+
+const roleLabel = (role: string) => (isRole(role) ? ROLE_DEFINITIONS[role].label : role);
 
 export default function AdminPage() {
   const { toast } = useToast();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserWithoutPassword | null>(null);
-  const [formData, setFormData] = useState({
-    username: "",
-    email: "",
-    fullName: "",
-    password: "",
-    role: "user" as "admin" | "user"
-  });
+  const [sessionsUser, setSessionsUser] = useState<UserWithoutPassword | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<UserWithoutPassword | null>(null);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyUserForm);
 
   const [qbSettings, setQbSettings] = useState({
     qb_active_config: "dev" as "dev" | "prod",
@@ -133,8 +158,9 @@ export default function AdminPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/directory"] });
       setIsCreateDialogOpen(false);
-      setFormData({ username: "", email: "", fullName: "", password: "", role: "user" });
+      setFormData(emptyUserForm);
       toast({
         title: "User Created",
         description: "User has been created successfully.",
@@ -156,6 +182,7 @@ export default function AdminPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/directory"] });
       setIsEditDialogOpen(false);
       setSelectedUser(null);
       toast({
@@ -179,6 +206,7 @@ export default function AdminPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/directory"] });
       toast({
         title: "User Deleted",
         description: "User has been deleted successfully.",
@@ -193,6 +221,49 @@ export default function AdminPage() {
     },
   });
 
+  const reactivateUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/users/${id}/reactivate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/directory"] });
+      toast({
+        title: "User Reactivated",
+        description: "The user can sign in again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reactivate Failed",
+        description: error.message || "Failed to reactivate user.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMfaMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/users/${id}/mfa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/mfa-settings"] });
+      toast({
+        title: "Two-Step Verification Reset",
+        description: "The user can sign in with their password and set up a new authenticator.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset Failed",
+        description: error.message || "Failed to reset two-step verification.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetDatabaseMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/admin/reset-database");
@@ -320,7 +391,9 @@ export default function AdminPage() {
       email: user.email || "",
       fullName: user.fullName || "",
       password: "",
-      role: user.role as "admin" | "user"
+      role: user.role,
+      allOrganizations: user.allOrganizations,
+      organizationIds: user.organizationIds,
     });
     setIsEditDialogOpen(true);
   };
@@ -332,7 +405,9 @@ export default function AdminPage() {
       username: formData.username,
       email: formData.email,
       fullName: formData.fullName,
-      role: formData.role
+      role: formData.role,
+      allOrganizations: formData.allOrganizations,
+      organizationIds: formData.organizationIds,
     };
     if (formData.password) {
       updates.password = formData.password;
@@ -365,16 +440,26 @@ export default function AdminPage() {
                     <CardTitle>User Management</CardTitle>
                     <CardDescription>Create, edit, and manage user accounts</CardDescription>
                   </div>
-                  <Button
-                    onClick={() => {
-                      setFormData({ username: "", email: "", fullName: "", password: "", role: "user" });
-                      setIsCreateDialogOpen(true);
-                    }}
-                    data-testid="button-create-user"
-                  >
-                    <UserPlus className="mr-2 h-4 w-4" />
-                    Add User
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsInviteDialogOpen(true)}
+                      data-testid="button-invite-user"
+                    >
+                      <MailPlus className="mr-2 h-4 w-4" />
+                      Invite User
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setFormData(emptyUserForm);
+                        setIsCreateDialogOpen(true);
+                      }}
+                      data-testid="button-create-user"
+                    >
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      Add User
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -398,6 +483,8 @@ export default function AdminPage() {
                           <TableHead>Full Name</TableHead>
                           <TableHead>Email</TableHead>
                           <TableHead>Role</TableHead>
+                          <TableHead>Two-Step</TableHead>
+                          <TableHead>Status</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -409,7 +496,17 @@ export default function AdminPage() {
                             <TableCell>{user.email || "-"}</TableCell>
                             <TableCell>
                               <Badge variant={user.role === "admin" ? "default" : "secondary"}>
-                                {user.role}
+                                {roleLabel(user.role)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={user.mfaEnabled ? "outline" : "secondary"} data-testid={`badge-mfa-${user.id}`}>
+                                {user.mfaEnabled ? "On" : "Off"}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={user.deactivatedAt ? "destructive" : "outline"} data-testid={`badge-status-${user.id}`}>
+                                {user.deactivatedAt ? "Deactivated" : "Active"}
                               </Badge>
                             </TableCell>
                             <TableCell className="text-right">
@@ -422,6 +519,77 @@ export default function AdminPage() {
                                 >
                                   <Pencil className="h-4 w-4" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Sessions"
+                                  onClick={() => setSessionsUser(user)}
+                                  data-testid={`button-sessions-user-${user.id}`}
+                                >
+                                  <MonitorSmartphone className="h-4 w-4" />
+                                </Button>
+                                {user.deactivatedAt ? (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Transfer open work"
+                                      onClick={() => setDeactivatingUser(user)}
+                                      data-testid={`button-transfer-user-${user.id}`}
+                                    >
+                                      <ArrowRightLeft className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Reactivate"
+                                      onClick={() => reactivateUserMutation.mutate(user.id)}
+                                      disabled={reactivateUserMutation.isPending}
+                                      data-testid={`button-reactivate-user-${user.id}`}
+                                    >
+                                      <UserCheck className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                ) : (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Deactivate"
+                                    onClick={() => setDeactivatingUser(user)}
+                                    data-testid={`button-deactivate-user-${user.id}`}
+                                  >
+                                    <UserX className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {user.mfaEnabled && (
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Reset two-step verification"
+                                        data-testid={`button-reset-mfa-${user.id}`}
+                                      >
+                                        <ShieldOff className="h-4 w-4" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Reset Two-Step Verification</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Remove the authenticator and recovery codes for "{user.username}"? Use this when they have lost
+                                          their device. If policy requires two-step verification they will set it up again at next sign-in.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction onClick={() => resetMfaMutation.mutate(user.id)}>
+                                          Reset
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                )}
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <Button
@@ -436,7 +604,8 @@ export default function AdminPage() {
                                     <AlertDialogHeader>
                                       <AlertDialogTitle>Delete User</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to delete user "{user.username}"? This action cannot be undone.
+                                        Are you sure you want to delete user "{user.username}"? This action cannot be undone. Only
+                                        accounts with no activity can be deleted; deactivate anyone who has used BizGov.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -458,9 +627,22 @@ export default function AdminPage() {
                     </Table>
                   </div>
                 )}
+                <PendingInvitations />
               </CardContent>
             </Card>
 
+            {/* Teams */}
+            <TeamManagement />
+
+            {/* Single Sign-On */}
+            <SsoSettings />
+
+            {/* Two-Step Verification */}
+            <MfaSettings />
+
+            {/* Passwords and Lockout */}
+            <PasswordPolicySettings />
+
             {/* System Health Card */}
             <Card>
               <CardHeader>
@@ -844,6 +1026,24 @@ export default function AdminPage() {
               </CardContent>
             </Card>
 
+            {/* Alert Schedules & Escalation */}
+            <AlertRules />
+
+            {/* Contract Ceiling Alerts */}
+            <CeilingPolicySettings />
+
+            {/* Invoice Letterhead and Terms */}
+            <InvoiceSettingsCard />
+
+            {/* Compliance Templates */}
+            <ComplianceTemplates />
+
+            {/* Scheduled Jobs */}
+            <ScheduledJobs />
+
+            {/* Evidence Integrity Scan */}
+            <EvidenceIntegrityScan />
+
             {/* Audit Log Viewer */}
             <AuditLogViewer />
 
@@ -956,21 +1156,11 @@ export default function AdminPage() {
                 data-testid="input-create-password"
               />
             </div>
-            <div>
-              <Label htmlFor="create-role">Role</Label>
-              <Select
-                value={formData.role}
-                onValueChange={(value: "admin" | "user") => setFormData({ ...formData, role: value })}
-              >
-                <SelectTrigger data-testid="select-create-role">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="user">User</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            <UserAccessFields
+              idPrefix="create"
+              value={formData}
+              onChange={(access) => setFormData({ ...formData, ...access })}
+            />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
@@ -1030,21 +1220,11 @@ export default function AdminPage() {
                 data-testid="input-edit-password"
               />
             </div>
-            <div>
-              <Label htmlFor="edit-role">Role</Label>
-              <Select
-                value={formData.role}
-                onValueChange={(value: "admin" | "user") => setFormData({ ...formData, role: value })}
-              >
-                <SelectTrigger data-testid="select-edit-role">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="user">User</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            <UserAccessFields
+              idPrefix="edit"
+              value={formData}
+              onChange={(access) => setFormData({ ...formData, ...access })}
+            />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -1056,6 +1236,10 @@ export default function AdminPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <UserSessionsDialog user={sessionsUser} onClose={() => setSessionsUser(null)} />
+      <DeactivateUserDialog user={deactivatingUser} onClose={() => setDeactivatingUser(null)} />
+      <InviteUserDialog open={isInviteDialogOpen} onClose={() => setIsInviteDialogOpen(false)} />
     </div>
   );
 }
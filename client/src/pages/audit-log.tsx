@@ -0,0 +1,26 @@
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import AuditLogViewer from "@/components/admin/audit-log-viewer";
+
+export default function AuditLogPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <Sidebar />
+      <main className="ml-64 overflow-auto bg-muted/30 min-h-screen">
+        <div className="p-6 max-w-6xl">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-foreground" data-testid="text-audit-log-title">
+              Audit Log
+            </h2>
+            <p className="text-muted-foreground">
+              Every change made in BizGov, with a tamper-evident hash chain
+            </p>
+          </div>
+
+          <AuditLogViewer />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth, isMfaChallenge } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,21 +8,38 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, ShieldCheck, FileText, DollarSign, Calendar } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, ShieldCheck, FileText, DollarSign, Calendar, LogIn } from "lucide-react";
+import MfaLoginStep from "@/components/auth/mfa-login-step";
+import ForgotPasswordForm from "@/components/auth/forgot-password-form";
+
+interface SsoProviders {
+  providers: { key: string; displayName: string }[];
+  localLogin: "all" | "admins";
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [, setLocation] = useLocation();
 
   const [loginForm, setLoginForm] = useState({ username: "", password: "" });
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [registerForm, setRegisterForm] = useState({ 
     username: "", 
     password: "", 
     email: "", 
     fullName: "",
-    role: "user" as "admin" | "user"
   });
 
+  const { data: sso } = useQuery<SsoProviders>({
+    queryKey: ["/api/auth/sso/providers"],
+  });
+
+  // Failed single sign-on attempts are redirected back here with the reason
+  const [ssoError] = useState(() => new URLSearchParams(window.location.search).get("sso_error"));
+  const ssoOnly = sso?.localLogin === "admins";
+  const mfaChallenge = isMfaChallenge(loginMutation.data) ? loginMutation.data : null;
+
   // Redirect if already logged in
   if (user) {
     setLocation("/");
@@ -59,10 +77,48 @@ export default function AuthPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {mfaChallenge ? (
+                <MfaLoginStep
+                  setupRequired={"mfaSetupRequired" in mfaChallenge}
+                  onCancel={() => {
+                    loginMutation.reset();
+                    setLoginForm(prev => ({ ...prev, password: "" }));
+                  }}
+                />
+              ) : showForgotPassword ? (
+                <ForgotPasswordForm onBack={() => setShowForgotPassword(false)} />
+              ) : (
+              <>
+              {ssoError && (
+                <Alert variant="destructive" className="mb-4" data-testid="alert-sso-error">
+                  <AlertDescription>{ssoError}</AlertDescription>
+                </Alert>
+              )}
+
+              {sso && sso.providers.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  {sso.providers.map((provider) => (
+                    <Button key={provider.key} variant="outline" className="w-full" asChild>
+                      <a href={`/api/auth/sso/${provider.key}/login`} data-testid={`button-sso-${provider.key}`}>
+                        <LogIn className="mr-2 h-4 w-4" />
+                        Sign in with {provider.displayName}
+                      </a>
+                    </Button>
+                  ))}
+                  <div className="flex items-center gap-3 pt-2">
+                    <Separator className="flex-1" />
+                    <span className="text-xs text-muted-foreground">
+                      {ssoOnly ? "Administrator password sign-in" : "or use your password"}
+                    </span>
+                    <Separator className="flex-1" />
+                  </div>
+                </div>
+              )}
+
               <Tabs defaultValue="login" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className={`grid w-full ${ssoOnly ? "grid-cols-1" : "grid-cols-2"}`}>
                   <TabsTrigger value="login">Sign In</TabsTrigger>
-                  <TabsTrigger value="register">Register</TabsTrigger>
+                  {!ssoOnly && <TabsTrigger value="register">Register</TabsTrigger>}
                 </TabsList>
                 
                 <TabsContent value="login">
@@ -111,6 +167,15 @@ export default function AuthPage() {
                         "Sign In"
                       )}
                     </Button>
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="w-full"
+                      onClick={() => setShowForgotPassword(true)}
+                      data-testid="button-forgot-password"
+                    >
+                      Forgot your password?
+                    </Button>
                   </form>
                 </TabsContent>
                 
@@ -184,6 +249,8 @@ export default function AuthPage() {
                   </form>
                 </TabsContent>
               </Tabs>
+              </>
+              )}
             </CardContent>
           </Card>
         </div>
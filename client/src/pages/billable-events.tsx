@@ -239,6 +239,11 @@ export default function BillableEvents() {
                             </TableCell>
                             <TableCell>
                               {formatCurrency(event.rate)}
+                              {event.offCardReason && (
+                                <Badge variant="outline" className="ml-2 text-amber-600 border-amber-300" title={event.offCardReason}>
+                                  Off-card
+                                </Badge>
+                              )}
                             </TableCell>
                             <TableCell>
                               {parseFloat(event.units).toFixed(2)}
@@ -247,7 +252,7 @@ export default function BillableEvents() {
                               {formatCurrency(event.totalAmount)}
                             </TableCell>
                             <TableCell>
-                              {event.invoiceNumber || "—"}
+                              {event.invoiceNumber || (event.invoiceId ? "Draft invoice" : "—")}
                             </TableCell>
                             <TableCell>
                               <Badge variant={event.isPaid ? "default" : "secondary"}>
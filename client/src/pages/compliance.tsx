@@ -15,10 +15,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import ComplianceTable from "@/components/compliance/compliance-table";
 import ComplianceForm from "@/components/compliance/compliance-form";
 import ComplianceCalendar from "@/components/compliance/compliance-calendar";
+import CalendarFeedsDialog from "@/components/compliance/calendar-feeds-dialog";
 import ComplianceTimeline from "@/components/compliance/compliance-timeline";
-import { Plus, Upload, Download, Mail, Search, Filter, Calendar, List, BarChart3, Info, FileWarning } from "lucide-react";
+import { Plus, Upload, Download, Mail, Search, Filter, Calendar, List, BarChart3, Info, FileWarning, CalendarPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useTeams, useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
 
 type ViewMode = "table" | "timeline" | "calendar";
 type DuplicateHandling = "skip" | "update";
@@ -26,10 +28,12 @@ type DuplicateHandling = "skip" | "update";
 export default function Compliance() {
   const { toast } = useToast();
   const [location] = useLocation();
+  const isMyItems = location === "/my-items";
   const [showNewItemForm, setShowNewItemForm] = useState(false);
   const [editingItem, setEditingItem] = useState<ComplianceItem | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>("table");
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showFeedsDialog, setShowFeedsDialog] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [duplicateHandling, setDuplicateHandling] = useState<DuplicateHandling>("skip");
   const [isImporting, setIsImporting] = useState(false);
@@ -38,6 +42,7 @@ export default function Compliance() {
     organizationId: "",
     category: "",
     status: "",
+    assignee: "", // "", "me", "user:<id>" or "team:<id>"
     limit: 50,
     offset: 0,
   });
@@ -74,14 +79,20 @@ export default function Compliance() {
   }, [location]);
 
   // Always fetch all items without status filter for calendar
-  const allItemsFilters = useMemo(() => ({ 
-    search: filters.search,
-    organizationId: filters.organizationId,
-    category: filters.category,
-    status: "", // No status filter
-    limit: 1000,
-    offset: 0 
-  }), [filters.search, filters.organizationId, filters.category]);
+  const allItemsFilters = useMemo(() => {
+    const assignee = isMyItems ? "me" : filters.assignee;
+    return {
+      search: filters.search,
+      organizationId: filters.organizationId,
+      category: filters.category,
+      status: "", // No status filter
+      assignedTo: assignee === "me" ? "me" : undefined,
+      assigneeId: assignee.startsWith("user:") ? assignee.slice(5) : undefined,
+      teamId: assignee.startsWith("team:") ? assignee.slice(5) : undefined,
+      limit: 1000,
+      offset: 0,
+    };
+  }, [filters.search, filters.organizationId, filters.category, filters.assignee, isMyItems]);
 
   const { data: allItemsData, isLoading, refetch } = useQuery<{ items: ComplianceItem[]; total: number }>({
     queryKey: ["/api/compliance-items", allItemsFilters],
@@ -128,6 +139,9 @@ export default function Compliance() {
     queryKey: ["/api/organizations"],
   });
 
+  const { data: directory } = useUserDirectory();
+  const { data: teams } = useTeams();
+
   const handleDownloadTemplate = async () => {
     try {
       const response = await apiRequest('GET', '/api/csv/template');
@@ -316,10 +330,12 @@ export default function Compliance() {
             <div className="flex items-center justify-between mb-6">
               <div>
                 <h2 className="text-2xl font-bold text-foreground" data-testid="text-compliance-title">
-                  Compliance Management
+                  {isMyItems ? "My Items" : "Compliance Management"}
                 </h2>
                 <p className="text-muted-foreground">
-                  Track and manage compliance items across all customers
+                  {isMyItems
+                    ? "Compliance items assigned to you or to your teams"
+                    : "Track and manage compliance items across all customers"}
                 </p>
               </div>
               
@@ -341,6 +357,15 @@ export default function Compliance() {
                   <Upload className="w-4 h-4 mr-2" />
                   Import CSV
                 </Button>
+                <Button 
+                  variant="outline"
+                  onClick={() => setShowFeedsDialog(true)}
+                  data-testid="button-calendar-feeds"
+                  title="Subscribe to deadlines from Outlook or another calendar app"
+                >
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Subscribe
+                </Button>
                 <Button 
                   variant="outline"
                   onClick={handleSendAlerts}
@@ -499,10 +524,34 @@ export default function Compliance() {
                       <SelectItem value="pending">Pending</SelectItem>
                       <SelectItem value="complete">Complete</SelectItem>
                       <SelectItem value="overdue">Overdue</SelectItem>
+                      <SelectItem value="in_review">In Review</SelectItem>
+                      <SelectItem value="rejected">Rejected</SelectItem>
                       <SelectItem value="na">N/A</SelectItem>
                     </SelectContent>
                   </Select>
                   
+                  {!isMyItems && (
+                    <Select value={filters.assignee || "__all__"} onValueChange={(value) => setFilters(prev => ({ ...prev, assignee: value === "__all__" ? "" : value }))}>
+                      <SelectTrigger className="w-48" data-testid="select-assignee-filter">
+                        <SelectValue placeholder="Anyone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__all__">Anyone</SelectItem>
+                        <SelectItem value="me">My Items</SelectItem>
+                        {teams?.map((team) => (
+                          <SelectItem key={team.id} value={`team:${team.id}`}>
+                            Team: {team.name}
+                          </SelectItem>
+                        ))}
+                        {directory?.map((user) => (
+                          <SelectItem key={user.id} value={`user:${user.id}`}>
+                            {userDisplayName(user)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  
                   <div className="flex items-center space-x-2">
                     <Button 
                       variant={viewMode === "table" ? "default" : "outline"} 
@@ -542,9 +591,9 @@ export default function Compliance() {
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div>
-                      <CardTitle>Compliance Items</CardTitle>
+                      <CardTitle>{isMyItems ? "My Items" : "Compliance Items"}</CardTitle>
                       <CardDescription>
-                        All compliance items across customers - {complianceData?.total || 0} total items
+                        {isMyItems ? "Assigned to you or your teams" : "All compliance items across customers"} - {complianceData?.total || 0} total items
                       </CardDescription>
                     </div>
                     <div className="flex space-x-2">
@@ -609,6 +658,8 @@ export default function Compliance() {
         />
       )}
 
+      <CalendarFeedsDialog open={showFeedsDialog} onClose={() => setShowFeedsDialog(false)} />
+
       <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
         <DialogContent className="sm:max-w-[500px]" data-testid="dialog-csv-import">
           <DialogHeader>
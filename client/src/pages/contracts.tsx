@@ -8,12 +8,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Edit, Eye, FileText, ChevronDown, ChevronRight, Shield } from "lucide-react";
+import { Plus, Edit, Eye, FileText, ChevronDown, ChevronRight, Shield, Minus } from "lucide-react";
 import ContractForm from "@/components/contracts/contract-form";
 import ContractDetailDialog from "@/components/contracts/contract-detail-dialog";
+import RenewalPipeline from "@/components/contracts/renewal-pipeline";
+import { RollupSummary } from "@/components/contracts/contract-hierarchy";
 import EvidenceDetailDialog from "@/components/evidence/evidence-detail-dialog";
 import { format } from "date-fns";
 import { queryClient } from "@/lib/queryClient";
+import { CONTRACT_TYPE_LABELS, ancestorsOf, type ContractRollup } from "@shared/contract-hierarchy";
 
 export default function Contracts() {
   const [showNewContractForm, setShowNewContractForm] = useState(false);
@@ -21,6 +24,7 @@ export default function Contracts() {
   const [viewingContract, setViewingContract] = useState<Contract | null>(null);
   const [detailContract, setDetailContract] = useState<Contract | null>(null);
   const [expandedContractId, setExpandedContractId] = useState<string | null>(null);
+  const [collapsedContractIds, setCollapsedContractIds] = useState<Set<string>>(new Set());
   const [selectedEvidence, setSelectedEvidence] = useState<Evidence | null>(null);
 
   const { data: contracts, isLoading, refetch } = useQuery<Contract[]>({
@@ -31,6 +35,33 @@ export default function Contracts() {
     queryKey: ["/api/organizations"],
   });
 
+  const { data: rollups = [] } = useQuery<ContractRollup[]>({
+    queryKey: ["/api/contracts/hierarchy"],
+  });
+  const rollupFor = (contractId: string) => rollups.find((rollup) => rollup.contractId === contractId);
+
+  // Depth-first tree: each master agreement or SOW followed by the contracts beneath it.
+  // A contract whose parent is not in the list is shown at the top level.
+  const contractIds = new Set(contracts?.map((c) => c.id));
+  const childrenOf = (parentId: string | null) =>
+    (contracts ?? []).filter((c) => (parentId ? c.parentContractId === parentId : !c.parentContractId || !contractIds.has(c.parentContractId)));
+  const contractRows: Array<{ contract: Contract; depth: number; hasChildren: boolean }> = [];
+  const addRows = (parentId: string | null, depth: number) => {
+    for (const contract of childrenOf(parentId)) {
+      const hasChildren = childrenOf(contract.id).length > 0;
+      contractRows.push({ contract, depth, hasChildren });
+      if (hasChildren && !collapsedContractIds.has(contract.id)) addRows(contract.id, depth + 1);
+    }
+  };
+  addRows(null, 0);
+
+  const toggleCollapsed = (contractId: string) => {
+    const next = new Set(collapsedContractIds);
+    if (next.has(contractId)) next.delete(contractId);
+    else next.add(contractId);
+    setCollapsedContractIds(next);
+  };
+
   // Fetch evidence for expanded contract
   const { data: allEvidence = [] } = useQuery<Evidence[]>({
     queryKey: ["/api/evidence"],
@@ -56,8 +87,10 @@ export default function Contracts() {
   // Calculate summary metrics
   const totalContracts = contracts?.length || 0;
   const activeContracts = contracts?.filter(c => c.isActive).length || 0;
+  // A child's ceiling is allocated out of its parent's, so only count it when no parent has one
   const totalValue = contracts?.reduce((sum, c) => {
-    return sum + (c.maxAmount ? parseFloat(c.maxAmount) : 0);
+    if (!c.maxAmount || ancestorsOf(c, contracts).some((ancestor) => ancestor.maxAmount)) return sum;
+    return sum + parseFloat(c.maxAmount);
   }, 0) || 0;
   
   // Expiring soon (within 30 days)
@@ -182,6 +215,11 @@ export default function Contracts() {
               </div>
             )}
 
+            {/* Renewals */}
+            {contracts && contracts.length > 0 && (
+              <RenewalPipeline getOrganizationName={getOrganizationName} onViewContract={setDetailContract} />
+            )}
+
             {/* Contracts Table */}
             <Card>
               <CardHeader>
@@ -224,12 +262,13 @@ export default function Contracts() {
                           <TableHead>Start Date</TableHead>
                           <TableHead>End Date</TableHead>
                           <TableHead>Max Amount</TableHead>
+                          <TableHead>Billed / Compliance</TableHead>
                           <TableHead>Status</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {contracts?.map((contract) => (
+                        {contractRows.map(({ contract, depth, hasChildren }) => (
                           <Fragment key={contract.id}>
                             <TableRow data-testid={`row-contract-${contract.id}`}>
                               <TableCell>
@@ -247,13 +286,29 @@ export default function Contracts() {
                                 </Button>
                               </TableCell>
                               <TableCell className="font-medium">
-                                <button
-                                  onClick={() => setDetailContract(contract)}
-                                  className="text-left hover:text-primary transition-colors hover:underline cursor-pointer"
-                                  data-testid={`button-contract-title-${contract.id}`}
-                                >
-                                  {contract.title}
-                                </button>
+                                <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                                  {hasChildren ? (
+                                    <button
+                                      onClick={() => toggleCollapsed(contract.id)}
+                                      className="text-muted-foreground hover:text-foreground"
+                                      data-testid={`button-toggle-children-${contract.id}`}
+                                    >
+                                      {collapsedContractIds.has(contract.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                    </button>
+                                  ) : depth > 0 ? (
+                                    <Minus className="h-4 w-4 text-muted-foreground" />
+                                  ) : null}
+                                  <button
+                                    onClick={() => setDetailContract(contract)}
+                                    className="text-left hover:text-primary transition-colors hover:underline cursor-pointer"
+                                    data-testid={`button-contract-title-${contract.id}`}
+                                  >
+                                    {contract.title}
+                                  </button>
+                                  {contract.contractType !== "standalone" && (
+                                    <Badge variant="outline" className="text-xs font-normal">{CONTRACT_TYPE_LABELS[contract.contractType]}</Badge>
+                                  )}
+                                </div>
                               </TableCell>
                               <TableCell>
                                 {getOrganizationName(contract.customerId)}
@@ -267,6 +322,9 @@ export default function Contracts() {
                               <TableCell>
                                 {formatCurrency(contract.maxAmount)}
                               </TableCell>
+                              <TableCell className="text-sm">
+                                {rollupFor(contract.id) && <RollupSummary rollup={rollupFor(contract.id)!} />}
+                              </TableCell>
                               <TableCell>
                                 <Badge variant={contract.isActive ? "default" : "secondary"}>
                                   {contract.isActive ? "Active" : "Inactive"}
@@ -296,7 +354,7 @@ export default function Contracts() {
 
                             {expandedContractId === contract.id && (
                               <TableRow data-testid={`row-expanded-${contract.id}`}>
-                                <TableCell colSpan={8} className="bg-muted/50 p-6">
+                                <TableCell colSpan={9} className="bg-muted/50 p-6">
                                   <div>
                                     <div className="flex items-center gap-2 mb-3">
                                       <Shield className="h-5 w-5 text-primary" />
@@ -382,11 +440,7 @@ export default function Contracts() {
                     </div>
                     <div className="ml-4">
                       <p className="text-2xl font-bold text-foreground" data-testid="stat-contract-value">
-                        {formatCurrency(
-                          contracts?.reduce((sum: number, c: any) => 
-                            sum + (parseFloat(c.maxAmount || '0')), 0
-                          ).toString() || '0'
-                        )}
+                        {formatCurrency(totalValue.toString())}
                       </p>
                       <p className="text-sm text-muted-foreground">Total Contract Value</p>
                     </div>
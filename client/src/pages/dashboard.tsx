@@ -15,6 +15,8 @@ import ComplianceTable from "@/components/compliance/compliance-table";
 import ComplianceForm from "@/components/compliance/compliance-form";
 import ComplianceCalendar from "@/components/compliance/compliance-calendar";
 import ComplianceTimeline from "@/components/compliance/compliance-timeline";
+import RenewalDeadlinesCard from "@/components/contracts/renewal-deadlines-card";
+import type { RenewalContract } from "@/components/contracts/renewal-pipeline";
 import { Upload, Download, Mail, Calendar, List, BarChart3, Plus, Search, Filter } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -51,6 +53,10 @@ export default function Dashboard() {
     queryKey: ["/api/compliance-items", { ...filters, limit: 1000 }],
   });
 
+  const { data: renewals = [] } = useQuery<RenewalContract[]>({
+    queryKey: ["/api/contracts/renewals"],
+  });
+
   const handleSendAlerts = async () => {
     try {
       const response = await apiRequest("POST", "/api/email-alerts/send");
@@ -142,6 +148,8 @@ export default function Dashboard() {
             {/* KPI Cards */}
             <KPICards metrics={metrics} isLoading={metricsLoading} />
 
+            <RenewalDeadlinesCard renewals={renewals} organizations={organizations} />
+
             {/* Filters and Search */}
             <Card className="mb-6">
               <CardContent className="p-4">
@@ -196,6 +204,8 @@ export default function Dashboard() {
                       <SelectItem value="pending">Pending</SelectItem>
                       <SelectItem value="complete">Complete</SelectItem>
                       <SelectItem value="overdue">Overdue</SelectItem>
+                      <SelectItem value="in_review">In Review</SelectItem>
+                      <SelectItem value="rejected">Rejected</SelectItem>
                       <SelectItem value="na">N/A</SelectItem>
                     </SelectContent>
                   </Select>
@@ -258,6 +268,7 @@ export default function Dashboard() {
                 <ComplianceCalendar 
                   items={complianceData?.items || []}
                   customers={organizations}
+                  renewals={renewals}
                   onRefresh={refetch}
                 />
               </div>
@@ -935,7 +935,7 @@ export default function EvidenceLocker() {
             </DialogTitle>
             <DialogDescription>
               {selectedEvidence?.filePath 
-                ? 'Upload a new file to replace the existing one. The old file will be deleted.'
+                ? 'Upload a new file to replace the existing one. The current file is kept in the version history and can be restored.'
                 : 'Upload a file to attach to this evidence record.'}
             </DialogDescription>
           </DialogHeader>
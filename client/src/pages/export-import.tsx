@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Download, Upload, Database, FileText, AlertCircle, CheckCircle, RefreshCw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import CalendarFileCard from "@/components/compliance/calendar-file-card";
 
 export default function ExportImport() {
   const { toast } = useToast();
@@ -382,7 +383,8 @@ export default function ExportImport() {
                   <h3 className="text-lg font-semibold mb-3">Export Database</h3>
                   <p className="text-sm text-muted-foreground mb-4">
                     Download a complete backup of your compliance data as a JSON file. This includes all contracts, 
-                    compliance items, billable events, evidence, and audit logs.
+                    compliance items, billable events, evidence, and audit logs. Client secrets and QuickBooks tokens
+                    are never included.
                   </p>
                   <Button 
                     onClick={handleDatabaseExport}
@@ -570,6 +572,8 @@ Financial,Tax Filing,File quarterly taxes,Q1 tax documents submission,Finance De
               </CardContent>
             </Card>
 
+            <CalendarFileCard />
+
             {/* Data Management Tips */}
             <Card className="mt-6">
               <CardHeader>
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Invoice, Organization } from "@shared/schema";
+import { INVOICE_STATUSES, INVOICE_STATUS_LABELS } from "@shared/invoices";
+import { hasPermission } from "@shared/permissions";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Eye, FileEdit, Plus, Receipt } from "lucide-react";
+import InvoiceForm, { formatCurrency } from "@/components/invoices/invoice-form";
+import InvoiceDetailDialog, { STATUS_BADGE_VARIANTS } from "@/components/invoices/invoice-detail-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { format } from "date-fns";
+
+export default function Invoices() {
+  const { user } = useAuth();
+  const canManage = hasPermission(user?.role, "billing.manage");
+  const [showNewInvoiceForm, setShowNewInvoiceForm] = useState(false);
+  const [viewingInvoiceId, setViewingInvoiceId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    organizationId: "",
+    status: "",
+  });
+
+  const { data: invoices, isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices", filters],
+  });
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const getOrganizationName = (organizationId: string) =>
+    organizations?.find((organization) => organization.id === organizationId)?.name || "Unknown Organization";
+
+  const isOverdue = (invoice: Invoice) =>
+    invoice.status === "issued" && !!invoice.dueDate && new Date(invoice.dueDate) < new Date();
+
+  const sumOf = (list: Invoice[]) => list.reduce((sum, invoice) => sum + parseFloat(invoice.total), 0);
+  const outstanding = invoices?.filter((invoice) => invoice.status === "issued") ?? [];
+  const overdue = outstanding.filter(isOverdue);
+  const drafts = invoices?.filter((invoice) => invoice.status === "draft") ?? [];
+
+  const viewingInvoice = invoices?.find((invoice) => invoice.id === viewingInvoiceId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <Sidebar />
+      <main className="ml-64 overflow-auto bg-muted/30 min-h-screen">
+        <div className="p-6">
+          {/* Page Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-foreground" data-testid="text-invoices-title">
+                Invoices
+              </h2>
+              <p className="text-muted-foreground">
+                Prepare invoices from unbilled events and track them through to payment
+              </p>
+            </div>
+
+            {canManage && (
+              <Button
+                onClick={() => setShowNewInvoiceForm(true)}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+                data-testid="button-new-invoice"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Invoice
+              </Button>
+            )}
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-lg bg-primary/10">
+                    <Receipt className="h-6 w-6 text-primary" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-2xl font-bold text-foreground" data-testid="stat-outstanding">
+                      {formatCurrency(sumOf(outstanding))}
+                    </p>
+                    <p className="text-sm text-muted-foreground">Outstanding ({outstanding.length} issued)</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-lg bg-red-100">
+                    <AlertTriangle className="h-6 w-6 text-red-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-2xl font-bold text-foreground" data-testid="stat-overdue">
+                      {formatCurrency(sumOf(overdue))}
+                    </p>
+                    <p className="text-sm text-muted-foreground">Overdue ({overdue.length})</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-3 rounded-lg bg-yellow-100">
+                    <FileEdit className="h-6 w-6 text-yellow-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-2xl font-bold text-foreground" data-testid="stat-drafts">
+                      {formatCurrency(sumOf(drafts))}
+                    </p>
+                    <p className="text-sm text-muted-foreground">In Draft ({drafts.length})</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <Select
+                  value={filters.organizationId || "__all__"}
+                  onValueChange={(value) => setFilters((prev) => ({ ...prev, organizationId: value === "__all__" ? "" : value }))}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-invoice-organization-filter">
+                    <SelectValue placeholder="All Organizations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__all__">All Organizations</SelectItem>
+                    {organizations?.map((organization) => (
+                      <SelectItem key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={filters.status || "__all__"}
+                  onValueChange={(value) => setFilters((prev) => ({ ...prev, status: value === "__all__" ? "" : value }))}
+                >
+                  <SelectTrigger className="w-40" data-testid="select-invoice-status-filter">
+                    <SelectValue placeholder="All Statuses" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__all__">All Statuses</SelectItem>
+                    {INVOICE_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Invoices Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Receipt className="w-5 h-5 mr-2" />
+                Invoices
+              </CardTitle>
+              <CardDescription>{invoices?.length ?? 0} invoices</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="text-muted-foreground">Loading invoices...</div>
+                </div>
+              ) : !invoices || invoices.length === 0 ? (
+                <div className="text-center py-12">
+                  <Receipt className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold text-foreground mb-2">No Invoices Found</h3>
+                  <p className="text-muted-foreground">
+                    Draft an invoice from an organization's unbilled billable events
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Invoice #</TableHead>
+                        <TableHead>Organization</TableHead>
+                        <TableHead>Issued</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead>Total</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invoices.map((invoice) => (
+                        <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                          <TableCell className="font-medium">
+                            {invoice.invoiceNumber ?? <span className="text-muted-foreground">Draft</span>}
+                          </TableCell>
+                          <TableCell>{getOrganizationName(invoice.customerId)}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {invoice.issueDate ? format(new Date(invoice.issueDate), "MMM dd, yyyy") : "—"}
+                          </TableCell>
+                          <TableCell className={`whitespace-nowrap ${isOverdue(invoice) ? "text-destructive font-medium" : ""}`}>
+                            {invoice.dueDate ? format(new Date(invoice.dueDate), "MMM dd, yyyy") : "—"}
+                          </TableCell>
+                          <TableCell className="font-medium">{formatCurrency(invoice.total)}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGE_VARIANTS[invoice.status]}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>
+                            {isOverdue(invoice) && (
+                              <Badge variant="destructive" className="ml-2">Overdue</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setViewingInvoiceId(invoice.id)}
+                              data-testid={`button-view-invoice-${invoice.id}`}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {showNewInvoiceForm && (
+        <InvoiceForm
+          onClose={() => setShowNewInvoiceForm(false)}
+          onCreated={(invoice) => {
+            setShowNewInvoiceForm(false);
+            setViewingInvoiceId(invoice.id);
+          }}
+        />
+      )}
+
+      {viewingInvoiceId && (
+        <InvoiceDetailDialog
+          invoiceId={viewingInvoiceId}
+          organizationName={viewingInvoice ? getOrganizationName(viewingInvoice.customerId) : ""}
+          canManage={canManage}
+          onClose={() => setViewingInvoiceId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+// API errors arrive as "400: {json}"; show the message and any policy problems
+function parseError(error: Error): { message: string; details: string[] } {
+  const match = error.message.match(/^\d+: (.*)$/);
+  try {
+    const body = JSON.parse(match?.[1] ?? "");
+    return { message: body.error || error.message, details: Array.isArray(body.details) ? body.details.filter((d: unknown) => typeof d === "string") : [] };
+  } catch {
+    return { message: match ? match[1] : error.message, details: [] };
+  }
+}
+
+export default function ResetPasswordPage() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+    },
+  });
+
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword;
+  const error = resetMutation.error ? parseError(resetMutation.error) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-ht-blue via-ht-teal to-ht-blue flex items-center justify-center p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-lg ht-gradient flex items-center justify-center">
+            <span className="text-white font-bold text-2xl">HT</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">BizGov</h1>
+          <p className="text-white/80">Compliance Hub</p>
+        </div>
+
+        <Card className="backdrop-blur-sm bg-white/95 border-white/20">
+          <CardHeader>
+            <CardTitle>Choose a New Password</CardTitle>
+            <CardDescription>Reset links work once and expire after an hour.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  This reset link is incomplete. Open the link from the email again, or request a new one from the sign-in page.
+                </AlertDescription>
+              </Alert>
+            ) : resetMutation.isSuccess ? (
+              <div className="space-y-4">
+                <Alert data-testid="alert-password-reset">
+                  <AlertDescription>Your password has been changed. Sign in with your new password.</AlertDescription>
+                </Alert>
+                <Button className="w-full bg-ht-blue hover:bg-ht-blue/90" asChild>
+                  <Link href="/auth">Go to sign in</Link>
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  resetMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New Password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                    data-testid="input-new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                    data-testid="input-confirm-password"
+                  />
+                  {mismatch && <p className="text-xs text-destructive">The passwords do not match.</p>}
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {error.message}
+                      {error.details.length > 0 && (
+                        <ul className="mt-1 list-disc pl-4">
+                          {error.details.map((detail) => <li key={detail}>{detail}</li>)}
+                        </ul>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full bg-ht-blue hover:bg-ht-blue/90"
+                  disabled={!password || mismatch || resetMutation.isPending}
+                  data-testid="button-reset-password"
+                >
+                  {resetMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Set New Password"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ComplianceItem, Evidence, Organization } from "@shared/schema";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import ComplianceDetailDialog from "@/components/compliance/compliance-detail-dialog";
+import ReviewActions from "@/components/compliance/review-actions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ClipboardCheck, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { useUserDirectory, userDisplayName } from "@/hooks/use-assignees";
+
+export default function Reviews() {
+  const [detailItem, setDetailItem] = useState<ComplianceItem | null>(null);
+
+  const { data: queue, isLoading } = useQuery<ComplianceItem[]>({
+    queryKey: ["/api/reviews/queue"],
+  });
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const { data: allEvidence = [] } = useQuery<Evidence[]>({
+    queryKey: ["/api/evidence"],
+    enabled: !!queue && queue.length > 0,
+  });
+
+  const { data: directory } = useUserDirectory();
+
+  const getOrganizationName = (customerId: string) =>
+    organizations?.find((org) => org.id === customerId)?.name || "Unknown";
+
+  const getSubmitterName = (userId: string | null) => {
+    const user = directory?.find((u) => u.id === userId);
+    return user ? userDisplayName(user) : "Unknown user";
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <Sidebar />
+      <main className="ml-64 overflow-auto bg-muted/30 min-h-screen">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-foreground" data-testid="text-reviews-title">
+                Review Queue
+              </h2>
+              <p className="text-muted-foreground">
+                Compliance items waiting for your approval before they are marked complete
+              </p>
+            </div>
+            <Badge variant="secondary" data-testid="badge-review-count">
+              {queue?.length ?? 0} waiting
+            </Badge>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-40 w-full" />
+            </div>
+          ) : !queue || queue.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <ClipboardCheck className="h-10 w-10 mx-auto mb-3" />
+                Nothing to review right now.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {queue.map((item) => {
+                const evidence = allEvidence.filter((e) => e.complianceItemId === item.id);
+                return (
+                  <Card key={item.id} data-testid={`card-review-${item.id}`}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="text-lg">
+                            <button
+                              className="text-left hover:text-primary hover:underline"
+                              onClick={() => setDetailItem(item)}
+                              data-testid={`button-review-detail-${item.id}`}
+                            >
+                              {item.commitment}
+                            </button>
+                          </CardTitle>
+                          <CardDescription>
+                            {getOrganizationName(item.customerId)} · {item.category}
+                            {item.dueDate && <> · Due {format(new Date(item.dueDate), "MMM dd, yyyy")}</>}
+                          </CardDescription>
+                        </div>
+                        {item.submittedAt && (
+                          <div className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                            Submitted by {getSubmitterName(item.submittedBy)}
+                            <div>{format(new Date(item.submittedAt), "MMM dd, yyyy HH:mm")}</div>
+                          </div>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <div className="text-sm font-semibold mb-2">Evidence ({evidence.length})</div>
+                        {evidence.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No evidence linked.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {evidence.map((e) => (
+                              <li key={e.id} className="flex items-center gap-2 text-sm">
+                                <FileText className="h-4 w-4 text-muted-foreground" />
+                                {e.filePath ? (
+                                  <a
+                                    href={`/api/evidence/${e.id}/download`}
+                                    className="text-primary hover:underline"
+                                    data-testid={`link-review-evidence-${e.id}`}
+                                  >
+                                    {e.title}
+                                  </a>
+                                ) : (
+                                  <span>{e.title}</span>
+                                )}
+                                <Badge variant="outline" className="text-xs">{e.evidenceType}</Badge>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      <ReviewActions item={item} />
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <ComplianceDetailDialog
+        item={detailItem}
+        onClose={() => setDetailItem(null)}
+        organizationName={detailItem ? getOrganizationName(detailItem.customerId) : undefined}
+      />
+    </div>
+  );
+}
@@ -1,15 +1,36 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "../shared/schema";
+import { User as SelectUser, ApiToken } from "../shared/schema";
+import {
+  OidcClaims, OidcError, OidcProvider,
+  beginOidcLogin, completeOidcLogin, getLocalLoginPolicy, getOidcProvider, getOidcProviders, resolveOidcRole,
+} from "./services/oidc";
+import {
+  getMfaPolicy, isMfaRequired, issueRecoveryCodes, startTotpEnrollment, verifySecondFactor, verifyStoredTotpCode,
+} from "./services/mfa";
+import { SecretsError } from "./services/secrets";
+import { READ_ONLY_METHODS, authenticateApiToken } from "./services/api-tokens";
+import { clearLoginFailures, getLoginLock, recordLoginFailure } from "./services/login-throttle";
+import { validatePassword } from "./services/password-policy";
+import { PasswordResetError, requestPasswordReset, resetPassword } from "./services/password-reset";
+import { InvitationError, acceptInvitation, findPendingInvitation } from "./services/invitations";
+import {
+  SessionRevokeReason, listUserSessions, revokeSession, revokeUserSessions, toSessionSummary, trackSession,
+} from "./services/sessions";
+import { z } from "zod";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      // Set when the request authenticated with a personal API token instead of a session
+      apiToken?: ApiToken;
+    }
   }
 }
 
@@ -28,6 +49,182 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// The provider must call back within this window after the sign-in redirect
+const SSO_LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+
+// The second factor must follow the password within this window, in at most this many tries
+const MFA_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+const MFA_MAX_ATTEMPTS = 5;
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email().max(254),
+});
+
+const passwordResetSchema = z.object({
+  token: z.string().min(1).max(200),
+  password: z.string().min(1).max(200),
+});
+
+// Open registration only chooses the account's own details; role and organization access are set by admins
+const registerSchema = z.object({
+  username: z.string().trim().min(1).max(100),
+  password: z.string().min(1).max(200),
+  email: z.union([z.string().trim().email().max(254), z.literal("")]).nullish(),
+  fullName: z.string().trim().max(200).nullish(),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1).max(200),
+  username: z.string().trim().min(1).max(100),
+  password: z.string().min(1).max(200),
+  fullName: z.string().trim().max(200).nullish(),
+});
+
+const DEACTIVATED_MESSAGE = "This account has been deactivated. Contact an administrator.";
+
+const mfaCodeSchema = z.object({
+  code: z.string().trim().max(10).optional(),
+  recoveryCode: z.string().trim().max(20).optional(),
+});
+
+function sanitizeUser(user: SelectUser) {
+  const { password, ...sanitizedUser } = user;
+  return sanitizedUser;
+}
+
+// The user whose password was accepted in this session and who still owes a second factor
+async function getPendingMfaUser(req: Request) {
+  const pending = req.session.mfaLogin;
+  if (!pending) return undefined;
+  if (Date.now() - pending.createdAt > MFA_LOGIN_TIMEOUT_MS || pending.attempts >= MFA_MAX_ATTEMPTS) {
+    delete req.session.mfaLogin;
+    return undefined;
+  }
+  const user = await storage.getUser(pending.userId);
+  return user?.deactivatedAt ? undefined : user;
+}
+
+// Account security, API token management, user management and admin settings need an interactive
+// sign-in, not an API token
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.sendStatus(401);
+  if (req.apiToken) {
+    return res.status(403).json({ error: "This action is not available with an API token" });
+  }
+  next();
+}
+
+// Signs a user out of every session but keepSid and records it; used when their password, role or status changes
+export async function endUserSessions(req: Request, userId: string, reason: SessionRevokeReason, keepSid?: string) {
+  const count = await revokeUserSessions(userId, keepSid);
+  if (count > 0) {
+    await storage.createAuditLog({
+      userId: req.user?.id ?? userId,
+      action: "SESSION_REVOKE",
+      entityType: "user",
+      entityId: userId,
+      newValues: JSON.stringify({ reason, count }),
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+  }
+  return count;
+}
+
+// Counts a failed password or code toward the lockout and records it, along with any lock it starts
+async function recordFailedLogin(req: Request, username: string, reason: string) {
+  const user = username ? await storage.getUserByUsername(username) : undefined;
+  const locked = await recordLoginFailure(username, req.ip);
+
+  await storage.createAuditLog({
+    userId: user?.id,
+    action: "LOGIN_FAILED",
+    entityType: "user",
+    entityId: user?.id ?? username,
+    newValues: JSON.stringify({ username, reason }),
+    ipAddress: req.ip,
+    userAgent: req.get("User-Agent"),
+  });
+  for (const throttle of locked) {
+    await storage.createAuditLog({
+      userId: user?.id,
+      action: "ACCOUNT_LOCKED",
+      entityType: "login_throttle",
+      entityId: throttle.key,
+      newValues: JSON.stringify({ failures: throttle.failures, lockedUntil: throttle.lockedUntil }),
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+  }
+}
+
+function lockedOutMessage(lockedUntil: Date) {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"} or reset your password.`;
+}
+
+async function availableUsername(base: string) {
+  const candidate = base.trim() || "sso-user";
+  for (let suffix = 1; ; suffix++) {
+    const username = suffix === 1 ? candidate : `${candidate}-${suffix}`;
+    if (!(await storage.getUserByUsername(username))) return username;
+  }
+}
+
+// Find the account for a verified SSO sign-in, linking or creating one on first sign-in
+// and applying the role from the provider's group mapping when one is configured
+async function provisionSsoUser(provider: OidcProvider, claims: OidcClaims, role: "admin" | "user") {
+  const identity = await storage.getUserIdentity(provider.key, claims.sub);
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+  let created = false;
+
+  if (!user) {
+    if (provider.linkExistingUsers && claims.email && claims.email_verified === true) {
+      user = await storage.getUserByEmail(claims.email);
+    }
+    if (!user) {
+      if (!provider.autoProvision) {
+        throw new OidcError("No BizGov account is linked to this sign-in. Ask an administrator for access.");
+      }
+      user = await storage.createUser({
+        username: await availableUsername(claims.preferred_username || claims.email || `${provider.key}-${claims.sub}`),
+        // SSO accounts cannot sign in with a password until an administrator sets one
+        password: await hashPassword(randomBytes(32).toString("hex")),
+        role,
+        // Organization access is granted by an administrator, as for self-registered accounts
+        allOrganizations: false,
+        email: claims.email || null,
+        fullName: claims.name || null,
+      });
+      created = true;
+    }
+    await storage.createUserIdentity({
+      userId: user.id,
+      provider: provider.key,
+      subject: claims.sub,
+      email: claims.email || null,
+      lastLoginAt: new Date(),
+    });
+  } else {
+    await storage.updateUserIdentity(identity!.id, { email: claims.email || null, lastLoginAt: new Date() });
+  }
+
+  if (user.deactivatedAt) {
+    throw new OidcError(DEACTIVATED_MESSAGE);
+  }
+
+  // The group mapping grants or removes admin only; other roles are managed in BizGov
+  const previousRole = user.role;
+  if (provider.adminValues.length > 0) {
+    const mappedRole = role === "admin" ? "admin" : user.role === "admin" ? "user" : user.role;
+    if (mappedRole !== user.role) {
+      user = await storage.updateUser(user.id, { role: mappedRole });
+    }
+  }
+
+  return { user, created, previousRole };
+}
+
 export function setupAuth(app: Express) {
   if (!process.env.SESSION_SECRET) {
     throw new Error("SESSION_SECRET environment variable must be set");
@@ -62,36 +259,113 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Keep each signed-in session's device and last activity current for the Sessions view.
+  // A session revoked while one of its requests was in flight can be saved back to the store; end it here.
+  app.use("/api", async (req, res, next) => {
+    try {
+      if (await trackSession(req)) return next();
+      req.session.destroy((err) => (err ? next(err) : res.sendStatus(401)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Scripts send "Authorization: Bearer <token>" instead of a session cookie. The request then runs
+  // as the token's owner; read-only tokens are limited to safe methods, and every other request
+  // is written to the audit log under the token.
+  app.use("/api", async (req, res, next) => {
+    const header = req.get("Authorization");
+    if (!header?.startsWith("Bearer ")) return next();
+    try {
+      const authenticated = await authenticateApiToken(header.slice("Bearer ".length).trim(), req.ip);
+      if (!authenticated) {
+        return res.status(401).json({ error: "Invalid or expired API token" });
+      }
+      const { token, user } = authenticated;
+      if (token.access === "read" && !READ_ONLY_METHODS.has(req.method)) {
+        return res.status(403).json({ error: "This API token is read-only" });
+      }
+
+      req.user = user;
+      req.apiToken = token;
+
+      if (!READ_ONLY_METHODS.has(req.method)) {
+        res.on("finish", () => {
+          storage.createAuditLog({
+            userId: user.id,
+            action: "API_REQUEST",
+            entityType: "api_token",
+            entityId: token.id,
+            newValues: JSON.stringify({ method: req.method, path: req.originalUrl, status: res.statusCode, token: token.name }),
+            ipAddress: req.ip,
+            userAgent: req.get("User-Agent"),
+          }).catch((error) => console.error("Failed to audit API token request:", error));
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       const user = await storage.getUserByUsername(username);
       if (!user || !(await comparePasswords(password, user.password))) {
         return done(null, false);
-      } else {
-        return done(null, user);
       }
+      // With SSO enforced, password sign-in is kept only as break-glass access for administrators
+      if (user.role !== "admin" && (await getLocalLoginPolicy()) === "admins") {
+        return done(null, false);
+      }
+      // Checked after the password, so it does not reveal which usernames exist
+      if (user.deactivatedAt) {
+        return done(null, false, { message: "deactivated" });
+      }
+      return done(null, user);
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: string, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // A deactivated user's remaining sessions stop working at once
+    done(null, user && !user.deactivatedAt ? user : false);
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
+    if ((await getLocalLoginPolicy()) === "admins") {
+      return res.status(403).send("Registration is closed; sign in with single sign-on");
+    }
+
+    const parsed = registerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).send("Enter a username, password and valid email address");
+    }
+    const account = parsed.data;
+
+    const existingUser = await storage.getUserByUsername(account.username);
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
 
+    const passwordProblems = await validatePassword(account.password, account);
+    if (passwordProblems.length > 0) {
+      return res.status(400).send(passwordProblems.join(" "));
+    }
+
     const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
+      username: account.username,
+      email: account.email || null,
+      fullName: account.fullName || null,
+      password: await hashPassword(account.password),
+      role: "user",
+      allOrganizations: false,
     });
 
     req.login(user, async (err) => {
       if (err) return next(err);
+      await trackSession(req);
       
       // Audit log for registration (auto-login after register)
       await storage.createAuditLog({
@@ -109,27 +383,260 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), async (req, res) => {
-    if (req.user) {
+  // Completes a password sign-in once any second factor has been checked
+  const completeLogin = (req: Request, res: Response, next: NextFunction, user: SelectUser, details?: object, extra?: object) => {
+    req.login(user, async (err) => {
+      if (err) return next(err);
+      await trackSession(req);
+      await clearLoginFailures(user.username);
+
       // Audit log for successful login
       await storage.createAuditLog({
-        userId: req.user.id,
+        userId: user.id,
         action: "LOGIN",
         entityType: "user",
-        entityId: req.user.id,
+        entityId: user.id,
+        newValues: details ? JSON.stringify(details) : undefined,
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      const { password, ...sanitizedUser } = req.user;
-      res.status(200).json(sanitizedUser);
-    } else {
-      res.sendStatus(401);
+
+      res.status(200).json({ ...sanitizeUser(user), ...extra });
+    });
+  };
+
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    try {
+      const lockedUntil = await getLoginLock(username, req.ip);
+      if (lockedUntil) {
+        res.set("Retry-After", String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+        return res.status(429).send(lockedOutMessage(lockedUntil));
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+
+      try {
+        if (info?.message === "deactivated") {
+          await recordFailedLogin(req, username, "deactivated");
+          return res.status(403).send(DEACTIVATED_MESSAGE);
+        }
+        if (!user) {
+          await recordFailedLogin(req, username, "invalid_credentials");
+          return res.sendStatus(401);
+        }
+
+        const [mfa, policy] = await Promise.all([storage.getUserMfa(user.id), getMfaPolicy()]);
+        const enrolled = !!mfa?.confirmedAt;
+        if (!enrolled && !isMfaRequired(user, policy)) {
+          return completeLogin(req, res, next, user);
+        }
+
+        // Hold the sign-in until the code is checked; accounts without an authenticator enroll first
+        req.session.mfaLogin = { userId: user.id, createdAt: Date.now(), attempts: 0 };
+        req.session.save((saveErr) => {
+          if (saveErr) return next(saveErr);
+          res.status(200).json(enrolled ? { mfaRequired: true } : { mfaSetupRequired: true });
+        });
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  // Enrollment during sign-in, when the MFA policy requires an authenticator the user has not set up
+  app.post("/api/login/mfa/setup", async (req, res, next) => {
+    try {
+      const user = await getPendingMfaUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Your sign-in has expired. Please sign in again." });
+      }
+      const mfa = await storage.getUserMfa(user.id);
+      if (mfa?.confirmedAt) {
+        return res.status(400).json({ error: "An authenticator is already set up for this account" });
+      }
+
+      res.json(await startTotpEnrollment(user.id, user.email || user.username));
+    } catch (error) {
+      if (error instanceof SecretsError) {
+        return res.status(500).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/login/mfa", async (req, res, next) => {
+    try {
+      const input = mfaCodeSchema.parse(req.body ?? {});
+      const user = await getPendingMfaUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const mfa = await storage.getUserMfa(user.id);
+      if (mfa && !mfa.confirmedAt) {
+        // Finishing enrollment: the first code confirms the authenticator
+        const step = input.code ? verifyStoredTotpCode(mfa, input.code) : null;
+        if (step === null) {
+          req.session.mfaLogin!.attempts++;
+          await recordFailedLogin(req, user.username, "invalid_mfa_code");
+          return res.status(401).json({ error: "That code is not valid. Check the time on your device and try again." });
+        }
+        await storage.confirmUserMfa(user.id, step);
+        const recoveryCodes = await issueRecoveryCodes(user.id);
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "MFA_ENABLE",
+          entityType: "user",
+          entityId: user.id,
+          newValues: JSON.stringify({ method: "totp", source: "login" }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+        delete req.session.mfaLogin;
+        return completeLogin(req, res, next, user, { mfa: "totp" }, { recoveryCodes });
+      }
+
+      const method = await verifySecondFactor(user.id, input);
+      if (!method) {
+        req.session.mfaLogin!.attempts++;
+        await recordFailedLogin(req, user.username, "invalid_mfa_code");
+        return res.status(401).json({ error: "That code is not valid" });
+      }
+      delete req.session.mfaLogin;
+      completeLogin(req, res, next, user, { mfa: method });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Self-service password reset. The request always gets the same answer, so it cannot be
+  // used to find out which email addresses have accounts.
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body ?? {});
+      const { outcome, user } = await requestPasswordReset(email, {
+        appUrl: process.env.APP_URL || `${req.protocol}://${req.get("host")}`,
+        ipAddress: req.ip,
+      });
+
+      await storage.createAuditLog({
+        userId: user?.id,
+        action: "PASSWORD_RESET_REQUEST",
+        entityType: "user",
+        entityId: user?.id ?? email,
+        newValues: JSON.stringify({ email, outcome }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(202).json({ message: "If an account uses that address, a reset link is on its way." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Enter a valid email address" });
+      }
+      console.error("Password reset request failed:", error);
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body ?? {});
+      const user = await resetPassword(token, password, hashPassword);
+      await endUserSessions(req, user.id, "password_change");
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "PASSWORD_RESET",
+        entityType: "user",
+        entityId: user.id,
+        newValues: JSON.stringify({ source: "email_link" }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof PasswordResetError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      next(error);
+    }
+  });
+
+  // Invitation signup links. Looking one up shows who it is for; accepting creates the account and signs in.
+  app.get("/api/invitations/lookup", async (req, res, next) => {
+    try {
+      const invitation = typeof req.query.token === "string" ? await findPendingInvitation(req.query.token) : undefined;
+      if (!invitation) {
+        return res.status(404).json({ error: "This invitation is invalid or has expired. Ask an administrator to send a new one." });
+      }
+      res.json({ email: invitation.email, fullName: invitation.fullName, role: invitation.role });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/invitations/accept", async (req, res, next) => {
+    try {
+      const { token, ...account } = acceptInvitationSchema.parse(req.body ?? {});
+      const { user, invitation } = await acceptInvitation(token, account, hashPassword);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "CREATE",
+        entityType: "user",
+        entityId: user.id,
+        newValues: JSON.stringify({ ...sanitizeUser(user), source: "invitation", invitationId: invitation.id, invitedBy: invitation.invitedBy }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        await trackSession(req);
+
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "LOGIN",
+          entityType: "user",
+          entityId: user.id,
+          newValues: JSON.stringify({ source: "invitation" }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+
+        res.status(201).json(sanitizeUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvitationError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      next(error);
     }
   });
 
   app.post("/api/logout", async (req, res, next) => {
     const userId = req.user?.id;
+    try {
+      await storage.deleteUserSession(req.sessionID);
+    } catch (error) {
+      return next(error);
+    }
     
     req.logout(async (err) => {
       if (err) return next(err);
@@ -150,6 +657,114 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Single sign-on through the OpenID Connect providers configured in the admin panel
+  app.get("/api/auth/sso/providers", async (_req, res) => {
+    try {
+      const providers = await getOidcProviders();
+      res.json({
+        providers: providers.filter(p => p.enabled).map(p => ({ key: p.key, displayName: p.displayName })),
+        localLogin: await getLocalLoginPolicy(),
+      });
+    } catch (error) {
+      console.error("Error fetching SSO providers:", error);
+      res.status(500).json({ error: "Failed to fetch sign-in providers" });
+    }
+  });
+
+  app.get("/api/auth/sso/:provider/login", async (req, res, next) => {
+    try {
+      const provider = await getOidcProvider(req.params.provider);
+      if (!provider?.enabled) {
+        return res.redirect(`/auth?sso_error=${encodeURIComponent("This sign-in provider is not available")}`);
+      }
+
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      const { url, pending } = await beginOidcLogin(provider, `${baseUrl}/api/auth/sso/${provider.key}/callback`);
+      req.session.oidcLogin = pending;
+      req.session.save((err) => (err ? next(err) : res.redirect(url)));
+    } catch (error) {
+      console.error("SSO sign-in could not start:", error);
+      const message = error instanceof OidcError ? error.message : "Single sign-on failed";
+      res.redirect(`/auth?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.get("/api/auth/sso/:provider/callback", async (req, res, next) => {
+    // The pending login is single-use, whatever the outcome
+    const pending = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+
+    try {
+      if (req.query.error) {
+        throw new OidcError(String(req.query.error_description || req.query.error));
+      }
+      if (!pending || pending.provider !== req.params.provider || Date.now() - pending.createdAt > SSO_LOGIN_TIMEOUT_MS) {
+        throw new OidcError("The sign-in attempt expired. Please try again.");
+      }
+
+      const provider = await getOidcProvider(pending.provider);
+      if (!provider?.enabled) {
+        throw new OidcError("This sign-in provider is not available");
+      }
+
+      const claims = await completeOidcLogin(provider, pending, {
+        code: typeof req.query.code === "string" ? req.query.code : undefined,
+        state: typeof req.query.state === "string" ? req.query.state : undefined,
+      });
+      const role = resolveOidcRole(provider, claims);
+      if (!role) {
+        throw new OidcError("Your account is not in a group that is allowed to use BizGov");
+      }
+
+      const { user, created, previousRole } = await provisionSsoUser(provider, claims, role);
+
+      if (created) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE",
+          entityType: "user",
+          entityId: user.id,
+          newValues: JSON.stringify({ ...user, password: "[REDACTED]", source: "sso", provider: provider.key }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      } else if (previousRole !== user.role) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE",
+          entityType: "user",
+          entityId: user.id,
+          oldValues: JSON.stringify({ role: previousRole }),
+          newValues: JSON.stringify({ role: user.role, source: "sso", provider: provider.key }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+        await endUserSessions(req, user.id, "role_change");
+      }
+
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        await trackSession(req);
+
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "LOGIN",
+          entityType: "user",
+          entityId: user.id,
+          newValues: JSON.stringify({ source: "sso", provider: provider.key }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+
+        res.redirect("/");
+      });
+    } catch (error) {
+      console.error("SSO sign-in failed:", error);
+      const message = error instanceof OidcError ? error.message : "Single sign-on failed";
+      res.redirect(`/auth?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     if (req.user) {
@@ -159,4 +774,176 @@ export function setupAuth(app: Express) {
       res.sendStatus(401);
     }
   });
+
+  // Self-service MFA for password accounts; SSO sign-ins rely on the identity provider's MFA
+  app.get("/api/user/mfa", async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const [mfa, policy] = await Promise.all([storage.getUserMfa(req.user.id), getMfaPolicy()]);
+      res.json({
+        enabled: !!mfa?.confirmedAt,
+        enabledAt: mfa?.confirmedAt ?? null,
+        recoveryCodesRemaining: mfa?.confirmedAt ? await storage.countMfaRecoveryCodes(req.user.id) : 0,
+        required: isMfaRequired(req.user, policy),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/mfa/setup", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const mfa = await storage.getUserMfa(req.user.id);
+      if (mfa?.confirmedAt) {
+        return res.status(400).json({ error: "Turn off the current authenticator before setting up a new one" });
+      }
+      res.json(await startTotpEnrollment(req.user.id, req.user.email || req.user.username));
+    } catch (error) {
+      if (error instanceof SecretsError) {
+        return res.status(500).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/user/mfa/enable", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { code } = mfaCodeSchema.parse(req.body ?? {});
+      const mfa = await storage.getUserMfa(req.user.id);
+      if (!mfa || mfa.confirmedAt) {
+        return res.status(400).json({ error: "Start authenticator setup first" });
+      }
+      const step = code ? verifyStoredTotpCode(mfa, code) : null;
+      if (step === null) {
+        return res.status(400).json({ error: "That code is not valid. Check the time on your device and try again." });
+      }
+
+      await storage.confirmUserMfa(req.user.id, step);
+      const recoveryCodes = await issueRecoveryCodes(req.user.id);
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "MFA_ENABLE",
+        entityType: "user",
+        entityId: req.user.id,
+        newValues: JSON.stringify({ method: "totp" }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/user/mfa/recovery-codes", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { code } = mfaCodeSchema.parse(req.body ?? {});
+      if (!code || (await verifySecondFactor(req.user.id, { code })) !== "totp") {
+        return res.status(400).json({ error: "Enter a current code from your authenticator app" });
+      }
+
+      const recoveryCodes = await issueRecoveryCodes(req.user.id);
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "MFA_RECOVERY_CODES",
+        entityType: "user",
+        entityId: req.user.id,
+        newValues: JSON.stringify({ count: recoveryCodes.length }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/user/mfa/disable", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const input = mfaCodeSchema.parse(req.body ?? {});
+      if (isMfaRequired(req.user, await getMfaPolicy())) {
+        return res.status(403).json({ error: "Your organization requires multi-factor authentication" });
+      }
+      const method = await verifySecondFactor(req.user.id, input);
+      if (!method) {
+        return res.status(400).json({ error: "Enter a current code from your authenticator app or a recovery code" });
+      }
+
+      await storage.deleteUserMfa(req.user.id);
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "MFA_DISABLE",
+        entityType: "user",
+        entityId: req.user.id,
+        newValues: JSON.stringify({ verifiedWith: method }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Signed-in sessions on other browsers and devices, which the user can end from account security
+  app.get("/api/user/sessions", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const sessions = await listUserSessions(req.user.id);
+      res.json(sessions.map((session) => toSessionSummary(session, req.sessionID)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/sessions/:id/revoke", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const session = await storage.getUserSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ error: "Use Sign Out to end the session you are using" });
+      }
+
+      await revokeSession(session);
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "SESSION_REVOKE",
+        entityType: "user_session",
+        entityId: session.id,
+        oldValues: JSON.stringify({ ipAddress: session.ipAddress, userAgent: session.userAgent, lastSeenAt: session.lastSeenAt }),
+        newValues: JSON.stringify({ reason: "user" }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/sessions/revoke-others", requireSession, async (req, res, next) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const count = await endUserSessions(req, req.user.id, "user", req.sessionID);
+      res.json({ count });
+    } catch (error) {
+      next(error);
+    }
+  });
 }
@@ -1,6 +1,6 @@
 import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
 import { drizzle as neonDrizzle } from 'drizzle-orm/neon-serverless';
-import { drizzle as pgDrizzle } from 'drizzle-orm/node-postgres';
+import { drizzle as pgDrizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
 import pg from 'pg';
 import ws from "ws";
 import * as schema from "../shared/schema";
@@ -42,4 +42,7 @@ if (isNeon) {
   db = pgDrizzle({ client: pool, schema });
 }
 
+// The handle db.transaction passes to its callback, as drizzle infers it for this schema
+export type Transaction = Parameters<Parameters<NodePgDatabase<typeof schema>["transaction"]>[0]>[0];
+
 export { pool, db };
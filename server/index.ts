@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobScheduler } from "./services/job-scheduler";
+import "./services/scheduled-jobs";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +69,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    startJobScheduler().catch((error) => {
+      console.error("Failed to start job scheduler:", error);
+    });
   });
 })();
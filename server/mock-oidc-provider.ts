@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+/**
+ * Mock OpenID Connect provider for trying single sign-on locally
+ *
+ *   npx tsx server/mock-oidc-provider.ts
+ *
+ * Then add a provider in Admin > Single Sign-On with issuer http://localhost:9400,
+ * client ID "bizgov" and client secret "bizgov-secret". The sign-in page lets you pick
+ * a test user and edit the claims sent back, including the groups used for role mapping.
+ *
+ * Environment: MOCK_OIDC_PORT, MOCK_OIDC_ISSUER, MOCK_OIDC_CLIENT_ID, MOCK_OIDC_CLIENT_SECRET
+ */
+
+import express from "express";
+import crypto from "crypto";
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || "9400");
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || "bizgov";
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || "bizgov-secret";
+
+const TEST_USERS = [
+  { sub: "mock-alice", preferred_username: "alice", name: "Alice Admin", email: "alice@example.com", groups: "bizgov-admins" },
+  { sub: "mock-bob", preferred_username: "bob", name: "Bob User", email: "bob@example.com", groups: "bizgov-users" },
+  { sub: "mock-carol", preferred_username: "carol", name: "Carol Outsider", email: "carol@example.com", groups: "" },
+];
+
+// A fresh signing key per run; BizGov fetches it from the JWKS endpoint
+const keyId = crypto.randomBytes(8).toString("hex");
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" };
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+function signJwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const data = `${encode({ alg: "RS256", typ: "JWT", kid: keyId })}.${encode(claims)}`;
+  return `${data}.${crypto.sign("sha256", Buffer.from(data), privateKey).toString("base64url")}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+    scopes_supported: ["openid", "profile", "email"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [publicJwk] });
+});
+
+app.get("/authorize", (req, res) => {
+  const { client_id, redirect_uri, response_type, state, nonce, code_challenge, code_challenge_method } = req.query as Record<string, string>;
+  if (client_id !== clientId) return res.status(400).send("Unknown client_id");
+  if (response_type !== "code") return res.status(400).send("Only response_type=code is supported");
+  if (!redirect_uri || !state || !nonce) return res.status(400).send("redirect_uri, state and nonce are required");
+  if (!code_challenge || code_challenge_method !== "S256") return res.status(400).send("PKCE with S256 is required");
+
+  const hidden = Object.entries({ redirect_uri, state, nonce, code_challenge })
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+    .join("");
+  const forms = TEST_USERS.map(user => `
+    <form method="post" action="/authorize" style="border:1px solid #ccc;padding:12px;margin:12px 0">
+      ${hidden}
+      ${Object.entries(user).map(([claim, value]) => `
+        <label style="display:block;margin:4px 0">${claim}
+          <input name="${claim}" value="${escapeHtml(value)}" style="width:320px">
+        </label>`).join("")}
+      <button type="submit">Sign in as ${escapeHtml(user.preferred_username)}</button>
+    </form>`).join("");
+
+  res.send(`<!doctype html><html><body style="font-family:sans-serif">
+    <h2>Mock OIDC Provider</h2><p>Groups are comma-separated.</p>${forms}</body></html>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, groups, ...claims } = req.body as Record<string, string>;
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce,
+    claims: {
+      ...claims,
+      email_verified: true,
+      groups: (groups || "").split(",").map(g => g.trim()).filter(Boolean),
+    },
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const url = new URL(redirect_uri);
+  url.searchParams.set("code", code);
+  url.searchParams.set("state", state);
+  res.redirect(url.toString());
+});
+
+app.post("/token", (req, res) => {
+  let id = req.body.client_id;
+  let secret = req.body.client_secret;
+  const basic = req.get("Authorization")?.match(/^Basic (.+)$/);
+  if (basic) {
+    [id, secret] = Buffer.from(basic[1], "base64").toString().split(":").map(decodeURIComponent);
+  }
+  if (id !== clientId || secret !== clientSecret) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code); // Codes are single-use
+  if (!pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "Unknown or expired code" });
+  }
+  if (req.body.grant_type !== "authorization_code" || req.body.redirect_uri !== pending.redirectUri) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "redirect_uri does not match" });
+  }
+  const challenge = crypto.createHash("sha256").update(req.body.code_verifier || "").digest("base64url");
+  if (challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(16).toString("hex");
+  accessTokens.set(accessToken, pending.claims);
+  res.json({
+    token_type: "Bearer",
+    access_token: accessToken,
+    expires_in: 300,
+    id_token: signJwt({ ...pending.claims, iss: issuer, aud: clientId, iat: now, exp: now + 300, nonce: pending.nonce }),
+  });
+});
+
+app.get("/userinfo", (req, res) => {
+  const token = req.get("Authorization")?.replace(/^Bearer /, "") || "";
+  const claims = accessTokens.get(token);
+  if (!claims) return res.status(401).json({ error: "invalid_token" });
+  res.json(claims);
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider at ${issuer} (client ID "${clientId}", secret "${clientSecret}")`);
+});
@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+/**
+ * Re-encrypt every stored secret under the current SECRETS_MASTER_KEY
+ * Run after changing the master key, with the old key in SECRETS_PREVIOUS_KEYS
+ */
+
+import { rotateSecrets } from "./services/secrets";
+
+async function main() {
+  try {
+    console.log("Re-encrypting stored secrets...");
+
+    const rotated = await rotateSecrets();
+
+    console.log(`✓ ${rotated.settings} system setting(s) re-encrypted`);
+    console.log(`✓ ${rotated.quickbooksConnections} QuickBooks connection(s) re-encrypted`);
+    console.log(`✓ ${rotated.authenticators} authenticator secret(s) re-encrypted`);
+    console.log("  Once this has run everywhere, SECRETS_PREVIOUS_KEYS can be removed.");
+
+    process.exit(0);
+  } catch (error) {
+    console.error("Error rotating secrets:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,34 +1,77 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth, hashPassword } from "./auth";
-import { storage } from "./storage";
+import { setupAuth, hashPassword, requireSession, endUserSessions } from "./auth";
+import { storage, type OrganizationScope } from "./storage";
 import { db } from "./db";
 import { 
   insertOrganizationSchema, 
   insertContractSchema, 
+  insertContractOptionPeriodSchema,
+  insertContractRateCardLineSchema,
+  insertContractAmendmentSchema,
   insertComplianceItemSchema, 
   insertComplianceCommentSchema,
   insertEvidenceCommentSchema,
   insertOrganizationNoteSchema,
   insertBillableEventSchema, 
+  insertInvoiceSchema,
   insertEvidenceSchema, 
-  insertUserSchema,
+  insertUserSchema, insertUserInvitationSchema,
   insertObjectiveSchema,
   insertKeyResultSchema,
   insertCheckInSchema,
+  insertAlertPolicySchema,
+  insertTeamSchema,
+  insertEscalationRuleSchema,
+  complianceTemplateInputSchema,
+  insertCalendarFeedSchema,
+  insertApiTokenSchema,
   complianceComments,
   evidenceComments,
   organizationNotes,
-  users
+  users,
+  type Evidence
 } from "../shared/schema";
 import { z } from "zod";
 import { eq, desc } from "drizzle-orm";
 import multer from "multer";
 import { parseCSV, validateComplianceCSV } from "./services/csv-import";
-import { sendEmailAlert } from "./services/email-service";
+import { parseCalendar, importCalendar, exportCalendar } from "./services/yaml-calendar";
+import { buildCalendarFeed, generateFeedToken, hashFeedToken } from "./services/ics-feed";
+import { apiTokenDisplayPrefix, generateApiToken, hashApiToken } from "./services/api-tokens";
+import { dispatchCeilingAlerts, dispatchComplianceAlerts } from "./services/email-service";
+import { spawnNextOccurrence, applyToFutureOccurrences, type SeriesEditScope } from "./services/recurrence-service";
+import { hashFile, hashBuffer, isSha256, verifyEvidence, scanEvidenceIntegrity } from "./services/evidence-integrity";
+import { ensureVersionHistory, addEvidenceVersion } from "./services/evidence-versioning";
+import { isReviewControlledStatus, getSubmitError, canReview, submittedUpdate, reviewedUpdate } from "./services/review-workflow";
 import { exportService } from "./services/export-service";
+import { runJobNow, getJobDefinition } from "./services/job-scheduler";
+import { buildItemsFromTemplate, toTemplateFile } from "./services/compliance-templates";
+import { TEMPLATE_FILE_FORMAT } from "../shared/templates";
+import { hasPermission, type Permission } from "../shared/permissions";
+import { isValidCronExpression, getNextCronRun } from "./services/cron";
+import { OIDC_PROVIDER_KEY_PATTERN, getLocalLoginPolicy, getOidcProvider, getOidcProviders, oidcSettingKey } from "./services/oidc";
+import { getMfaPolicy } from "./services/mfa";
+import { PASSWORD_MIN_LENGTH_LIMITS, getPasswordPolicy, validatePassword } from "./services/password-policy";
+import { listUserSessions, revokeSession, toSessionSummary } from "./services/sessions";
+import { InvitationError, createInvitation, invitationOrganizationIds, resendInvitation } from "./services/invitations";
 import { createQuickBooksOAuthService } from "./services/quickbooks-oauth.service";
 import { createQuickBooksSyncService } from "./services/quickbooks-sync.service";
+import { SecretsError, decryptSecret, encryptSecret } from "./services/secrets";
+import { RenewalError, applyRenewalDecision } from "./services/contract-renewals";
+import { AmendmentError, checkAmendedTerms, validateAmendment } from "./services/contract-amendments";
+import { checkCeiling, getCeilingPolicy } from "./services/contract-ceilings";
+import { HierarchyError, subtreeIds, validateContractPlacement } from "./services/contract-hierarchy";
+import { RateCardError, checkRateCard, getEffectiveRateCard } from "./services/rate-cards";
+import {
+  InvoiceError, createInvoiceDraft, finalizeInvoice, getInvoiceSettings, getUnbilledEvents, invoiceLockReason,
+  markInvoicePaid, updateInvoiceDraft, voidInvoice
+} from "./services/invoices";
+import { renderInvoicePdf } from "./services/invoice-pdf";
+import { CEILING_ENFORCEMENT_MODES, ceilingBurnDown, isValidCeilingThresholds } from "../shared/ceilings";
+import { RENEWAL_DECISIONS } from "../shared/renewals";
+import { ancestorsOf, effectiveTerms, rollUpContract } from "../shared/contract-hierarchy";
+import { INVOICE_STATUSES, MAX_NET_TERMS_DAYS, MAX_TAX_RATE } from "../shared/invoices";
 import "./types"; // Import session type declarations
 
 // Admin-only middleware
@@ -46,9 +89,72 @@ function requireAdmin(req: Request, res: Response, next: NextFunction) {
     console.log('[requireAdmin] Access denied - user:', req.user?.username, 'role:', req.user?.role);
     return res.status(403).json({ error: "Admin access required" });
   }
+  if (req.apiToken?.organizationId) {
+    return res.status(403).json({ error: "This action requires access to all organizations" });
+  }
+  next();
+}
+
+// Organizations the user may see; undefined means every organization
+async function getOrganizationScope(user: Express.User): Promise<OrganizationScope> {
+  if (user.role === "admin" || user.allOrganizations) return undefined;
+  return await storage.getUserOrganizationIds(user.id);
+}
+
+// An API token limited to one organization narrows its owner's scope to that organization
+function narrowToApiToken(req: Request, scope: OrganizationScope): OrganizationScope {
+  const organizationId = req.apiToken?.organizationId;
+  if (!organizationId) return scope;
+  return !scope || scope.includes(organizationId) ? [organizationId] : [];
+}
+
+// Permission middleware - signed-in users whose role grants the permission. The user's
+// organization scope is resolved once into res.locals for the handler's queries.
+function requirePermission(permission?: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.sendStatus(401);
+    if (permission && !hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    try {
+      res.locals.organizationScope = narrowToApiToken(req, await getOrganizationScope(req.user));
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Any signed-in user, with their organization scope resolved
+const requireLogin = requirePermission();
+
+// Whether a record's organization is within the signed-in user's scope
+function inScope(res: Response, organizationId: string | null | undefined): boolean {
+  const scope: OrganizationScope = res.locals.organizationScope;
+  return !scope || (!!organizationId && scope.includes(organizationId));
+}
+
+// For operations that span every organization, such as full exports and imports; must follow requirePermission
+function requireAllOrganizations(req: Request, res: Response, next: NextFunction) {
+  if (res.locals.organizationScope) {
+    return res.status(403).json({ error: "This action requires access to all organizations" });
+  }
   next();
 }
 
+// Evidence has no organization of its own; it is in scope when the record it is attached to is
+async function evidenceInScope(res: Response, record: Partial<Pick<Evidence, "complianceItemId" | "billableEventId" | "contractId">>): Promise<boolean> {
+  if (!res.locals.organizationScope) return true;
+  const parent = record.complianceItemId
+    ? await storage.getComplianceItem(record.complianceItemId)
+    : record.billableEventId
+      ? await storage.getBillableEvent(record.billableEventId)
+      : record.contractId
+        ? await storage.getContract(record.contractId)
+        : undefined;
+  return inScope(res, parent?.customerId);
+}
+
 // Setup multer for file uploads
 const upload = multer({ 
   dest: 'uploads/',
@@ -78,16 +184,16 @@ export function registerRoutes(app: Express): Server {
   setupAuth(app);
 
   // Organization routes (admin protected for mutations)
-  app.get("/api/organizations", async (req, res) => {
+  app.get("/api/organizations", requirePermission("organizations.view"), async (req, res) => {
     try {
-      const organizations = await storage.getOrganizations();
+      const organizations = await storage.getOrganizations(res.locals.organizationScope);
       res.json(organizations);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch organizations" });
     }
   });
 
-  app.post("/api/organizations", async (req, res) => {
+  app.post("/api/organizations", requirePermission("organizations.manage"), requireAllOrganizations, async (req, res) => {
     try {
       const validatedData = insertOrganizationSchema.parse(req.body);
       const organization = await storage.createOrganization(validatedData);
@@ -113,9 +219,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.patch("/api/organizations/:id", async (req, res) => {
+  app.patch("/api/organizations/:id", requirePermission("organizations.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const validatedData = insertOrganizationSchema.partial().parse(req.body);
       const organization = await storage.updateOrganization(id, validatedData);
       
@@ -140,12 +249,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/organizations/:id", async (req, res) => {
+  app.delete("/api/organizations/:id", requirePermission("organizations.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const organization = await storage.getOrganization(id);
       
-      if (!organization) {
+      if (!organization || !inScope(res, id)) {
         return res.status(404).json({ error: "Organization not found" });
       }
       
@@ -170,17 +279,22 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Contract routes
-  app.get("/api/contracts", async (req, res) => {
+  // Option periods are saved with the contract; periods sent back with their id keep their status
+  const optionPeriodsSchema = z.array(
+    insertContractOptionPeriodSchema.and(z.object({ id: z.string().optional() }))
+  ).optional();
+
+  app.get("/api/contracts", requirePermission("contracts.view"), async (req, res) => {
     try {
       const organizationId = req.query.organizationId as string;
-      const contracts = await storage.getContracts(organizationId);
+      const contracts = await storage.getContracts(organizationId, res.locals.organizationScope);
       res.json(contracts);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch contracts" });
     }
   });
 
-  app.post("/api/contracts", async (req, res) => {
+  app.post("/api/contracts", requirePermission("contracts.manage"), async (req, res) => {
     try {
       console.log("=== POST /api/contracts ===");
       console.log("Request body:", JSON.stringify(req.body, null, 2));
@@ -195,9 +309,18 @@ export function registerRoutes(app: Express): Server {
       console.log("Data after date conversion:", JSON.stringify(data, null, 2));
       
       const validatedData = insertContractSchema.parse(data);
+      const optionPeriods = optionPeriodsSchema.parse(req.body.optionPeriods);
       console.log("Validated data:", JSON.stringify(validatedData, null, 2));
       
+      if (!inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+      await validateContractPlacement(validatedData);
+      
       const contract = await storage.createContract(validatedData);
+      if (optionPeriods) {
+        await storage.replaceContractOptionPeriods(contract.id, optionPeriods);
+      }
       console.log("Created contract:", JSON.stringify(contract, null, 2));
       
       // Audit log
@@ -218,6 +341,8 @@ export function registerRoutes(app: Express): Server {
         console.error("Validation errors:", JSON.stringify(error.errors, null, 2));
         console.error("Failed request body:", JSON.stringify(req.body, null, 2));
         res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else if (error instanceof HierarchyError) {
+        res.status(400).json({ error: error.message });
       } else {
         console.error("=== CONTRACT CREATION ERROR ===");
         console.error("Error:", error);
@@ -227,7 +352,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.patch("/api/contracts/:id", async (req, res) => {
+  app.patch("/api/contracts/:id", requirePermission("contracts.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -239,7 +364,20 @@ export function registerRoutes(app: Express): Server {
       };
       
       const validatedData = insertContractSchema.partial().parse(data);
+      const optionPeriods = optionPeriodsSchema.parse(req.body.optionPeriods);
+      const existing = await storage.getContract(id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      if (validatedData.customerId && !inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+      checkAmendedTerms(existing, validatedData);
+      await validateContractPlacement({ ...existing, ...validatedData, id });
       const contract = await storage.updateContract(id, validatedData);
+      if (optionPeriods) {
+        await storage.replaceContractOptionPeriods(id, optionPeriods);
+      }
       
       // Audit log
       await storage.createAuditLog({
@@ -247,6 +385,7 @@ export function registerRoutes(app: Express): Server {
         action: "UPDATE",
         entityType: "contract",
         entityId: contract.id,
+        oldValues: JSON.stringify(existing),
         newValues: JSON.stringify(contract),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
@@ -256,12 +395,287 @@ export function registerRoutes(app: Express): Server {
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else if (error instanceof HierarchyError || error instanceof AmendmentError) {
+        res.status(400).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to update contract" });
       }
     }
   });
 
+  // Active contracts with an end date, soonest first, with their option periods
+  app.get("/api/contracts/renewals", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contracts = await storage.getRenewalContracts(res.locals.organizationScope);
+      const periods = await storage.getContractOptionPeriods(contracts.map(contract => contract.id));
+      res.json(contracts.map(contract => ({
+        ...contract,
+        optionPeriods: periods.filter(period => period.contractId === contract.id),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch contract renewals" });
+    }
+  });
+
+  // Ceiling, billing and compliance roll-up for every contract, counting everything beneath it
+  app.get("/api/contracts/hierarchy", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contracts = await storage.getContracts(undefined, res.locals.organizationScope);
+      const ids = contracts.map(contract => contract.id);
+      const [events, items] = await Promise.all([
+        storage.getContractBillableEvents(ids),
+        storage.getContractComplianceItems(ids),
+      ]);
+      const checked = items.map(checkAndUpdateOverdueStatus);
+      res.json(contracts.map(contract => rollUpContract(contract, contracts, events, checked)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch contract hierarchy" });
+    }
+  });
+
+  // Where a contract sits: its parents, the terms it inherits, its children and the master requirements that apply to it
+  app.get("/api/contracts/:id/hierarchy", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      const all = await storage.getContracts(contract.customerId);
+      const ancestors = ancestorsOf(contract, all);
+      const subtree = subtreeIds(contract, all);
+      const [events, items] = await Promise.all([
+        storage.getContractBillableEvents(subtree),
+        storage.getContractComplianceItems([...subtree, ...ancestors.map(ancestor => ancestor.id)]),
+      ]);
+      const checked = items.map(checkAndUpdateOverdueStatus);
+
+      res.json({
+        ancestors,
+        effectiveTerms: effectiveTerms(contract, ancestors),
+        rollup: rollUpContract(contract, all, events, checked),
+        children: all
+          .filter(child => child.parentContractId === contract.id)
+          .map(child => ({ contract: child, rollup: rollUpContract(child, all, events, checked) })),
+        inheritedCompliance: checked.filter(item => item.appliesToChildren && ancestors.some(ancestor => ancestor.id === item.contractId)),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch contract hierarchy" });
+    }
+  });
+
+  app.get("/api/contracts/:id/option-periods", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      res.json(await storage.getContractOptionPeriods([contract.id]));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch option periods" });
+    }
+  });
+
+  app.post("/api/contracts/:id/renewal-decision", requirePermission("contracts.manage"), async (req, res) => {
+    try {
+      const { decision } = z.object({ decision: z.enum(RENEWAL_DECISIONS) }).parse(req.body);
+      const existing = await storage.getContract(req.params.id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+
+      const periods = await storage.getContractOptionPeriods([existing.id]);
+      const change = applyRenewalDecision(existing, decision, periods);
+      const contract = await storage.recordRenewalDecision(existing.id, change.updates, change.optionPeriod);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "RENEWAL_DECISION",
+        entityType: "contract",
+        entityId: contract.id,
+        oldValues: JSON.stringify({ endDate: existing.endDate, renewalDecision: existing.renewalDecision }),
+        newValues: JSON.stringify({ decision, endDate: contract.endDate, renewalDecision: contract.renewalDecision, optionPeriod: change.optionPeriod }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(contract);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof RenewalError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to record renewal decision" });
+    }
+  });
+
+  app.get("/api/contracts/:id/burn-down", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      // A master agreement's ceiling is consumed by billing against every contract beneath it
+      const all = await storage.getContracts(contract.customerId);
+      const [events, policy] = await Promise.all([
+        storage.getContractBillableEvents(subtreeIds(contract, all)),
+        getCeilingPolicy(),
+      ]);
+      res.json({ ...ceilingBurnDown(contract, events), thresholds: policy.thresholds, enforcement: policy.enforcement });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to calculate contract burn-down" });
+    }
+  });
+
+  // The rate card a contract bills from, which may be inherited from a parent contract
+  app.get("/api/contracts/:id/rate-card", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      const card = await getEffectiveRateCard(contract);
+      res.json({
+        ownerContractId: card?.contract.id ?? null,
+        ownerTitle: card?.contract.title ?? null,
+        lines: card?.lines ?? [],
+        optionPeriods: card?.optionPeriods ?? [],
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch rate card" });
+    }
+  });
+
+  // Replace the contract's own rate card; lines sent back with their id keep it
+  app.put("/api/contracts/:id/rate-card", requirePermission("contracts.manage"), async (req, res) => {
+    try {
+      const lines = z.array(insertContractRateCardLineSchema.and(z.object({ id: z.string().optional() }))).parse(req.body.lines);
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+
+      const previous = await storage.getRateCardLines([contract.id]);
+      const updated = await storage.replaceRateCard(contract.id, lines);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "contract_rate_card",
+        entityId: contract.id,
+        oldValues: JSON.stringify(previous),
+        newValues: JSON.stringify(updated),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save rate card" });
+    }
+  });
+
+  // Amendments, oldest first; applied ones carry the terms they replaced
+  app.get("/api/contracts/:id/amendments", requirePermission("contracts.view"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      res.json(await storage.getContractAmendments(contract.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch amendments" });
+    }
+  });
+
+  app.post("/api/contracts/:id/amendments", requirePermission("contracts.manage"), async (req, res) => {
+    try {
+      const data = insertContractAmendmentSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      if (data.evidenceId) {
+        const document = await storage.getEvidenceById(data.evidenceId);
+        if (!document || document.contractId !== contract.id) {
+          return res.status(400).json({ error: "The signed document must be evidence attached to this contract" });
+        }
+      }
+      validateAmendment(contract, data, await storage.getContractAmendments(contract.id));
+
+      let amendment = await storage.createContractAmendment(contract.id, data, req.user?.id ?? null);
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "CREATE",
+        entityType: "contract_amendment",
+        entityId: amendment.id,
+        newValues: JSON.stringify(amendment),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      // Amendments already in effect change the contract now; later ones wait for the daily job
+      let updatedContract = contract;
+      const applied = amendment.effectiveDate <= new Date() ? await storage.applyContractAmendment(amendment.id) : undefined;
+      if (applied) {
+        ({ contract: updatedContract, amendment } = applied);
+        await storage.createAuditLog({
+          userId: req.user?.id,
+          action: "APPLY_AMENDMENT",
+          entityType: "contract",
+          entityId: contract.id,
+          oldValues: JSON.stringify({ endDate: amendment.previousEndDate, maxAmount: amendment.previousMaxAmount }),
+          newValues: JSON.stringify({ amendmentNumber: amendment.amendmentNumber, endDate: updatedContract.endDate, maxAmount: updatedContract.maxAmount }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
+
+      res.status(201).json({ amendment, contract: updatedContract });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof AmendmentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create amendment" });
+    }
+  });
+
+  // Only scheduled amendments can be withdrawn; applied ones are part of the contract's history
+  app.delete("/api/contracts/:id/amendments/:amendmentId", requirePermission("contracts.manage"), async (req, res) => {
+    try {
+      const contract = await storage.getContract(req.params.id);
+      const amendment = await storage.getContractAmendment(req.params.amendmentId);
+      if (!contract || !inScope(res, contract.customerId) || !amendment || amendment.contractId !== contract.id) {
+        return res.status(404).json({ error: "Amendment not found" });
+      }
+      if (amendment.appliedAt) {
+        return res.status(400).json({ error: "Applied amendments cannot be deleted; record a new amendment instead" });
+      }
+
+      await storage.deleteContractAmendment(amendment.id);
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "contract_amendment",
+        entityId: amendment.id,
+        oldValues: JSON.stringify(amendment),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete amendment" });
+    }
+  });
+
   app.delete("/api/contracts/:id", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
@@ -270,6 +684,10 @@ export function registerRoutes(app: Express): Server {
       if (!contract) {
         return res.status(404).json({ error: "Contract not found" });
       }
+      const children = (await storage.getContracts(contract.customerId)).filter(c => c.parentContractId === id);
+      if (children.length > 0) {
+        return res.status(400).json({ error: `Move or delete its ${children.length} child contract(s) first` });
+      }
       
       // Audit log before deletion
       await storage.createAuditLog({
@@ -292,26 +710,44 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Compliance item routes
-  app.get("/api/compliance-items", async (req, res) => {
+  app.get("/api/compliance-items", requirePermission("compliance.view"), async (req, res) => {
     try {
       const filters: {
         organizationId?: string;
         category?: string;
         status?: string;
         search?: string;
+        assigneeId?: string;
+        teamId?: string;
+        assignedTo?: string;
         limit?: number;
         offset?: number;
         dueDateFrom?: Date;
         dueDateTo?: Date;
+        organizationIds?: OrganizationScope;
       } = {
         organizationId: req.query.organizationId as string,
+        organizationIds: res.locals.organizationScope,
         category: req.query.category as string,
         status: req.query.status as string,
         search: req.query.search as string,
+        teamId: req.query.teamId as string,
         limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
         offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
       };
 
+      // "me" resolves to the signed-in user
+      for (const key of ["assigneeId", "assignedTo"] as const) {
+        const value = req.query[key] as string | undefined;
+        if (!value) continue;
+        if (value === "me") {
+          if (!req.user) return res.sendStatus(401);
+          filters[key] = req.user.id;
+        } else {
+          filters[key] = value;
+        }
+      }
+
       if (req.query.dueDateFrom) {
         filters.dueDateFrom = new Date(req.query.dueDateFrom as string);
       }
@@ -328,10 +764,10 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/compliance-items/:id", async (req, res) => {
+  app.get("/api/compliance-items/:id", requirePermission("compliance.view"), async (req, res) => {
     try {
       const item = await storage.getComplianceItem(req.params.id);
-      if (!item) {
+      if (!item || !inScope(res, item.customerId)) {
         return res.status(404).json({ error: "Compliance item not found" });
       }
       // Apply overdue status check
@@ -342,7 +778,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/compliance-items", async (req, res) => {
+  app.post("/api/compliance-items", requirePermission("compliance.manage"), async (req, res) => {
     try {
       // Convert date strings to Date objects before validation
       const data = {
@@ -350,6 +786,14 @@ export function registerRoutes(app: Express): Server {
         dueDate: req.body.dueDate ? new Date(req.body.dueDate) : undefined,
       };
       const validatedData = insertComplianceItemSchema.parse(data);
+
+      if (!inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+
+      if (isReviewControlledStatus(validatedData.status)) {
+        return res.status(400).json({ error: "New items must start as pending, overdue or N/A; completion goes through review" });
+      }
       
       // Check if status should be automatically set to overdue
       const itemDataWithOverdueCheck = checkAndUpdateOverdueStatus(validatedData);
@@ -377,19 +821,23 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.put("/api/compliance-items/:id", async (req, res) => {
+  app.put("/api/compliance-items/:id", requirePermission("compliance.manage"), async (req, res) => {
     try {
       const oldItem = await storage.getComplianceItem(req.params.id);
-      if (!oldItem) {
+      if (!oldItem || !inScope(res, oldItem.customerId)) {
         return res.status(404).json({ error: "Compliance item not found" });
       }
 
       console.log("Update request body:", JSON.stringify(req.body, null, 2));
       
+      // Recurring items can be edited as "this occurrence" (default) or "all future occurrences"
+      const { scope, ...body } = req.body;
+      const editScope: SeriesEditScope = scope === 'future' ? 'future' : 'this';
+      
       // Convert date strings to Date objects before validation
       // Only include fields that are explicitly provided to avoid nullifying existing data
       const data: any = {
-        ...req.body,
+        ...body,
       };
       
       // Only set dueDate if it was explicitly provided in the request
@@ -397,13 +845,25 @@ export function registerRoutes(app: Express): Server {
         data.dueDate = req.body.dueDate ? new Date(req.body.dueDate) : null;
       }
       
-      // Only set completedAt if it was explicitly provided in the request
-      if (req.body.completedAt !== undefined) {
-        data.completedAt = req.body.completedAt ? new Date(req.body.completedAt) : null;
-      }
+      // completedAt is only set by approving a review
+      delete data.completedAt;
       
       console.log("Data after date conversion:", JSON.stringify(data, null, 2));
       const validatedData = insertComplianceItemSchema.partial().parse(data);
+
+      if (validatedData.customerId && !inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+
+      if (validatedData.status && validatedData.status !== oldItem.status) {
+        if (isReviewControlledStatus(validatedData.status)) {
+          return res.status(400).json({
+            error: "Use submit for review, approve or reject to move an item into this status",
+          });
+        }
+        // Reopening or withdrawing clears the previous completion
+        validatedData.completedAt = null;
+      }
       
       // Check if status should be automatically set to overdue
       const dataWithOverdueCheck = checkAndUpdateOverdueStatus({ ...oldItem, ...validatedData });
@@ -422,6 +882,22 @@ export function registerRoutes(app: Express): Server {
         userAgent: req.get("User-Agent"),
       });
       
+      if (editScope === 'future') {
+        const changed = await applyToFutureOccurrences(oldItem, validatedData);
+        for (const { before, after } of changed) {
+          await storage.createAuditLog({
+            userId: req.user?.id,
+            action: "UPDATE",
+            entityType: "compliance_item",
+            entityId: after.id,
+            oldValues: JSON.stringify(before),
+            newValues: JSON.stringify({ ...after, source: `series_edit:${updatedItem.id}` }),
+            ipAddress: req.ip,
+            userAgent: req.get("User-Agent"),
+          });
+        }
+      }
+      
       res.json(updatedItem);
     } catch (error) {
       console.error("Error updating compliance item:", error);
@@ -433,70 +909,228 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/compliance-items/:id", async (req, res) => {
+  // Review workflow: maker submits with evidence, a different user approves or rejects
+  const reviewCommentSchema = z.object({
+    comment: z.string().trim().max(2000).optional().nullable(),
+  });
+
+  app.get("/api/reviews/queue", requirePermission("compliance.review"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      // Admins see every item awaiting review, others only items they are the designated reviewer for
+      const items = await storage.getReviewQueue(
+        req.user.role === "admin" ? undefined : req.user.id,
+        res.locals.organizationScope,
+      );
+      res.json(items.filter(item => canReview(item, req.user!)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch review queue" });
+    }
+  });
+
+  app.post("/api/compliance-items/:id/submit-review", requirePermission("compliance.manage"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
     try {
+      const { comment } = reviewCommentSchema.parse(req.body ?? {});
       const item = await storage.getComplianceItem(req.params.id);
-      if (!item) {
+      if (!item || !inScope(res, item.customerId)) {
         return res.status(404).json({ error: "Compliance item not found" });
       }
 
-      await storage.deleteComplianceItem(req.params.id);
-      
-      // Audit log
+      const linkedEvidence = await storage.getEvidence(item.id);
+      const submitError = getSubmitError(checkAndUpdateOverdueStatus(item), linkedEvidence.length);
+      if (submitError) {
+        return res.status(400).json({ error: submitError });
+      }
+
+      const updatedItem = await storage.updateComplianceItem(item.id, submittedUpdate(req.user.id));
+
       await storage.createAuditLog({
-        userId: req.user?.id,
-        action: "DELETE",
+        userId: req.user.id,
+        action: "SUBMIT_REVIEW",
         entityType: "compliance_item",
-        entityId: req.params.id,
-        oldValues: JSON.stringify(item),
+        entityId: item.id,
+        oldValues: JSON.stringify({ status: item.status }),
+        newValues: JSON.stringify({
+          status: updatedItem.status,
+          reviewerId: updatedItem.reviewerId,
+          evidenceIds: linkedEvidence.map(e => e.id),
+          comment: comment || null,
+        }),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      res.status(204).send();
+
+      res.json(updatedItem);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete compliance item" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to submit compliance item for review" });
+      }
     }
   });
 
-  // CSV import route
-  app.post("/api/compliance-items/import-csv", upload.single("file"), async (req, res) => {
+  app.post("/api/compliance-items/:id/approve", requirePermission("compliance.review"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
     try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
+      const { comment } = reviewCommentSchema.parse(req.body ?? {});
+      const item = await storage.getComplianceItem(req.params.id);
+      if (!item || !inScope(res, item.customerId)) {
+        return res.status(404).json({ error: "Compliance item not found" });
+      }
+      if (item.status !== "in_review") {
+        return res.status(400).json({ error: "Compliance item is not awaiting review" });
+      }
+      if (!canReview(item, req.user)) {
+        return res.status(403).json({ error: "Only the designated reviewer or an admin other than the submitter can approve" });
       }
 
-      // Get duplicate handling strategy from request (default: skip)
-      const duplicateHandling = req.body.duplicateHandling === 'update' ? 'update' : 'skip';
+      const updatedItem = await storage.updateComplianceItem(item.id, reviewedUpdate(req.user.id, true, comment || null));
 
-      const csvData = await parseCSV(req.file.path);
-      const result = await validateComplianceCSV(csvData, duplicateHandling);
-      
-      // Audit log for import operation
-      for (const item of result.items) {
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "APPROVE",
+        entityType: "compliance_item",
+        entityId: item.id,
+        oldValues: JSON.stringify({ status: item.status, submittedBy: item.submittedBy }),
+        newValues: JSON.stringify({
+          status: updatedItem.status,
+          completedAt: updatedItem.completedAt,
+          comment: updatedItem.reviewComment,
+        }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      // Completing a recurring item spawns its next occurrence
+      const nextOccurrence = await spawnNextOccurrence(updatedItem);
+      if (nextOccurrence) {
         await storage.createAuditLog({
-          userId: req.user?.id,
-          action: duplicateHandling === 'update' && result.updated > 0 ? "UPDATE" : "IMPORT",
+          userId: req.user.id,
+          action: "CREATE",
           entityType: "compliance_item",
-          entityId: item.id,
-          newValues: JSON.stringify(item),
+          entityId: nextOccurrence.id,
+          newValues: JSON.stringify({ ...nextOccurrence, source: `recurrence:${updatedItem.id}` }),
           ipAddress: req.ip,
           userAgent: req.get("User-Agent"),
         });
       }
-      
-      // Build success message
-      const messages = [];
-      if (result.imported > 0) messages.push(`${result.imported} imported`);
-      if (result.updated > 0) messages.push(`${result.updated} updated`);
-      if (result.skipped > 0) messages.push(`${result.skipped} skipped`);
-      
-      const message = messages.length > 0 
-        ? `Successfully processed: ${messages.join(', ')}`
-        : 'No items processed';
-      
-      res.json({ 
-        message,
+
+      res.json({ ...updatedItem, nextOccurrence });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to approve compliance item" });
+      }
+    }
+  });
+
+  app.post("/api/compliance-items/:id/reject", requirePermission("compliance.review"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { comment } = reviewCommentSchema.extend({
+        comment: z.string().trim().min(1, "A comment is required when rejecting").max(2000),
+      }).parse(req.body ?? {});
+      const item = await storage.getComplianceItem(req.params.id);
+      if (!item || !inScope(res, item.customerId)) {
+        return res.status(404).json({ error: "Compliance item not found" });
+      }
+      if (item.status !== "in_review") {
+        return res.status(400).json({ error: "Compliance item is not awaiting review" });
+      }
+      if (!canReview(item, req.user)) {
+        return res.status(403).json({ error: "Only the designated reviewer or an admin other than the submitter can reject" });
+      }
+
+      const updatedItem = await storage.updateComplianceItem(item.id, reviewedUpdate(req.user.id, false, comment));
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "REJECT",
+        entityType: "compliance_item",
+        entityId: item.id,
+        oldValues: JSON.stringify({ status: item.status, submittedBy: item.submittedBy }),
+        newValues: JSON.stringify({ status: updatedItem.status, comment }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(updatedItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to reject compliance item" });
+      }
+    }
+  });
+
+  app.delete("/api/compliance-items/:id", requirePermission("compliance.delete"), async (req, res) => {
+    try {
+      const item = await storage.getComplianceItem(req.params.id);
+      if (!item || !inScope(res, item.customerId)) {
+        return res.status(404).json({ error: "Compliance item not found" });
+      }
+
+      await storage.deleteComplianceItem(req.params.id);
+      
+      // Audit log
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "compliance_item",
+        entityId: req.params.id,
+        oldValues: JSON.stringify(item),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete compliance item" });
+    }
+  });
+
+  // CSV import route
+  app.post("/api/compliance-items/import-csv", requirePermission("compliance.manage"), requireAllOrganizations, upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+
+      // Get duplicate handling strategy from request (default: skip)
+      const duplicateHandling = req.body.duplicateHandling === 'update' ? 'update' : 'skip';
+
+      const csvData = await parseCSV(req.file.path);
+      const result = await validateComplianceCSV(csvData, duplicateHandling);
+      
+      // Audit log for import operation
+      for (const item of result.items) {
+        await storage.createAuditLog({
+          userId: req.user?.id,
+          action: duplicateHandling === 'update' && result.updated > 0 ? "UPDATE" : "IMPORT",
+          entityType: "compliance_item",
+          entityId: item.id,
+          newValues: JSON.stringify(item),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
+      
+      // Build success message
+      const messages = [];
+      if (result.imported > 0) messages.push(`${result.imported} imported`);
+      if (result.updated > 0) messages.push(`${result.updated} updated`);
+      if (result.skipped > 0) messages.push(`${result.skipped} skipped`);
+      
+      const message = messages.length > 0 
+        ? `Successfully processed: ${messages.join(', ')}`
+        : 'No items processed';
+      
+      res.json({ 
+        message,
         imported: result.imported,
         updated: result.updated,
         skipped: result.skipped,
@@ -509,10 +1143,334 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // YAML compliance calendar import/export
+  app.post("/api/compliance-calendar/import", requirePermission("data.import"), requireAllOrganizations, upload.single("file"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+
+      const fs = await import("fs");
+      const source = fs.readFileSync(req.file.path, 'utf8');
+      fs.unlinkSync(req.file.path);
+
+      // The whole file is validated before anything is written
+      const { calendar, issues } = parseCalendar(source);
+      if (!calendar) {
+        return res.status(400).json({
+          error: `Calendar file has ${issues.length} error${issues.length === 1 ? "" : "s"}`,
+          issues,
+        });
+      }
+
+      if (req.body.dryRun === 'true') {
+        return res.json({
+          valid: true,
+          organizations: calendar.organizations.length,
+          contracts: calendar.organizations.reduce((sum, org) => sum + org.contracts.length, 0),
+          complianceItems: calendar.organizations.reduce(
+            (sum, org) => sum + org.complianceItems.length + org.contracts.reduce((n, c) => n + c.complianceItems.length, 0),
+            0
+          ),
+        });
+      }
+
+      const duplicateHandling = req.body.duplicateHandling === 'update' ? 'update' : 'skip';
+      const { changes, ...result } = await importCalendar(calendar, duplicateHandling);
+
+      for (const change of changes) {
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: change.action,
+          entityType: change.entityType,
+          entityId: change.entity.id,
+          oldValues: change.previous ? JSON.stringify(change.previous) : undefined,
+          newValues: JSON.stringify({ ...change.entity, source: "calendar-import" }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "IMPORT",
+        entityType: "compliance_calendar",
+        entityId: req.file.originalname,
+        newValues: JSON.stringify({ duplicateHandling, ...result }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to import compliance calendar";
+      res.status(500).json({ error: message });
+    }
+  });
+
+  app.get("/api/compliance-calendar/export", requirePermission("data.export"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const organizationId = req.query.organizationId ? String(req.query.organizationId) : undefined;
+      const yaml = await exportCalendar(organizationId, res.locals.organizationScope);
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "EXPORT",
+        entityType: "compliance_calendar",
+        entityId: organizationId || "all",
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.setHeader("Content-Type", "application/yaml");
+      res.setHeader("Content-Disposition", `attachment; filename=compliance-calendar-${new Date().toISOString().split('T')[0]}.yaml`);
+      res.send(yaml);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export compliance calendar" });
+    }
+  });
+
+  app.get("/api/compliance-calendar/spec", async (req, res) => {
+    try {
+      const fs = await import("fs");
+      const spec = JSON.parse(fs.readFileSync("compliance-calendar-spec.json", "utf8"));
+      res.json(spec);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to load calendar specification" });
+    }
+  });
+
+  // Calendar (ICS) subscription feeds. The feed URL itself is the credential, so the
+  // .ics route needs no session; revoking a feed makes its URL return 404.
+  app.get("/api/calendar-feeds", requirePermission("compliance.view"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const feeds = await storage.getCalendarFeeds(req.user.id);
+      res.json(feeds.map(({ tokenHash, ...feed }) => feed));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch calendar feeds" });
+    }
+  });
+
+  app.post("/api/calendar-feeds", requirePermission("compliance.view"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { scope, organizationId, contractId, name } = insertCalendarFeedSchema.parse(req.body);
+
+      let feedData;
+      if (scope === "contract") {
+        const contract = await storage.getContract(contractId!);
+        if (!contract || !inScope(res, contract.customerId)) {
+          return res.status(404).json({ error: "Contract not found" });
+        }
+        feedData = { scope, organizationId: contract.customerId, contractId: contract.id, name: name || contract.title };
+      } else if (scope === "organization") {
+        const organization = await storage.getOrganization(organizationId!);
+        if (!organization || !inScope(res, organization.id)) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+        feedData = { scope, organizationId: organization.id, contractId: null, name: name || organization.name };
+      } else {
+        feedData = { scope, organizationId: null, contractId: null, name: name || "My compliance items" };
+      }
+
+      const token = generateFeedToken();
+      const { tokenHash, ...feed } = await storage.createCalendarFeed({
+        ...feedData,
+        userId: req.user.id,
+        tokenHash: hashFeedToken(token),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "CREATE",
+        entityType: "calendar_feed",
+        entityId: feed.id,
+        newValues: JSON.stringify(feed),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json({ ...feed, url: `${req.protocol}://${req.get("host")}/api/calendar-feeds/${token}.ics` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar-feeds/:id/revoke", requireLogin, async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const feed = await storage.getCalendarFeed(req.params.id);
+      if (!feed || feed.revokedAt) {
+        return res.status(404).json({ error: "Calendar feed not found" });
+      }
+      if (feed.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ error: "You can only revoke your own calendar feeds" });
+      }
+
+      const { tokenHash, ...revoked } = await storage.updateCalendarFeed(feed.id, { revokedAt: new Date() });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "REVOKE",
+        entityType: "calendar_feed",
+        entityId: feed.id,
+        newValues: JSON.stringify(revoked),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(revoked);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar-feeds/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByTokenHash(hashFeedToken(req.params.token));
+      if (!feed || feed.revokedAt) {
+        return res.sendStatus(404);
+      }
+
+      // The feed only shows what its owner could still see in the app
+      const owner = await storage.getUser(feed.userId);
+      if (!owner || owner.deactivatedAt) {
+        return res.sendStatus(404);
+      }
+      const scope = await getOrganizationScope(owner);
+
+      let items;
+      let feedContracts;
+      if (feed.scope === "user") {
+        items = (await storage.getComplianceItems({ assignedTo: feed.userId, organizationIds: scope })).items;
+        const contractIds = new Set(items.map(item => item.contractId));
+        feedContracts = (await storage.getContracts(undefined, scope)).filter(contract => contractIds.has(contract.id));
+      } else if (feed.scope === "organization") {
+        items = (await storage.getComplianceItems({ organizationId: feed.organizationId!, organizationIds: scope })).items;
+        feedContracts = await storage.getContracts(feed.organizationId!, scope);
+      } else {
+        items = (await storage.getComplianceItems({ organizationId: feed.organizationId!, organizationIds: scope })).items
+          .filter(item => item.contractId === feed.contractId);
+        feedContracts = (await storage.getContracts(feed.organizationId!, scope)).filter(contract => contract.id === feed.contractId);
+      }
+
+      const [policies, organizations] = await Promise.all([storage.getAlertPolicies(), storage.getOrganizations()]);
+      const calendar = buildCalendarFeed({
+        name: feed.name,
+        items,
+        contracts: feedContracts,
+        policies,
+        organizationNames: new Map(organizations.map(org => [org.id, org.name])),
+        appUrl: process.env.APP_URL || `${req.protocol}://${req.get("host")}`,
+      });
+
+      await storage.updateCalendarFeed(feed.id, { lastAccessedAt: new Date() });
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", "inline; filename=compliance.ics");
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(calendar);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  // Personal API tokens. Only the hash is stored, so the token is returned once, at creation.
+  app.get("/api/api-tokens", requireSession, async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const tokens = await storage.getApiTokens(req.user.id);
+      res.json(tokens.map(({ tokenHash, ...token }) => token));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/api-tokens", requireSession, requireLogin, async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { name, access, organizationId, expiresInDays } = insertApiTokenSchema.parse(req.body);
+
+      if (organizationId) {
+        const organization = await storage.getOrganization(organizationId);
+        if (!organization || !inScope(res, organization.id)) {
+          return res.status(404).json({ error: "Organization not found" });
+        }
+      }
+
+      const rawToken = generateApiToken();
+      const { tokenHash, ...token } = await storage.createApiToken({
+        userId: req.user.id,
+        name,
+        access: access ?? "read",
+        organizationId: organizationId || null,
+        tokenHash: hashApiToken(rawToken),
+        tokenPrefix: apiTokenDisplayPrefix(rawToken),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "CREATE",
+        entityType: "api_token",
+        entityId: token.id,
+        newValues: JSON.stringify(token),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json({ ...token, token: rawToken });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create API token" });
+    }
+  });
+
+  app.post("/api/api-tokens/:id/revoke", requireSession, async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const token = await storage.getApiToken(req.params.id);
+      if (!token || token.revokedAt) {
+        return res.status(404).json({ error: "API token not found" });
+      }
+      if (token.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ error: "You can only revoke your own API tokens" });
+      }
+
+      const { tokenHash, ...revoked } = await storage.updateApiToken(token.id, { revokedAt: new Date() });
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "REVOKE",
+        entityType: "api_token",
+        entityId: token.id,
+        newValues: JSON.stringify(revoked),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(revoked);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke API token" });
+    }
+  });
+
   // Compliance comments routes
-  app.get("/api/compliance-items/:id/comments", async (req, res) => {
+  app.get("/api/compliance-items/:id/comments", requirePermission("compliance.view"), async (req, res) => {
     try {
       const { id } = req.params;
+      const item = await storage.getComplianceItem(id);
+      if (!item || !inScope(res, item.customerId)) {
+        return res.status(404).json({ error: "Compliance item not found" });
+      }
       const comments = await db
         .select({
           id: complianceComments.id,
@@ -534,9 +1492,13 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/compliance-items/:id/comments", async (req, res) => {
+  app.post("/api/compliance-items/:id/comments", requirePermission("compliance.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      const item = await storage.getComplianceItem(id);
+      if (!item || !inScope(res, item.customerId)) {
+        return res.status(404).json({ error: "Compliance item not found" });
+      }
       const validatedData = insertComplianceCommentSchema.parse({
         complianceItemId: id,
         userId: req.user?.id,
@@ -584,7 +1546,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/comments/:id", async (req, res) => {
+  app.delete("/api/comments/:id", requirePermission("compliance.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -623,9 +1585,13 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Evidence comments routes
-  app.get("/api/evidence/:id/comments", async (req, res) => {
+  app.get("/api/evidence/:id/comments", requirePermission("evidence.view"), async (req, res) => {
     try {
       const { id } = req.params;
+      const record = await storage.getEvidenceById(id);
+      if (!record || !(await evidenceInScope(res, record))) {
+        return res.status(404).json({ error: "Evidence not found" });
+      }
       const results = await db
         .select({
           id: evidenceComments.id,
@@ -661,9 +1627,13 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/evidence/:id/comments", async (req, res) => {
+  app.post("/api/evidence/:id/comments", requirePermission("evidence.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      const record = await storage.getEvidenceById(id);
+      if (!record || !(await evidenceInScope(res, record))) {
+        return res.status(404).json({ error: "Evidence not found" });
+      }
       const validatedData = insertEvidenceCommentSchema.parse({
         evidenceId: id,
         userId: req.user?.id,
@@ -725,7 +1695,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/evidence/:id/comments/:commentId", async (req, res) => {
+  app.delete("/api/evidence/:id/comments/:commentId", requirePermission("evidence.manage"), async (req, res) => {
     try {
       const { commentId } = req.params;
       
@@ -764,9 +1734,12 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Organization notes routes
-  app.get("/api/organizations/:id/notes", async (req, res) => {
+  app.get("/api/organizations/:id/notes", requirePermission("organizations.view"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const notes = await db
         .select({
           id: organizationNotes.id,
@@ -788,9 +1761,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/organizations/:id/notes", async (req, res) => {
+  app.post("/api/organizations/:id/notes", requirePermission("organizations.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const validatedData = insertOrganizationNoteSchema.parse({
         organizationId: id,
         userId: req.user?.id,
@@ -838,7 +1814,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/organization-notes/:id", async (req, res) => {
+  app.delete("/api/organization-notes/:id", requirePermission("organizations.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -877,17 +1853,17 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Billable events routes
-  app.get("/api/billable-events", async (req, res) => {
+  app.get("/api/billable-events", requirePermission("billing.view"), async (req, res) => {
     try {
       const organizationId = req.query.organizationId as string;
-      const events = await storage.getBillableEvents(organizationId);
+      const events = await storage.getBillableEvents(organizationId, res.locals.organizationScope);
       res.json(events);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch billable events" });
     }
   });
 
-  app.post("/api/billable-events", async (req, res) => {
+  app.post("/api/billable-events", requirePermission("billing.manage"), async (req, res) => {
     try {
       // Convert date strings to Date objects before validation
       const data = {
@@ -896,7 +1872,18 @@ export function registerRoutes(app: Express): Server {
       };
       console.log("Creating billable event with data:", JSON.stringify(data, null, 2));
       const validatedData = insertBillableEventSchema.parse(data);
-      const event = await storage.createBillableEvent(validatedData);
+      if (!inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+
+      const contract = validatedData.contractId ? await storage.getContract(validatedData.contractId) : undefined;
+      const offCardReason = await checkRateCard(contract, validatedData);
+      const overrun = contract ? await checkCeiling(contract, parseFloat(validatedData.totalAmount)) : null;
+      if (overrun && (await getCeilingPolicy()).enforcement === "block") {
+        return res.status(409).json({ error: `${overrun.message}. Raise the ceiling by amendment to bill this event.`, ceiling: overrun });
+      }
+
+      const event = await storage.createBillableEvent({ ...validatedData, offCardReason });
       
       // Audit log
       await storage.createAuditLog({
@@ -904,24 +1891,30 @@ export function registerRoutes(app: Express): Server {
         action: "CREATE",
         entityType: "billable_event",
         entityId: event.id,
-        newValues: JSON.stringify(event),
+        newValues: JSON.stringify(overrun ? { ...event, ceilingWarning: overrun.message } : event),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
+
+      if (contract) {
+        dispatchCeilingAlerts([contract.id]).catch(error => console.error("Failed to send ceiling alerts:", error));
+      }
       
-      res.status(201).json(event);
+      res.status(201).json(overrun ? { ...event, ceilingWarning: overrun.message } : event);
     } catch (error) {
       console.error("Error creating billable event:", error);
       if (error instanceof z.ZodError) {
         console.error("Validation errors:", JSON.stringify(error.errors, null, 2));
         res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else if (error instanceof RateCardError) {
+        res.status(400).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to create billable event", message: error instanceof Error ? error.message : "Unknown error" });
       }
     }
   });
 
-  app.patch("/api/billable-events/:id", async (req, res) => {
+  app.patch("/api/billable-events/:id", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -932,7 +1925,37 @@ export function registerRoutes(app: Express): Server {
       };
       
       const validatedData = insertBillableEventSchema.partial().parse(data);
-      const event = await storage.updateBillableEvent(id, validatedData);
+      const existing = await storage.getBillableEvent(id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Billable event not found" });
+      }
+      if (validatedData.customerId && !inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+      const locked = await invoiceLockReason(existing, validatedData);
+      if (locked) {
+        return res.status(409).json({ error: locked });
+      }
+
+      const contractId = validatedData.contractId !== undefined ? validatedData.contractId : existing.contractId;
+      const contract = contractId ? await storage.getContract(contractId) : undefined;
+      const offCardReason = await checkRateCard(contract, {
+        rateCardLineId: validatedData.rateCardLineId !== undefined ? validatedData.rateCardLineId : existing.rateCardLineId,
+        rate: validatedData.rate ?? existing.rate,
+        billingDate: validatedData.billingDate ?? existing.billingDate,
+      });
+      const overrun = contract
+        ? await checkCeiling(contract, parseFloat(validatedData.totalAmount ?? existing.totalAmount), existing.id)
+        : null;
+      if (overrun && (await getCeilingPolicy()).enforcement === "block") {
+        return res.status(409).json({ error: `${overrun.message}. Raise the ceiling by amendment to bill this event.`, ceiling: overrun });
+      }
+
+      const event = await storage.updateBillableEvent(id, { ...validatedData, offCardReason });
+      if (event.invoiceId) {
+        // Keep the draft invoice's lines and totals in step with the corrected event
+        await storage.updateInvoiceDraft(event.invoiceId, {});
+      }
       
       // Audit log
       await storage.createAuditLog({
@@ -940,15 +1963,21 @@ export function registerRoutes(app: Express): Server {
         action: "UPDATE",
         entityType: "billable_event",
         entityId: event.id,
-        newValues: JSON.stringify(event),
+        newValues: JSON.stringify(overrun ? { ...event, ceilingWarning: overrun.message } : event),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
+
+      if (contract) {
+        dispatchCeilingAlerts([contract.id]).catch(error => console.error("Failed to send ceiling alerts:", error));
+      }
       
-      res.json(event);
+      res.json(overrun ? { ...event, ceilingWarning: overrun.message } : event);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else if (error instanceof RateCardError) {
+        res.status(400).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to update billable event" });
       }
@@ -963,6 +1992,10 @@ export function registerRoutes(app: Express): Server {
       if (!event) {
         return res.status(404).json({ error: "Billable event not found" });
       }
+      const locked = await invoiceLockReason(event);
+      if (locked) {
+        return res.status(409).json({ error: locked });
+      }
       
       // Audit log before deletion
       await storage.createAuditLog({
@@ -984,25 +2017,293 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Invoice routes
+  app.get("/api/invoices", requirePermission("billing.view"), async (req, res) => {
+    try {
+      const status = INVOICE_STATUSES.find(s => s === req.query.status);
+      const invoices = await storage.getInvoices({
+        organizationId: req.query.organizationId as string | undefined,
+        contractId: req.query.contractId as string | undefined,
+        status,
+      }, res.locals.organizationScope);
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch invoices" });
+    }
+  });
+
+  // Events an invoice for the organization, and optionally the contract, could bill
+  app.get("/api/invoices/unbilled-events", requirePermission("billing.view"), async (req, res) => {
+    try {
+      const organizationId = req.query.organizationId as string | undefined;
+      if (!organizationId) {
+        return res.status(400).json({ error: "organizationId is required" });
+      }
+      if (!inScope(res, organizationId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+      res.json(await getUnbilledEvents(organizationId, req.query.contractId as string | undefined));
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch unbilled events" });
+    }
+  });
+
+  app.get("/api/invoices/:id", requirePermission("billing.view"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || !inScope(res, invoice.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch invoice" });
+    }
+  });
+
+  app.get("/api/invoices/:id/pdf", requirePermission("billing.view"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || !inScope(res, invoice.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      const organization = await storage.getOrganization(invoice.customerId);
+      if (!organization) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      const contract = invoice.contractId ? await storage.getContract(invoice.contractId) : undefined;
+
+      const pdf = renderInvoicePdf(invoice, organization, contract, await getInvoiceSettings());
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${invoice.invoiceNumber ?? `draft-invoice-${invoice.id.slice(0, 8)}`}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering invoice PDF:", error);
+      res.status(500).json({ error: "Failed to generate invoice PDF" });
+    }
+  });
+
+  // Drafts an invoice from unbilled events; terms left out come from the invoice settings
+  app.post("/api/invoices", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const validatedData = insertInvoiceSchema.parse(req.body);
+      if (!inScope(res, validatedData.customerId)) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
+
+      const settings = await getInvoiceSettings();
+      const invoice = await createInvoiceDraft({
+        ...validatedData,
+        taxRate: validatedData.taxRate ?? settings.defaultTaxRate.toString(),
+        netTermsDays: validatedData.netTermsDays ?? settings.defaultNetTermsDays,
+      }, req.user?.id ?? null);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "CREATE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        newValues: JSON.stringify(invoice),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating invoice:", error);
+      res.status(500).json({ error: "Failed to create invoice" });
+    }
+  });
+
+  app.patch("/api/invoices/:id", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const validatedData = insertInvoiceSchema.omit({ customerId: true, contractId: true }).partial().parse(req.body);
+      const existing = await storage.getInvoice(req.params.id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const invoice = await updateInvoiceDraft(existing, validatedData);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        oldValues: JSON.stringify(existing),
+        newValues: JSON.stringify(invoice),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update invoice" });
+    }
+  });
+
+  // Only drafts are deleted; their events go back to the unbilled pool
+  app.delete("/api/invoices/:id", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || !inScope(res, invoice.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (!(await storage.deleteInvoiceDraft(invoice.id))) {
+        return res.status(400).json({ error: "Only draft invoices can be deleted; void an issued invoice instead" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        oldValues: JSON.stringify(invoice),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete invoice" });
+    }
+  });
+
+  // Issues a draft: assigns the next invoice number and due date and locks its events
+  app.post("/api/invoices/:id/finalize", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const { issueDate } = z.object({ issueDate: z.coerce.date().optional() }).parse(req.body ?? {});
+      const existing = await storage.getInvoice(req.params.id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const invoice = await finalizeInvoice(existing, issueDate ?? new Date());
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "ISSUE_INVOICE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        oldValues: JSON.stringify(existing),
+        newValues: JSON.stringify(invoice),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ error: "Failed to issue invoice" });
+    }
+  });
+
+  app.post("/api/invoices/:id/mark-paid", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const { paidAt } = z.object({ paidAt: z.coerce.date().optional() }).parse(req.body ?? {});
+      const existing = await storage.getInvoice(req.params.id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const invoice = await markInvoicePaid(existing, paidAt ?? new Date());
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "PAY_INVOICE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        oldValues: JSON.stringify({ status: existing.status, paidAt: existing.paidAt }),
+        newValues: JSON.stringify({ status: invoice.status, paidAt: invoice.paidAt }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to mark invoice paid" });
+    }
+  });
+
+  // Voids an issued or paid invoice and returns its events to the unbilled pool
+  app.post("/api/invoices/:id/void", requirePermission("billing.manage"), async (req, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(1, "A reason is required to void an invoice") }).parse(req.body ?? {});
+      const existing = await storage.getInvoice(req.params.id);
+      if (!existing || !inScope(res, existing.customerId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const invoice = await voidInvoice(existing, reason);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "VOID_INVOICE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        oldValues: JSON.stringify({ status: existing.status }),
+        newValues: JSON.stringify({ status: invoice.status, voidReason: reason }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to void invoice" });
+    }
+  });
+
   // Evidence routes
-  app.get("/api/evidence", async (req, res) => {
+  app.get("/api/evidence", requirePermission("evidence.view"), async (req, res) => {
     try {
       const complianceItemId = req.query.complianceItemId as string;
       const billableEventId = req.query.billableEventId as string;
-      const evidence = await storage.getEvidence(complianceItemId, billableEventId);
+      const evidence = await storage.getEvidence(complianceItemId, billableEventId, res.locals.organizationScope);
       res.json(evidence);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch evidence" });
     }
   });
 
-  app.post("/api/evidence", upload.single("file"), async (req, res) => {
+  app.post("/api/evidence", requirePermission("evidence.manage"), upload.single("file"), async (req, res) => {
     try {
       const evidenceData = {
         ...req.body,
         uploadedBy: req.user?.id,
         filePath: req.file?.path,
-        fileHash: req.file ? "hash_placeholder" : undefined, // In production, calculate actual hash
+        fileHash: req.file ? await hashFile(req.file.path) : undefined,
         originalFilename: req.file?.originalname,
         mimeType: req.file?.mimetype,
       };
@@ -1010,7 +2311,11 @@ export function registerRoutes(app: Express): Server {
       console.log("Evidence data before validation:", evidenceData);
       
       const validatedData = insertEvidenceSchema.parse(evidenceData);
+      if (!(await evidenceInScope(res, validatedData))) {
+        return res.status(403).json({ error: "You do not have access to this organization" });
+      }
       const evidence = await storage.createEvidence(validatedData);
+      await ensureVersionHistory(evidence);
       
       // Audit log
       await storage.createAuditLog({
@@ -1036,22 +2341,24 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/evidence/:id", async (req, res) => {
+  app.delete("/api/evidence/:id", requirePermission("evidence.manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const evidenceList = await storage.getEvidence();
       const evidence = evidenceList.find(e => e.id === id);
       
-      if (!evidence) {
+      if (!evidence || !(await evidenceInScope(res, evidence))) {
         return res.status(404).json({ error: "Evidence not found" });
       }
       
-      // Delete associated file if it exists
-      if (evidence.filePath) {
+      // Delete the current file and every earlier version's file
+      const versions = await storage.getEvidenceVersions(id);
+      const filePaths = new Set([evidence.filePath, ...versions.map(v => v.filePath)].filter(Boolean) as string[]);
+      for (const filePath of Array.from(filePaths)) {
         try {
           const fs = await import("fs");
           const path = await import("path");
-          const absolutePath = path.resolve(evidence.filePath);
+          const absolutePath = path.resolve(filePath);
           if (fs.existsSync(absolutePath)) {
             fs.unlinkSync(absolutePath);
             console.log(`Deleted file: ${absolutePath}`);
@@ -1081,14 +2388,16 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Update evidence file (add or replace)
-  app.put("/api/evidence/:id/file", upload.single("file"), async (req, res) => {
+  // Update evidence file (add or replace). The previous file is kept as an earlier version.
+  app.put("/api/evidence/:id/file", requirePermission("evidence.manage"), upload.single("file"), async (req, res) => {
     try {
+      if (!req.user) return res.sendStatus(401);
+
       // Get existing evidence
       const evidenceList = await storage.getEvidence();
       const oldEvidence = evidenceList.find(e => e.id === req.params.id);
       
-      if (!oldEvidence) {
+      if (!oldEvidence || !(await evidenceInScope(res, oldEvidence))) {
         return res.status(404).json({ error: "Evidence not found" });
       }
 
@@ -1096,32 +2405,15 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ error: "No file provided" });
       }
 
-      const fs = await import("fs");
-      
-      // Delete old file if it exists
-      if (oldEvidence.filePath) {
-        try {
-          const path = await import("path");
-          const absolutePath = path.resolve(oldEvidence.filePath);
-          if (fs.existsSync(absolutePath)) {
-            fs.unlinkSync(absolutePath);
-            console.log(`Deleted old file: ${absolutePath}`);
-          }
-        } catch (err) {
-          console.error("Error deleting old file:", err);
-          // Continue anyway - don't fail the upload
-        }
-      }
-
       // Update evidence with new file information
       const updateData = {
         filePath: req.file.path,
-        fileHash: "hash_placeholder", // In production, calculate actual hash
+        fileHash: await hashFile(req.file.path),
         originalFilename: req.file.originalname,
         mimeType: req.file.mimetype,
       };
 
-      const updatedEvidence = await storage.updateEvidence(req.params.id, updateData);
+      const { evidence: updatedEvidence, version } = await addEvidenceVersion(oldEvidence, updateData, req.user.id);
 
       // Audit log
       const action = oldEvidence.filePath ? "file_replaced" : "file_added";
@@ -1133,13 +2425,16 @@ export function registerRoutes(app: Express): Server {
         entityId: updatedEvidence.id,
         oldValues: JSON.stringify({
           filePath: oldEvidence.filePath,
+          fileHash: oldEvidence.fileHash,
           originalFilename: oldEvidence.originalFilename,
           mimeType: oldEvidence.mimeType,
         }),
         newValues: JSON.stringify({
           filePath: updateData.filePath,
+          fileHash: updateData.fileHash,
           originalFilename: updateData.originalFilename,
           mimeType: updateData.mimeType,
+          versionNumber: version.versionNumber,
           action: oldEvidence.filePath ? `Replaced: ${oldEvidence.originalFilename} → ${req.file.originalname}` : `Added: ${req.file.originalname}`,
         }),
         ipAddress: req.ip,
@@ -1153,12 +2448,151 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/evidence/:id/download", async (req, res) => {
+  // Evidence version history, newest first
+  app.get("/api/evidence/:id/versions", requirePermission("evidence.view"), async (req, res) => {
+    try {
+      const evidence = await storage.getEvidenceById(req.params.id);
+
+      if (!evidence || !(await evidenceInScope(res, evidence))) {
+        return res.status(404).json({ error: "Evidence not found" });
+      }
+
+      const versions = await ensureVersionHistory(evidence);
+      const uploaders = await storage.getAllUsers();
+
+      res.json(versions.map(v => {
+        const uploader = uploaders.find(u => u.id === v.uploadedBy);
+        return {
+          ...v,
+          isCurrent: v.versionNumber === versions[0].versionNumber,
+          uploader: uploader ? { id: uploader.id, username: uploader.username, fullName: uploader.fullName } : null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching evidence versions:", error);
+      res.status(500).json({ error: "Failed to fetch evidence versions" });
+    }
+  });
+
+  app.get("/api/evidence/:id/versions/:versionId/download", requirePermission("evidence.view"), async (req, res) => {
+    try {
+      const [evidence, version] = await Promise.all([
+        storage.getEvidenceById(req.params.id),
+        storage.getEvidenceVersionById(req.params.versionId),
+      ]);
+
+      if (!evidence || !version || version.evidenceId !== evidence.id || !(await evidenceInScope(res, evidence))) {
+        return res.status(404).json({ error: "Evidence version not found" });
+      }
+
+      const path = await import("path");
+      const fs = await import("fs");
+      const absolutePath = path.resolve(version.filePath);
+
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ error: "File not found on disk" });
+      }
+
+      const filename = version.originalFilename || `version-${version.versionNumber}`;
+      res.setHeader('Content-Type', version.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      const fileStream = fs.createReadStream(absolutePath);
+      fileStream.pipe(res);
+
+      fileStream.on('error', (err) => {
+        console.error("Error streaming file:", err);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Failed to serve file" });
+        }
+      });
+    } catch (error) {
+      console.error("Error accessing evidence version:", error);
+      res.status(500).json({ error: "Failed to access evidence version" });
+    }
+  });
+
+  // Restore an earlier version by making its file the current one again (as a new version)
+  app.post("/api/evidence/:id/versions/:versionId/restore", requirePermission("evidence.manage"), async (req, res) => {
+    try {
+      if (!req.user) return res.sendStatus(401);
+
+      const evidence = await storage.getEvidenceById(req.params.id);
+      const version = await storage.getEvidenceVersionById(req.params.versionId);
+
+      if (!evidence || !version || version.evidenceId !== evidence.id || !(await evidenceInScope(res, evidence))) {
+        return res.status(404).json({ error: "Evidence version not found" });
+      }
+
+      const fs = await import("fs");
+      const path = await import("path");
+      if (!fs.existsSync(path.resolve(version.filePath))) {
+        return res.status(409).json({ error: "The file for this version is missing and cannot be restored" });
+      }
+
+      const { evidence: updatedEvidence, version: restored } = await addEvidenceVersion(
+        evidence,
+        {
+          filePath: version.filePath,
+          fileHash: version.fileHash,
+          originalFilename: version.originalFilename,
+          mimeType: version.mimeType,
+        },
+        req.user.id,
+        version.versionNumber
+      );
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "version_restored",
+        entityType: "evidence",
+        entityId: evidence.id,
+        oldValues: JSON.stringify({
+          filePath: evidence.filePath,
+          fileHash: evidence.fileHash,
+          originalFilename: evidence.originalFilename,
+        }),
+        newValues: JSON.stringify({
+          filePath: restored.filePath,
+          fileHash: restored.fileHash,
+          originalFilename: restored.originalFilename,
+          versionNumber: restored.versionNumber,
+          restoredFromVersion: version.versionNumber,
+        }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(updatedEvidence);
+    } catch (error) {
+      console.error("Error restoring evidence version:", error);
+      res.status(500).json({ error: "Failed to restore evidence version" });
+    }
+  });
+
+  // Re-hash the stored file and compare it with the hash recorded at upload
+  app.get("/api/evidence/:id/verify", requirePermission("evidence.view"), async (req, res) => {
+    try {
+      const evidence = await storage.getEvidenceById(req.params.id);
+
+      if (!evidence || !(await evidenceInScope(res, evidence))) {
+        return res.status(404).json({ error: "Evidence not found" });
+      }
+
+      const result = await verifyEvidence(evidence);
+      res.json(result);
+    } catch (error) {
+      console.error("Error verifying evidence:", error);
+      res.status(500).json({ error: "Failed to verify evidence" });
+    }
+  });
+
+  app.get("/api/evidence/:id/download", requirePermission("evidence.view"), async (req, res) => {
     try {
       const evidenceList = await storage.getEvidence();
       const evidence = evidenceList.find(e => e.id === req.params.id);
       
-      if (!evidence) {
+      if (!evidence || !(await evidenceInScope(res, evidence))) {
         return res.status(404).json({ error: "Evidence not found" });
       }
       
@@ -1221,13 +2655,38 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Evidence export - creates a ZIP with all files and manifest
-  app.get("/api/evidence/export", async (req, res) => {
+  app.get("/api/evidence/export", requirePermission("data.export"), requireAllOrganizations, async (req, res) => {
     try {
       const archiver = (await import("archiver")).default;
       const path = await import("path");
       const fs = await import("fs");
       
       const evidenceList = await storage.getEvidence();
+      const allVersions = await storage.getEvidenceVersions();
+      
+      // Recorded hashes are carried as-is; records that predate hashing get one computed now
+      const hashes = new Map<string, string>();
+      for (const e of [...evidenceList, ...allVersions]) {
+        if (isSha256(e.fileHash)) {
+          hashes.set(e.id, e.fileHash);
+        } else if (e.filePath && fs.existsSync(path.resolve(e.filePath))) {
+          hashes.set(e.id, await hashFile(path.resolve(e.filePath)));
+        }
+      }
+      
+      // Archive entry for each stored file; the current file keeps its original location in the ZIP
+      const archivePaths = new Map<string, string>();
+      for (const e of evidenceList) {
+        if (e.filePath) {
+          const filename = e.originalFilename || `${e.title.replace(/[^a-z0-9]/gi, '_')}.${e.evidenceType}`;
+          archivePaths.set(e.filePath, `files/${e.id}-${filename}`);
+        }
+      }
+      for (const v of allVersions) {
+        if (!archivePaths.has(v.filePath)) {
+          archivePaths.set(v.filePath, `files/versions/${v.evidenceId}/v${v.versionNumber}-${v.originalFilename || 'file'}`);
+        }
+      }
       
       // Create manifest with all evidence metadata
       const manifest = evidenceList.map(e => ({
@@ -1243,6 +2702,19 @@ export function registerRoutes(app: Express): Server {
         uploadedBy: e.uploadedBy,
         createdAt: e.createdAt?.toISOString(),
         hasFile: !!e.filePath && !!e.originalFilename,
+        sha256: hashes.get(e.id) || null,
+        versions: allVersions
+          .filter(v => v.evidenceId === e.id)
+          .map(v => ({
+            versionNumber: v.versionNumber,
+            originalFilename: v.originalFilename,
+            mimeType: v.mimeType,
+            uploadedBy: v.uploadedBy,
+            restoredFromVersion: v.restoredFromVersion,
+            createdAt: v.createdAt?.toISOString(),
+            file: archivePaths.get(v.filePath),
+            sha256: hashes.get(v.id) || null,
+          })),
       }));
       
       // Create archive
@@ -1280,6 +2752,21 @@ export function registerRoutes(app: Express): Server {
           console.log(`Evidence ${evidence.id} has no filePath`);
         }
       }
+      
+      // Add files of earlier versions
+      const archivedVersionPaths = new Set<string>();
+      for (const version of allVersions) {
+        const entryName = archivePaths.get(version.filePath)!;
+        if (!entryName.startsWith('files/versions/') || archivedVersionPaths.has(entryName)) continue;
+        const absolutePath = path.resolve(version.filePath);
+        if (fs.existsSync(absolutePath)) {
+          archive.file(absolutePath, { name: entryName });
+          archivedVersionPaths.add(entryName);
+          filesAdded++;
+        } else {
+          console.log(`Version file not found: ${absolutePath}`);
+        }
+      }
       console.log(`Export complete: ${evidenceList.length} evidence items, ${filesAdded} files added to archive`);
       
       // Audit log
@@ -1302,7 +2789,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Evidence import - accepts ZIP with files and manifest
-  app.post("/api/evidence/import", upload.single("file"), async (req, res) => {
+  app.post("/api/evidence/import", requirePermission("data.import"), requireAllOrganizations, upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -1334,12 +2821,21 @@ export function registerRoutes(app: Express): Server {
           );
           
           let filePath: string | undefined;
+          let fileHash: string | undefined;
           
           if (fileEntry) {
+            const data = fileEntry.getData();
+            fileHash = hashBuffer(data);
+            
+            // Reject files that no longer match the hash in the manifest
+            if (isSha256(item.sha256) && item.sha256.toLowerCase() !== fileHash) {
+              throw new Error(`Integrity check failed: file hash ${fileHash} does not match manifest hash ${item.sha256}`);
+            }
+            
             // Extract file to uploads directory
             const filename = `${Date.now()}-${item.originalFilename}`;
             filePath = path.join('uploads', filename);
-            fs.writeFileSync(filePath, fileEntry.getData());
+            fs.writeFileSync(filePath, data);
           }
           
           // Create evidence record (use original reference IDs)
@@ -1350,14 +2846,55 @@ export function registerRoutes(app: Express): Server {
             description: item.description,
             evidenceType: item.evidenceType,
             filePath: filePath,
-            fileHash: "imported",
+            fileHash: fileHash,
             originalFilename: item.originalFilename,
             mimeType: item.mimeType,
             uploadedBy: req.user?.id,
           };
           
+          // Check every earlier version's file before anything is created
+          const versionFiles = new Map<string, Buffer>();
+          for (const version of item.versions || []) {
+            if (!version.file || version.file === fileEntry?.entryName || versionFiles.has(version.file)) continue;
+            const versionEntry = zipEntries.find((entry: any) => entry.entryName === version.file);
+            if (!versionEntry) continue;
+            const data = versionEntry.getData();
+            if (isSha256(version.sha256) && version.sha256.toLowerCase() !== hashBuffer(data)) {
+              throw new Error(`Integrity check failed for version ${version.versionNumber}: file does not match manifest hash ${version.sha256}`);
+            }
+            versionFiles.set(version.file, data);
+          }
+          
           const validatedData = insertEvidenceSchema.parse(evidenceData);
           const evidence = await storage.createEvidence(validatedData);
+          
+          // Recreate the version history under the new evidence ID
+          const writtenFiles = new Map<string, string>();
+          if (fileEntry && filePath) writtenFiles.set(fileEntry.entryName, filePath);
+          for (const version of item.versions || []) {
+            let versionPath = version.file ? writtenFiles.get(version.file) : undefined;
+            if (!versionPath && version.file && versionFiles.has(version.file)) {
+              versionPath = path.join('uploads', `${Date.now()}-v${version.versionNumber}-${version.originalFilename || 'file'}`);
+              fs.writeFileSync(versionPath, versionFiles.get(version.file)!);
+              writtenFiles.set(version.file, versionPath);
+            }
+            if (!versionPath) continue;
+            
+            const uploader = version.uploadedBy ? await storage.getUser(version.uploadedBy) : undefined;
+            await storage.createEvidenceVersion({
+              evidenceId: evidence.id,
+              versionNumber: version.versionNumber,
+              filePath: versionPath,
+              fileHash: isSha256(version.sha256) ? version.sha256.toLowerCase() : hashBuffer(fs.readFileSync(versionPath)),
+              originalFilename: version.originalFilename,
+              mimeType: version.mimeType,
+              uploadedBy: uploader?.id || evidence.uploadedBy,
+              restoredFromVersion: version.restoredFromVersion ?? null,
+              createdAt: version.createdAt ? new Date(version.createdAt) : undefined,
+            });
+          }
+          await ensureVersionHistory(evidence);
+          
           importedEvidence.push(evidence);
         } catch (error) {
           errors.push({
@@ -1392,9 +2929,9 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Dashboard metrics
-  app.get("/api/dashboard/metrics", async (req, res) => {
+  app.get("/api/dashboard/metrics", requirePermission("compliance.view"), async (req, res) => {
     try {
-      const metrics = await storage.getComplianceMetrics();
+      const metrics = await storage.getComplianceMetrics(res.locals.organizationScope);
       res.json(metrics);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch dashboard metrics" });
@@ -1402,7 +2939,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // CSV Import Specification and Template
-  app.get("/api/csv/spec", async (req, res) => {
+  app.get("/api/csv/spec", requireLogin, async (req, res) => {
     try {
       const fs = await import("fs");
       const spec = JSON.parse(fs.readFileSync("compliance-import-spec.json", "utf8"));
@@ -1412,7 +2949,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/csv/template", async (req, res) => {
+  app.get("/api/csv/template", requireLogin, async (req, res) => {
     try {
       const csvTemplate = [
         "Category,Type,Commitment,Description,Responsible Party,Status,Due Date,Customer",
@@ -1431,41 +2968,173 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Email alerts
-  app.post("/api/email-alerts/send", async (req, res) => {
+  app.post("/api/email-alerts/send", requirePermission("compliance.manage"), requireAllOrganizations, async (req, res) => {
     try {
-      const upcomingItems = await storage.getUpcomingComplianceItems(7);
-      const overdueItems = await storage.getOverdueComplianceItems();
-      
-      let alertsSent = 0;
+      const result = await dispatchComplianceAlerts();
       
-      // Send alerts for upcoming items
-      for (const item of upcomingItems) {
-        try {
-          await sendEmailAlert(item, "upcoming");
-          alertsSent++;
-        } catch (error) {
-          console.error(`Failed to send alert for item ${item.id}:`, error);
-        }
+      res.json({
+        message: `Sent ${result.sent} email alerts (${result.suppressed} already sent, ${result.failed} failed)`,
+        ...result,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send email alerts" });
+    }
+  });
+
+  // Alert policy routes (reminder schedule per category)
+  app.get("/api/alert-policies", requireLogin, async (req, res) => {
+    try {
+      const policies = await storage.getAlertPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alert policies" });
+    }
+  });
+
+  app.put("/api/alert-policies/:category", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertAlertPolicySchema.parse({ ...req.body, category: req.params.category });
+      const oldPolicy = (await storage.getAlertPolicies()).find(p => p.category === validatedData.category);
+      const policy = await storage.upsertAlertPolicy(validatedData);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: oldPolicy ? "UPDATE" : "CREATE",
+        entityType: "alert_policy",
+        entityId: policy.category,
+        oldValues: oldPolicy ? JSON.stringify(oldPolicy) : undefined,
+        newValues: JSON.stringify(policy),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
       }
-      
-      // Send alerts for overdue items
-      for (const item of overdueItems) {
-        try {
-          await sendEmailAlert(item, "overdue");
-          alertsSent++;
-        } catch (error) {
-          console.error(`Failed to send alert for item ${item.id}:`, error);
-        }
+      res.status(500).json({ error: "Failed to save alert policy" });
+    }
+  });
+
+  app.delete("/api/alert-policies/:category", requireAdmin, async (req, res) => {
+    try {
+      const oldPolicy = (await storage.getAlertPolicies()).find(p => p.category === req.params.category);
+      if (!oldPolicy) {
+        return res.status(404).json({ error: "Alert policy not found" });
       }
-      
-      res.json({ message: `Sent ${alertsSent} email alerts` });
+
+      await storage.deleteAlertPolicy(req.params.category);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "alert_policy",
+        entityId: oldPolicy.category,
+        oldValues: JSON.stringify(oldPolicy),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to send email alerts" });
+      res.status(500).json({ error: "Failed to delete alert policy" });
+    }
+  });
+
+  // Escalation rule routes
+  app.get("/api/escalation-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getEscalationRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch escalation rules" });
+    }
+  });
+
+  app.post("/api/escalation-rules", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertEscalationRuleSchema.parse(req.body);
+      const rule = await storage.createEscalationRule(validatedData);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "CREATE",
+        entityType: "escalation_rule",
+        entityId: rule.id,
+        newValues: JSON.stringify(rule),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create escalation rule" });
+    }
+  });
+
+  app.put("/api/escalation-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const oldRule = await storage.getEscalationRule(req.params.id);
+      if (!oldRule) {
+        return res.status(404).json({ error: "Escalation rule not found" });
+      }
+
+      // Validate the rule as it will be after the update
+      const { id, createdAt, updatedAt, ...current } = oldRule;
+      const validatedData = insertEscalationRuleSchema.parse({ ...current, ...req.body });
+      const rule = await storage.updateEscalationRule(req.params.id, validatedData);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "escalation_rule",
+        entityId: rule.id,
+        oldValues: JSON.stringify(oldRule),
+        newValues: JSON.stringify(rule),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update escalation rule" });
+    }
+  });
+
+  app.delete("/api/escalation-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const oldRule = await storage.getEscalationRule(req.params.id);
+      if (!oldRule) {
+        return res.status(404).json({ error: "Escalation rule not found" });
+      }
+
+      await storage.deleteEscalationRule(req.params.id);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "escalation_rule",
+        entityId: oldRule.id,
+        oldValues: JSON.stringify(oldRule),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete escalation rule" });
     }
   });
 
   // Export/Import routes
-  app.get("/api/export/database", async (req, res) => {
+  app.get("/api/export/database", requirePermission("data.export"), requireAllOrganizations, async (req, res) => {
     try {
       const exportData = await storage.exportDatabase();
       
@@ -1487,7 +3156,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/import/database", upload.single("file"), async (req, res) => {
+  app.post("/api/import/database", requirePermission("data.import"), requireAllOrganizations, upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -1533,7 +3202,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Unified Export/Import - Database + Evidence Files
-  app.get("/api/export/unified", async (req, res) => {
+  app.get("/api/export/unified", requirePermission("data.export"), requireAllOrganizations, async (req, res) => {
     try {
       const archiver = (await import("archiver")).default;
       const path = await import("path");
@@ -1563,6 +3232,8 @@ export function registerRoutes(app: Express): Server {
       
       // Add all evidence files
       let filesAdded = 0;
+      const evidenceManifest = [];
+      const archivedPaths = new Map<string, string>();
       for (const evidence of evidenceList) {
         if (evidence.filePath) {
           const absolutePath = path.resolve(evidence.filePath);
@@ -1570,12 +3241,41 @@ export function registerRoutes(app: Express): Server {
             // Use evidence ID as filename prefix to ensure uniqueness
             const filename = evidence.originalFilename || 
                            `${evidence.title.replace(/[^a-z0-9]/gi, '_')}.${evidence.evidenceType}`;
-            archive.file(absolutePath, { name: `evidence-files/${evidence.id}-${filename}` });
+            const entryName = `evidence-files/${evidence.id}-${filename}`;
+            archive.file(absolutePath, { name: entryName });
+            evidenceManifest.push({
+              id: evidence.id,
+              file: entryName,
+              sha256: isSha256(evidence.fileHash) ? evidence.fileHash : await hashFile(absolutePath),
+            });
+            archivedPaths.set(evidence.filePath, entryName);
             filesAdded++;
           }
         }
       }
       
+      // Add files of earlier evidence versions; versions sharing a file reference the same entry
+      for (const version of await storage.getEvidenceVersions()) {
+        const absolutePath = path.resolve(version.filePath);
+        let entryName = archivedPaths.get(version.filePath);
+        if (!entryName) {
+          if (!fs.existsSync(absolutePath)) continue;
+          entryName = `evidence-files/versions/${version.evidenceId}/v${version.versionNumber}-${version.originalFilename || 'file'}`;
+          archive.file(absolutePath, { name: entryName });
+          archivedPaths.set(version.filePath, entryName);
+          filesAdded++;
+        }
+        evidenceManifest.push({
+          id: version.evidenceId,
+          versionId: version.id,
+          file: entryName,
+          sha256: isSha256(version.fileHash) ? version.fileHash : await hashFile(absolutePath),
+        });
+      }
+      
+      // Hashes of every evidence file, checked on import
+      archive.append(JSON.stringify(evidenceManifest, null, 2), { name: 'evidence-manifest.json' });
+      
       console.log(`Unified export: ${evidenceList.length} evidence records, ${filesAdded} files added to archive`);
       
       // Audit log
@@ -1597,7 +3297,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/import/unified", upload.single("file"), async (req, res) => {
+  app.post("/api/import/unified", requirePermission("data.import"), requireAllOrganizations, upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -1667,15 +3367,25 @@ export function registerRoutes(app: Express): Server {
       // Get evidence data from dbData
       const evidenceRecords = dbData.data?.evidence || [];
       
+      // Expected file hashes; archives created before hashing have no manifest
+      const manifestEntry = zipEntries.find((entry: any) => entry.entryName === 'evidence-manifest.json');
+      const expectedHashes = new Map<string, string>();
+      const versionEntries = new Map<string, { file: string; sha256?: string }>();
+      if (manifestEntry) {
+        for (const entry of JSON.parse(manifestEntry.getData().toString('utf8'))) {
+          if (entry.versionId) {
+            versionEntries.set(entry.versionId, entry);
+          } else if (isSha256(entry.sha256)) {
+            expectedHashes.set(entry.id, entry.sha256.toLowerCase());
+          }
+        }
+      }
+      
+      // Evidence IDs in the archive mapped to the records they ended up as
+      const evidenceIdMap = new Map<string, string>();
+      
       for (const evidenceData of evidenceRecords) {
         try {
-          // Check if evidence already exists (duplicate check)
-          const existingEvidence = await storage.getEvidenceById(evidenceData.id);
-          if (existingEvidence) {
-            console.log(`Skipping duplicate evidence: ${evidenceData.title} (ID: ${evidenceData.id})`);
-            continue; // Skip if already exists
-          }
-          
           // Find corresponding file in ZIP
           const evidenceId = evidenceData.id;
           const fileEntry = evidenceFiles.find((entry: any) => 
@@ -1683,13 +3393,45 @@ export function registerRoutes(app: Express): Server {
           );
           
           let filePath: string | undefined;
+          let fileHash: string | undefined;
+          let data: Buffer | undefined;
           
+          // Verify the archived file before it is restored anywhere
           if (fileEntry) {
+            data = fileEntry.getData() as Buffer;
+            fileHash = hashBuffer(data);
+            
+            const expectedHash = expectedHashes.get(evidenceId) ||
+              (isSha256(evidenceData.fileHash) ? evidenceData.fileHash.toLowerCase() : undefined);
+            if (expectedHash && expectedHash !== fileHash) {
+              throw new Error(`Integrity check failed: file hash ${fileHash} does not match expected hash ${expectedHash}`);
+            }
+          }
+          
+          // Check if evidence already exists (duplicate check)
+          const existingEvidence = await storage.getEvidenceById(evidenceData.id);
+          if (existingEvidence) {
+            // The record may have come in with database.json while its file did not
+            const hasFile = existingEvidence.filePath && fs.existsSync(path.resolve(existingEvidence.filePath));
+            if (!hasFile && data) {
+              filePath = path.join('uploads', `${Date.now()}-${evidenceData.originalFilename || evidenceId}`);
+              fs.writeFileSync(filePath, data);
+              await storage.updateEvidence(evidenceId, { filePath, fileHash });
+              console.log(`Restored file for existing evidence: ${filePath}`);
+              evidenceRestored++;
+            } else {
+              console.log(`Skipping duplicate evidence: ${evidenceData.title} (ID: ${evidenceData.id})`);
+            }
+            evidenceIdMap.set(evidenceId, evidenceId);
+            continue;
+          }
+          
+          if (fileEntry && data) {
             // Extract file to uploads directory
             const timestamp = Date.now();
             const filename = evidenceData.originalFilename || `restored-${timestamp}-${evidenceId}`;
             filePath = path.join('uploads', `${timestamp}-${filename}`);
-            fs.writeFileSync(filePath, fileEntry.getData());
+            fs.writeFileSync(filePath, data);
             console.log(`Restored evidence file: ${filePath}`);
           }
           
@@ -1711,14 +3453,15 @@ export function registerRoutes(app: Express): Server {
             description: evidenceData.description,
             evidenceType: evidenceData.evidenceType,
             filePath: filePath,
-            fileHash: "restored",
+            fileHash: fileHash,
             originalFilename: evidenceData.originalFilename,
             mimeType: evidenceData.mimeType,
             uploadedBy: req.user?.id,
           };
           
           const validatedData = insertEvidenceSchema.parse(newEvidenceData);
-          await storage.createEvidence(validatedData);
+          const created = await storage.createEvidence(validatedData);
+          evidenceIdMap.set(evidenceId, created.id);
           evidenceRestored++;
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : "Unknown error";
@@ -1727,6 +3470,63 @@ export function registerRoutes(app: Express): Server {
         }
       }
       
+      // Restore version history and the files of earlier versions
+      let versionsRestored = 0;
+      for (const versionData of dbData.data?.evidenceVersions || []) {
+        try {
+          const evidenceId = evidenceIdMap.get(versionData.evidenceId);
+          const evidence = evidenceId ? await storage.getEvidenceById(evidenceId) : undefined;
+          if (!evidence) continue;
+          
+          const existingVersion = await storage.getEvidenceVersionById(versionData.id);
+          if (existingVersion && existingVersion.evidenceId === evidence.id && fs.existsSync(path.resolve(existingVersion.filePath))) {
+            continue;
+          }
+          
+          // The current version's file was restored with the evidence record above
+          const originalEvidence = evidenceRecords.find((e: any) => e.id === versionData.evidenceId);
+          let filePath: string | undefined = versionData.filePath === originalEvidence?.filePath
+            ? evidence.filePath || undefined
+            : undefined;
+          
+          const entry = versionEntries.get(versionData.id);
+          const versionFile = !filePath && entry ? zipEntries.find((e: any) => e.entryName === entry.file) : undefined;
+          if (versionFile) {
+            const data = versionFile.getData() as Buffer;
+            const expectedHash = isSha256(entry?.sha256) ? entry!.sha256!.toLowerCase()
+              : isSha256(versionData.fileHash) ? versionData.fileHash.toLowerCase() : undefined;
+            if (expectedHash && expectedHash !== hashBuffer(data)) {
+              throw new Error(`Integrity check failed for version ${versionData.versionNumber}: file does not match expected hash ${expectedHash}`);
+            }
+            filePath = path.join('uploads', `${Date.now()}-v${versionData.versionNumber}-${versionData.originalFilename || 'file'}`);
+            fs.writeFileSync(filePath, data);
+          }
+          if (!filePath) continue;
+          
+          if (existingVersion && existingVersion.evidenceId === evidence.id) {
+            await storage.updateEvidenceVersion(existingVersion.id, { filePath });
+          } else {
+            const uploader = await storage.getUser(versionData.uploadedBy);
+            await storage.createEvidenceVersion({
+              evidenceId: evidence.id,
+              versionNumber: versionData.versionNumber,
+              filePath,
+              fileHash: versionData.fileHash,
+              originalFilename: versionData.originalFilename,
+              mimeType: versionData.mimeType,
+              uploadedBy: uploader?.id || evidence.uploadedBy,
+              restoredFromVersion: versionData.restoredFromVersion ?? null,
+              createdAt: versionData.createdAt ? new Date(versionData.createdAt) : undefined,
+            });
+          }
+          versionsRestored++;
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : "Unknown error";
+          evidenceErrors.push(`Version ${versionData.versionNumber} of evidence ${versionData.evidenceId}: ${errorMsg}`);
+          console.error(`Failed to restore evidence version ${versionData.id}:`, error);
+        }
+      }
+      
       // Clean up uploaded ZIP
       fs.unlinkSync(req.file.path);
       
@@ -1746,6 +3546,7 @@ export function registerRoutes(app: Express): Server {
         imported: {
           ...importedCounts,
           evidenceRecords: evidenceRestored,
+          evidenceVersions: versionsRestored,
           evidenceFiles: evidenceFiles.length,
         },
         evidenceErrors: evidenceErrors.length > 0 ? evidenceErrors : undefined,
@@ -1757,138 +3558,978 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Admin routes - User management
-  app.get("/api/users", requireAdmin, async (req, res) => {
+  // User directory for assignee pickers (no admin required)
+  app.get("/api/users/directory", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
     try {
       const allUsers = await storage.getAllUsers();
-      // Remove password hashes from response
-      const sanitized = allUsers.map(({ password, ...user }) => user);
-      res.json(sanitized);
+      // Deactivated users stay listed so their names show on history, but cannot be assigned new work
+      res.json(allUsers.map(({ id, username, fullName, email, deactivatedAt }) => ({ id, username, fullName, email, active: !deactivatedAt })));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
-  app.post("/api/users", requireAdmin, async (req, res) => {
+  // Team routes
+  const teamInputSchema = insertTeamSchema.extend({
+    memberIds: z.array(z.string()).default([]),
+  });
+
+  app.get("/api/teams", requireLogin, async (req, res) => {
     try {
-      const validatedData = insertUserSchema.parse(req.body);
-      // Hash password before storing
-      const user = await storage.createUser({
-        ...validatedData,
-        password: await hashPassword(validatedData.password)
-      });
-      
-      // Audit log
+      const [allTeams, members] = await Promise.all([storage.getTeams(), storage.getTeamMembers()]);
+      res.json(allTeams.map(team => ({
+        ...team,
+        memberIds: members.filter(m => m.teamId === team.id).map(m => m.userId),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch teams" });
+    }
+  });
+
+  app.post("/api/teams", requireAdmin, async (req, res) => {
+    try {
+      const { memberIds, ...teamData } = teamInputSchema.parse(req.body);
+      const team = await storage.createTeam(teamData);
+      const members = await storage.setTeamMembers(team.id, memberIds);
+      const result = { ...team, memberIds: members.map(m => m.userId) };
+
       await storage.createAuditLog({
         userId: req.user?.id,
         action: "CREATE",
-        entityType: "user",
-        entityId: user.id,
-        newValues: JSON.stringify({ ...user, password: "[REDACTED]" }),
+        entityType: "team",
+        entityId: team.id,
+        newValues: JSON.stringify(result),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      // Remove password hash from response
-      const { password, ...sanitizedUser } = user;
-      res.status(201).json(sanitizedUser);
+
+      res.status(201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ error: "Invalid input", details: error.errors });
-      } else {
-        res.status(500).json({ error: "Failed to create user" });
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
       }
+      res.status(500).json({ error: "Failed to create team" });
     }
   });
 
-  app.patch("/api/users/:id", requireAdmin, async (req, res) => {
+  app.put("/api/teams/:id", requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Validate input - use partial schema to allow optional fields
-      const updateSchema = insertUserSchema.partial();
-      const validatedUpdates = updateSchema.parse(req.body);
-      const updates: any = { ...validatedUpdates };
-      
-      // Only update password if provided and not empty
-      if (updates.password && updates.password.trim() !== "") {
-        updates.password = await hashPassword(updates.password);
-      } else {
-        // Don't update password if empty
-        delete updates.password;
+      const oldTeam = await storage.getTeam(req.params.id);
+      if (!oldTeam) {
+        return res.status(404).json({ error: "Team not found" });
       }
-      
-      const updatedUser = await storage.updateUser(id, updates);
-      
-      // Audit log
+      const oldMembers = await storage.getTeamMembers(oldTeam.id);
+
+      const { memberIds, ...teamData } = teamInputSchema.parse(req.body);
+      const team = await storage.updateTeam(oldTeam.id, teamData);
+      const members = await storage.setTeamMembers(team.id, memberIds);
+      const result = { ...team, memberIds: members.map(m => m.userId) };
+
       await storage.createAuditLog({
         userId: req.user?.id,
         action: "UPDATE",
-        entityType: "user",
-        entityId: id,
-        newValues: JSON.stringify({ ...updates, password: updates.password ? "[REDACTED]" : undefined }),
+        entityType: "team",
+        entityId: team.id,
+        oldValues: JSON.stringify({ ...oldTeam, memberIds: oldMembers.map(m => m.userId) }),
+        newValues: JSON.stringify(result),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      // Remove password hash from response
-      const { password, ...sanitizedUser } = updatedUser;
-      res.json(sanitizedUser);
+
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update team" });
     }
   });
 
-  app.delete("/api/users/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/teams/:id", requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Prevent self-deletion
-      if (id === req.user?.id) {
-        return res.status(400).json({ error: "Cannot delete your own account" });
+      const oldTeam = await storage.getTeam(req.params.id);
+      if (!oldTeam) {
+        return res.status(404).json({ error: "Team not found" });
+      }
+
+      await storage.deleteTeam(oldTeam.id);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "team",
+        entityId: oldTeam.id,
+        oldValues: JSON.stringify(oldTeam),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete team" });
+    }
+  });
+
+  // Compliance template routes (admin protected for mutations)
+  app.get("/api/compliance-templates", requireLogin, async (req, res) => {
+    try {
+      const [templates, items] = await Promise.all([
+        storage.getComplianceTemplates(),
+        storage.getComplianceTemplateItems(),
+      ]);
+      res.json(templates.map(template => ({
+        ...template,
+        items: items.filter(item => item.templateId === template.id),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch compliance templates" });
+    }
+  });
+
+  app.get("/api/compliance-templates/export", requireAdmin, async (req, res) => {
+    try {
+      const ids = req.query.id ? String(req.query.id).split(",") : null;
+      const allTemplates = await storage.getComplianceTemplates();
+      const templates = ids ? allTemplates.filter(t => ids.includes(t.id)) : allTemplates;
+      const items = await storage.getComplianceTemplateItems();
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "EXPORT",
+        entityType: "compliance_template",
+        entityId: ids ? ids.join(",") : "all",
+        newValues: JSON.stringify({ templates: templates.map(t => t.name) }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename=compliance-templates-${new Date().toISOString().split('T')[0]}.json`);
+      res.json(toTemplateFile(templates, items));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export compliance templates" });
+    }
+  });
+
+  app.post("/api/compliance-templates/import", requireAdmin, upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+
+      const fs = await import("fs");
+      let fileData: any;
+      try {
+        fileData = JSON.parse(fs.readFileSync(req.file.path, 'utf8'));
+      } catch {
+        return res.status(400).json({ error: "File is not valid JSON" });
+      } finally {
+        fs.unlinkSync(req.file.path);
+      }
+
+      if (fileData?.format !== TEMPLATE_FILE_FORMAT || !Array.isArray(fileData.templates)) {
+        return res.status(400).json({ error: "Not a compliance template export file" });
+      }
+      const templates = z.array(complianceTemplateInputSchema).parse(fileData.templates);
+
+      // Existing templates are left untouched; rename or delete them first to re-import
+      const created: string[] = [];
+      const skipped: string[] = [];
+      for (const { items, ...templateData } of templates) {
+        if (await storage.getComplianceTemplateByName(templateData.name)) {
+          skipped.push(templateData.name);
+          continue;
+        }
+        const template = await storage.createComplianceTemplate(templateData);
+        const savedItems = await storage.setComplianceTemplateItems(template.id, items);
+        created.push(template.name);
+
+        await storage.createAuditLog({
+          userId: req.user?.id,
+          action: "IMPORT",
+          entityType: "compliance_template",
+          entityId: template.id,
+          newValues: JSON.stringify({ ...template, items: savedItems }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
+
+      res.json({ created, skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to import compliance templates" });
+    }
+  });
+
+  app.post("/api/compliance-templates", requireAdmin, async (req, res) => {
+    try {
+      const { items, ...templateData } = complianceTemplateInputSchema.parse(req.body);
+      const template = await storage.createComplianceTemplate(templateData);
+      const savedItems = await storage.setComplianceTemplateItems(template.id, items);
+      const result = { ...template, items: savedItems };
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "CREATE",
+        entityType: "compliance_template",
+        entityId: template.id,
+        newValues: JSON.stringify(result),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create compliance template" });
+    }
+  });
+
+  app.put("/api/compliance-templates/:id", requireAdmin, async (req, res) => {
+    try {
+      const oldTemplate = await storage.getComplianceTemplate(req.params.id);
+      if (!oldTemplate) {
+        return res.status(404).json({ error: "Compliance template not found" });
+      }
+      const oldItems = await storage.getComplianceTemplateItems(oldTemplate.id);
+
+      const { items, ...templateData } = complianceTemplateInputSchema.parse(req.body);
+      const template = await storage.updateComplianceTemplate(oldTemplate.id, templateData);
+      const savedItems = await storage.setComplianceTemplateItems(template.id, items);
+      const result = { ...template, items: savedItems };
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "compliance_template",
+        entityId: template.id,
+        oldValues: JSON.stringify({ ...oldTemplate, items: oldItems }),
+        newValues: JSON.stringify(result),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update compliance template" });
+    }
+  });
+
+  app.delete("/api/compliance-templates/:id", requireAdmin, async (req, res) => {
+    try {
+      const oldTemplate = await storage.getComplianceTemplate(req.params.id);
+      if (!oldTemplate) {
+        return res.status(404).json({ error: "Compliance template not found" });
+      }
+      const oldItems = await storage.getComplianceTemplateItems(oldTemplate.id);
+
+      await storage.deleteComplianceTemplate(oldTemplate.id);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "compliance_template",
+        entityId: oldTemplate.id,
+        oldValues: JSON.stringify({ ...oldTemplate, items: oldItems }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete compliance template" });
+    }
+  });
+
+  // Generate a template's compliance items for a contract
+  const applyTemplateSchema = z.object({
+    templateId: z.string().min(1),
+    assigneeId: z.string().nullable().optional(),
+    teamId: z.string().nullable().optional(),
+  });
+
+  app.post("/api/contracts/:id/apply-template", requirePermission("compliance.manage"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const { templateId, ...assignment } = applyTemplateSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id);
+      if (!contract || !inScope(res, contract.customerId)) {
+        return res.status(404).json({ error: "Contract not found" });
+      }
+      const template = await storage.getComplianceTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ error: "Compliance template not found" });
+      }
+
+      const templateItems = await storage.getComplianceTemplateItems(template.id);
+      const { items, skipped } = buildItemsFromTemplate(templateItems, contract, assignment);
+
+      const created = [];
+      for (const itemData of items) {
+        const item = await storage.createComplianceItem(checkAndUpdateOverdueStatus(itemData));
+        created.push(item);
+
+        await storage.createAuditLog({
+          userId: req.user.id,
+          action: "CREATE",
+          entityType: "compliance_item",
+          entityId: item.id,
+          newValues: JSON.stringify({ ...item, source: `template:${template.id}` }),
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user.id,
+        action: "APPLY_TEMPLATE",
+        entityType: "contract",
+        entityId: contract.id,
+        newValues: JSON.stringify({
+          templateId: template.id,
+          templateName: template.name,
+          createdItemIds: created.map(item => item.id),
+          skipped,
+        }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(201).json({ created, skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to apply compliance template" });
+    }
+  });
+
+  // Admin routes - User management
+  // Organizations a user is limited to; only used when allOrganizations is false
+  const userOrganizationsSchema = z.object({
+    organizationIds: z.array(z.string()).optional(),
+  });
+
+  app.get("/api/users", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const [allUsers, mfaUserIds] = await Promise.all([storage.getAllUsers(), storage.getMfaEnabledUserIds()]);
+      // Remove password hashes from response
+      const sanitized = await Promise.all(allUsers.map(async ({ password, ...user }) => ({
+        ...user,
+        organizationIds: await storage.getUserOrganizationIds(user.id),
+        mfaEnabled: mfaUserIds.includes(user.id),
+      })));
+      res.json(sanitized);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      const { organizationIds } = userOrganizationsSchema.parse(req.body);
+      const passwordProblems = await validatePassword(validatedData.password, validatedData);
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ error: "Password does not meet the password policy", details: passwordProblems });
+      }
+      // Hash password before storing
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password)
+      });
+      if (organizationIds) {
+        await storage.setUserOrganizations(user.id, organizationIds);
+      }
+      
+      // Audit log
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "CREATE",
+        entityType: "user",
+        entityId: user.id,
+        newValues: JSON.stringify({ ...user, password: "[REDACTED]", organizationIds }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      
+      // Remove password hash from response
+      const { password, ...sanitizedUser } = user;
+      res.status(201).json(sanitizedUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create user" });
+      }
+    }
+  });
+
+  app.patch("/api/users/:id", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      // Validate input - use partial schema to allow optional fields
+      const updateSchema = insertUserSchema.partial();
+      const validatedUpdates = updateSchema.parse(req.body);
+      const { organizationIds } = userOrganizationsSchema.parse(req.body);
+      const updates: any = { ...validatedUpdates };
+      const existing = await storage.getUser(id);
+      
+      // Only update password if provided and not empty
+      if (updates.password && updates.password.trim() !== "") {
+        const passwordProblems = await validatePassword(updates.password, { ...existing, ...validatedUpdates });
+        if (passwordProblems.length > 0) {
+          return res.status(400).json({ error: "Password does not meet the password policy", details: passwordProblems });
+        }
+        updates.password = await hashPassword(updates.password);
+      } else {
+        // Don't update password if empty
+        delete updates.password;
+      }
+      
+      const updatedUser = await storage.updateUser(id, updates);
+      if (organizationIds) {
+        await storage.setUserOrganizations(id, organizationIds);
+      }
+      
+      // Audit log
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "user",
+        entityId: id,
+        newValues: JSON.stringify({ ...updates, password: updates.password ? "[REDACTED]" : undefined, organizationIds }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      
+      // A new password or role signs the user out elsewhere; an admin editing themselves keeps this session
+      const roleChanged = !!updates.role && updates.role !== existing?.role;
+      if (updates.password || roleChanged) {
+        const keepSid = id === req.user?.id ? req.sessionID : undefined;
+        await endUserSessions(req, id, updates.password ? "password_change" : "role_change", keepSid);
+      }
+      
+      // Remove password hash from response
+      const { password, ...sanitizedUser } = updatedUser;
+      res.json(sanitizedUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      // Prevent self-deletion
+      if (id === req.user?.id) {
+        return res.status(400).json({ error: "Cannot delete your own account" });
+      }
+      
+      // Only accounts with nothing attributed to them can be deleted; the database refuses otherwise
+      const sessions = await storage.getUserSessions(id);
+      try {
+        await storage.deleteUser(id);
+      } catch (error) {
+        // Foreign key violation, raised by the driver directly or wrapped by drizzle
+        const violation = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+        if (violation instanceof Error && "code" in violation && violation.code === "23503") {
+          return res.status(409).json({ error: "This user has activity on record. Deactivate them instead, so their history keeps their name." });
+        }
+        throw error;
+      }
+      for (const session of sessions) {
+        await revokeSession(session);
+      }
+      
+      // Audit log
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DELETE",
+        entityType: "user",
+        entityId: id,
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
+  // Deactivation is how people leave: sign-in, sessions and API tokens stop working, while comments,
+  // evidence and audit entries keep their name. Open work can be handed to someone else at the same time.
+  const transferSchema = z.object({
+    transferToUserId: z.string().nullish(),
+  });
+
+  // Checks the user receiving someone's work; returns an error message when they cannot
+  async function transferTargetError(fromUserId: string, toUserId: string) {
+    if (toUserId === fromUserId) return "Choose a different user to receive the work";
+    const target = await storage.getUser(toUserId);
+    if (!target) return "The user receiving the work was not found";
+    if (target.deactivatedAt) return "Work cannot be transferred to a deactivated user";
+    return null;
+  }
+
+  app.post("/api/users/:id/deactivate", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { transferToUserId } = transferSchema.parse(req.body ?? {});
+      if (id === req.user?.id) {
+        return res.status(400).json({ error: "Cannot deactivate your own account" });
+      }
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.deactivatedAt) {
+        return res.status(400).json({ error: "This user is already deactivated" });
+      }
+      if (transferToUserId) {
+        const targetError = await transferTargetError(id, transferToUserId);
+        if (targetError) return res.status(400).json({ error: targetError });
+      }
+
+      const transferred = transferToUserId ? await storage.transferUserAssignments(id, transferToUserId) : undefined;
+      const updated = await storage.setUserDeactivated(id, new Date());
+      const sessionsEnded = await endUserSessions(req, id, "user_deactivated");
+      const apiTokensRevoked = await storage.revokeUserApiTokens(id);
+      await storage.invalidatePasswordResetTokens(id);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "DEACTIVATE",
+        entityType: "user",
+        entityId: id,
+        oldValues: JSON.stringify({ deactivatedAt: null }),
+        newValues: JSON.stringify({ deactivatedAt: updated.deactivatedAt, transferToUserId, transferred, sessionsEnded, apiTokensRevoked }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      const { password, ...sanitizedUser } = updated;
+      res.json({ ...sanitizedUser, transferred });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to deactivate user" });
+    }
+  });
+
+  app.post("/api/users/:id/reactivate", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!user.deactivatedAt) {
+        return res.status(400).json({ error: "This user is already active" });
+      }
+
+      const updated = await storage.setUserDeactivated(id, null);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "REACTIVATE",
+        entityType: "user",
+        entityId: id,
+        oldValues: JSON.stringify({ deactivatedAt: user.deactivatedAt }),
+        newValues: JSON.stringify({ deactivatedAt: null }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      const { password, ...sanitizedUser } = updated;
+      res.json(sanitizedUser);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reactivate user" });
+    }
+  });
+
+  // Hands a user's open compliance items, pending reviews and active objectives to someone else
+  app.post("/api/users/:id/transfer", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { transferToUserId } = transferSchema.parse(req.body ?? {});
+      if (!transferToUserId) {
+        return res.status(400).json({ error: "Choose the user to receive the work" });
+      }
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const targetError = await transferTargetError(id, transferToUserId);
+      if (targetError) return res.status(400).json({ error: targetError });
+
+      const transferred = await storage.transferUserAssignments(id, transferToUserId);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "TRANSFER",
+        entityType: "user",
+        entityId: id,
+        newValues: JSON.stringify({ transferToUserId, transferred }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ transferred });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to transfer work" });
+    }
+  });
+
+  // Invitations - emailed signup links with a preassigned role; the signup side lives in auth.ts
+  app.get("/api/invitations", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const invitations = await storage.getPendingUserInvitations();
+      res.json(invitations.map(({ tokenHash, ...invitation }) => ({
+        ...invitation,
+        organizationIds: invitationOrganizationIds(invitation),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/invitations", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const input = insertUserInvitationSchema.parse(req.body);
+      const appUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      const invitation = await createInvitation(input, req.user!, appUrl);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "INVITE",
+        entityType: "user_invitation",
+        entityId: invitation.id,
+        newValues: JSON.stringify({ email: invitation.email, role: invitation.role, allOrganizations: invitation.allOrganizations, organizationIds: input.organizationIds }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      const { tokenHash, ...sanitized } = invitation;
+      res.status(201).json({ ...sanitized, organizationIds: invitationOrganizationIds(invitation) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      if (error instanceof InvitationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Failed to send invitation:", error);
+      res.status(500).json({ error: error instanceof Error ? `Failed to send invitation: ${error.message}` : "Failed to send invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:id/resend", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const invitation = await storage.getUserInvitation(req.params.id);
+      if (!invitation) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+      const appUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      const updated = await resendInvitation(invitation, req.user!, appUrl);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "INVITE",
+        entityType: "user_invitation",
+        entityId: invitation.id,
+        newValues: JSON.stringify({ email: invitation.email, resent: true, expiresAt: updated.expiresAt }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: "Invitation sent" });
+    } catch (error) {
+      if (error instanceof InvitationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Failed to resend invitation:", error);
+      res.status(500).json({ error: error instanceof Error ? `Failed to send invitation: ${error.message}` : "Failed to send invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:id/revoke", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const invitation = await storage.getUserInvitation(req.params.id);
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      await storage.updateUserInvitation(invitation.id, { revokedAt: new Date() });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "REVOKE",
+        entityType: "user_invitation",
+        entityId: invitation.id,
+        oldValues: JSON.stringify({ email: invitation.email, role: invitation.role }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
+
+  // For a user who lost their authenticator and recovery codes; they enroll again at next sign-in if policy requires it
+  app.post("/api/users/:id/mfa/reset", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const mfa = await storage.getUserMfa(id);
+      if (!mfa) {
+        return res.status(404).json({ error: "This user has no authenticator set up" });
+      }
+
+      await storage.deleteUserMfa(id);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "MFA_RESET",
+        entityType: "user",
+        entityId: id,
+        oldValues: JSON.stringify({ mfaEnabled: !!mfa.confirmedAt, enabledAt: mfa.confirmedAt }),
+        newValues: JSON.stringify({ mfaEnabled: false }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: "MFA reset successfully" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset MFA" });
+    }
+  });
+
+  // Signed-in sessions, so an admin can see where an account is in use and sign it out
+  app.get("/api/users/:id/sessions", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const sessions = await listUserSessions(req.params.id);
+      res.json(sessions.map((session) => toSessionSummary(session, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.post("/api/users/:id/sessions/:sessionId/revoke", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const session = await storage.getUserSession(req.params.sessionId);
+      if (!session || session.userId !== req.params.id) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      await revokeSession(session);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "SESSION_REVOKE",
+        entityType: "user_session",
+        entityId: session.id,
+        oldValues: JSON.stringify({ userId: session.userId, ipAddress: session.ipAddress, userAgent: session.userAgent, lastSeenAt: session.lastSeenAt }),
+        newValues: JSON.stringify({ reason: "admin" }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: "Session ended" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to end session" });
+    }
+  });
+
+  app.post("/api/users/:id/sessions/revoke", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const keepSid = id === req.user?.id ? req.sessionID : undefined;
+      const count = await endUserSessions(req, id, "admin", keepSid);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to end sessions" });
+    }
+  });
+
+  // Admin routes - Database reset
+  app.post("/api/admin/reset-database", requireSession, requireAdmin, async (req, res) => {
+    try {
+      await storage.resetDatabase();
+      
+      // Audit log
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "RESET",
+        entityType: "database",
+        entityId: "full_reset",
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      
+      res.json({ message: "Database reset successfully. All data cleared except users." });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset database" });
+    }
+  });
+
+  // Admin routes - Audit Logs
+  // Bulk integrity scan - re-hashes every evidence file and flags missing or altered files
+  // Scheduled job routes
+  app.get("/api/admin/jobs", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const jobs = await storage.getScheduledJobs();
+      const recentRuns = await storage.getJobRuns(undefined, 200);
+
+      res.json(jobs.map(job => {
+        const runs = recentRuns.filter(run => run.jobName === job.name);
+        return {
+          ...job,
+          registered: !!getJobDefinition(job.name),
+          recentRuns: runs.slice(0, 5),
+          recentFailures: runs.filter(run => run.status === "failed").length,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching scheduled jobs:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  app.get("/api/admin/jobs/:name/runs", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const runs = await storage.getJobRuns(req.params.name, limit);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch job runs" });
+    }
+  });
+
+  app.put("/api/admin/jobs/:name", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getScheduledJob(req.params.name);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const updates = z.object({
+        enabled: z.boolean().optional(),
+        schedule: z.string().refine(isValidCronExpression, "Invalid cron expression").optional(),
+      }).parse(req.body);
+
+      const schedule = updates.schedule ?? job.schedule;
+      const updated = await storage.updateScheduledJob(job.name, {
+        ...updates,
+        // Pending retries are dropped when the schedule changes
+        ...(updates.schedule && updates.schedule !== job.schedule
+          ? { nextRunAt: getNextCronRun(schedule), attempt: 0 }
+          : {}),
+        ...(updates.enabled && !job.enabled ? { nextRunAt: getNextCronRun(schedule) } : {}),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: "UPDATE",
+        entityType: "scheduled_job",
+        entityId: job.name,
+        oldValues: JSON.stringify({ enabled: job.enabled, schedule: job.schedule }),
+        newValues: JSON.stringify({ enabled: updated.enabled, schedule: updated.schedule }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update job" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:name/run", requireSession, requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getScheduledJob(req.params.name);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
       }
-      
-      await storage.deleteUser(id);
-      
-      // Audit log
+
+      const run = await runJobNow(job.name);
+      if (!run) {
+        return res.status(409).json({ error: "Job is already running" });
+      }
+
       await storage.createAuditLog({
         userId: req.user?.id,
-        action: "DELETE",
-        entityType: "user",
-        entityId: id,
+        action: "RUN",
+        entityType: "scheduled_job",
+        entityId: job.name,
+        newValues: JSON.stringify({ runId: run.id, status: run.status }),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      res.json({ message: "User deleted successfully" });
+
+      res.json(run);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete user" });
+      console.error("Error running job:", error);
+      res.status(500).json({ error: "Failed to run job" });
     }
   });
 
-  // Admin routes - Database reset
-  app.post("/api/admin/reset-database", requireAdmin, async (req, res) => {
+  app.post("/api/admin/evidence-integrity-scan", requireSession, requireAdmin, async (req, res) => {
     try {
-      await storage.resetDatabase();
-      
-      // Audit log
+      const backfill = req.body?.backfill === true;
+      const scan = await scanEvidenceIntegrity({ backfill });
+
       await storage.createAuditLog({
         userId: req.user?.id,
-        action: "RESET",
-        entityType: "database",
-        entityId: "full_reset",
+        action: "VERIFY",
+        entityType: "evidence",
+        entityId: "all",
+        newValues: JSON.stringify({
+          total: scan.total,
+          verified: scan.verified,
+          altered: scan.altered,
+          missing: scan.missing,
+          unhashed: scan.unhashed,
+          backfilled: scan.backfilled,
+          orphanedFiles: scan.orphanedFiles.length,
+          failures: scan.results
+            .filter(r => r.status === "altered" || r.status === "missing")
+            .map(r => ({ evidenceId: r.evidenceId, status: r.status })),
+        }),
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
-      
-      res.json({ message: "Database reset successfully. All data cleared except users." });
+
+      res.json(scan);
     } catch (error) {
-      res.status(500).json({ error: "Failed to reset database" });
+      console.error("Error scanning evidence integrity:", error);
+      res.status(500).json({ error: "Failed to scan evidence integrity" });
     }
   });
 
-  // Admin routes - Audit Logs
-  app.get("/api/admin/audit-logs", requireAdmin, async (req, res) => {
+  app.get("/api/admin/audit-logs", requirePermission("audit.view"), requireAllOrganizations, async (req, res) => {
     try {
       const {
         userId,
@@ -1921,8 +4562,22 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Walk the audit log hash chain and report the first broken link
+  app.get("/api/admin/audit-logs/verify", requirePermission("audit.view"), requireAllOrganizations, async (req, res) => {
+    try {
+      const result = await storage.verifyAuditChain();
+      if (!result.valid) {
+        console.warn("Audit log chain broken:", result.brokenAt);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Failed to verify audit log chain:", error);
+      res.status(500).json({ error: "Failed to verify audit log chain" });
+    }
+  });
+
   // Admin routes - QuickBooks Settings
-  app.get("/api/admin/qb-settings", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/qb-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       // Get all QB-related settings
       const allSettings = await storage.getAllSystemSettings();
@@ -1950,7 +4605,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/admin/qb-settings", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/qb-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       // Validate request body - support both dev and prod configs
       const qbSettingsSchema = z.object({
@@ -1998,7 +4653,7 @@ export function registerRoutes(app: Express): Server {
       if (data.qb_dev_client_secret !== undefined && data.qb_dev_client_secret !== '') {
         await storage.upsertSystemSetting({
           key: 'qb_dev_client_secret',
-          value: data.qb_dev_client_secret,
+          value: encryptSecret(data.qb_dev_client_secret),
           isEncrypted: true,
           description: 'QuickBooks Dev Client Secret (encrypted)',
         });
@@ -2026,7 +4681,7 @@ export function registerRoutes(app: Express): Server {
       if (data.qb_prod_client_secret !== undefined && data.qb_prod_client_secret !== '') {
         await storage.upsertSystemSetting({
           key: 'qb_prod_client_secret',
-          value: data.qb_prod_client_secret,
+          value: encryptSecret(data.qb_prod_client_secret),
           isEncrypted: true,
           description: 'QuickBooks Production Client Secret (encrypted)',
         });
@@ -2054,12 +4709,15 @@ export function registerRoutes(app: Express): Server {
       res.json({ message: 'QuickBooks settings updated successfully' });
     } catch (error) {
       console.error('Error updating QB settings:', error);
+      if (error instanceof SecretsError) {
+        return res.status(500).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to update QuickBooks settings' });
     }
   });
 
   // Get detected redirect URI
-  app.get("/api/admin/qb-detected-redirect", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/qb-detected-redirect", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       let detectedRedirectUri = '';
       let isReplit = false;
@@ -2092,7 +4750,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Admin routes - Azure Email Settings
-  app.get("/api/admin/azure-settings", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/azure-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       // Get all Azure-related settings
       const allSettings = await storage.getAllSystemSettings();
@@ -2120,7 +4778,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/admin/azure-settings", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/azure-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       // Validate request body
       const azureSettingsSchema = z.object({
@@ -2164,7 +4822,7 @@ export function registerRoutes(app: Express): Server {
       if (data.azure_client_secret !== undefined && data.azure_client_secret !== '') {
         await storage.upsertSystemSetting({
           key: 'azure_client_secret',
-          value: data.azure_client_secret,
+          value: encryptSecret(data.azure_client_secret),
           isEncrypted: true,
           description: 'Azure AD Application Client Secret (encrypted)',
         });
@@ -2193,12 +4851,15 @@ export function registerRoutes(app: Express): Server {
       res.json({ message: 'Azure email settings updated successfully' });
     } catch (error) {
       console.error('Error updating Azure settings:', error);
+      if (error instanceof SecretsError) {
+        return res.status(500).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to update Azure email settings' });
     }
   });
 
   // Test Azure email configuration
-  app.post("/api/admin/azure-test-email", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/azure-test-email", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       const testEmailSchema = z.object({
         recipientEmail: z.string().email(),
@@ -2241,8 +4902,428 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Admin routes - Single Sign-On (OpenID Connect) Settings
+  const ssoProviderFields: Record<string, { field: string; description: string; isEncrypted?: boolean }> = {
+    displayName: { field: 'display_name', description: 'Sign-in button label' },
+    issuer: { field: 'issuer', description: 'OpenID Connect issuer URL' },
+    clientId: { field: 'client_id', description: 'OIDC application client ID' },
+    clientSecret: { field: 'client_secret', description: 'OIDC application client secret (encrypted)', isEncrypted: true },
+    scopes: { field: 'scopes', description: 'Scopes requested at sign-in' },
+    enabled: { field: 'enabled', description: 'Show this provider on the sign-in page' },
+    autoProvision: { field: 'auto_provision', description: 'Create accounts on first sign-in' },
+    linkExistingUsers: { field: 'link_existing_users', description: 'Link first sign-in to an existing account by email' },
+    roleClaim: { field: 'role_claim', description: 'Claim holding groups or roles' },
+    adminValues: { field: 'admin_values', description: 'Claim values mapped to the admin role' },
+    userValues: { field: 'user_values', description: 'Claim values allowed to sign in as users' },
+  };
+
+  app.get("/api/admin/sso-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const providers = await getOidcProviders();
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+
+      res.json({
+        localLogin: await getLocalLoginPolicy(),
+        providers: providers.map(provider => ({
+          ...provider,
+          // SECURITY: Never expose client secrets in cleartext
+          clientSecret: provider.clientSecret ? '********' : '',
+          adminValues: provider.adminValues.join('\n'),
+          userValues: provider.userValues.join('\n'),
+          callbackUrl: `${baseUrl}/api/auth/sso/${provider.key}/callback`,
+        })),
+      });
+    } catch (error) {
+      console.error('Error fetching SSO settings:', error);
+      res.status(500).json({ error: 'Failed to fetch single sign-on settings' });
+    }
+  });
+
+  app.post("/api/admin/sso-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationResult = z.object({ localLogin: z.enum(['all', 'admins']) }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid single sign-on settings', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const oldPolicy = await getLocalLoginPolicy();
+      await storage.upsertSystemSetting({
+        key: 'sso_local_login',
+        value: validationResult.data.localLogin,
+        isEncrypted: false,
+        description: 'Who may sign in with a password: all users, or admins only (break-glass)',
+      });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UPDATE',
+        entityType: 'system_settings',
+        entityId: 'sso_settings',
+        oldValues: JSON.stringify({ localLogin: oldPolicy }),
+        newValues: JSON.stringify(validationResult.data),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'Single sign-on settings updated successfully' });
+    } catch (error) {
+      console.error('Error updating SSO settings:', error);
+      res.status(500).json({ error: 'Failed to update single sign-on settings' });
+    }
+  });
+
+  app.post("/api/admin/sso-providers/:key", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (!OIDC_PROVIDER_KEY_PATTERN.test(key)) {
+        return res.status(400).json({ error: 'Provider key may only contain lowercase letters, digits and hyphens' });
+      }
+
+      const ssoProviderSchema = z.object({
+        displayName: z.string().trim().min(1, "Display name is required").max(50),
+        issuer: z.string().trim().url("Issuer must be a URL"),
+        clientId: z.string().trim().min(1, "Client ID is required"),
+        clientSecret: z.string().optional(),
+        scopes: z.string().trim().optional(),
+        enabled: z.boolean(),
+        autoProvision: z.boolean(),
+        linkExistingUsers: z.boolean(),
+        roleClaim: z.string().trim().optional(),
+        adminValues: z.string().optional(),
+        userValues: z.string().optional(),
+      });
+
+      const validationResult = ssoProviderSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid single sign-on provider', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const data = validationResult.data;
+      const existing = await getOidcProvider(key);
+
+      for (const [name, { field, description, isEncrypted }] of Object.entries(ssoProviderFields)) {
+        const value = data[name as keyof typeof data];
+        // Client secret is write-only - empty string means keep existing
+        if (name === 'clientSecret' && !value) continue;
+        if (value === undefined) continue;
+
+        await storage.upsertSystemSetting({
+          key: oidcSettingKey(key, field),
+          value: isEncrypted ? encryptSecret(String(value)) : String(value),
+          isEncrypted: !!isEncrypted,
+          description: `${data.displayName}: ${description}`,
+        });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: existing ? 'UPDATE' : 'CREATE',
+        entityType: 'system_settings',
+        entityId: `sso_provider_${key}`,
+        newValues: JSON.stringify({ ...data, clientSecret: data.clientSecret ? '[REDACTED]' : undefined }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'Single sign-on provider saved successfully' });
+    } catch (error) {
+      console.error('Error saving SSO provider:', error);
+      if (error instanceof SecretsError) {
+        return res.status(500).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to save single sign-on provider' });
+    }
+  });
+
+  app.delete("/api/admin/sso-providers/:key", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      const existing = await getOidcProvider(key);
+      if (!existing) {
+        return res.status(404).json({ error: 'Single sign-on provider not found' });
+      }
+
+      // Linked identities are kept so the accounts reconnect if the provider is added again
+      for (const { field } of Object.values(ssoProviderFields)) {
+        await storage.deleteSystemSetting(oidcSettingKey(key, field));
+      }
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'DELETE',
+        entityType: 'system_settings',
+        entityId: `sso_provider_${key}`,
+        oldValues: JSON.stringify({ ...existing, clientSecret: '[REDACTED]' }),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting SSO provider:', error);
+      res.status(500).json({ error: 'Failed to delete single sign-on provider' });
+    }
+  });
+
+  // MFA policy: optional, required for admins, or required for everyone signing in with a password
+  app.get("/api/admin/mfa-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const [policy, enabledUserIds] = await Promise.all([getMfaPolicy(), storage.getMfaEnabledUserIds()]);
+      res.json({ policy, enrolledUsers: enabledUserIds.length });
+    } catch (error) {
+      console.error('Error fetching MFA settings:', error);
+      res.status(500).json({ error: 'Failed to fetch MFA settings' });
+    }
+  });
+
+  app.post("/api/admin/mfa-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationResult = z.object({ policy: z.enum(['optional', 'admins', 'all']) }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid MFA settings', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const oldPolicy = await getMfaPolicy();
+      await storage.upsertSystemSetting({
+        key: 'mfa_policy',
+        value: validationResult.data.policy,
+        isEncrypted: false,
+        description: 'Who must use an authenticator app at password sign-in: optional, admins, or all',
+      });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UPDATE',
+        entityType: 'system_settings',
+        entityId: 'mfa_settings',
+        oldValues: JSON.stringify({ policy: oldPolicy }),
+        newValues: JSON.stringify(validationResult.data),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'MFA settings updated successfully' });
+    } catch (error) {
+      console.error('Error updating MFA settings:', error);
+      res.status(500).json({ error: 'Failed to update MFA settings' });
+    }
+  });
+
+  // Password policy and sign-in lockouts
+  app.get("/api/admin/password-policy", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      console.error('Error fetching password policy:', error);
+      res.status(500).json({ error: 'Failed to fetch password policy' });
+    }
+  });
+
+  app.post("/api/admin/password-policy", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationResult = z.object({
+        minLength: z.number().int().min(PASSWORD_MIN_LENGTH_LIMITS.min).max(PASSWORD_MIN_LENGTH_LIMITS.max),
+        requireMixedCharacters: z.boolean(),
+        blockBreached: z.boolean(),
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid password policy', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const oldPolicy = await getPasswordPolicy();
+      const { minLength, requireMixedCharacters, blockBreached } = validationResult.data;
+      await storage.upsertSystemSetting({
+        key: 'password_min_length',
+        value: String(minLength),
+        isEncrypted: false,
+        description: 'Minimum length for new passwords',
+      });
+      await storage.upsertSystemSetting({
+        key: 'password_require_mixed',
+        value: String(requireMixedCharacters),
+        isEncrypted: false,
+        description: 'Whether new passwords need three of: lowercase, uppercase, digits, symbols',
+      });
+      await storage.upsertSystemSetting({
+        key: 'password_block_breached',
+        value: String(blockBreached),
+        isEncrypted: false,
+        description: 'Whether new passwords are checked against the bundled breached password list',
+      });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UPDATE',
+        entityType: 'system_settings',
+        entityId: 'password_policy',
+        oldValues: JSON.stringify(oldPolicy),
+        newValues: JSON.stringify(validationResult.data),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'Password policy updated successfully' });
+    } catch (error) {
+      console.error('Error updating password policy:', error);
+      res.status(500).json({ error: 'Failed to update password policy' });
+    }
+  });
+
+  // Contract ceiling alert thresholds and over-ceiling billing
+  app.get("/api/admin/ceiling-policy", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await getCeilingPolicy());
+    } catch (error) {
+      console.error('Error fetching ceiling policy:', error);
+      res.status(500).json({ error: 'Failed to fetch ceiling policy' });
+    }
+  });
+
+  app.post("/api/admin/ceiling-policy", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationResult = z.object({
+        thresholds: z.array(z.number().int()).refine(isValidCeilingThresholds, 'Thresholds must be distinct whole percentages between 1 and 200'),
+        enforcement: z.enum(CEILING_ENFORCEMENT_MODES),
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid ceiling policy', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const oldPolicy = await getCeilingPolicy();
+      const { thresholds, enforcement } = validationResult.data;
+      await storage.upsertSystemSetting({
+        key: 'ceiling_alert_thresholds',
+        value: [...thresholds].sort((a, b) => a - b).join(','),
+        isEncrypted: false,
+        description: 'Percent of a contract ceiling at which admins are emailed',
+      });
+      await storage.upsertSystemSetting({
+        key: 'ceiling_enforcement',
+        value: enforcement,
+        isEncrypted: false,
+        description: 'Whether billable events over a contract ceiling are allowed with a warning or blocked',
+      });
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UPDATE',
+        entityType: 'system_settings',
+        entityId: 'ceiling_policy',
+        oldValues: JSON.stringify(oldPolicy),
+        newValues: JSON.stringify(validationResult.data),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'Ceiling policy updated successfully' });
+    } catch (error) {
+      console.error('Error updating ceiling policy:', error);
+      res.status(500).json({ error: 'Failed to update ceiling policy' });
+    }
+  });
+
+  app.get("/api/admin/invoice-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await getInvoiceSettings());
+    } catch (error) {
+      console.error('Error fetching invoice settings:', error);
+      res.status(500).json({ error: 'Failed to fetch invoice settings' });
+    }
+  });
+
+  app.post("/api/admin/invoice-settings", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationResult = z.object({
+        companyName: z.string().trim().min(1, 'Company name is required').max(120),
+        companyAddress: z.string().trim().max(500),
+        numberPrefix: z.string().trim().regex(/^[A-Za-z0-9-]{1,12}$/, 'Prefix must be up to 12 letters, digits or dashes'),
+        defaultTaxRate: z.number().min(0).max(MAX_TAX_RATE),
+        defaultNetTermsDays: z.number().int().min(0).max(MAX_NET_TERMS_DAYS),
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid invoice settings', 
+          details: validationResult.error.errors 
+        });
+      }
+
+      const oldSettings = await getInvoiceSettings();
+      const settings = validationResult.data;
+      const entries: Array<[string, string, string]> = [
+        ['invoice_company_name', settings.companyName, 'Company name printed on the invoice letterhead'],
+        ['invoice_company_address', settings.companyAddress, 'Address lines printed under the company name on invoices'],
+        ['invoice_number_prefix', settings.numberPrefix, 'Prefix for invoice numbers, e.g. INV for INV-00001'],
+        ['invoice_default_tax_rate', settings.defaultTaxRate.toString(), 'Tax rate percent applied to new invoices unless set on the invoice'],
+        ['invoice_default_net_terms', settings.defaultNetTermsDays.toString(), 'Days after the issue date that new invoices are due'],
+      ];
+      for (const [key, value, description] of entries) {
+        await storage.upsertSystemSetting({ key, value, isEncrypted: false, description });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UPDATE',
+        entityType: 'system_settings',
+        entityId: 'invoice_settings',
+        oldValues: JSON.stringify(oldSettings),
+        newValues: JSON.stringify(settings),
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({ message: 'Invoice settings updated successfully' });
+    } catch (error) {
+      console.error('Error updating invoice settings:', error);
+      res.status(500).json({ error: 'Failed to update invoice settings' });
+    }
+  });
+
+  app.get("/api/admin/login-lockouts", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getLockedLoginThrottles());
+    } catch (error) {
+      console.error('Error fetching login lockouts:', error);
+      res.status(500).json({ error: 'Failed to fetch login lockouts' });
+    }
+  });
+
+  app.delete("/api/admin/login-lockouts/:key", requireSession, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      await storage.deleteLoginThrottle(req.params.key);
+
+      await storage.createAuditLog({
+        userId: req.user?.id,
+        action: 'UNLOCK',
+        entityType: 'login_throttle',
+        entityId: req.params.key,
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Error clearing login lockout:', error);
+      res.status(500).json({ error: 'Failed to clear login lockout' });
+    }
+  });
+
   // QuickBooks Health Check
-  app.get("/api/admin/qb-health", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/qb-health", requireSession, requireAdmin, async (req: Request, res: Response) => {
     try {
       let healthCheck;
       let credentialsConfigured = false;
@@ -2305,15 +5386,15 @@ export function registerRoutes(app: Express): Server {
   // QuickBooks OAuth routes
   
   // Get all QuickBooks connections (for UI status display)
-  app.get("/api/quickbooks/connections", async (req: Request, res: Response) => {
+  app.get("/api/quickbooks/connections", requirePermission("billing.view"), async (req: Request, res: Response) => {
     try {
-      const connections = await storage.getAllQuickbooksConnections();
+      const connections = await storage.getAllQuickbooksConnections(res.locals.organizationScope);
       
-      // Create a map of organizationId -> connection
-      const connectionsMap = connections.reduce((acc, conn) => {
+      // Create a map of organizationId -> connection, without the OAuth tokens
+      const connectionsMap = connections.reduce((acc, { accessToken, refreshToken, ...conn }) => {
         acc[conn.organizationId] = conn;
         return acc;
-      }, {} as Record<string, typeof connections[0]>);
+      }, {} as Record<string, Omit<typeof connections[0], 'accessToken' | 'refreshToken'>>);
       
       res.json(connectionsMap);
     } catch (error) {
@@ -2322,13 +5403,16 @@ export function registerRoutes(app: Express): Server {
     }
   });
   
-  app.get("/api/quickbooks/auth-url", async (req, res) => {
+  app.get("/api/quickbooks/auth-url", requirePermission("billing.manage"), async (req, res) => {
     try {
       const organizationId = req.query.organizationId as string;
       
       if (!organizationId) {
         return res.status(400).json({ error: "Organization ID is required" });
       }
+      if (!inScope(res, organizationId)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
 
       const qbOAuth = await createQuickBooksOAuthService(storage);
       const { authUrl, state } = qbOAuth.generateAuthUrl();
@@ -2346,7 +5430,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/quickbooks/callback", async (req, res) => {
+  app.get("/api/quickbooks/callback", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { code, state, realmId, error: qbError } = req.query;
       
@@ -2377,8 +5461,8 @@ export function registerRoutes(app: Express): Server {
         // Update existing connection
         await storage.updateQuickbooksConnection(organizationId, {
           realmId: realmId as string,
-          accessToken: tokenResponse.access_token,
-          refreshToken: tokenResponse.refresh_token,
+          accessToken: encryptSecret(tokenResponse.access_token),
+          refreshToken: encryptSecret(tokenResponse.refresh_token),
           accessTokenExpiresAt: qbOAuth.calculateExpiryDate(tokenResponse.expires_in),
           refreshTokenExpiresAt: qbOAuth.calculateExpiryDate(tokenResponse.x_refresh_token_expires_in),
           status: 'connected',
@@ -2389,8 +5473,8 @@ export function registerRoutes(app: Express): Server {
         await storage.createQuickbooksConnection({
           organizationId,
           realmId: realmId as string,
-          accessToken: tokenResponse.access_token,
-          refreshToken: tokenResponse.refresh_token,
+          accessToken: encryptSecret(tokenResponse.access_token),
+          refreshToken: encryptSecret(tokenResponse.refresh_token),
           accessTokenExpiresAt: qbOAuth.calculateExpiryDate(tokenResponse.expires_in),
           refreshTokenExpiresAt: qbOAuth.calculateExpiryDate(tokenResponse.x_refresh_token_expires_in),
           status: 'connected',
@@ -2421,9 +5505,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/quickbooks/:organizationId/disconnect", async (req, res) => {
+  app.delete("/api/quickbooks/:organizationId/disconnect", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { organizationId } = req.params;
+      if (!inScope(res, organizationId)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       
       const connection = await storage.getQuickbooksConnection(organizationId);
       if (!connection) {
@@ -2433,7 +5520,7 @@ export function registerRoutes(app: Express): Server {
       // Revoke tokens
       try {
         const qbOAuth = await createQuickBooksOAuthService(storage);
-        await qbOAuth.revokeTokens(connection.refreshToken);
+        await qbOAuth.revokeTokens(decryptSecret(connection.refreshToken));
       } catch (error) {
         console.error('Error revoking QB tokens:', error);
         // Continue with deletion even if revoke fails
@@ -2462,9 +5549,12 @@ export function registerRoutes(app: Express): Server {
   });
 
   // QuickBooks customer and invoice routes
-  app.get("/api/organizations/:id/qb-connection", async (req, res) => {
+  app.get("/api/organizations/:id/qb-connection", requirePermission("billing.view"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const connection = await storage.getQuickbooksConnection(id);
       
       if (!connection) {
@@ -2485,9 +5575,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/organizations/:id/qb-customers", async (req, res) => {
+  app.get("/api/organizations/:id/qb-customers", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const searchTerm = (req.query.search as string) || '';
       
       const qbOAuth = await createQuickBooksOAuthService(storage);
@@ -2501,9 +5594,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/organizations/:id/qb-map-customer", async (req, res) => {
+  app.post("/api/organizations/:id/qb-map-customer", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const { qbCustomerId } = req.body;
       
       if (!qbCustomerId) {
@@ -2533,9 +5629,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/organizations/:id/qb-invoices", async (req, res) => {
+  app.get("/api/organizations/:id/qb-invoices", requirePermission("billing.view"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       const invoices = await storage.getQuickbooksInvoices(id);
       res.json(invoices);
     } catch (error) {
@@ -2544,9 +5643,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/organizations/:id/qb-sync", async (req, res) => {
+  app.post("/api/organizations/:id/qb-sync", requirePermission("billing.manage"), async (req, res) => {
     try {
       const { id } = req.params;
+      if (!inScope(res, id)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
       
       const qbOAuth = await createQuickBooksOAuthService(storage);
       const qbSync = createQuickBooksSyncService(qbOAuth);
@@ -2572,7 +5674,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Audit log routes
-  app.get("/api/audit-logs", async (req, res) => {
+  app.get("/api/audit-logs", requirePermission("audit.view"), requireAllOrganizations, async (req, res) => {
     try {
       const entityId = req.query.entityId as string;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
@@ -2584,7 +5686,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // OKR Routes
-  app.get("/api/objectives", async (req, res) => {
+  app.get("/api/objectives", requirePermission("okrs.view"), async (req, res) => {
     try {
       const timeframe = req.query.timeframe as string;
       const isActive = req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined;
@@ -2595,7 +5697,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/objectives/:id", async (req, res) => {
+  app.get("/api/objectives/:id", requirePermission("okrs.view"), async (req, res) => {
     try {
       const objective = await storage.getObjective(req.params.id);
       if (!objective) {
@@ -2607,7 +5709,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/objectives", async (req, res) => {
+  app.post("/api/objectives", requirePermission("okrs.manage"), async (req, res) => {
     try {
       const validatedData = insertObjectiveSchema.parse(req.body);
       const objective = await storage.createObjective(validatedData);
@@ -2632,7 +5734,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.patch("/api/objectives/:id", async (req, res) => {
+  app.patch("/api/objectives/:id", requirePermission("okrs.manage"), async (req, res) => {
     try {
       const validatedData = insertObjectiveSchema.partial().parse(req.body);
       const objective = await storage.updateObjective(req.params.id, validatedData);
@@ -2657,7 +5759,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/objectives/:id", async (req, res) => {
+  app.delete("/api/objectives/:id", requirePermission("okrs.manage"), async (req, res) => {
     try {
       await storage.deleteObjective(req.params.id);
       
@@ -2676,7 +5778,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/key-results", async (req, res) => {
+  app.get("/api/key-results", requirePermission("okrs.view"), async (req, res) => {
     try {
       const objectiveId = req.query.objectiveId as string;
       const keyResults = await storage.getKeyResults(objectiveId);
@@ -2686,7 +5788,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/key-results/:id", async (req, res) => {
+  app.get("/api/key-results/:id", requirePermission("okrs.view"), async (req, res) => {
     try {
       const kr = await storage.getKeyResult(req.params.id);
       if (!kr) {
@@ -2698,7 +5800,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/key-results", async (req, res) => {
+  app.post("/api/key-results", requirePermission("okrs.manage"), async (req, res) => {
     try {
       const validatedData = insertKeyResultSchema.parse(req.body);
       const kr = await storage.createKeyResult(validatedData);
@@ -2723,7 +5825,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.patch("/api/key-results/:id", async (req, res) => {
+  app.patch("/api/key-results/:id", requirePermission("okrs.manage"), async (req, res) => {
     try {
       const validatedData = insertKeyResultSchema.partial().parse(req.body);
       const kr = await storage.updateKeyResult(req.params.id, validatedData);
@@ -2748,7 +5850,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete("/api/key-results/:id", async (req, res) => {
+  app.delete("/api/key-results/:id", requirePermission("okrs.manage"), async (req, res) => {
     try {
       await storage.deleteKeyResult(req.params.id);
       
@@ -2767,7 +5869,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/objectives/:id/check-ins", async (req, res) => {
+  app.get("/api/objectives/:id/check-ins", requirePermission("okrs.view"), async (req, res) => {
     try {
       const checkIns = await storage.getCheckIns(req.params.id);
       res.json(checkIns);
@@ -2776,7 +5878,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/check-ins", async (req, res) => {
+  app.post("/api/check-ins", requirePermission("okrs.manage"), async (req, res) => {
     try {
       const validatedData = insertCheckInSchema.parse(req.body);
       const checkIn = await storage.createCheckIn(validatedData);
@@ -2801,9 +5903,9 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/okr/auto-metrics", async (req, res) => {
+  app.get("/api/okr/auto-metrics", requirePermission("okrs.view"), async (req, res) => {
     try {
-      const metrics = await storage.calculateAutoMetrics();
+      const metrics = await storage.calculateAutoMetrics(res.locals.organizationScope);
       res.json(metrics);
     } catch (error) {
       res.status(500).json({ error: "Failed to calculate auto metrics" });
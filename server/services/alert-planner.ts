@@ -0,0 +1,236 @@
+import { AlertPolicy, ComplianceItem, Contract, EmailAlert, EscalationRule } from '../../shared/schema';
+import { DEFAULT_REMINDER_OFFSETS, daysUntilDue, parseReminderOffsets } from '../../shared/reminders';
+import { RENEWAL_REMINDER_OFFSETS, renewalStatus } from '../../shared/renewals';
+import { contractCeiling, highestThresholdReached } from '../../shared/ceilings';
+
+export type AlertType = 'upcoming' | 'overdue' | 'escalation';
+
+export interface PlannedAlert {
+  item: ComplianceItem;
+  alertType: AlertType;
+  recipientEmail: string;
+  offsetDays: number; // Reminder offset for upcoming alerts, days overdue otherwise
+  escalationRule?: EscalationRule;
+}
+
+export interface AlertPlanInput {
+  items: ComplianceItem[];
+  policies: AlertPolicy[];
+  escalationRules: EscalationRule[];
+  history: EmailAlert[]; // Sent alerts for the items, used to suppress duplicates
+  adminEmails: string[];
+  recipientFor: (item: ComplianceItem) => string;
+  today?: Date;
+}
+
+export interface AlertPlan {
+  alerts: PlannedAlert[];
+  suppressed: number; // Alerts skipped because the same reminder was already sent
+}
+
+/**
+ * Reminder offsets for an item: its own override, else its category's policy, else the default.
+ */
+export function resolveReminderOffsets(item: ComplianceItem, policies: AlertPolicy[]): number[] {
+  const source = item.reminderOffsets || policies.find(p => p.category === item.category)?.reminderOffsets;
+  if (!source) return DEFAULT_REMINDER_OFFSETS;
+
+  try {
+    return parseReminderOffsets(source);
+  } catch {
+    return DEFAULT_REMINDER_OFFSETS;
+  }
+}
+
+/**
+ * The reminder an upcoming item is currently in: the smallest offset that has been reached.
+ * With offsets 30,14,7,1 an item due in 10 days is in its 14-day reminder.
+ */
+export function currentReminderOffset(offsets: number[], daysLeft: number): number | null {
+  const reached = offsets.filter(offset => offset >= daysLeft);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+/**
+ * Decide which alerts to send today. Each reminder, overdue notice and escalation is sent
+ * at most once per recipient and due date; missed days do not cause a burst of catch-up
+ * emails because only the current reminder is considered.
+ */
+export function planComplianceAlerts(input: AlertPlanInput): AlertPlan {
+  const today = input.today ?? new Date();
+  const alerts: PlannedAlert[] = [];
+  let suppressed = 0;
+
+  // Alerts count only for the due date they were sent for. Those recorded before due dates
+  // were kept match any due date, so they are not sent again.
+  const forItem = (alert: EmailAlert, item: ComplianceItem, recipientEmail: string) =>
+    alert.complianceItemId === item.id &&
+    alert.recipientEmail.toLowerCase() === recipientEmail.toLowerCase() &&
+    (!alert.dueDate || !item.dueDate || sameDay(alert.dueDate, item.dueDate));
+
+  const alreadySent = (item: ComplianceItem, recipientEmail: string, match: (alert: EmailAlert) => boolean) =>
+    input.history.some(alert => forItem(alert, item, recipientEmail) && match(alert));
+
+  for (const item of input.items) {
+    if (!item.dueDate || item.status === 'complete' || item.status === 'na') continue;
+
+    const daysLeft = daysUntilDue(item.dueDate, today);
+    const recipientEmail = input.recipientFor(item);
+
+    if (daysLeft >= 0) {
+      const offset = currentReminderOffset(resolveReminderOffsets(item, input.policies), daysLeft);
+      if (offset === null) continue;
+
+      if (alreadySent(item, recipientEmail, a => a.alertType === 'upcoming' && a.offsetDays === offset)) {
+        suppressed++;
+      } else {
+        alerts.push({ item, alertType: 'upcoming', recipientEmail, offsetDays: offset });
+      }
+      continue;
+    }
+
+    const daysOverdue = -daysLeft;
+
+    // Overdue notice, optionally repeated every overdueRepeatDays
+    const repeatDays = input.policies.find(p => p.category === item.category)?.overdueRepeatDays ?? null;
+    const lastOverdue = input.history
+      .filter(a => forItem(a, item, recipientEmail) && a.alertType === 'overdue')
+      .reduce<number | null>((latest, a) => Math.max(latest ?? 0, a.offsetDays ?? 0), null);
+
+    if (lastOverdue === null || (repeatDays !== null && daysOverdue - lastOverdue >= repeatDays)) {
+      alerts.push({ item, alertType: 'overdue', recipientEmail, offsetDays: daysOverdue });
+    } else {
+      suppressed++;
+    }
+
+    // Escalations that this item has reached
+    for (const rule of input.escalationRules) {
+      if (!rule.enabled || daysOverdue < rule.overdueDays) continue;
+      if (rule.category && rule.category !== item.category) continue;
+
+      const recipients = new Set<string>();
+      if (rule.recipientEmail) recipients.add(rule.recipientEmail.toLowerCase());
+      if (rule.notifyAdmins) input.adminEmails.forEach(email => recipients.add(email.toLowerCase()));
+
+      for (const escalationEmail of Array.from(recipients)) {
+        if (alreadySent(item, escalationEmail, a => a.alertType === 'escalation' && a.escalationRuleId === rule.id)) {
+          suppressed++;
+        } else {
+          alerts.push({ item, alertType: 'escalation', recipientEmail: escalationEmail, offsetDays: daysOverdue, escalationRule: rule });
+        }
+      }
+    }
+  }
+
+  return { alerts, suppressed };
+}
+
+export interface PlannedRenewalAlert {
+  contract: Contract;
+  recipientEmail: string;
+  offsetDays: number; // Reminder offset before the notice deadline
+  noticeDeadline: Date;
+}
+
+export interface RenewalAlertPlanInput {
+  contracts: Contract[];
+  history: EmailAlert[]; // Sent renewal alerts for the contracts
+  recipients: string[];
+  today?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reminders before each active contract's notice deadline until someone decides to renew or
+ * let it expire. A sent reminder only counts as a duplicate if it was sent after the current
+ * reminder became due, so the schedule starts over once the term is extended.
+ */
+export function planRenewalAlerts(input: RenewalAlertPlanInput): { alerts: PlannedRenewalAlert[]; suppressed: number } {
+  const today = input.today ?? new Date();
+  const alerts: PlannedRenewalAlert[] = [];
+  let suppressed = 0;
+
+  for (const contract of input.contracts) {
+    if (!contract.isActive) continue;
+
+    const status = renewalStatus(contract, today);
+    if (!status.decisionPending || !status.noticeDeadline || status.daysToNotice === null || status.daysToNotice < 0) continue;
+
+    const offset = currentReminderOffset(RENEWAL_REMINDER_OFFSETS, status.daysToNotice);
+    if (offset === null) continue;
+
+    const reminderDue = new Date(status.noticeDeadline.getTime() - offset * DAY_MS);
+    for (const recipientEmail of input.recipients) {
+      const alreadySent = input.history.some(alert =>
+        alert.contractId === contract.id &&
+        alert.offsetDays === offset &&
+        alert.recipientEmail.toLowerCase() === recipientEmail.toLowerCase() &&
+        new Date(alert.createdAt) >= reminderDue
+      );
+      if (alreadySent) {
+        suppressed++;
+      } else {
+        alerts.push({ contract, recipientEmail, offsetDays: offset, noticeDeadline: status.noticeDeadline });
+      }
+    }
+  }
+
+  return { alerts, suppressed };
+}
+
+export interface PlannedCeilingAlert {
+  contract: Contract;
+  recipientEmail: string;
+  threshold: number; // Percent of the ceiling reached
+  consumed: number;
+  ceiling: number;
+}
+
+export interface CeilingAlertPlanInput {
+  contracts: Contract[];
+  spend: Map<string, number>; // Billed total per contract id
+  history: EmailAlert[]; // Sent ceiling alerts for the contracts
+  rearmedAt: Map<string, Date>; // When each contract's ceiling was last raised by an amendment
+  thresholds: number[];
+  recipients: string[];
+}
+
+/**
+ * One alert per contract for the highest threshold its spend has reached, unless that threshold
+ * (or a higher one) was already sent. An amendment that changes the ceiling starts the thresholds over.
+ */
+export function planCeilingAlerts(input: CeilingAlertPlanInput): { alerts: PlannedCeilingAlert[]; suppressed: number } {
+  const alerts: PlannedCeilingAlert[] = [];
+  let suppressed = 0;
+
+  for (const contract of input.contracts) {
+    const ceiling = contractCeiling(contract);
+    if (!contract.isActive || ceiling === null) continue;
+
+    const consumed = input.spend.get(contract.id) ?? 0;
+    const threshold = highestThresholdReached((consumed / ceiling) * 100, input.thresholds);
+    if (threshold === null) continue;
+
+    const rearmedAt = input.rearmedAt.get(contract.id);
+    for (const recipientEmail of input.recipients) {
+      const alreadySent = input.history.some(alert =>
+        alert.contractId === contract.id &&
+        (alert.offsetDays ?? 0) >= threshold &&
+        alert.recipientEmail.toLowerCase() === recipientEmail.toLowerCase() &&
+        (!rearmedAt || new Date(alert.createdAt) >= rearmedAt)
+      );
+      if (alreadySent) {
+        suppressed++;
+      } else {
+        alerts.push({ contract, recipientEmail, threshold, consumed, ceiling });
+      }
+    }
+  }
+
+  return { alerts, suppressed };
+}
@@ -0,0 +1,52 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiToken, User } from '../../shared/schema';
+import { storage } from '../storage';
+
+// Personal API tokens for scripts and BI tools. The raw token is shown once at creation;
+// only its SHA-256 hash is stored, like calendar feed URLs.
+
+const TOKEN_PREFIX = 'bgv_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Last-used details are written at most this often per token, so busy scripts do not write on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Methods a read-only token may use
+export const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function generateApiToken(): string {
+  return `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function apiTokenDisplayPrefix(token: string): string {
+  return token.slice(0, DISPLAY_PREFIX_LENGTH);
+}
+
+export function isApiTokenActive(token: ApiToken, now = new Date()): boolean {
+  return !token.revokedAt && token.expiresAt > now;
+}
+
+/**
+ * Resolves a Bearer token to the token record and the user it acts for, recording when and
+ * from where it was last used. Returns null for unknown, revoked or expired tokens.
+ */
+export async function authenticateApiToken(rawToken: string, ipAddress?: string): Promise<{ token: ApiToken; user: User } | null> {
+  if (!rawToken.startsWith(TOKEN_PREFIX)) return null;
+
+  const token = await storage.getApiTokenByHash(hashApiToken(rawToken));
+  if (!token || !isApiTokenActive(token)) return null;
+
+  const user = await storage.getUser(token.userId);
+  if (!user || user.deactivatedAt) return null;
+
+  const now = new Date();
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS || token.lastUsedIp !== (ipAddress ?? null)) {
+    await storage.updateApiToken(token.id, { lastUsedAt: now, lastUsedIp: ipAddress ?? null });
+  }
+
+  return { token, user };
+}
@@ -0,0 +1,80 @@
+import * as crypto from 'crypto';
+import { AuditLog } from '../../shared/schema';
+
+// prevHash of the first chained entry
+export const AUDIT_CHAIN_GENESIS = '0'.repeat(64);
+
+// Key for the advisory lock that serializes audit log writers
+export const AUDIT_CHAIN_LOCK_ID = 727_001;
+
+export type AuditChainBreakReason = 'hash_mismatch' | 'link_mismatch' | 'sequence_gap';
+
+export interface AuditChainBreak {
+  id: string;
+  sequence: number;
+  timestamp: string;
+  reason: AuditChainBreakReason;
+  expected: string;
+  actual: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  legacyEntries: number; // written before chaining was enabled, not covered by the chain
+  head: { sequence: number; hash: string } | null;
+  brokenAt: AuditChainBreak | null;
+  verifiedAt: string;
+}
+
+type ChainedFields = Pick<AuditLog, 'sequence' | 'action' | 'entityType' | 'entityId' | 'timestamp'> &
+  Partial<Pick<AuditLog, 'userId' | 'oldValues' | 'newValues' | 'ipAddress' | 'userAgent'>>;
+
+/**
+ * Hash an audit entry together with the hash of the entry before it.
+ * Fields are serialized in a fixed order so the digest does not depend on object key order.
+ */
+export function computeAuditHash(entry: ChainedFields, prevHash: string): string {
+  const canonical = JSON.stringify([
+    entry.sequence,
+    entry.userId ?? null,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.oldValues ?? null,
+    entry.newValues ?? null,
+    new Date(entry.timestamp).toISOString(),
+    entry.ipAddress ?? null,
+    entry.userAgent ?? null,
+    prevHash,
+  ]);
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Check one entry against its predecessor. Returns the first problem found, or null.
+ */
+export function checkAuditLink(entry: AuditLog, previous: { sequence: number; hash: string } | null): AuditChainBreak | null {
+  const expectedSequence = previous ? previous.sequence + 1 : 1;
+  const expectedPrevHash = previous ? previous.hash : AUDIT_CHAIN_GENESIS;
+  const base = {
+    id: entry.id,
+    sequence: entry.sequence!,
+    timestamp: new Date(entry.timestamp).toISOString(),
+  };
+
+  if (entry.sequence !== expectedSequence) {
+    return { ...base, reason: 'sequence_gap', expected: String(expectedSequence), actual: String(entry.sequence) };
+  }
+
+  if (entry.prevHash !== expectedPrevHash) {
+    return { ...base, reason: 'link_mismatch', expected: expectedPrevHash, actual: entry.prevHash ?? '' };
+  }
+
+  const recomputed = computeAuditHash(entry, expectedPrevHash);
+  if (entry.hash !== recomputed) {
+    return { ...base, reason: 'hash_mismatch', expected: recomputed, actual: entry.hash ?? '' };
+  }
+
+  return null;
+}
@@ -0,0 +1,75 @@
+import {
+  ComplianceTemplate, ComplianceTemplateItem, ComplianceTemplateInput, Contract, InsertComplianceItem,
+} from '../../shared/schema';
+import { TEMPLATE_FILE_FORMAT, TEMPLATE_FILE_VERSION, resolveTemplateDueDate, describeTemplateOffset } from '../../shared/templates';
+
+export interface TemplateAssignment {
+  assigneeId?: string | null;
+  teamId?: string | null;
+}
+
+export interface SkippedTemplateItem {
+  commitment: string;
+  reason: string;
+}
+
+/**
+ * Turn a template's items into compliance items for a contract. Items anchored to the
+ * contract end are skipped when the contract has no end date.
+ */
+export function buildItemsFromTemplate(
+  templateItems: ComplianceTemplateItem[],
+  contract: Contract,
+  assignment: TemplateAssignment = {}
+): { items: InsertComplianceItem[]; skipped: SkippedTemplateItem[] } {
+  const items: InsertComplianceItem[] = [];
+  const skipped: SkippedTemplateItem[] = [];
+
+  for (const templateItem of templateItems) {
+    const dueDate = resolveTemplateDueDate(contract, templateItem);
+    if (!dueDate) {
+      skipped.push({
+        commitment: templateItem.commitment,
+        reason: `Due ${describeTemplateOffset(templateItem)}, but the contract has no end date`,
+      });
+      continue;
+    }
+
+    items.push({
+      customerId: contract.customerId,
+      contractId: contract.id,
+      category: templateItem.category,
+      type: templateItem.type,
+      commitment: templateItem.commitment,
+      description: templateItem.description,
+      responsibleParty: templateItem.responsibleParty,
+      assigneeId: assignment.assigneeId || null,
+      teamId: assignment.teamId || null,
+      status: 'pending',
+      dueDate,
+      recurrenceRule: templateItem.recurrenceRule,
+      reminderOffsets: templateItem.reminderOffsets,
+    });
+  }
+
+  return { items, skipped };
+}
+
+/**
+ * Portable JSON form of templates: ids and timestamps are dropped so the file can be
+ * imported into another installation.
+ */
+export function toTemplateFile(templates: ComplianceTemplate[], allItems: ComplianceTemplateItem[]) {
+  return {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map((template): ComplianceTemplateInput => ({
+      name: template.name,
+      description: template.description,
+      items: allItems
+        .filter(item => item.templateId === template.id)
+        .map(({ id, templateId, sortOrder, createdAt, ...item }) => item),
+    })),
+  };
+}
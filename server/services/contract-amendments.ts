@@ -0,0 +1,65 @@
+import { storage } from '../storage';
+import type { Contract, ContractAmendment, InsertContract, InsertContractAmendment } from '../../shared/schema';
+
+export class AmendmentError extends Error {}
+
+/**
+ * Amendments apply in order of effective date, so a new one cannot take effect before an
+ * amendment that is already in force, and its new end date must fall after the contract starts.
+ */
+export function validateAmendment(contract: Contract, amendment: InsertContractAmendment, existing: ContractAmendment[]): void {
+  const latestApplied = existing
+    .filter(a => a.appliedAt)
+    .reduce<Date | null>((latest, a) => (!latest || a.effectiveDate > latest ? a.effectiveDate : latest), null);
+
+  if (latestApplied && amendment.effectiveDate < latestApplied) {
+    throw new AmendmentError(`The effective date must be on or after ${latestApplied.toISOString().slice(0, 10)}, when the latest applied amendment took effect`);
+  }
+  if (amendment.effectiveDate < contract.startDate) {
+    throw new AmendmentError('The effective date must be on or after the contract start date');
+  }
+  if (amendment.endDate && amendment.endDate <= contract.startDate) {
+    throw new AmendmentError('The amended end date must be after the contract start date');
+  }
+}
+
+/**
+ * Once a contract exists its end date and ceiling change only by amendment, which keeps a record
+ * and the previous terms. Edits that send the current values back unchanged are allowed.
+ */
+export function checkAmendedTerms(contract: Contract, updates: Partial<InsertContract>): void {
+  const day = (value?: Date | null) => (value ? value.toISOString().slice(0, 10) : null);
+  const amount = (value?: string | null) => (value ? Number(value) : null);
+
+  if (updates.endDate !== undefined && day(updates.endDate) !== day(contract.endDate)) {
+    throw new AmendmentError('Record an amendment to change the contract end date');
+  }
+  if (updates.maxAmount !== undefined && amount(updates.maxAmount) !== amount(contract.maxAmount)) {
+    throw new AmendmentError('Record an amendment to change the maximum contract amount');
+  }
+}
+
+/**
+ * Apply amendments whose effective date has arrived, oldest first, writing their terms to the contract.
+ */
+export async function applyDueAmendments(asOf: Date = new Date()): Promise<{ applied: number }> {
+  const due = await storage.getDueContractAmendments(asOf);
+  let applied = 0;
+
+  for (const pending of due) {
+    const result = await storage.applyContractAmendment(pending.id);
+    if (!result) continue; // Applied meanwhile by the create route
+    const { contract, amendment } = result;
+    applied++;
+    await storage.createAuditLog({
+      userId: null,
+      action: 'APPLY_AMENDMENT',
+      entityType: 'contract',
+      entityId: contract.id,
+      oldValues: JSON.stringify({ endDate: amendment.previousEndDate, maxAmount: amendment.previousMaxAmount }),
+      newValues: JSON.stringify({ amendmentNumber: amendment.amendmentNumber, endDate: contract.endDate, maxAmount: contract.maxAmount }),
+    });
+  }
+
+  return { applied };
+}
@@ -0,0 +1,66 @@
+import { storage } from '../storage';
+import type { Contract } from '../../shared/schema';
+import {
+  CEILING_ENFORCEMENT_MODES,
+  DEFAULT_CEILING_ALERT_THRESHOLDS,
+  contractCeiling,
+  isValidCeilingThresholds,
+  totalSpend,
+  type CeilingEnforcement,
+} from '../../shared/ceilings';
+import { ancestorsOf } from '../../shared/contract-hierarchy';
+import { subtreeIds } from './contract-hierarchy';
+
+export interface CeilingPolicy {
+  thresholds: number[];
+  enforcement: CeilingEnforcement;
+}
+
+export async function getCeilingPolicy(): Promise<CeilingPolicy> {
+  const [thresholds, enforcement] = await Promise.all([
+    storage.getSystemSetting('ceiling_alert_thresholds'),
+    storage.getSystemSetting('ceiling_enforcement'),
+  ]);
+  const parsed = (thresholds?.value || '').split(',').map(t => Number(t.trim())).filter(t => t > 0);
+  return {
+    thresholds: isValidCeilingThresholds(parsed) ? parsed.sort((a, b) => a - b) : DEFAULT_CEILING_ALERT_THRESHOLDS,
+    enforcement: CEILING_ENFORCEMENT_MODES.find(mode => mode === enforcement?.value) ?? 'warn',
+  };
+}
+
+export interface CeilingOverrun {
+  contractId: string; // The contract whose ceiling is exceeded: the billed contract or a parent above it
+  ceiling: number;
+  consumed: number; // Billed before this event
+  projected: number; // Billed including this event
+  message: string;
+}
+
+/**
+ * Whether billing `amount` more against the contract would take it, or a master agreement or SOW
+ * above it, over its ceiling. A parent's ceiling covers everything billed beneath it.
+ * `excludeEventId` leaves out an event being edited so its old amount is not counted twice.
+ */
+export async function checkCeiling(contract: Contract, amount: number, excludeEventId?: string): Promise<CeilingOverrun | null> {
+  const all = await storage.getContracts();
+  const format = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+  for (const target of [contract, ...ancestorsOf(contract, all)]) {
+    const ceiling = contractCeiling(target);
+    if (ceiling === null) continue;
+
+    const events = (await storage.getContractBillableEvents(subtreeIds(target, all))).filter(event => event.id !== excludeEventId);
+    const consumed = totalSpend(events);
+    const projected = Math.round((consumed + amount) * 100) / 100;
+    if (projected <= ceiling) continue;
+
+    return {
+      contractId: target.id,
+      ceiling,
+      consumed,
+      projected,
+      message: `This event brings ${target.title} to ${format(projected)}, ${format(projected - ceiling)} over its ${format(ceiling)} ceiling`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import { storage } from '../storage';
+import type { Contract, InsertContract } from '../../shared/schema';
+import { ancestorsOf, descendantsOf, hierarchyProblem } from '../../shared/contract-hierarchy';
+
+export class HierarchyError extends Error {}
+
+/**
+ * Check where a new or edited contract sits in its organization's hierarchy. `contract` is the
+ * full set of terms after the change, with the id when editing.
+ */
+export async function validateContractPlacement(contract: InsertContract & { id?: string }): Promise<void> {
+  const all = await storage.getContracts();
+  const parentContract = contract.parentContractId ? all.find(c => c.id === contract.parentContractId) : undefined;
+  if (contract.parentContractId && !parentContract) {
+    throw new HierarchyError('Parent contract not found');
+  }
+
+  const children = contract.id ? all.filter(c => c.parentContractId === contract.id) : [];
+  if (children.some(child => child.customerId !== contract.customerId)) {
+    throw new HierarchyError('Move its child contracts before changing the organization');
+  }
+
+  const problem = hierarchyProblem(
+    {
+      id: contract.id,
+      customerId: contract.customerId,
+      contractType: contract.contractType ?? 'standalone',
+      parentContractId: contract.parentContractId ?? null,
+      startDate: contract.startDate,
+      endDate: contract.endDate ?? null,
+    },
+    parentContract ? { contract: parentContract, ancestors: ancestorsOf(parentContract, all) } : null,
+    children,
+  );
+  if (problem) throw new HierarchyError(problem);
+}
+
+/**
+ * Ids of a contract and every contract beneath it, for rolling up billing against its ceiling.
+ */
+export function subtreeIds(contract: Contract, all: Contract[]): string[] {
+  return [contract.id, ...descendantsOf(contract.id, all).map(c => c.id)];
+}
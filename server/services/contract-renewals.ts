@@ -0,0 +1,70 @@
+import { storage } from '../storage';
+import type { Contract, ContractOptionPeriod } from '../../shared/schema';
+import { addTermMonths, nextOptionPeriod, type RenewalDecision } from '../../shared/renewals';
+
+export class RenewalError extends Error {}
+
+interface RenewalChange {
+  updates: Partial<Pick<Contract, 'endDate' | 'renewalDecision'>>;
+  optionPeriod?: { id: string; status: ContractOptionPeriod['status'] };
+}
+
+/**
+ * Works out what a renewal decision changes. Renewing extends the term, by exercising the next
+ * option period if there is one or by the renewal term otherwise, and starts the new term with
+ * the decision pending again. Letting a contract expire declines its next option period.
+ */
+export function applyRenewalDecision(contract: Contract, decision: RenewalDecision, periods: ContractOptionPeriod[]): RenewalChange {
+  const option = nextOptionPeriod(periods);
+
+  if (decision === 'renew') {
+    if (option) {
+      return {
+        updates: { endDate: option.endDate, renewalDecision: 'pending' },
+        optionPeriod: { id: option.id, status: 'exercised' },
+      };
+    }
+    if (!contract.renewalTermMonths || !contract.endDate) {
+      throw new RenewalError('Set a renewal term or option period before renewing');
+    }
+    return { updates: { endDate: addTermMonths(contract.endDate, contract.renewalTermMonths), renewalDecision: 'pending' } };
+  }
+
+  if (decision === 'terminate' && option) {
+    return { updates: { renewalDecision: decision }, optionPeriod: { id: option.id, status: 'declined' } };
+  }
+
+  return { updates: { renewalDecision: decision } };
+}
+
+/**
+ * Extend auto-renewing contracts whose term has ended without notice to terminate.
+ * Contracts that lapsed several terms ago are rolled forward until the term is current.
+ */
+export async function autoRenewContracts(today: Date = new Date()): Promise<{ renewed: number }> {
+  const due = (await storage.getRenewalContracts()).filter(contract =>
+    contract.autoRenew &&
+    contract.renewalTermMonths &&
+    contract.renewalDecision !== 'terminate' &&
+    contract.endDate && new Date(contract.endDate) < today
+  );
+
+  for (const contract of due) {
+    let endDate = new Date(contract.endDate!);
+    while (endDate < today) {
+      endDate = addTermMonths(endDate, contract.renewalTermMonths!);
+    }
+
+    await storage.recordRenewalDecision(contract.id, { endDate, renewalDecision: 'pending' });
+    await storage.createAuditLog({
+      userId: null,
+      action: 'UPDATE',
+      entityType: 'contract',
+      entityId: contract.id,
+      oldValues: JSON.stringify({ endDate: contract.endDate, renewalDecision: contract.renewalDecision }),
+      newValues: JSON.stringify({ endDate, renewalDecision: 'pending', autoRenewed: true }),
+    });
+  }
+
+  return { renewed: due.length };
+}
@@ -141,9 +141,9 @@ export async function validateComplianceCSV(
         continue;
       }
       
-      // Validate status enum
-      const validStatuses = ['pending', 'complete', 'overdue', 'na'];
-      const status = row.Status.toLowerCase();
+      // Validate status enum. Completion goes through review, so completed rows import as pending.
+      const validStatuses = ['pending', 'overdue', 'na'];
+      const status = row.Status.toLowerCase() === 'complete' ? 'pending' : row.Status.toLowerCase();
       if (!validStatuses.includes(status)) {
         errors.push(`Row ${rowNumber}: Invalid status "${row.Status}". Must be one of: ${validStatuses.join(', ')}`);
         continue;
@@ -231,8 +231,10 @@ export async function validateComplianceCSV(
             reason: `Duplicate found (ID: ${duplicate.id})`
           });
         } else if (duplicateHandling === 'update') {
-          // Update existing item
-          const updatedItem = await storage.updateComplianceItem(duplicate.id, validatedItem);
+          // Update existing item; completed items and items waiting on a review keep their workflow status
+          const { status: _status, ...details } = validatedItem;
+          const keepStatus = ['complete', 'in_review', 'rejected'].includes(duplicate.status);
+          const updatedItem = await storage.updateComplianceItem(duplicate.id, keepStatus ? details : validatedItem);
           result.updated++;
           result.items.push(updatedItem);
           // Update the existing items array to reflect the change
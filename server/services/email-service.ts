@@ -1,7 +1,13 @@
 import { ConfidentialClientApplication } from '@azure/msal-node';
 import axios from 'axios';
-import { ComplianceItem } from '../../shared/schema';
+import { ComplianceItem, Contract, Team, User } from '../../shared/schema';
+import { MAX_REMINDER_OFFSET } from '../../shared/reminders';
+import { ancestorsOf } from '../../shared/contract-hierarchy';
 import { storage } from '../storage';
+import { AlertType, planCeilingAlerts, planComplianceAlerts, planRenewalAlerts } from './alert-planner';
+import { getCeilingPolicy } from './contract-ceilings';
+import { subtreeIds } from './contract-hierarchy';
+import { decryptSecret } from './secrets';
 
 // Dynamic credential loading - do NOT initialize MSAL client at module load time
 // This allows credentials to be updated in the database without restarting the server
@@ -35,7 +41,7 @@ async function getAzureCredentials(): Promise<AzureCredentials> {
       || process.env.AZURE_CLIENT_ID 
       || '';
     
-    const clientSecret = settingsMap['azure_client_secret'] 
+    const clientSecret = decryptSecret(settingsMap['azure_client_secret']) 
       || process.env.AZURE_CLIENT_SECRET 
       || '';
     
@@ -85,22 +91,31 @@ async function getAccessToken(): Promise<string> {
   }
 }
 
+export interface EmailAlertOptions {
+  recipientEmail?: string; // Defaults to the responsible party's address
+  offsetDays?: number;
+  escalationRuleId?: string;
+}
+
 export async function sendEmailAlert(
   complianceItem: ComplianceItem, 
-  alertType: 'upcoming' | 'overdue'
+  alertType: AlertType,
+  options: EmailAlertOptions = {}
 ): Promise<void> {
   try {
     const accessToken = await getAccessToken();
     const credentials = await getAzureCredentials();
     
     // Determine recipient email based on responsible party or default
-    const recipientEmail = getRecipientEmail(complianceItem.responsibleParty);
+    const recipientEmail = options.recipientEmail || getRecipientEmail(complianceItem.responsibleParty);
     
-    const subject = alertType === 'overdue' 
-      ? `🚨 OVERDUE: ${complianceItem.commitment}`
-      : `⏰ UPCOMING: ${complianceItem.commitment}`;
+    const subject = alertType === 'escalation'
+      ? `🔺 ESCALATION: ${complianceItem.commitment} overdue ${options.offsetDays} days`
+      : alertType === 'overdue' 
+        ? `🚨 OVERDUE: ${complianceItem.commitment}`
+        : `⏰ UPCOMING: ${complianceItem.commitment}`;
     
-    const body = generateEmailBody(complianceItem, alertType);
+    const body = generateEmailBody(complianceItem, alertType, options.offsetDays);
     
     // Create email alert record
     const emailAlert = await storage.createEmailAlert({
@@ -109,6 +124,10 @@ export async function sendEmailAlert(
       subject,
       body,
       status: 'pending',
+      alertType,
+      offsetDays: options.offsetDays ?? null,
+      escalationRuleId: options.escalationRuleId ?? null,
+      dueDate: complianceItem.dueDate,
     });
     
     try {
@@ -135,6 +154,194 @@ export async function sendEmailAlert(
   }
 }
 
+/**
+ * Send the reminders, overdue notices and escalations that are due today.
+ * Alerts already sent (per item, reminder and recipient) are skipped, and
+ * individual failures are logged and counted rather than aborting the batch.
+ */
+export async function dispatchComplianceAlerts(): Promise<{ sent: number; failed: number; suppressed: number }> {
+  const upcomingItems = await storage.getUpcomingComplianceItems(MAX_REMINDER_OFFSET);
+  const overdueItems = await storage.getOverdueComplianceItems();
+  const items = Array.from(new Map([...upcomingItems, ...overdueItems].map(item => [item.id, item])).values());
+
+  const [policies, escalationRules, history, users, teams] = await Promise.all([
+    storage.getAlertPolicies(),
+    storage.getEscalationRules(),
+    storage.getSentEmailAlerts(items.map(item => item.id)),
+    storage.getAllUsers(),
+    storage.getTeams(),
+  ]);
+
+  const plan = planComplianceAlerts({
+    items,
+    policies,
+    escalationRules,
+    history,
+    adminEmails: users.filter(u => u.role === 'admin' && u.email && !u.deactivatedAt).map(u => u.email!),
+    recipientFor: item => resolveRecipientEmail(item, users, teams),
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const alert of plan.alerts) {
+    try {
+      await sendEmailAlert(alert.item, alert.alertType, {
+        recipientEmail: alert.recipientEmail,
+        offsetDays: alert.offsetDays,
+        escalationRuleId: alert.escalationRule?.id,
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send ${alert.alertType} alert for item ${alert.item.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { sent, failed, suppressed: plan.suppressed };
+}
+
+/**
+ * Send reminders for contract notice deadlines to active admins, or the default alert address
+ * when no admin has an email. Each reminder is sent once per recipient per term.
+ */
+export async function dispatchRenewalAlerts(): Promise<{ sent: number; failed: number; suppressed: number }> {
+  const [contracts, users, organizations] = await Promise.all([
+    storage.getRenewalContracts(),
+    storage.getAllUsers(),
+    storage.getOrganizations(),
+  ]);
+  const history = await storage.getSentRenewalAlerts(contracts.map(contract => contract.id));
+
+  const adminEmails = users.filter(u => u.role === 'admin' && u.email && !u.deactivatedAt).map(u => u.email!);
+  const plan = planRenewalAlerts({
+    contracts,
+    history,
+    recipients: adminEmails.length > 0 ? adminEmails : [process.env.DEFAULT_ALERT_EMAIL || 'admin@healthtrixss.com'],
+  });
+  if (plan.alerts.length === 0) {
+    return { sent: 0, failed: 0, suppressed: plan.suppressed };
+  }
+
+  const accessToken = await getAccessToken();
+  const credentials = await getAzureCredentials();
+  let sent = 0;
+  let failed = 0;
+
+  for (const alert of plan.alerts) {
+    const organizationName = organizations.find(org => org.id === alert.contract.customerId)?.name || 'Unknown organization';
+    const subject = `📅 RENEWAL NOTICE: ${alert.contract.title} - decide by ${alert.noticeDeadline.toLocaleDateString('en-US', { timeZone: 'UTC' })}`;
+    const body = generateRenewalEmailBody(alert.contract, organizationName, alert.noticeDeadline);
+
+    const emailAlert = await storage.createEmailAlert({
+      complianceItemId: null,
+      contractId: alert.contract.id,
+      recipientEmail: alert.recipientEmail,
+      subject,
+      body,
+      status: 'pending',
+      alertType: 'renewal',
+      offsetDays: alert.offsetDays,
+      escalationRuleId: null,
+    });
+
+    try {
+      await sendEmail(accessToken, credentials.senderEmail, alert.recipientEmail, subject, body);
+      await storage.updateEmailAlertStatus(emailAlert.id, 'sent');
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send renewal alert for contract ${alert.contract.id}:`, error);
+      await storage.updateEmailAlertStatus(emailAlert.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      failed++;
+    }
+  }
+
+  return { sent, failed, suppressed: plan.suppressed };
+}
+
+/**
+ * Email admins when a contract's billed total reaches a ceiling threshold. Pass contract ids to
+ * check just those contracts, as after a billable event is recorded.
+ */
+export async function dispatchCeilingAlerts(contractIds?: string[]): Promise<{ sent: number; failed: number; suppressed: number }> {
+  // Billing against a child contract also counts toward the ceilings of the contracts above it
+  const all = await storage.getContracts();
+  const affected = contractIds && new Set(all
+    .filter(contract => contractIds.includes(contract.id))
+    .flatMap(contract => [contract.id, ...ancestorsOf(contract, all).map(ancestor => ancestor.id)]));
+  const contracts = all.filter(contract => contract.isActive && contract.maxAmount && (!affected || affected.has(contract.id)));
+  const ids = contracts.map(contract => contract.id);
+  const subtrees = new Map(contracts.map(contract => [contract.id, subtreeIds(contract, all)]));
+
+  const [events, history, amendments, users, organizations, policy] = await Promise.all([
+    storage.getContractBillableEvents(Array.from(new Set(Array.from(subtrees.values()).flat()))),
+    storage.getSentCeilingAlerts(ids),
+    storage.getCeilingAmendments(ids),
+    storage.getAllUsers(),
+    storage.getOrganizations(),
+    getCeilingPolicy(),
+  ]);
+
+  const spend = new Map<string, number>();
+  for (const [contractId, subtree] of Array.from(subtrees.entries())) {
+    const billed = events.filter(event => subtree.includes(event.contractId!));
+    spend.set(contractId, billed.reduce((sum, event) => sum + parseFloat(event.totalAmount), 0));
+  }
+  // Amendments come latest first, so the first one seen per contract is the last ceiling change
+  const rearmedAt = new Map<string, Date>();
+  for (const amendment of amendments) {
+    if (!rearmedAt.has(amendment.contractId)) rearmedAt.set(amendment.contractId, new Date(amendment.appliedAt!));
+  }
+
+  const adminEmails = users.filter(u => u.role === 'admin' && u.email && !u.deactivatedAt).map(u => u.email!);
+  const plan = planCeilingAlerts({
+    contracts,
+    spend,
+    history,
+    rearmedAt,
+    thresholds: policy.thresholds,
+    recipients: adminEmails.length > 0 ? adminEmails : [process.env.DEFAULT_ALERT_EMAIL || 'admin@healthtrixss.com'],
+  });
+  if (plan.alerts.length === 0) {
+    return { sent: 0, failed: 0, suppressed: plan.suppressed };
+  }
+
+  const accessToken = await getAccessToken();
+  const credentials = await getAzureCredentials();
+  let sent = 0;
+  let failed = 0;
+
+  for (const alert of plan.alerts) {
+    const organizationName = organizations.find(org => org.id === alert.contract.customerId)?.name || 'Unknown organization';
+    const subject = `💰 CEILING ${alert.threshold}%: ${alert.contract.title}`;
+    const body = generateCeilingEmailBody(alert.contract, organizationName, alert.threshold, alert.consumed, alert.ceiling);
+
+    const emailAlert = await storage.createEmailAlert({
+      complianceItemId: null,
+      contractId: alert.contract.id,
+      recipientEmail: alert.recipientEmail,
+      subject,
+      body,
+      status: 'pending',
+      alertType: 'ceiling',
+      offsetDays: alert.threshold,
+      escalationRuleId: null,
+    });
+
+    try {
+      await sendEmail(accessToken, credentials.senderEmail, alert.recipientEmail, subject, body);
+      await storage.updateEmailAlertStatus(emailAlert.id, 'sent');
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send ceiling alert for contract ${alert.contract.id}:`, error);
+      await storage.updateEmailAlertStatus(emailAlert.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      failed++;
+    }
+  }
+
+  return { sent, failed, suppressed: plan.suppressed };
+}
+
 export async function sendTestEmail(recipientEmail: string): Promise<void> {
   try {
     const accessToken = await getAccessToken();
@@ -152,6 +359,26 @@ export async function sendTestEmail(recipientEmail: string): Promise<void> {
   }
 }
 
+export async function sendPasswordResetEmail(recipientEmail: string, displayName: string, resetUrl: string, expiresInMinutes: number): Promise<void> {
+  const accessToken = await getAccessToken();
+  const credentials = await getAzureCredentials();
+
+  const subject = 'Reset your BizGov password';
+  const body = generatePasswordResetEmailBody(displayName, resetUrl, expiresInMinutes);
+
+  await sendEmail(accessToken, credentials.senderEmail, recipientEmail, subject, body);
+}
+
+export async function sendInvitationEmail(recipientEmail: string, inviterName: string, inviteUrl: string, expiresInDays: number): Promise<void> {
+  const accessToken = await getAccessToken();
+  const credentials = await getAzureCredentials();
+
+  const subject = `${inviterName} invited you to BizGov`;
+  const body = generateInvitationEmailBody(inviterName, inviteUrl, expiresInDays);
+
+  await sendEmail(accessToken, credentials.senderEmail, recipientEmail, subject, body);
+}
+
 async function sendEmail(
   accessToken: string,
   senderEmail: string,
@@ -201,6 +428,21 @@ async function sendEmail(
   }
 }
 
+/**
+ * Alerts go to the assignee, then the assigned team's mailbox, and only fall back
+ * to guessing from the free-text responsible party for unassigned items.
+ * A deactivated assignee is skipped, as their mailbox may no longer be read.
+ */
+function resolveRecipientEmail(item: ComplianceItem, users: User[], teams: Team[]): string {
+  const assignee = item.assigneeId ? users.find(u => u.id === item.assigneeId) : undefined;
+  if (assignee?.email && !assignee.deactivatedAt) return assignee.email;
+
+  const team = item.teamId ? teams.find(t => t.id === item.teamId) : undefined;
+  if (team?.email) return team.email;
+
+  return getRecipientEmail(item.responsibleParty);
+}
+
 function getRecipientEmail(responsibleParty: string): string {
   // Map responsible parties to email addresses
   const emailMap: Record<string, string> = {
@@ -287,7 +529,182 @@ function generateTestEmailBody(): string {
   `;
 }
 
-function generateEmailBody(complianceItem: ComplianceItem, alertType: 'upcoming' | 'overdue'): string {
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function generateRenewalEmailBody(contract: Contract, organizationName: string, noticeDeadline: Date): string {
+  const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-US', {
+    timeZone: 'UTC', year: 'numeric', month: 'long', day: 'numeric',
+  });
+  const outcome = contract.autoRenew
+    ? `Unless notice is given, it renews automatically${contract.renewalTermMonths ? ` for ${contract.renewalTermMonths} months` : ''}.`
+    : 'Unless it is renewed, it expires at the end of the term.';
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Open Sans', Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #2E456B 0%, #277493 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: white; padding: 30px; border: 1px solid #e0e0e0; }
+        .info-box { background: #f8f9fa; border-left: 4px solid #FEA002; padding: 15px; margin: 20px 0; border-radius: 4px; }
+        .footer { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; text-align: center; color: #666; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2 style="margin: 0; font-size: 24px;">Contract Renewal Notice</h2>
+          <p style="margin: 0; opacity: 0.9;">Health Trixss Compliance Hub</p>
+        </div>
+
+        <div class="content">
+          <h3>${escapeHtml(contract.title)}</h3>
+          <div class="info-box">
+            <p style="margin: 0;"><strong>Organization:</strong> ${escapeHtml(organizationName)}</p>
+            <p style="margin: 0;"><strong>Term ends:</strong> ${contract.endDate ? formatDate(contract.endDate) : 'Not set'}</p>
+            <p style="margin: 0;"><strong>Notice deadline:</strong> ${formatDate(noticeDeadline)}</p>
+          </div>
+          <p>${outcome} Record the decision to renew, renegotiate or let it expire on the Contracts page before the notice deadline.</p>
+        </div>
+
+        <div class="footer">
+          <p>Health Trixss LLC | Compliance Management System</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function generateCeilingEmailBody(contract: Contract, organizationName: string, threshold: number, consumed: number, ceiling: number): string {
+  const formatCurrency = (amount: number) => amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+  const remaining = ceiling - consumed;
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Open Sans', Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #2E456B 0%, #277493 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: white; padding: 30px; border: 1px solid #e0e0e0; }
+        .info-box { background: #f8f9fa; border-left: 4px solid ${threshold >= 100 ? '#dc3545' : '#FEA002'}; padding: 15px; margin: 20px 0; border-radius: 4px; }
+        .footer { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; text-align: center; color: #666; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2 style="margin: 0; font-size: 24px;">Contract Ceiling ${threshold}% Reached</h2>
+          <p style="margin: 0; opacity: 0.9;">Health Trixss Compliance Hub</p>
+        </div>
+
+        <div class="content">
+          <h3>${escapeHtml(contract.title)}</h3>
+          <div class="info-box">
+            <p style="margin: 0;"><strong>Organization:</strong> ${escapeHtml(organizationName)}</p>
+            <p style="margin: 0;"><strong>Ceiling:</strong> ${formatCurrency(ceiling)}</p>
+            <p style="margin: 0;"><strong>Billed to date:</strong> ${formatCurrency(consumed)} (${Math.round((consumed / ceiling) * 100)}%)</p>
+            <p style="margin: 0;"><strong>${remaining >= 0 ? 'Remaining' : 'Over ceiling by'}:</strong> ${formatCurrency(Math.abs(remaining))}</p>
+          </div>
+          <p>${remaining >= 0
+            ? 'Review the burn-down on the contract before billing further work, and raise the ceiling by amendment if more work is planned.'
+            : 'Billing has passed the not-to-exceed ceiling. Further invoices may be rejected until the ceiling is raised by amendment.'}</p>
+        </div>
+
+        <div class="footer">
+          <p>Health Trixss LLC | Compliance Management System</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function generatePasswordResetEmailBody(displayName: string, resetUrl: string, expiresInMinutes: number): string {
+  const url = escapeHtml(resetUrl);
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Open Sans', Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #2E456B 0%, #277493 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: white; padding: 30px; border: 1px solid #e0e0e0; }
+        .button { display: inline-block; padding: 12px 24px; background: #277493; color: white !important; text-decoration: none; border-radius: 6px; font-weight: bold; }
+        .footer { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; text-align: center; color: #666; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2 style="margin: 0; font-size: 24px;">Password Reset</h2>
+          <p style="margin: 0; opacity: 0.9;">Health Trixss Compliance Hub</p>
+        </div>
+
+        <div class="content">
+          <p>Hello ${escapeHtml(displayName)},</p>
+          <p>Someone asked to reset the password for your BizGov account. To choose a new password, click the button below.</p>
+          <p style="text-align: center; margin: 30px 0;"><a class="button" href="${url}">Reset Password</a></p>
+          <p>The link works once and expires in ${expiresInMinutes} minutes. If the button does not work, paste this address into your browser:</p>
+          <p style="word-break: break-all; font-size: 13px;">${url}</p>
+          <p>If you did not ask for this, you can ignore this email; your password has not changed.</p>
+        </div>
+
+        <div class="footer">
+          <p>Health Trixss LLC | Compliance Management System</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function generateInvitationEmailBody(inviterName: string, inviteUrl: string, expiresInDays: number): string {
+  const url = escapeHtml(inviteUrl);
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Open Sans', Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #2E456B 0%, #277493 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: white; padding: 30px; border: 1px solid #e0e0e0; }
+        .button { display: inline-block; padding: 12px 24px; background: #277493; color: white !important; text-decoration: none; border-radius: 6px; font-weight: bold; }
+        .footer { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; text-align: center; color: #666; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2 style="margin: 0; font-size: 24px;">You're Invited</h2>
+          <p style="margin: 0; opacity: 0.9;">Health Trixss Compliance Hub</p>
+        </div>
+
+        <div class="content">
+          <p>Hello,</p>
+          <p>${escapeHtml(inviterName)} has invited you to BizGov, the Health Trixss compliance hub. Click the button below to choose a username and password.</p>
+          <p style="text-align: center; margin: 30px 0;"><a class="button" href="${url}">Accept Invitation</a></p>
+          <p>The link works once and expires in ${expiresInDays} days. If the button does not work, paste this address into your browser:</p>
+          <p style="word-break: break-all; font-size: 13px;">${url}</p>
+          <p>If you were not expecting this invitation, you can ignore this email.</p>
+        </div>
+
+        <div class="footer">
+          <p>Health Trixss LLC | Compliance Management System</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function generateEmailBody(complianceItem: ComplianceItem, alertType: AlertType, offsetDays?: number): string {
   const formatDate = (date: Date | null) => {
     if (!date) return 'No due date';
     return new Intl.DateTimeFormat('en-US', {
@@ -298,8 +715,11 @@ function generateEmailBody(complianceItem: ComplianceItem, alertType: 'upcoming'
     }).format(new Date(date));
   };
   
-  const urgencyColor = alertType === 'overdue' ? '#dc3545' : '#ffc107';
-  const urgencyText = alertType === 'overdue' ? 'OVERDUE' : 'UPCOMING';
+  const urgencyColor = alertType === 'upcoming' ? '#ffc107' : '#dc3545';
+  const urgencyText = alertType.toUpperCase();
+  const situation = alertType === 'escalation'
+    ? `has been overdue for ${offsetDays} days and has been escalated to you`
+    : alertType === 'overdue' ? 'is overdue' : 'is due soon';
   
   return `
     <!DOCTYPE html>
@@ -337,7 +757,7 @@ function generateEmailBody(complianceItem: ComplianceItem, alertType: 'upcoming'
           <div class="alert-badge">${urgencyText}</div>
           
           <h3>Compliance Item Requires Attention</h3>
-          <p>The following compliance item ${alertType === 'overdue' ? 'is overdue' : 'is due soon'} and requires your immediate attention:</p>
+          <p>The following compliance item ${situation} and requires your immediate attention:</p>
           
           <div class="compliance-card">
             <div class="field">
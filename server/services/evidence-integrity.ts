@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Evidence } from '../../shared/schema';
+import { storage } from '../storage';
+
+const UPLOADS_DIR = 'uploads';
+
+export type IntegrityStatus = 'verified' | 'altered' | 'missing' | 'unhashed' | 'no_file';
+
+export interface EvidenceIntegrityResult {
+  evidenceId: string;
+  versionNumber?: number; // Set for files of earlier versions
+  title: string;
+  filePath: string | null;
+  status: IntegrityStatus;
+  expectedHash: string | null;
+  actualHash: string | null;
+  checkedAt: string;
+}
+
+export interface IntegrityScanResult {
+  scannedAt: string;
+  total: number;
+  verified: number;
+  altered: number;
+  missing: number;
+  unhashed: number;
+  backfilled: number;
+  results: EvidenceIntegrityResult[];
+  orphanedFiles: string[];
+}
+
+/**
+ * True when the stored value is an actual SHA-256 digest. Records created before
+ * hashing was implemented carry markers such as "hash_placeholder", "imported" or "restored".
+ */
+export function isSha256(hash: string | null | undefined): hash is string {
+  return !!hash && /^[a-f0-9]{64}$/i.test(hash);
+}
+
+export function hashBuffer(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Re-hash the file behind an evidence record and compare it with the hash recorded at upload.
+ */
+export async function verifyEvidence(evidence: Evidence): Promise<EvidenceIntegrityResult> {
+  const result: EvidenceIntegrityResult = {
+    evidenceId: evidence.id,
+    title: evidence.title,
+    filePath: evidence.filePath,
+    status: 'no_file',
+    expectedHash: isSha256(evidence.fileHash) ? evidence.fileHash : null,
+    actualHash: null,
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (!evidence.filePath) {
+    return result;
+  }
+
+  const absolutePath = path.resolve(evidence.filePath);
+  if (!fs.existsSync(absolutePath)) {
+    result.status = 'missing';
+    return result;
+  }
+
+  result.actualHash = await hashFile(absolutePath);
+
+  if (!result.expectedHash) {
+    result.status = 'unhashed';
+  } else {
+    result.status = result.actualHash === result.expectedHash.toLowerCase() ? 'verified' : 'altered';
+  }
+
+  return result;
+}
+
+/**
+ * Verify every evidence record and list files under uploads/ that no record points to.
+ * With `backfill`, records that predate hashing get the current file hash recorded
+ * so they can be verified from now on.
+ */
+export async function scanEvidenceIntegrity(options: { backfill?: boolean } = {}): Promise<IntegrityScanResult> {
+  const evidenceList = await storage.getEvidence();
+  const allVersions = await storage.getEvidenceVersions();
+  const results: EvidenceIntegrityResult[] = [];
+  let backfilled = 0;
+
+  for (const evidence of evidenceList) {
+    const result = await verifyEvidence(evidence);
+
+    const versions = allVersions.filter(v => v.evidenceId === evidence.id);
+
+    if (options.backfill && result.status === 'unhashed' && result.actualHash) {
+      await storage.updateEvidence(evidence.id, { fileHash: result.actualHash });
+      for (const version of versions.filter(v => v.filePath === evidence.filePath && !isSha256(v.fileHash))) {
+        await storage.updateEvidenceVersion(version.id, { fileHash: result.actualHash });
+      }
+      result.expectedHash = result.actualHash;
+      result.status = 'verified';
+      backfilled++;
+    }
+
+    results.push(result);
+
+    // Earlier versions stored in their own files
+    for (const version of versions.filter(v => v.filePath !== evidence.filePath)) {
+      const versionResult = await verifyEvidence({ ...evidence, ...version, id: evidence.id });
+
+      if (options.backfill && versionResult.status === 'unhashed' && versionResult.actualHash) {
+        await storage.updateEvidenceVersion(version.id, { fileHash: versionResult.actualHash });
+        versionResult.expectedHash = versionResult.actualHash;
+        versionResult.status = 'verified';
+        backfilled++;
+      }
+
+      results.push({ ...versionResult, versionNumber: version.versionNumber });
+    }
+  }
+
+  const referenced = new Set([
+    ...evidenceList.filter(e => e.filePath).map(e => path.resolve(e.filePath!)),
+    ...allVersions.map(v => path.resolve(v.filePath)),
+  ]);
+  const uploadsPath = path.resolve(UPLOADS_DIR);
+  const orphanedFiles = fs.existsSync(uploadsPath)
+    ? fs.readdirSync(uploadsPath, { withFileTypes: true })
+        .filter(entry => entry.isFile() && !referenced.has(path.join(uploadsPath, entry.name)))
+        .map(entry => path.join(UPLOADS_DIR, entry.name))
+    : [];
+
+  const count = (status: IntegrityStatus) => results.filter(r => r.status === status).length;
+
+  return {
+    scannedAt: new Date().toISOString(),
+    total: results.length,
+    verified: count('verified'),
+    altered: count('altered'),
+    missing: count('missing'),
+    unhashed: count('unhashed'),
+    backfilled,
+    results,
+    orphanedFiles,
+  };
+}
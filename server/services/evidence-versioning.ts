@@ -0,0 +1,65 @@
+import { Evidence, EvidenceVersion } from '../../shared/schema';
+import { storage } from '../storage';
+
+export interface VersionFile {
+  filePath: string;
+  fileHash: string | null;
+  originalFilename: string | null;
+  mimeType: string | null;
+}
+
+/**
+ * Return an evidence record's versions, newest first. Records whose file was attached
+ * before versioning existed get their current file recorded as version 1.
+ */
+export async function ensureVersionHistory(evidence: Evidence): Promise<EvidenceVersion[]> {
+  const versions = await storage.getEvidenceVersions(evidence.id);
+  if (versions.length > 0 || !evidence.filePath) {
+    return versions;
+  }
+
+  const initial = await storage.createEvidenceVersion({
+    evidenceId: evidence.id,
+    versionNumber: 1,
+    filePath: evidence.filePath,
+    fileHash: evidence.fileHash,
+    originalFilename: evidence.originalFilename,
+    mimeType: evidence.mimeType,
+    uploadedBy: evidence.uploadedBy,
+    createdAt: evidence.createdAt,
+  });
+  return [initial];
+}
+
+/**
+ * Make `file` the current file of an evidence record. Earlier versions and their files are kept.
+ */
+export async function addEvidenceVersion(
+  evidence: Evidence,
+  file: VersionFile,
+  uploadedBy: string,
+  restoredFromVersion?: number
+): Promise<{ evidence: Evidence; version: EvidenceVersion }> {
+  const versions = await ensureVersionHistory(evidence);
+  const versionNumber = versions.length > 0 ? versions[0].versionNumber + 1 : 1;
+
+  const version = await storage.createEvidenceVersion({
+    evidenceId: evidence.id,
+    versionNumber,
+    filePath: file.filePath,
+    fileHash: file.fileHash,
+    originalFilename: file.originalFilename,
+    mimeType: file.mimeType,
+    uploadedBy,
+    restoredFromVersion: restoredFromVersion ?? null,
+  });
+
+  const updated = await storage.updateEvidence(evidence.id, {
+    filePath: file.filePath,
+    fileHash: file.fileHash ?? undefined,
+    originalFilename: file.originalFilename ?? undefined,
+    mimeType: file.mimeType ?? undefined,
+  });
+
+  return { evidence: updated, version };
+}
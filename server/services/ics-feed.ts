@@ -0,0 +1,191 @@
+import { createHash, randomBytes } from 'crypto';
+import { AlertPolicy, ComplianceItem, Contract } from '../../shared/schema';
+import { parseEvidenceRequirements } from '../../shared/calendar';
+import { resolveReminderOffsets } from './alert-planner';
+import { RENEWAL_DECISION_LABELS, renewalStatus } from '../../shared/renewals';
+
+const PRODUCT_ID = '-//BizGov//Compliance Calendar//EN';
+
+// Calendar clients re-fetch subscriptions on their own schedule; this is a hint, not a guarantee
+const REFRESH_INTERVAL = 'PT1H';
+
+export const CONTRACT_END_REMINDER_OFFSETS = [90, 30, 7];
+
+export const RENEWAL_NOTICE_REMINDER_OFFSETS = [30, 7, 1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * New feed token for the subscription URL. Only its hash is stored, so the URL is shown once.
+ */
+export function generateFeedToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// RFC 5545 3.3.11: backslash, semicolon, comma and newlines are escaped in TEXT values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 3.1: lines longer than 75 octets are folded with CRLF followed by a space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function describeDaysAhead(days: number): string {
+  if (days === 0) return 'today';
+  return days === 1 ? 'tomorrow' : `in ${days} days`;
+}
+
+function alarmLines(daysBefore: number, description: string): string[] {
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(description)}`,
+    `TRIGGER:${daysBefore === 0 ? 'PT0S' : `-P${daysBefore}D`}`,
+    'END:VALARM',
+  ];
+}
+
+// Deadlines are all-day events that do not mark the attendee as busy
+function allDayEventLines(uid: string, date: Date, stamp: Date, lastModified: Date): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    `LAST-MODIFIED:${formatDateTime(lastModified)}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(new Date(date.getTime() + DAY_MS))}`,
+    'TRANSP:TRANSPARENT',
+  ];
+}
+
+export interface CalendarFeedInput {
+  name: string;
+  items: ComplianceItem[];
+  contracts: Contract[];
+  policies: AlertPolicy[];
+  organizationNames: Map<string, string>;
+  appUrl: string; // Base URL for links back to the item
+  now?: Date;
+}
+
+/**
+ * Render compliance item due dates, contract end dates and renewal notice deadlines as an iCalendar document.
+ * Open items carry reminders from their own schedule or their category's alert policy;
+ * completed items stay on the calendar without reminders, and N/A items are left out.
+ */
+export function buildCalendarFeed(input: CalendarFeedInput): string {
+  const now = input.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(input.name)}`,
+    `X-WR-CALNAME:${escapeText(input.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const item of input.items) {
+    if (!item.dueDate || item.status === 'na') continue;
+
+    const isClosed = item.status === 'complete';
+    const organizationName = input.organizationNames.get(item.customerId) || 'Unknown organization';
+    const evidence = parseEvidenceRequirements(item.evidenceRequirements);
+    const description = [
+      `Organization: ${organizationName}`,
+      `Category: ${item.category}${item.type ? ` (${item.type})` : ''}`,
+      `Responsible: ${item.responsibleParty}`,
+      `Status: ${item.status}`,
+      item.description ? `\n${item.description}` : null,
+      evidence.length > 0 ? `\nEvidence required:\n${evidence.map(e => `- ${e}`).join('\n')}` : null,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      ...allDayEventLines(`compliance-${item.id}@bizgov`, new Date(item.dueDate), now, new Date(item.updatedAt)),
+      `SUMMARY:${escapeText(`${isClosed ? 'Completed: ' : ''}${item.commitment}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${escapeText(item.category)}`,
+      `URL:${input.appUrl}/compliance?item=${item.id}`,
+    );
+    if (!isClosed) {
+      for (const offset of resolveReminderOffsets(item, input.policies)) {
+        lines.push(...alarmLines(offset, `${item.commitment} is due ${describeDaysAhead(offset)}`));
+      }
+    }
+    lines.push('END:VEVENT');
+  }
+
+  for (const contract of input.contracts) {
+    if (!contract.endDate) continue;
+
+    const organizationName = input.organizationNames.get(contract.customerId) || 'Unknown organization';
+    lines.push(
+      ...allDayEventLines(`contract-end-${contract.id}@bizgov`, new Date(contract.endDate), now, new Date(contract.updatedAt)),
+      `SUMMARY:${escapeText(`Contract ends: ${contract.title}`)}`,
+      `DESCRIPTION:${escapeText(`Organization: ${organizationName}${contract.maxAmount ? `\nCeiling: $${contract.maxAmount}` : ''}`)}`,
+      'CATEGORIES:Contract',
+    );
+    if (contract.isActive) {
+      for (const offset of CONTRACT_END_REMINDER_OFFSETS) {
+        lines.push(...alarmLines(offset, `${contract.title} ends ${describeDaysAhead(offset)}`));
+      }
+    }
+    lines.push('END:VEVENT');
+
+    // Contracts with a notice period get their own deadline while the decision is still open
+    const renewal = renewalStatus(contract, now);
+    if (!contract.isActive || !contract.noticePeriodDays || !renewal.noticeDeadline || !renewal.decisionPending) continue;
+
+    lines.push(
+      ...allDayEventLines(`contract-notice-${contract.id}@bizgov`, renewal.noticeDeadline, now, new Date(contract.updatedAt)),
+      `SUMMARY:${escapeText(`Renewal notice due: ${contract.title}`)}`,
+      `DESCRIPTION:${escapeText([
+        `Organization: ${organizationName}`,
+        `Notice period: ${contract.noticePeriodDays} days before the term ends`,
+        `Auto-renews: ${contract.autoRenew ? 'yes' : 'no'}`,
+        `Decision: ${RENEWAL_DECISION_LABELS[contract.renewalDecision]}`,
+      ].join('\n'))}`,
+      'CATEGORIES:Contract',
+    );
+    for (const offset of RENEWAL_NOTICE_REMINDER_OFFSETS) {
+      lines.push(...alarmLines(offset, `Renewal notice for ${contract.title} is due ${describeDaysAhead(offset)}`));
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,124 @@
+import { createHash, randomBytes } from 'crypto';
+import type { InsertUserInvitation, User, UserInvitation } from '../../shared/schema';
+import { storage } from '../storage';
+import { sendInvitationEmail } from './email-service';
+import { getLocalLoginPolicy } from './oidc';
+import { validatePassword } from './password-policy';
+
+// Invitations: an admin picks the role and organizations, and the person receives a single-use
+// signup link by email. Only the token's hash is stored.
+
+export const INVITATION_TTL_DAYS = 7;
+
+export class InvitationError extends Error {
+  constructor(message: string, public details?: string[]) {
+    super(message);
+  }
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function invitationOrganizationIds(invitation: Pick<UserInvitation, 'organizationIds'>): string[] {
+  return invitation.organizationIds ? invitation.organizationIds.split(',').filter(Boolean) : [];
+}
+
+function isPending(invitation: UserInvitation, now = new Date()) {
+  return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > now;
+}
+
+function newInvitationToken() {
+  const token = randomBytes(32).toString('base64url');
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+async function emailInvitation(invitation: UserInvitation, token: string, inviter: User, appUrl: string) {
+  const inviteUrl = `${appUrl}/accept-invite?token=${encodeURIComponent(token)}`;
+  await sendInvitationEmail(invitation.email, inviter.fullName || inviter.username, inviteUrl, INVITATION_TTL_DAYS);
+}
+
+/**
+ * Records an invitation and emails the signup link. With single sign-on enforced only admins
+ * sign in with a password, so everyone else joins through the identity provider instead.
+ */
+export async function createInvitation(input: InsertUserInvitation, inviter: User, appUrl: string): Promise<UserInvitation> {
+  if (await storage.getUserByEmail(input.email)) {
+    throw new InvitationError('A user with this email address already exists');
+  }
+  if (input.role !== 'admin' && (await getLocalLoginPolicy()) === 'admins') {
+    throw new InvitationError('Password sign-in is limited to admins; other users join through single sign-on');
+  }
+
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const invitation = await storage.createUserInvitation({
+    email: input.email,
+    fullName: input.fullName ?? null,
+    role: input.role ?? 'user',
+    allOrganizations: input.allOrganizations ?? true,
+    organizationIds: input.organizationIds?.length ? input.organizationIds.join(',') : null,
+    tokenHash,
+    invitedBy: inviter.id,
+    expiresAt,
+  });
+  await emailInvitation(invitation, token, inviter, appUrl);
+  return invitation;
+}
+
+export async function resendInvitation(invitation: UserInvitation, inviter: User, appUrl: string): Promise<UserInvitation> {
+  if (invitation.acceptedAt || invitation.revokedAt) {
+    throw new InvitationError('This invitation has already been used or revoked');
+  }
+  // A new link replaces the old one and restarts the expiry
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const updated = await storage.updateUserInvitation(invitation.id, { tokenHash, expiresAt });
+  await emailInvitation(updated, token, inviter, appUrl);
+  return updated;
+}
+
+// The invitation behind a signup link, or undefined when the link is unknown, used, revoked or expired
+export async function findPendingInvitation(rawToken: string): Promise<UserInvitation | undefined> {
+  const invitation = await storage.getUserInvitationByHash(hashInvitationToken(rawToken));
+  return invitation && isPending(invitation) ? invitation : undefined;
+}
+
+/**
+ * Creates the invited account with the role and organizations the admin chose. A taken username
+ * or a password that fails the policy leaves the link usable, so the person can try again.
+ */
+export async function acceptInvitation(
+  rawToken: string,
+  account: { username: string; password: string; fullName?: string | null },
+  hashPassword: (password: string) => Promise<string>
+): Promise<{ user: User; invitation: UserInvitation }> {
+  const invitation = await findPendingInvitation(rawToken);
+  if (!invitation) {
+    throw new InvitationError('This invitation is invalid or has expired. Ask an administrator to send a new one.');
+  }
+
+  if (await storage.getUserByUsername(account.username)) {
+    throw new InvitationError('That username is taken');
+  }
+
+  const problems = await validatePassword(account.password, { username: account.username, email: invitation.email });
+  if (problems.length > 0) {
+    throw new InvitationError('Password does not meet the password policy', problems);
+  }
+
+  const user = await storage.acceptUserInvitation(invitation.id, {
+    username: account.username,
+    password: await hashPassword(account.password),
+    role: invitation.role,
+    email: invitation.email,
+    fullName: account.fullName || invitation.fullName,
+    allOrganizations: invitation.allOrganizations,
+  }, invitation.allOrganizations ? [] : invitationOrganizationIds(invitation));
+  if (!user) {
+    throw new InvitationError('This invitation is invalid or has expired. Ask an administrator to send a new one.');
+  }
+  return { user, invitation };
+}
@@ -0,0 +1,264 @@
+import type { Contract, InvoiceWithLineItems, Organization } from '../../shared/schema';
+import { INVOICE_STATUS_LABELS } from '../../shared/invoices';
+import type { InvoiceSettings } from './invoices';
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+
+const ROW_HEIGHT = 16;
+const FIRST_PAGE_ROWS = 24;
+const ROWS_PER_PAGE = 36;
+
+// Helvetica advance widths (1/1000 em) for printable ASCII 32-126. Digits and the punctuation used
+// in amounts are the same width in Helvetica-Bold, so this also right-aligns bold totals.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+type Font = 'F1' | 'F2'; // Helvetica, Helvetica-Bold
+
+function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return width * size / 1000;
+}
+
+// Typographic characters WinAnsiEncoding places in 0x80-0x9F, where Latin-1 has control codes
+const WIN_ANSI_PUNCTUATION: Record<string, string> = {
+  '\u20ac': '\x80', '\u2026': '\x85', '\u2018': '\x91', '\u2019': '\x92', '\u201c': '\x93',
+  '\u201d': '\x94', '\u2022': '\x95', '\u2013': '\x96', '\u2014': '\x97',
+};
+
+// The standard fonts use WinAnsiEncoding, which otherwise matches Latin-1; anything else is
+// printed as '?'. Backslash and parentheses are escaped inside PDF string literals.
+function pdfString(text: string): string {
+  const winAnsi = Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (code <= 0x7e || (code >= 0xa0 && code <= 0xff)) return char;
+      return WIN_ANSI_PUNCTUATION[char] ?? '?';
+    })
+    .join('');
+  return `(${winAnsi.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+function truncate(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let truncated = text;
+  while (truncated.length > 0 && textWidth(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
+
+const currency = (amount: string | number) =>
+  Number(amount).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const date = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' }) : '';
+
+class PageContent {
+  private ops: string[] = [];
+
+  text(x: number, y: number, text: string, size = 10, font: Font = 'F1'): void {
+    this.ops.push(`BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  rightText(right: number, y: number, text: string, size = 10, font: Font = 'F1'): void {
+    this.text(right - textWidth(text, size), y, text, size, font);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.ops.push(`${width} w ${x1} ${y1} m ${x2} ${y2} l S`);
+  }
+
+  // Large diagonal gray stamp behind the content, e.g. DRAFT
+  watermark(text: string): void {
+    const size = 110;
+    const x = (PAGE_WIDTH - textWidth(text, size) * Math.SQRT1_2) / 2;
+    this.ops.unshift(`q 0.88 g BT /F2 ${size} Tf 0.7071 0.7071 -0.7071 0.7071 ${x.toFixed(2)} 220 Tm ${pdfString(text)} Tj ET Q`);
+  }
+
+  toString(): string {
+    return this.ops.join('\n');
+  }
+}
+
+// Column right edges and left edges for the line item table
+const COLUMNS = {
+  date: MARGIN,
+  description: MARGIN + 75,
+  unitsRight: 400,
+  rateRight: 480,
+  amountRight: PAGE_WIDTH - MARGIN,
+};
+
+function drawTableHeader(page: PageContent, y: number): number {
+  page.text(COLUMNS.date, y, 'Date', 9, 'F2');
+  page.text(COLUMNS.description, y, 'Description', 9, 'F2');
+  page.rightText(COLUMNS.unitsRight, y, 'Units', 9, 'F2');
+  page.rightText(COLUMNS.rateRight, y, 'Rate', 9, 'F2');
+  page.rightText(COLUMNS.amountRight, y, 'Amount', 9, 'F2');
+  page.line(MARGIN, y - 6, PAGE_WIDTH - MARGIN, y - 6);
+  return y - ROW_HEIGHT - 4;
+}
+
+function drawLetterhead(page: PageContent, invoice: InvoiceWithLineItems, organization: Organization, contract: Contract | undefined, settings: InvoiceSettings): number {
+  const top = PAGE_HEIGHT - MARGIN - 10;
+
+  page.text(MARGIN, top, settings.companyName, 18, 'F2');
+  let left = top - 16;
+  for (const addressLine of settings.companyAddress.split(/\r?\n/).filter(Boolean)) {
+    page.text(MARGIN, left, addressLine, 9);
+    left -= 12;
+  }
+
+  const right = PAGE_WIDTH - MARGIN;
+  page.rightText(right, top, 'INVOICE', 22, 'F2');
+  const details: Array<[string, string]> = [
+    ['Invoice #', invoice.invoiceNumber ?? 'Draft'],
+    ['Issue date', date(invoice.issueDate)],
+    ['Due date', date(invoice.dueDate)],
+    ['Terms', `Net ${invoice.netTermsDays}`],
+    ['Status', INVOICE_STATUS_LABELS[invoice.status]],
+  ];
+  let detailY = top - 20;
+  for (const [label, value] of details) {
+    if (!value) continue;
+    page.rightText(right - 110, detailY, label, 9, 'F2');
+    page.rightText(right, detailY, value, 9);
+    detailY -= 12;
+  }
+
+  let y = Math.min(left, detailY) - 20;
+  page.line(MARGIN, y + 10, PAGE_WIDTH - MARGIN, y + 10, 1);
+  page.text(MARGIN, y - 6, 'BILL TO', 8, 'F2');
+  page.text(MARGIN, y - 20, organization.name, 11, 'F2');
+  y -= 20;
+  if (contract) {
+    y -= 13;
+    page.text(MARGIN, y, truncate(`Contract: ${contract.title}`, 9, PAGE_WIDTH - 2 * MARGIN), 9);
+  }
+  return y - 30;
+}
+
+/**
+ * Render an invoice as a PDF on the company letterhead. Drafts and void invoices carry a stamp
+ * so they are not mistaken for a live invoice.
+ */
+export function renderInvoicePdf(
+  invoice: InvoiceWithLineItems,
+  organization: Organization,
+  contract: Contract | undefined,
+  settings: InvoiceSettings,
+): Buffer {
+  // Lines split across pages: fewer on the first page, under the letterhead
+  const chunks: Array<typeof invoice.lineItems> = [invoice.lineItems.slice(0, FIRST_PAGE_ROWS)];
+  for (let i = FIRST_PAGE_ROWS; i < invoice.lineItems.length; i += ROWS_PER_PAGE) {
+    chunks.push(invoice.lineItems.slice(i, i + ROWS_PER_PAGE));
+  }
+  // Totals need room of their own if the last page is full
+  const lastCapacity = chunks.length === 1 ? FIRST_PAGE_ROWS : ROWS_PER_PAGE;
+  if (chunks[chunks.length - 1].length > lastCapacity - 6) chunks.push([]);
+
+  const pages = chunks.map((lines, index) => {
+    const page = new PageContent();
+    let y = index === 0
+      ? drawLetterhead(page, invoice, organization, contract, settings)
+      : PAGE_HEIGHT - MARGIN - 10;
+    if (index > 0) {
+      page.text(MARGIN, y, `${settings.companyName} - Invoice ${invoice.invoiceNumber ?? 'Draft'} (continued)`, 9, 'F2');
+      y -= 24;
+    }
+
+    if (lines.length > 0) y = drawTableHeader(page, y);
+    for (const line of lines) {
+      page.text(COLUMNS.date, y, date(line.billingDate), 9);
+      page.text(COLUMNS.description, y, truncate(line.description, 9, COLUMNS.unitsRight - COLUMNS.description - 50), 9);
+      page.rightText(COLUMNS.unitsRight, y, Number(line.units).toString(), 9);
+      page.rightText(COLUMNS.rateRight, y, currency(line.rate), 9);
+      page.rightText(COLUMNS.amountRight, y, currency(line.amount), 9);
+      y -= ROW_HEIGHT;
+    }
+
+    if (index === chunks.length - 1) {
+      page.line(COLUMNS.unitsRight - 40, y + 6, PAGE_WIDTH - MARGIN, y + 6);
+      y -= 10;
+      const totals: Array<[string, string, Font]> = [
+        ['Subtotal', currency(invoice.subtotal), 'F1'],
+        [`Tax (${Number(invoice.taxRate)}%)`, currency(invoice.taxAmount), 'F1'],
+        ['Total Due', currency(invoice.total), 'F2'],
+      ];
+      for (const [label, value, font] of totals) {
+        page.rightText(COLUMNS.rateRight, y, label, 10, font);
+        page.rightText(COLUMNS.amountRight, y, value, 10, font);
+        y -= ROW_HEIGHT;
+      }
+
+      if (invoice.notes) {
+        y -= 14;
+        page.text(MARGIN, y, 'Notes', 9, 'F2');
+        for (const note of invoice.notes.split(/\r?\n/).slice(0, 6)) {
+          y -= 12;
+          page.text(MARGIN, y, truncate(note, 9, PAGE_WIDTH - 2 * MARGIN), 9);
+        }
+      }
+      if (invoice.status === 'void' && invoice.voidReason) {
+        y -= 18;
+        page.text(MARGIN, y, truncate(`Voided: ${invoice.voidReason}`, 9, PAGE_WIDTH - 2 * MARGIN), 9, 'F2');
+      }
+    }
+
+    page.rightText(PAGE_WIDTH - MARGIN, MARGIN - 20, `Page ${index + 1} of ${chunks.length}`, 8);
+    if (invoice.status === 'draft' || invoice.status === 'void') {
+      page.watermark(invoice.status === 'draft' ? 'DRAFT' : 'VOID');
+    }
+    return page.toString();
+  });
+
+  return buildPdf(pages);
+}
+
+// Object 1 is the catalog, 2 the page tree, 3 and 4 the fonts; each page then takes a page
+// object and a content stream object.
+function buildPdf(pageContents: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pageContents.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pageContents.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,150 @@
+import { storage } from '../storage';
+import type { BillableEvent, InsertBillableEvent, InsertInvoice, Invoice, InvoiceWithLineItems } from '../../shared/schema';
+import {
+  DEFAULT_INVOICE_PREFIX,
+  DEFAULT_NET_TERMS_DAYS,
+  INVOICE_STATUS_LABELS,
+  MAX_NET_TERMS_DAYS,
+  MAX_TAX_RATE,
+  canTransition,
+  type InvoiceStatus,
+} from '../../shared/invoices';
+import { subtreeIds } from './contract-hierarchy';
+
+export class InvoiceError extends Error {}
+
+export interface InvoiceSettings {
+  companyName: string;
+  companyAddress: string; // Letterhead lines, one per line
+  numberPrefix: string;
+  defaultTaxRate: number;
+  defaultNetTermsDays: number;
+}
+
+export async function getInvoiceSettings(): Promise<InvoiceSettings> {
+  const [companyName, companyAddress, numberPrefix, taxRate, netTerms] = await Promise.all([
+    storage.getSystemSetting('invoice_company_name'),
+    storage.getSystemSetting('invoice_company_address'),
+    storage.getSystemSetting('invoice_number_prefix'),
+    storage.getSystemSetting('invoice_default_tax_rate'),
+    storage.getSystemSetting('invoice_default_net_terms'),
+  ]);
+  const defaultTaxRate = Number(taxRate?.value);
+  const defaultNetTermsDays = Number(netTerms?.value);
+  return {
+    companyName: companyName?.value || 'BizGov',
+    companyAddress: companyAddress?.value || '',
+    numberPrefix: numberPrefix?.value || DEFAULT_INVOICE_PREFIX,
+    defaultTaxRate: defaultTaxRate >= 0 && defaultTaxRate <= MAX_TAX_RATE ? defaultTaxRate : 0,
+    defaultNetTermsDays: Number.isInteger(defaultNetTermsDays) && defaultNetTermsDays >= 0 && defaultNetTermsDays <= MAX_NET_TERMS_DAYS
+      ? defaultNetTermsDays
+      : DEFAULT_NET_TERMS_DAYS,
+  };
+}
+
+// Contract ids whose events an invoice may bill: the contract and everything beneath it
+async function billableContractIds(organizationId: string, contractId: string): Promise<string[]> {
+  const all = await storage.getContracts(organizationId);
+  const contract = all.find(c => c.id === contractId);
+  if (!contract) throw new InvoiceError("That contract does not belong to the invoice's organization");
+  return subtreeIds(contract, all);
+}
+
+/**
+ * Billable events for an organization, optionally limited to a contract and its child
+ * contracts, that are not on any invoice yet.
+ */
+export async function getUnbilledEvents(organizationId: string, contractId?: string | null): Promise<BillableEvent[]> {
+  const contractIds = contractId ? await billableContractIds(organizationId, contractId) : undefined;
+  return await storage.getUnbilledEvents(organizationId, contractIds);
+}
+
+/**
+ * Check that every event can go on the invoice: it exists, belongs to the invoice's organization
+ * and contract, and is not billed already (other than on `invoiceId` itself, when editing a draft).
+ */
+export async function checkInvoiceEvents(
+  invoice: Pick<InsertInvoice, 'customerId' | 'contractId' | 'billableEventIds'>,
+  invoiceId?: string,
+): Promise<void> {
+  const contractIds = invoice.contractId ? await billableContractIds(invoice.customerId, invoice.contractId) : null;
+  for (const id of invoice.billableEventIds) {
+    const event = await storage.getBillableEvent(id);
+    if (!event || event.customerId !== invoice.customerId) {
+      throw new InvoiceError("A selected billable event does not belong to the invoice's organization");
+    }
+    if (contractIds && !contractIds.includes(event.contractId ?? '')) {
+      throw new InvoiceError(`"${event.description}" is not billed against the invoice's contract`);
+    }
+    if ((event.invoiceId && event.invoiceId !== invoiceId) || (!event.invoiceId && event.invoiceNumber)) {
+      throw new InvoiceError(`"${event.description}" is already on ${event.invoiceNumber ? `invoice ${event.invoiceNumber}` : 'another draft invoice'}`);
+    }
+  }
+}
+
+export function checkTransition(invoice: Invoice, to: InvoiceStatus): void {
+  if (!canTransition(invoice.status, to)) {
+    throw new InvoiceError(`A ${INVOICE_STATUS_LABELS[invoice.status].toLowerCase()} invoice cannot be marked ${INVOICE_STATUS_LABELS[to].toLowerCase()}`);
+  }
+}
+
+export async function createInvoiceDraft(invoice: InsertInvoice, createdBy: string | null): Promise<InvoiceWithLineItems> {
+  await checkInvoiceEvents(invoice);
+  const draft = await storage.createInvoiceDraft(invoice, createdBy);
+  if (!draft) throw new InvoiceError('One of the selected events was billed on another invoice meanwhile; refresh and try again');
+  return draft;
+}
+
+export async function updateInvoiceDraft(invoice: Invoice, updates: Partial<InsertInvoice>): Promise<InvoiceWithLineItems> {
+  if (invoice.status !== 'draft') throw new InvoiceError('Only draft invoices can be edited');
+  if (updates.billableEventIds) {
+    await checkInvoiceEvents({ customerId: invoice.customerId, contractId: invoice.contractId, billableEventIds: updates.billableEventIds }, invoice.id);
+  }
+  const updated = await storage.updateInvoiceDraft(invoice.id, updates);
+  if (!updated) throw new InvoiceError('The invoice was issued or its events were billed elsewhere meanwhile; refresh and try again');
+  return updated;
+}
+
+export async function finalizeInvoice(invoice: Invoice, issueDate: Date): Promise<InvoiceWithLineItems> {
+  checkTransition(invoice, 'issued');
+  const { numberPrefix } = await getInvoiceSettings();
+  const issued = await storage.issueInvoice(invoice.id, issueDate, numberPrefix);
+  if (!issued) throw new InvoiceError('The invoice has no billable events or was already issued');
+  return issued;
+}
+
+export async function markInvoicePaid(invoice: Invoice, paidAt: Date): Promise<InvoiceWithLineItems> {
+  checkTransition(invoice, 'paid');
+  const paid = await storage.markInvoicePaid(invoice.id, paidAt);
+  if (!paid) throw new InvoiceError('The invoice is no longer awaiting payment');
+  return paid;
+}
+
+export async function voidInvoice(invoice: Invoice, reason: string): Promise<InvoiceWithLineItems> {
+  if (invoice.status === 'draft') throw new InvoiceError('Delete a draft invoice instead of voiding it');
+  checkTransition(invoice, 'void');
+  const voided = await storage.voidInvoice(invoice.id, reason);
+  if (!voided) throw new InvoiceError('The invoice is already void');
+  return voided;
+}
+
+/**
+ * Why a billable event cannot be changed, or deleted when `changes` is omitted, because of the
+ * invoice it is on; null if it can. Events on a draft may still be corrected in place.
+ */
+export async function invoiceLockReason(event: BillableEvent, changes?: Partial<InsertBillableEvent>): Promise<string | null> {
+  if (!event.invoiceId) return null;
+  const invoice = await storage.getInvoice(event.invoiceId);
+  if (!invoice) return null;
+  if (invoice.status !== 'draft') {
+    return `This event is billed on invoice ${invoice.invoiceNumber}; void the invoice to change it`;
+  }
+  if (!changes) return 'This event is on a draft invoice; remove it from the draft first';
+
+  const moved = (changes.customerId !== undefined && changes.customerId !== event.customerId)
+    || (changes.contractId !== undefined && (changes.contractId || null) !== event.contractId)
+    || (changes.invoiceNumber !== undefined && (changes.invoiceNumber || null) !== event.invoiceNumber);
+  return moved
+    ? 'This event is on a draft invoice; remove it from the draft before changing its organization, contract or invoice number'
+    : null;
+}
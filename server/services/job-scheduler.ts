@@ -0,0 +1,166 @@
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { JobRun, ScheduledJob } from '../../shared/schema';
+import { storage } from '../storage';
+import { getNextCronRun } from './cron';
+
+// How often each instance looks for due jobs
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// A claimed job is considered abandoned once its lock expires (e.g. the instance crashed mid-run)
+const LOCK_DURATION_MS = 30 * 60 * 1000;
+
+export type JobTrigger = 'schedule' | 'retry' | 'manual';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Default cron expression; admins can change it afterwards
+  maxRetries?: number;
+  retryDelaySeconds?: number;
+  handler: () => Promise<unknown>; // Resolved value is stored on the run as JSON
+}
+
+// Identifies this server process in job locks and run history
+export const instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+
+const definitions = new Map<string, JobDefinition>();
+let pollTimer: NodeJS.Timeout | null = null;
+
+export function registerJob(definition: JobDefinition): void {
+  definitions.set(definition.name, definition);
+}
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return definitions.get(name);
+}
+
+/**
+ * Make sure every registered job has a row, and give rows without a next run one.
+ */
+async function syncJobRows(): Promise<void> {
+  for (const definition of Array.from(definitions.values())) {
+    const job = await storage.ensureScheduledJob({
+      name: definition.name,
+      description: definition.description,
+      schedule: definition.schedule,
+      maxRetries: definition.maxRetries ?? 3,
+      retryDelaySeconds: definition.retryDelaySeconds ?? 300,
+    });
+
+    if (!job.nextRunAt) {
+      await storage.updateScheduledJob(job.name, { nextRunAt: getNextCronRun(job.schedule) });
+    }
+  }
+}
+
+/**
+ * Run a claimed job and record the outcome. Failures are retried with a linear backoff
+ * until maxRetries is reached; after that the job waits for its next scheduled time.
+ */
+async function executeJob(job: ScheduledJob, trigger: JobTrigger): Promise<JobRun> {
+  const definition = definitions.get(job.name);
+  const attempt = job.attempt + 1;
+
+  const run = await storage.createJobRun({
+    jobName: job.name,
+    attempt,
+    trigger,
+    instanceId,
+  });
+
+  try {
+    if (!definition) {
+      throw new Error(`No handler registered for job "${job.name}"`);
+    }
+
+    const result = await definition.handler();
+    const finishedAt = new Date();
+
+    await storage.updateScheduledJob(job.name, {
+      attempt: 0,
+      lastRunAt: finishedAt,
+      lastStatus: 'succeeded',
+      lastError: null,
+      nextRunAt: getNextCronRun(job.schedule, finishedAt),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+
+    return await storage.updateJobRun(run.id, {
+      status: 'succeeded',
+      result: result === undefined ? null : JSON.stringify(result),
+      finishedAt,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const finishedAt = new Date();
+    const willRetry = attempt < job.maxRetries;
+
+    console.error(`[jobs] ${job.name} failed (attempt ${attempt}/${job.maxRetries}):`, error);
+
+    await storage.updateScheduledJob(job.name, {
+      attempt: willRetry ? attempt : 0,
+      lastRunAt: finishedAt,
+      lastStatus: 'failed',
+      lastError: message,
+      nextRunAt: willRetry
+        ? new Date(finishedAt.getTime() + job.retryDelaySeconds * attempt * 1000)
+        : getNextCronRun(job.schedule, finishedAt),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+
+    return await storage.updateJobRun(run.id, {
+      status: 'failed',
+      error: message,
+      finishedAt,
+    });
+  }
+}
+
+async function pollDueJobs(): Promise<void> {
+  const jobs = await storage.getScheduledJobs();
+
+  for (const job of jobs) {
+    if (!definitions.has(job.name)) continue;
+
+    const claimed = await storage.claimScheduledJob(job.name, instanceId, new Date(Date.now() + LOCK_DURATION_MS));
+    if (!claimed) continue; // Not due, disabled, or another instance holds it
+
+    await executeJob(claimed, claimed.attempt > 0 ? 'retry' : 'schedule');
+  }
+}
+
+/**
+ * Run a job immediately, regardless of its schedule. Returns undefined when
+ * another run of the job is already in progress.
+ */
+export async function runJobNow(name: string): Promise<JobRun | undefined> {
+  const claimed = await storage.claimScheduledJob(name, instanceId, new Date(Date.now() + LOCK_DURATION_MS), true);
+  if (!claimed) return undefined;
+
+  return await executeJob(claimed, 'manual');
+}
+
+export async function startJobScheduler(): Promise<void> {
+  if (pollTimer) return;
+
+  await syncJobRows();
+
+  let polling = false;
+  pollTimer = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      await pollDueJobs();
+    } catch (error) {
+      console.error('[jobs] Error polling scheduled jobs:', error);
+    } finally {
+      polling = false;
+    }
+  }, POLL_INTERVAL_MS);
+  pollTimer.unref();
+
+  console.log(`[jobs] Scheduler started on ${instanceId} with ${definitions.size} jobs`);
+}
@@ -0,0 +1,68 @@
+import type { LoginThrottle } from '../../shared/schema';
+import { storage } from '../storage';
+
+// Progressive lockout for password sign-in. Failures are counted per username and per client
+// IP; past a threshold each further failure doubles the lock, up to a cap. A successful
+// sign-in clears the username's count but not the IP's, so one valid account cannot be used
+// to reset an address that is guessing at others.
+
+interface ThrottleRule {
+  threshold: number; // Failures allowed before the first lock
+  baseLockMs: number;
+  maxLockMs: number;
+}
+
+const USER_RULE: ThrottleRule = { threshold: 5, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 };
+const IP_RULE: ThrottleRule = { threshold: 20, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 };
+
+// Failures older than this are forgotten
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function userThrottleKey(username: string): string {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+export function ipThrottleKey(ipAddress: string | undefined): string {
+  return `ip:${ipAddress || 'unknown'}`;
+}
+
+export function lockDurationMs(failures: number, rule: ThrottleRule): number {
+  if (failures < rule.threshold) return 0;
+  return Math.min(rule.baseLockMs * 2 ** (failures - rule.threshold), rule.maxLockMs);
+}
+
+/**
+ * When the username or address is locked out, the time the lock ends; otherwise null.
+ */
+export async function getLoginLock(username: string, ipAddress: string | undefined): Promise<Date | null> {
+  const now = Date.now();
+  const throttles = await storage.getLoginThrottles([userThrottleKey(username), ipThrottleKey(ipAddress)]);
+  const lockedUntil = throttles
+    .map(throttle => throttle.lockedUntil?.getTime() ?? 0)
+    .filter(time => time > now);
+  return lockedUntil.length > 0 ? new Date(Math.max(...lockedUntil)) : null;
+}
+
+/**
+ * Counts a failed sign-in against the username and the address. Returns the throttles that
+ * this failure locked, for the audit log.
+ */
+export async function recordLoginFailure(username: string, ipAddress: string | undefined): Promise<LoginThrottle[]> {
+  const windowStart = new Date(Date.now() - FAILURE_WINDOW_MS);
+  const locked: LoginThrottle[] = [];
+
+  for (const [key, rule] of [[userThrottleKey(username), USER_RULE], [ipThrottleKey(ipAddress), IP_RULE]] as const) {
+    const throttle = await storage.recordLoginFailure(key, windowStart);
+    const duration = lockDurationMs(throttle.failures, rule);
+    if (duration > 0) {
+      const lockedUntil = new Date(Date.now() + duration);
+      await storage.setLoginLock(key, lockedUntil);
+      locked.push({ ...throttle, lockedUntil });
+    }
+  }
+  return locked;
+}
+
+export async function clearLoginFailures(username: string): Promise<void> {
+  await storage.deleteLoginThrottle(userThrottleKey(username));
+}
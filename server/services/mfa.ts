@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import type { User, UserMfa } from '../../shared/schema';
+import { storage } from '../storage';
+import { decryptSecret, encryptSecret } from './secrets';
+
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30-second steps, 6 digits), the
+// defaults every authenticator app supports, plus single-use recovery codes.
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept the previous and next step to allow for clock drift
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const MFA_ISSUER = 'BizGov';
+
+export type MfaPolicy = 'optional' | 'admins' | 'all';
+
+export const MFA_POLICIES: MfaPolicy[] = ['optional', 'admins', 'all'];
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Returns the matching time step, or null. Callers must still reject steps at or before the
+// last one used so a code cannot be replayed.
+export function verifyTotpCode(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = currentTotpStep(now);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = Buffer.from(generateTotpCode(secret, current + offset));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+/**
+ * Starts (or restarts) enrollment with a new secret. It is stored encrypted like the other
+ * secrets; the plaintext goes back to the user once, for their authenticator app.
+ */
+export async function startTotpEnrollment(userId: string, accountName: string) {
+  const secret = generateTotpSecret();
+  await storage.saveUserMfaSecret(userId, encryptSecret(secret));
+  return await buildEnrollment(secret, accountName);
+}
+
+// Checks a code against the stored secret, which is plaintext if saved before encryption
+export function verifyStoredTotpCode(mfa: Pick<UserMfa, 'secret'>, code: string): number | null {
+  return verifyTotpCode(decryptSecret(mfa.secret), code);
+}
+
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export async function buildEnrollment(secret: string, accountName: string) {
+  const otpauthUrl = buildOtpauthUrl(secret, accountName);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 }),
+  };
+}
+
+// Recovery codes look like "k4m9-x2qa-7fhd"; they are compared case-insensitively without dashes
+export function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.randomBytes(12), (byte: number) => alphabet[byte % alphabet.length]).join('');
+    return chars.match(/.{4}/g)!.join('-');
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceMfaRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+export async function getMfaPolicy(): Promise<MfaPolicy> {
+  const setting = await storage.getSystemSetting('mfa_policy');
+  return MFA_POLICIES.includes(setting?.value as MfaPolicy) ? (setting!.value as MfaPolicy) : 'optional';
+}
+
+export function isMfaRequired(user: Pick<User, 'role'>, policy: MfaPolicy): boolean {
+  return policy === 'all' || (policy === 'admins' && user.role === 'admin');
+}
+
+// Checks a sign-in code: a TOTP code from the confirmed authenticator, or an unused recovery code
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<'totp' | 'recovery_code' | null> {
+  const mfa = await storage.getUserMfa(userId);
+  if (!mfa?.confirmedAt) return null;
+
+  if (input.code) {
+    const step = verifyStoredTotpCode(mfa, input.code);
+    if (step === null) return null;
+    return (await storage.recordMfaStep(userId, step)) ? 'totp' : null;
+  }
+  if (input.recoveryCode) {
+    return (await storage.consumeMfaRecoveryCode(userId, hashRecoveryCode(input.recoveryCode))) ? 'recovery_code' : null;
+  }
+  return null;
+}
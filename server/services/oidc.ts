@@ -0,0 +1,413 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { SystemSetting } from '../../shared/schema';
+import { storage } from '../storage';
+import { decryptSecret } from './secrets';
+
+// OpenID Connect authorization code flow with PKCE (RFC 7636), implemented on node's crypto
+// so any standards-compliant provider works: Microsoft Entra ID, Google, Okta, Keycloak, or
+// the mock provider in server/mock-oidc-provider.ts for local testing.
+
+export const OIDC_PROVIDER_KEY_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+const DEFAULT_SCOPES = 'openid profile email';
+const DEFAULT_ROLE_CLAIM = 'groups';
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const JWKS_TTL_MS = 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 60 * 1000; // Unknown key ids trigger a refetch, at most once a minute
+const CLOCK_SKEW_SECONDS = 120;
+
+export type SsoLocalLoginPolicy = 'all' | 'admins';
+
+export interface OidcProvider {
+  key: string; // Used in setting keys and callback URLs
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string; // As stored, possibly encrypted; decrypted only for the token exchange
+  scopes: string;
+  enabled: boolean;
+  autoProvision: boolean; // Create accounts on first sign-in
+  linkExistingUsers: boolean; // Match a first sign-in to an existing account by email
+  roleClaim: string; // Claim holding groups or roles; dotted paths reach nested claims
+  adminValues: string[]; // Claim values that map to the admin role
+  userValues: string[]; // Claim values allowed to sign in as users; empty allows everyone
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+// State kept in the session between the redirect to the provider and the callback
+export interface PendingOidcLogin {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+export class OidcError extends Error {}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKeyWithId[]; fetchedAt: number }>();
+
+export function oidcSettingKey(provider: string, field: string): string {
+  return `oidc_${provider}_${field}`;
+}
+
+// Settings hold lists one per line or comma-separated
+export function parseValueList(value: string | null | undefined): string[] {
+  return (value || '').split(/[\n,]/).map(v => v.trim()).filter(Boolean);
+}
+
+function readProvider(key: string, settings: Map<string, string>): OidcProvider {
+  const get = (field: string) => settings.get(oidcSettingKey(key, field)) || '';
+  return {
+    key,
+    displayName: get('display_name') || key,
+    issuer: get('issuer'),
+    clientId: get('client_id'),
+    clientSecret: get('client_secret'),
+    scopes: get('scopes') || DEFAULT_SCOPES,
+    enabled: get('enabled') === 'true',
+    autoProvision: get('auto_provision') !== 'false',
+    linkExistingUsers: get('link_existing_users') === 'true',
+    roleClaim: get('role_claim') || DEFAULT_ROLE_CLAIM,
+    adminValues: parseValueList(get('admin_values')),
+    userValues: parseValueList(get('user_values')),
+  };
+}
+
+function toSettingsMap(settings: SystemSetting[]): Map<string, string> {
+  return new Map(settings.map(s => [s.key, s.value || '']));
+}
+
+/**
+ * All configured providers, enabled or not. A provider exists once its issuer setting is saved.
+ */
+export async function getOidcProviders(): Promise<OidcProvider[]> {
+  const settings = toSettingsMap(await storage.getAllSystemSettings());
+  const keys = Array.from(settings.keys())
+    .map(key => key.match(/^oidc_([a-z0-9-]+)_issuer$/)?.[1])
+    .filter((key): key is string => !!key)
+    .sort();
+  return keys.map(key => readProvider(key, settings));
+}
+
+export async function getOidcProvider(key: string): Promise<OidcProvider | undefined> {
+  const providers = await getOidcProviders();
+  return providers.find(p => p.key === key);
+}
+
+export async function getLocalLoginPolicy(): Promise<SsoLocalLoginPolicy> {
+  const setting = await storage.getSystemSetting('sso_local_login');
+  return setting?.value === 'admins' ? 'admins' : 'all';
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+async function discover(issuer: string): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document;
+  }
+
+  let document: DiscoveryDocument;
+  try {
+    const response = await axios.get(`${trimSlash(issuer)}/.well-known/openid-configuration`, { timeout: 10000 });
+    document = response.data;
+  } catch (error) {
+    throw new OidcError(`Could not load the provider configuration from ${issuer}`);
+  }
+
+  // OpenID Connect Discovery 4.3: the document must be for the issuer it was fetched from
+  if (!document?.issuer || trimSlash(document.issuer) !== trimSlash(issuer)) {
+    throw new OidcError(`Provider configuration is for issuer ${document?.issuer}, not ${issuer}`);
+  }
+  for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (!document[field]) throw new OidcError(`Provider configuration has no ${field}`);
+  }
+
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+async function getSigningKeys(jwksUri: string, refresh: boolean): Promise<JsonWebKeyWithId[]> {
+  const cached = jwksCache.get(jwksUri);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  if (cached && age < JWKS_TTL_MS && (!refresh || age < JWKS_MIN_REFRESH_MS)) {
+    return cached.keys;
+  }
+
+  try {
+    const response = await axios.get(jwksUri, { timeout: 10000 });
+    const keys: JsonWebKeyWithId[] = (response.data?.keys || []).filter((k: JsonWebKeyWithId) => !k.use || k.use === 'sig');
+    jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    return keys;
+  } catch (error) {
+    throw new OidcError('Could not load the provider signing keys');
+  }
+}
+
+function base64UrlSha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+/**
+ * Build the authorization request for a provider. The returned login must be kept in the
+ * session and passed back to completeOidcLogin with the callback parameters.
+ */
+export async function beginOidcLogin(provider: OidcProvider, redirectUri: string): Promise<{ url: string; pending: PendingOidcLogin }> {
+  const discovery = await discover(provider.issuer);
+  const pending: PendingOidcLogin = {
+    provider: provider.key,
+    state: crypto.randomBytes(32).toString('base64url'),
+    nonce: crypto.randomBytes(32).toString('base64url'),
+    codeVerifier: crypto.randomBytes(32).toString('base64url'),
+    redirectUri,
+    createdAt: Date.now(),
+  };
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes.includes('openid') ? provider.scopes : `openid ${provider.scopes}`,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: base64UrlSha256(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  const separator = discovery.authorization_endpoint.includes('?') ? '&' : '?';
+  return { url: `${discovery.authorization_endpoint}${separator}${params.toString()}`, pending };
+}
+
+async function exchangeCode(provider: OidcProvider, discovery: DiscoveryDocument, code: string, pending: PendingOidcLogin) {
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+  };
+
+  // client_secret_basic is the spec default; use client_secret_post only when it is the one offered
+  const authMethods = discovery.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+  const clientSecret = decryptSecret(provider.clientSecret);
+  if (!clientSecret) {
+    params.set('client_id', provider.clientId);
+  } else if (authMethods.includes('client_secret_basic')) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    params.set('client_id', provider.clientId);
+    params.set('client_secret', clientSecret);
+  }
+
+  try {
+    const response = await axios.post(discovery.token_endpoint, params.toString(), { headers, timeout: 10000 });
+    return response.data as { id_token?: string; access_token?: string };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error('OIDC token exchange error:', error.response?.data);
+      const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      throw new OidcError(`Token exchange failed: ${reason}`);
+    }
+    throw error;
+  }
+}
+
+// JWS algorithms accepted for ID tokens. "none" and the HMAC family are deliberately absent.
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; padding?: number; saltLength?: number; ec?: boolean }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+  PS384: { hash: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 },
+  PS512: { hash: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 },
+  ES256: { hash: 'sha256', ec: true },
+  ES384: { hash: 'sha384', ec: true },
+  ES512: { hash: 'sha512', ec: true },
+};
+
+function decodeJwtPart(part: string): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  } catch {
+    throw new OidcError('ID token is malformed');
+  }
+  if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) throw new OidcError('ID token is malformed');
+  return decoded as Record<string, unknown>;
+}
+
+// Keep the standard claims only when they have the type OpenID Connect gives them
+function toOidcClaims(raw: Record<string, unknown>): OidcClaims {
+  const claims: OidcClaims = { ...raw, sub: String(raw.sub) };
+  for (const key of ['email', 'name', 'preferred_username'] as const) {
+    if (typeof raw[key] !== 'string') delete claims[key];
+  }
+  if (typeof raw.email_verified !== 'boolean') delete claims.email_verified;
+  return claims;
+}
+
+/**
+ * Verify an ID token's signature against the provider's published keys and check the claims
+ * required by OpenID Connect Core 3.1.3.7: issuer, audience, authorized party, expiry and nonce.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: { issuer: string; clientId: string; jwksUri: string; nonce: string; now?: number },
+): Promise<OidcClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) throw new OidcError('ID token is malformed');
+
+  const header = decodeJwtPart(parts[0]);
+  const claims = decodeJwtPart(parts[1]);
+  const alg = typeof header.alg === 'string' ? header.alg : '';
+  const kid = typeof header.kid === 'string' ? header.kid : undefined;
+  const algorithm = Object.prototype.hasOwnProperty.call(SIGNATURE_ALGORITHMS, alg) ? SIGNATURE_ALGORITHMS[alg] : undefined;
+  if (!algorithm) throw new OidcError(`ID token algorithm ${String(header.alg)} is not accepted`);
+
+  const findKey = (keys: JsonWebKeyWithId[]) => {
+    const candidates = keys.filter(k => !k.alg || k.alg === alg);
+    return kid ? candidates.find(k => k.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  };
+  const jwk = findKey(await getSigningKeys(options.jwksUri, false)) || findKey(await getSigningKeys(options.jwksUri, true));
+  if (!jwk) throw new OidcError('ID token was signed with an unknown key');
+
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  const verified = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    algorithm.ec
+      ? { key, dsaEncoding: 'ieee-p1363' }
+      : algorithm.padding !== undefined
+        ? { key, padding: algorithm.padding, saltLength: algorithm.saltLength }
+        : key,
+    Buffer.from(parts[2], 'base64url'),
+  );
+  if (!verified) throw new OidcError('ID token signature is invalid');
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const audiences = (Array.isArray(claims.aud) ? claims.aud : [claims.aud]).filter((aud): aud is string => typeof aud === 'string');
+  if (trimSlash(String(claims.iss)) !== trimSlash(options.issuer)) throw new OidcError('ID token issuer does not match');
+  if (!audiences.includes(options.clientId)) throw new OidcError('ID token was not issued for this application');
+  if (audiences.length > 1 && claims.azp && claims.azp !== options.clientId) {
+    throw new OidcError('ID token authorized party does not match');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new OidcError('ID token has expired');
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new OidcError('ID token was issued in the future');
+  if (typeof claims.nonce !== 'string' || claims.nonce !== options.nonce) throw new OidcError('ID token nonce does not match');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new OidcError('ID token has no subject');
+
+  return toOidcClaims(claims);
+}
+
+/**
+ * Finish the authorization code flow: check the returned state, redeem the code with the PKCE
+ * verifier and return the verified ID token claims, topped up from the userinfo endpoint when
+ * the ID token leaves out the email or role claim.
+ */
+export async function completeOidcLogin(
+  provider: OidcProvider,
+  pending: PendingOidcLogin,
+  callback: { code?: string; state?: string },
+): Promise<OidcClaims> {
+  if (!callback.state || !timingSafeStringEqual(callback.state, pending.state)) {
+    throw new OidcError('Sign-in state does not match; start the sign-in again');
+  }
+  if (!callback.code) throw new OidcError('Provider did not return an authorization code');
+
+  const discovery = await discover(provider.issuer);
+  const tokens = await exchangeCode(provider, discovery, callback.code, pending);
+  if (!tokens.id_token) throw new OidcError('Provider did not return an ID token');
+
+  const claims = await verifyIdToken(tokens.id_token, {
+    issuer: discovery.issuer,
+    clientId: provider.clientId,
+    jwksUri: discovery.jwks_uri,
+    nonce: pending.nonce,
+  });
+
+  const needsUserInfo = !claims.email || getClaimValues(claims, provider.roleClaim).length === 0;
+  if (needsUserInfo && discovery.userinfo_endpoint && tokens.access_token) {
+    try {
+      const response = await axios.get(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+        timeout: 10000,
+      });
+      // OpenID Connect Core 5.3.2: userinfo is only trusted when its subject matches the ID token
+      if (response.data?.sub === claims.sub) {
+        return toOidcClaims({ ...response.data, ...claims });
+      }
+    } catch (error) {
+      console.error('OIDC userinfo request failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return claims;
+}
+
+function timingSafeStringEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function getClaim(claims: Record<string, unknown>, path: string): unknown {
+  if (path in claims) return claims[path];
+  return path.split('.').reduce<unknown>(
+    (value, segment) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+    claims,
+  );
+}
+
+// Group and role claims arrive as arrays or as a single string, depending on the provider
+export function getClaimValues(claims: Record<string, unknown>, path: string): string[] {
+  const value = getClaim(claims, path);
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  return [];
+}
+
+/**
+ * Map the user's role claim to an application role. Returns null when the provider restricts
+ * sign-in to listed values and the user has none of them.
+ */
+export function resolveOidcRole(provider: OidcProvider, claims: Record<string, unknown>): 'admin' | 'user' | null {
+  const values = new Set(getClaimValues(claims, provider.roleClaim).map(v => v.toLowerCase()));
+  const matches = (list: string[]) => list.some(v => values.has(v.toLowerCase()));
+
+  if (matches(provider.adminValues)) return 'admin';
+  if (provider.userValues.length === 0 || matches(provider.userValues)) return 'user';
+  return null;
+}
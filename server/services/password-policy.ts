@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+
+// Password rules for local accounts, applied wherever a password is set: registration,
+// admin user management and password reset. Existing passwords keep working until changed.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireMixedCharacters: boolean; // At least three of: lowercase, uppercase, digits, symbols
+  blockBreached: boolean; // Reject passwords on the bundled breach list
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  requireMixedCharacters: false,
+  blockBreached: true,
+};
+
+export const PASSWORD_MIN_LENGTH_LIMITS = { min: 8, max: 128 };
+
+const BREACHED_PASSWORDS_FILE = path.resolve(process.cwd(), 'server/data/breached-passwords.txt');
+
+let breachedPasswords: Set<string> | undefined;
+
+// Loaded on first use and kept in memory (about 10,000 entries)
+function getBreachedPasswords(): Set<string> {
+  if (!breachedPasswords) {
+    const lines = fs.readFileSync(BREACHED_PASSWORDS_FILE, 'utf8').split('\n');
+    breachedPasswords = new Set(lines.map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+  }
+  return breachedPasswords;
+}
+
+export function isBreachedPassword(password: string): boolean {
+  return getBreachedPasswords().has(password.toLowerCase());
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const [minLength, requireMixed, blockBreached] = await Promise.all([
+    storage.getSystemSetting('password_min_length'),
+    storage.getSystemSetting('password_require_mixed'),
+    storage.getSystemSetting('password_block_breached'),
+  ]);
+  const length = Number(minLength?.value);
+  return {
+    minLength: Number.isInteger(length) && length >= PASSWORD_MIN_LENGTH_LIMITS.min
+      ? Math.min(length, PASSWORD_MIN_LENGTH_LIMITS.max)
+      : DEFAULT_PASSWORD_POLICY.minLength,
+    requireMixedCharacters: requireMixed ? requireMixed.value === 'true' : DEFAULT_PASSWORD_POLICY.requireMixedCharacters,
+    blockBreached: blockBreached ? blockBreached.value === 'true' : DEFAULT_PASSWORD_POLICY.blockBreached,
+  };
+}
+
+/**
+ * Every way the password falls short of the policy, as messages for the user; empty when it passes.
+ */
+export function checkPassword(
+  password: string,
+  policy: PasswordPolicy,
+  account: { username?: string | null; email?: string | null } = {}
+): string[] {
+  const problems: string[] = [];
+
+  if (password.length < policy.minLength) {
+    problems.push(`Use at least ${policy.minLength} characters.`);
+  }
+  if (password.length > PASSWORD_MIN_LENGTH_LIMITS.max) {
+    problems.push(`Use at most ${PASSWORD_MIN_LENGTH_LIMITS.max} characters.`);
+  }
+
+  if (policy.requireMixedCharacters) {
+    const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+    if (classes < 3) {
+      problems.push('Use at least three of: lowercase letters, uppercase letters, numbers and symbols.');
+    }
+  }
+
+  const lower = password.toLowerCase();
+  const emailName = account.email?.split('@')[0];
+  if ([account.username, emailName].some(part => part && part.length >= 3 && lower.includes(part.toLowerCase()))) {
+    problems.push('Do not include your username or email address.');
+  }
+
+  if (policy.blockBreached && isBreachedPassword(password)) {
+    problems.push('This password appears in lists of breached passwords. Choose a different one.');
+  }
+
+  return problems;
+}
+
+export async function validatePassword(password: string, account?: { username?: string | null; email?: string | null }): Promise<string[]> {
+  return checkPassword(password, await getPasswordPolicy(), account);
+}
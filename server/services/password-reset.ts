@@ -0,0 +1,100 @@
+import { createHash, randomBytes } from 'crypto';
+import type { User } from '../../shared/schema';
+import { storage } from '../storage';
+import { sendPasswordResetEmail } from './email-service';
+import { getLocalLoginPolicy } from './oidc';
+import { validatePassword } from './password-policy';
+import { clearLoginFailures } from './login-throttle';
+
+// Self-service password reset: a single-use link, valid for an hour, emailed through Microsoft Graph.
+// Only the token's hash is stored.
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Reset emails per account per hour, so the form cannot be used to flood someone's inbox
+const MAX_RESET_REQUESTS_PER_HOUR = 3;
+
+export class PasswordResetError extends Error {
+  constructor(message: string, public details?: string[]) {
+    super(message);
+  }
+}
+
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export type ResetRequestOutcome = 'sent' | 'send_failed' | 'unknown_email' | 'not_allowed' | 'rate_limited';
+
+/**
+ * Emails a reset link when the address belongs to an account that may use a password.
+ * The caller answers the same way whatever the outcome, so the form does not reveal which
+ * addresses have accounts; a failed send is logged rather than thrown for the same reason.
+ */
+export async function requestPasswordReset(
+  email: string,
+  options: { appUrl: string; ipAddress?: string }
+): Promise<{ outcome: ResetRequestOutcome; user?: User }> {
+  const user = await storage.getUserByEmail(email.trim());
+  if (!user?.email) return { outcome: 'unknown_email' };
+  if (user.deactivatedAt) return { outcome: 'not_allowed', user };
+
+  // With single sign-on enforced, only break-glass admins keep a password
+  if (user.role !== 'admin' && (await getLocalLoginPolicy()) === 'admins') {
+    return { outcome: 'not_allowed', user };
+  }
+
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+  if ((await storage.countRecentPasswordResetTokens(user.id, since)) >= MAX_RESET_REQUESTS_PER_HOUR) {
+    return { outcome: 'rate_limited', user };
+  }
+
+  // A new link replaces any earlier one
+  await storage.invalidatePasswordResetTokens(user.id);
+  const token = randomBytes(32).toString('base64url');
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashResetToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    requestedIp: options.ipAddress ?? null,
+  });
+
+  const resetUrl = `${options.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  try {
+    await sendPasswordResetEmail(user.email, user.fullName || user.username, resetUrl, RESET_TOKEN_TTL_MINUTES);
+  } catch (error) {
+    console.error('Failed to send password reset email:', error);
+    return { outcome: 'send_failed', user };
+  }
+  return { outcome: 'sent', user };
+}
+
+/**
+ * Sets a new password from a reset link and clears any sign-in lockout on the account.
+ * A password that fails the policy leaves the link usable, so the user can try another.
+ */
+export async function resetPassword(rawToken: string, newPassword: string, hashPassword: (password: string) => Promise<string>): Promise<User> {
+  const token = await storage.getPasswordResetTokenByHash(hashResetToken(rawToken));
+  if (!token || token.usedAt || token.expiresAt <= new Date()) {
+    throw new PasswordResetError('This reset link is invalid or has expired. Request a new one.');
+  }
+
+  const user = await storage.getUser(token.userId);
+  if (!user || user.deactivatedAt) {
+    throw new PasswordResetError('This reset link is invalid or has expired. Request a new one.');
+  }
+
+  const problems = await validatePassword(newPassword, user);
+  if (problems.length > 0) {
+    throw new PasswordResetError('Password does not meet the password policy', problems);
+  }
+
+  if (!(await storage.consumePasswordResetToken(token.id))) {
+    throw new PasswordResetError('This reset link is invalid or has expired. Request a new one.');
+  }
+
+  const updated = await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+  await storage.invalidatePasswordResetTokens(user.id);
+  await clearLoginFailures(user.username);
+  return updated;
+}
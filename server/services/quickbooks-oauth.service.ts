@@ -1,5 +1,6 @@
 import axios from 'axios';
 import crypto from 'crypto';
+import { decryptSecret } from './secrets';
 
 // QuickBooks OAuth 2.0 configuration
 const QB_AUTH_URL = 'https://appcenter.intuit.com/connect/oauth2';
@@ -217,7 +218,7 @@ export async function createQuickBooksOAuthService(storage?: any): Promise<Quick
       const prefix = activeConfig === 'prod' ? 'qb_prod_' : 'qb_dev_';
       
       clientId = settingsMap[`${prefix}client_id`] || settingsMap.qb_client_id || '';
-      clientSecret = settingsMap[`${prefix}client_secret`] || settingsMap.qb_client_secret || '';
+      clientSecret = decryptSecret(settingsMap[`${prefix}client_secret`] || settingsMap.qb_client_secret);
       redirectUri = settingsMap[`${prefix}redirect_uri`] || settingsMap.qb_redirect_uri || '';
       
       // Environment is always based on active config
@@ -1,6 +1,7 @@
 import axios, { AxiosError } from 'axios';
 import { QuickBooksOAuthService } from './quickbooks-oauth.service';
 import { storage } from '../storage';
+import { decryptSecret, encryptSecret } from './secrets';
 import type { QuickbooksConnection, InsertQuickbooksInvoice } from '../../shared/schema';
 
 export interface QuickBooksCustomer {
@@ -54,19 +55,19 @@ export class QuickBooksSyncService {
       console.log('Access token expired, refreshing...');
       
       try {
-        const tokenResponse = await this.oauthService.refreshAccessToken(connection.refreshToken);
+        const tokenResponse = await this.oauthService.refreshAccessToken(decryptSecret(connection.refreshToken));
         
         // Update connection with new tokens
-        const updatedConnection = await storage.updateQuickbooksConnection(connection.organizationId, {
-          accessToken: tokenResponse.access_token,
-          refreshToken: tokenResponse.refresh_token,
+        await storage.updateQuickbooksConnection(connection.organizationId, {
+          accessToken: encryptSecret(tokenResponse.access_token),
+          refreshToken: encryptSecret(tokenResponse.refresh_token),
           accessTokenExpiresAt: this.oauthService.calculateExpiryDate(tokenResponse.expires_in),
           refreshTokenExpiresAt: this.oauthService.calculateExpiryDate(tokenResponse.x_refresh_token_expires_in),
           status: 'connected',
           errorMessage: null,
         });
         
-        return updatedConnection.accessToken;
+        return tokenResponse.access_token;
       } catch (error) {
         // If refresh fails, mark connection as token_expired
         await storage.updateQuickbooksConnection(connection.organizationId, {
@@ -77,7 +78,7 @@ export class QuickBooksSyncService {
       }
     }
     
-    return connection.accessToken;
+    return decryptSecret(connection.accessToken);
   }
 
   /**
@@ -110,11 +111,11 @@ export class QuickBooksSyncService {
           console.log('Got 401, attempting token refresh...');
           
           try {
-            const tokenResponse = await this.oauthService.refreshAccessToken(connection.refreshToken);
+            const tokenResponse = await this.oauthService.refreshAccessToken(decryptSecret(connection.refreshToken));
             
             await storage.updateQuickbooksConnection(connection.organizationId, {
-              accessToken: tokenResponse.access_token,
-              refreshToken: tokenResponse.refresh_token,
+              accessToken: encryptSecret(tokenResponse.access_token),
+              refreshToken: encryptSecret(tokenResponse.refresh_token),
               accessTokenExpiresAt: this.oauthService.calculateExpiryDate(tokenResponse.expires_in),
               refreshTokenExpiresAt: this.oauthService.calculateExpiryDate(tokenResponse.x_refresh_token_expires_in),
               status: 'connected',
@@ -0,0 +1,56 @@
+import { storage } from '../storage';
+import type { Contract, ContractOptionPeriod, ContractRateCardLineWithRates } from '../../shared/schema';
+import { ancestorsOf } from '../../shared/contract-hierarchy';
+import { offCardReason } from '../../shared/rate-cards';
+
+export class RateCardError extends Error {}
+
+export interface EffectiveRateCard {
+  contract: Contract; // Owner of the card: the contract itself or the parent it inherits the card from
+  lines: ContractRateCardLineWithRates[];
+  optionPeriods: ContractOptionPeriod[]; // The owner's option periods, which drive escalation
+}
+
+/**
+ * The rate card a contract bills from: its own, or the nearest parent's when it has no lines.
+ */
+export async function getEffectiveRateCard(contract: Contract): Promise<EffectiveRateCard | null> {
+  const all = await storage.getContracts(contract.customerId);
+  for (const owner of [contract, ...ancestorsOf(contract, all)]) {
+    const lines = await storage.getRateCardLines([owner.id]);
+    if (lines.length > 0) {
+      return { contract: owner, lines, optionPeriods: await storage.getContractOptionPeriods([owner.id]) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Why a billable event is off its contract's rate card, or null if it is on it. Throws when the
+ * chosen line does not belong to the card at all, which is an input error rather than a flag.
+ */
+export async function checkRateCard(
+  contract: Contract | undefined,
+  event: { rateCardLineId?: string | null; rate: string; billingDate: Date },
+): Promise<string | null> {
+  if (!contract) {
+    if (event.rateCardLineId) throw new RateCardError('Choose the contract whose rate card this line is on');
+    return null;
+  }
+
+  const card = await getEffectiveRateCard(contract);
+  let line: ContractRateCardLineWithRates | null = null;
+  if (event.rateCardLineId) {
+    line = card?.lines.find(l => l.id === event.rateCardLineId) ?? null;
+    if (!line) {
+      // A retired line still prices events that were billed from it before it was retired
+      const retired = await storage.getRateCardLine(event.rateCardLineId);
+      if (!retired || !card || retired.contractId !== card.contract.id) {
+        throw new RateCardError("That rate card line is not on this contract's rate card");
+      }
+      line = retired;
+    }
+  }
+
+  return offCardReason(!!card, line, card?.optionPeriods ?? [], event.billingDate, parseFloat(event.rate));
+}
@@ -0,0 +1,130 @@
+import { ComplianceItem, InsertComplianceItem } from '../../shared/schema';
+import { getNextOccurrence } from '../../shared/recurrence';
+import { storage } from '../storage';
+
+export type SeriesEditScope = 'this' | 'future';
+
+// Fields that are copied forward to the next occurrence and propagated by "all future occurrences" edits.
+// Per-occurrence fields (status, completedAt, notes, review outcome) are deliberately left out.
+const SERIES_FIELDS = [
+  'customerId',
+  'contractId',
+  'category',
+  'type',
+  'commitment',
+  'description',
+  'evidenceRequirements',
+  'responsibleParty',
+  'assigneeId',
+  'teamId',
+  'recurrenceRule',
+  'reminderOffsets',
+  'reviewerId',
+] as const;
+
+type SeriesField = typeof SERIES_FIELDS[number];
+
+function sameDay(a: Date | null, b: Date | null): boolean {
+  if (!a || !b) return false;
+  return new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+}
+
+/**
+ * Create the next occurrence of a recurring compliance item once it has been completed.
+ * Returns null when the item does not recur, has no due date, the series has ended,
+ * or the next occurrence already exists (e.g. the item was re-completed).
+ */
+export async function spawnNextOccurrence(item: ComplianceItem): Promise<ComplianceItem | null> {
+  if (!item.recurrenceRule || !item.dueDate) {
+    return null;
+  }
+
+  const seriesId = item.seriesId || item.id;
+
+  // First completion of a series: the original item becomes the series anchor
+  if (!item.seriesId) {
+    await storage.updateComplianceItem(item.id, { seriesId });
+  }
+
+  const series = await storage.getComplianceSeries(seriesId);
+  const occurrencesSoFar = Math.max(1, series.filter(s => s.dueDate && s.dueDate <= item.dueDate!).length);
+
+  const nextDueDate = getNextOccurrence(item.recurrenceRule, new Date(item.dueDate), occurrencesSoFar);
+  if (!nextDueDate) {
+    return null;
+  }
+
+  if (series.some(s => sameDay(s.dueDate, nextDueDate))) {
+    return null;
+  }
+
+  const nextItem: InsertComplianceItem = {
+    ...pickSeriesFields(item),
+    status: 'pending',
+    dueDate: nextDueDate,
+    completedAt: null,
+    seriesId,
+  };
+
+  return await storage.createComplianceItem(nextItem);
+}
+
+/**
+ * Apply an edit to every not-yet-completed occurrence due on or after the edited one.
+ * A due date change is applied as a shift so each occurrence keeps its spacing.
+ * Returns the occurrences that were changed (excluding the edited item itself).
+ */
+export async function applyToFutureOccurrences(
+  oldItem: ComplianceItem,
+  updates: Partial<InsertComplianceItem>
+): Promise<Array<{ before: ComplianceItem; after: ComplianceItem }>> {
+  if (!oldItem.seriesId || !oldItem.dueDate) {
+    return [];
+  }
+
+  const seriesUpdates: Partial<InsertComplianceItem> = {};
+  for (const field of SERIES_FIELDS) {
+    if (updates[field] !== undefined) {
+      copyField(seriesUpdates, updates, field);
+    }
+  }
+
+  const shiftMs = updates.dueDate && oldItem.dueDate
+    ? new Date(updates.dueDate).getTime() - new Date(oldItem.dueDate).getTime()
+    : 0;
+
+  const series = await storage.getComplianceSeries(oldItem.seriesId);
+  const future = series.filter(s =>
+    s.id !== oldItem.id &&
+    s.status !== 'complete' &&
+    s.dueDate &&
+    s.dueDate >= oldItem.dueDate!
+  );
+
+  const changed: Array<{ before: ComplianceItem; after: ComplianceItem }> = [];
+  for (const occurrence of future) {
+    const occurrenceUpdates: Partial<InsertComplianceItem> = { ...seriesUpdates };
+    if (shiftMs !== 0 && occurrence.dueDate) {
+      occurrenceUpdates.dueDate = new Date(new Date(occurrence.dueDate).getTime() + shiftMs);
+    }
+    if (Object.keys(occurrenceUpdates).length === 0) continue;
+
+    const after = await storage.updateComplianceItem(occurrence.id, occurrenceUpdates);
+    changed.push({ before: occurrence, after });
+  }
+
+  return changed;
+}
+
+// Generic over the key, so the copied value keeps that field's type
+function copyField<T, K extends keyof T>(target: Partial<T>, source: Partial<T>, field: K): void {
+  target[field] = source[field];
+}
+
+function pickSeriesFields(item: ComplianceItem): Pick<ComplianceItem, SeriesField> {
+  const picked: Partial<ComplianceItem> = {};
+  for (const field of SERIES_FIELDS) {
+    copyField(picked, item, field);
+  }
+  return picked as Pick<ComplianceItem, SeriesField>;
+}
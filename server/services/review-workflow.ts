@@ -0,0 +1,57 @@
+import { ComplianceItem, User } from '../../shared/schema';
+
+// Statuses that can only be reached through submit/approve/reject, never by a direct edit
+export const REVIEW_CONTROLLED_STATUSES = ['complete', 'in_review', 'rejected'] as const;
+
+const SUBMITTABLE_STATUSES = ['pending', 'overdue', 'rejected'];
+
+export function isReviewControlledStatus(status: string | undefined | null): boolean {
+  return !!status && (REVIEW_CONTROLLED_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Why an item cannot be submitted for review, or null when it can.
+ * Submission needs at least one linked evidence record.
+ */
+export function getSubmitError(item: ComplianceItem, evidenceCount: number): string | null {
+  if (!SUBMITTABLE_STATUSES.includes(item.status)) {
+    return `Items in status "${item.status}" cannot be submitted for review`;
+  }
+  if (evidenceCount === 0) {
+    return 'Link at least one evidence record before submitting for review';
+  }
+  return null;
+}
+
+/**
+ * Maker-checker rule: the designated reviewer (or an admin) may review, but never
+ * the person who submitted the item. Items without a designated reviewer go to admins.
+ */
+export function canReview(item: ComplianceItem, user: Pick<User, 'id' | 'role'>): boolean {
+  if (item.status !== 'in_review') return false;
+  if (item.submittedBy === user.id) return false;
+  if (user.role === 'admin') return true;
+  return !!item.reviewerId && item.reviewerId === user.id;
+}
+
+export function submittedUpdate(userId: string) {
+  return {
+    status: 'in_review' as const,
+    submittedBy: userId,
+    submittedAt: new Date(),
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewComment: null,
+  };
+}
+
+export function reviewedUpdate(userId: string, approved: boolean, comment: string | null) {
+  const reviewedAt = new Date();
+  return {
+    status: approved ? 'complete' as const : 'rejected' as const,
+    completedAt: approved ? reviewedAt : null,
+    reviewedBy: userId,
+    reviewedAt,
+    reviewComment: comment,
+  };
+}
@@ -0,0 +1,124 @@
+import { storage } from '../storage';
+import { registerJob } from './job-scheduler';
+import { dispatchCeilingAlerts, dispatchComplianceAlerts, dispatchRenewalAlerts } from './email-service';
+import { autoRenewContracts } from './contract-renewals';
+import { applyDueAmendments } from './contract-amendments';
+import { createQuickBooksOAuthService } from './quickbooks-oauth.service';
+import { createQuickBooksSyncService } from './quickbooks-sync.service';
+
+// Default schedules are UTC and can be changed from the admin page
+
+registerJob({
+  name: 'daily-alerts',
+  description: 'Reminder, overdue and escalation emails for compliance items',
+  schedule: '0 8 * * *',
+  handler: async () => {
+    const result = await dispatchComplianceAlerts();
+    if (result.sent === 0 && result.failed > 0) {
+      throw new Error(`All ${result.failed} email alerts failed to send`);
+    }
+    return result;
+  },
+});
+
+registerJob({
+  name: 'overdue-status',
+  description: 'Persist overdue status for pending compliance items past their due date',
+  schedule: '5 0 * * *',
+  handler: async () => {
+    const updated = await storage.markOverdueComplianceItems();
+
+    for (const item of updated) {
+      await storage.createAuditLog({
+        userId: null,
+        action: 'UPDATE',
+        entityType: 'compliance_item',
+        entityId: item.id,
+        oldValues: JSON.stringify({ status: 'pending' }),
+        newValues: JSON.stringify({ status: 'overdue' }),
+      });
+    }
+
+    return { updated: updated.length };
+  },
+});
+
+registerJob({
+  name: 'contract-amendments',
+  description: 'Apply contract amendments whose effective date has arrived',
+  schedule: '10 0 * * *',
+  handler: async () => await applyDueAmendments(),
+});
+
+registerJob({
+  name: 'contract-renewals',
+  description: 'Auto-renew lapsed contracts and email reminders before notice deadlines',
+  schedule: '15 8 * * *',
+  handler: async () => {
+    const { renewed } = await autoRenewContracts();
+    const alerts = await dispatchRenewalAlerts();
+    if (alerts.sent === 0 && alerts.failed > 0) {
+      throw new Error(`All ${alerts.failed} renewal alerts failed to send`);
+    }
+    return { renewed, ...alerts };
+  },
+});
+
+registerJob({
+  name: 'contract-ceilings',
+  description: 'Email admins when billing reaches a contract ceiling threshold',
+  schedule: '20 8 * * *',
+  handler: async () => {
+    const result = await dispatchCeilingAlerts();
+    if (result.sent === 0 && result.failed > 0) {
+      throw new Error(`All ${result.failed} ceiling alerts failed to send`);
+    }
+    return result;
+  },
+});
+
+registerJob({
+  name: 'quickbooks-sync',
+  description: 'Sync QuickBooks invoices for every connected organization',
+  schedule: '0 2 * * *',
+  handler: async () => {
+    const connections = (await storage.getAllQuickbooksConnections())
+      .filter(c => c.status === 'connected' && c.qbCustomerId);
+    if (connections.length === 0) {
+      return { organizations: 0, synced: 0, failed: 0 };
+    }
+
+    const qbOAuth = await createQuickBooksOAuthService(storage);
+    const qbSync = createQuickBooksSyncService(qbOAuth);
+
+    let synced = 0;
+    const failures: Array<{ organizationId: string; error: string }> = [];
+
+    for (const connection of connections) {
+      try {
+        const result = await qbSync.syncInvoices(connection.organizationId);
+        synced += result.synced;
+
+        await storage.createAuditLog({
+          userId: null,
+          action: 'SYNC_INVOICES',
+          entityType: 'quickbooks_connection',
+          entityId: connection.organizationId,
+          newValues: JSON.stringify({ synced: result.synced, errors: result.errors.length, scheduled: true }),
+        });
+      } catch (error) {
+        console.error(`Scheduled QuickBooks sync failed for organization ${connection.organizationId}:`, error);
+        failures.push({
+          organizationId: connection.organizationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (failures.length === connections.length) {
+      throw new Error(`QuickBooks sync failed for all ${failures.length} organizations: ${failures[0].error}`);
+    }
+
+    return { organizations: connections.length, synced, failed: failures.length, failures };
+  },
+});
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+
+// Envelope encryption for secrets stored in the database (client secrets in system settings,
+// QuickBooks OAuth tokens, authenticator app secrets). Each value is encrypted with its own random data key, and the data
+// key is wrapped with the master key from SECRETS_MASTER_KEY. Stored values look like
+// "enc:v1:<master key id>:<wrapped data key>:<ciphertext>", so plaintext written before
+// encryption was introduced is still recognised and returned as-is until it is rotated.
+//
+// Rotating the master key: set SECRETS_MASTER_KEY to the new key, move the old one to
+// SECRETS_PREVIOUS_KEYS (comma-separated), run `npm run secrets:rotate`, then drop the old key.
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class SecretsError extends Error {}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(encoded: string, name: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new SecretsError(`${name} must be ${KEY_BYTES} bytes, base64-encoded (generate one with: openssl rand -base64 32)`);
+  }
+  // A short fingerprint names the key in each stored value without revealing it
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function currentMasterKey(): MasterKey {
+  const encoded = process.env.SECRETS_MASTER_KEY;
+  if (!encoded) {
+    throw new SecretsError('SECRETS_MASTER_KEY is not set, so secrets cannot be stored. Set it to 32 random bytes, base64-encoded.');
+  }
+  return parseMasterKey(encoded, 'SECRETS_MASTER_KEY');
+}
+
+function masterKeyById(id: string): MasterKey {
+  const candidates = [
+    process.env.SECRETS_MASTER_KEY ? parseMasterKey(process.env.SECRETS_MASTER_KEY, 'SECRETS_MASTER_KEY') : null,
+    ...(process.env.SECRETS_PREVIOUS_KEYS || '')
+      .split(',')
+      .map(k => k.trim())
+      .filter(Boolean)
+      .map(k => parseMasterKey(k, 'SECRETS_PREVIOUS_KEYS')),
+  ];
+  const match = candidates.find(candidate => candidate?.id === id);
+  if (!match) {
+    throw new SecretsError(`No master key with id ${id} is configured; set SECRETS_MASTER_KEY or SECRETS_PREVIOUS_KEYS`);
+  }
+  return match;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const master = currentMasterKey();
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+}
+
+/**
+ * Decrypts a stored secret at the point it is used. Values that were never encrypted are
+ * returned unchanged, so existing installs keep working until the rotation command runs.
+ */
+export function decryptSecret(stored: string | null | undefined): string {
+  if (!stored) return '';
+  if (!isEncryptedSecret(stored)) return stored;
+
+  const [keyId, wrappedKey, ciphertext] = stored.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new SecretsError('Stored secret is malformed');
+  }
+  try {
+    const dataKey = open(masterKeyById(keyId).key, wrappedKey);
+    return open(dataKey, ciphertext).toString('utf8');
+  } catch (error) {
+    if (error instanceof SecretsError) throw error;
+    throw new SecretsError('Stored secret could not be decrypted; the master key may be wrong');
+  }
+}
+
+// True for plaintext and for values sealed under a key other than the current master key
+function needsRotation(stored: string, current: MasterKey): boolean {
+  return !stored.startsWith(`${PREFIX}${current.id}:`);
+}
+
+/**
+ * Re-encrypts every stored secret under the current master key, including plaintext values
+ * saved before encryption was introduced.
+ */
+export async function rotateSecrets(): Promise<{ settings: number; quickbooksConnections: number; authenticators: number }> {
+  const current = currentMasterKey();
+  const rotated = { settings: 0, quickbooksConnections: 0, authenticators: 0 };
+
+  for (const setting of await storage.getAllSystemSettings()) {
+    if (!setting.isEncrypted || !setting.value || !needsRotation(setting.value, current)) continue;
+    await storage.upsertSystemSetting({
+      key: setting.key,
+      value: encryptSecret(decryptSecret(setting.value)),
+      isEncrypted: true,
+      description: setting.description,
+    });
+    rotated.settings++;
+  }
+
+  for (const connection of await storage.getAllQuickbooksConnections()) {
+    if (!needsRotation(connection.accessToken, current) && !needsRotation(connection.refreshToken, current)) continue;
+    await storage.updateQuickbooksConnection(connection.organizationId, {
+      accessToken: encryptSecret(decryptSecret(connection.accessToken)),
+      refreshToken: encryptSecret(decryptSecret(connection.refreshToken)),
+    });
+    rotated.quickbooksConnections++;
+  }
+
+  for (const mfa of await storage.getAllUserMfa()) {
+    if (!needsRotation(mfa.secret, current)) continue;
+    await storage.updateUserMfaSecret(mfa.userId, encryptSecret(decryptSecret(mfa.secret)));
+    rotated.authenticators++;
+  }
+
+  return rotated;
+}
@@ -0,0 +1,74 @@
+import type { Request } from 'express';
+import type { UserSession } from '../../shared/schema';
+import { storage } from '../storage';
+
+// Signed-in browser sessions. express-session keeps the session itself in storage.sessionStore;
+// a user_sessions row alongside it records whose it is and where it is used, so it can be listed and ended.
+
+// Last-seen details are written at most this often per session
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export type SessionRevokeReason = 'user' | 'admin' | 'password_change' | 'role_change' | 'user_deactivated';
+
+function destroyStoredSession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    storage.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Records activity on the request's signed-in session. Sign-in calls it too, so a session is
+ * listed, and can be revoked, even if it never makes another request. A session seen before
+ * whose row has gone was revoked while this request was in flight and saved back to the store;
+ * returns false so the caller can end it.
+ */
+export async function trackSession(req: Request): Promise<boolean> {
+  if (!req.user) return true;
+
+  const now = Date.now();
+  const { lastSeenAt } = req.session;
+  if (lastSeenAt && now - lastSeenAt < LAST_SEEN_INTERVAL_MS) return true;
+
+  const details = { ipAddress: req.ip ?? null, userAgent: req.get('User-Agent') ?? null };
+  if (lastSeenAt) {
+    if (!(await storage.touchUserSession(req.sessionID, details))) return false;
+  } else {
+    await storage.upsertUserSession({
+      ...details,
+      sid: req.sessionID,
+      userId: req.user.id,
+      expiresAt: req.session.cookie.expires ?? new Date(now + (req.session.cookie.maxAge ?? 0)),
+    });
+  }
+  req.session.lastSeenAt = now;
+  return true;
+}
+
+// A user's sessions that have not expired, most recently used first
+export async function listUserSessions(userId: string): Promise<UserSession[]> {
+  await storage.deleteExpiredUserSessions();
+  return await storage.getUserSessions(userId);
+}
+
+export async function revokeSession(session: Pick<UserSession, 'sid'>): Promise<void> {
+  await destroyStoredSession(session.sid);
+  await storage.deleteUserSession(session.sid);
+}
+
+/**
+ * Signs a user out everywhere, optionally keeping one session (the caller's own, when someone
+ * changes their own password). Returns how many sessions were ended.
+ */
+export async function revokeUserSessions(userId: string, keepSid?: string): Promise<number> {
+  const sessions = (await storage.getUserSessions(userId)).filter((session) => session.sid !== keepSid);
+  for (const session of sessions) {
+    await revokeSession(session);
+  }
+  return sessions.length;
+}
+
+// What the API returns for a session; the store key stays on the server
+export function toSessionSummary(session: UserSession, currentSid?: string) {
+  const { sid, ...summary } = session;
+  return { ...summary, current: sid === currentSid };
+}
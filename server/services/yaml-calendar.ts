@@ -0,0 +1,437 @@
+import { Document, LineCounter, isMap, isScalar, parseDocument } from 'yaml';
+import { z } from 'zod';
+import {
+  categoryEnum, orgTypeEnum, ComplianceItem, Contract, InsertComplianceItem, Organization,
+} from '../../shared/schema';
+import { isValidRecurrenceRule } from '../../shared/recurrence';
+import { MAX_REMINDER_OFFSET, formatReminderOffsets } from '../../shared/reminders';
+import { CALENDAR_FILE_VERSION, formatEvidenceRequirements, parseEvidenceRequirements } from '../../shared/calendar';
+import { storage, type OrganizationScope } from '../storage';
+import type { DuplicateHandling } from './csv-import';
+
+// Statuses a calendar file may set. Completion and review states are workflow-owned, so they
+// export as pending, and a `complete` in an older file imports as pending.
+const CALENDAR_STATUSES = ['pending', 'overdue', 'na'] as const;
+const WORKFLOW_STATUSES = ['complete', 'in_review', 'rejected'];
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date').refine(
+  val => !isNaN(Date.parse(val)) && new Date(val).toISOString().startsWith(val),
+  { message: 'Not a valid calendar date' }
+);
+
+const calendarItemSchema = z.object({
+  category: z.enum(categoryEnum.enumValues),
+  type: z.string().nullish(),
+  commitment: z.string().trim().min(1, 'Commitment is required'),
+  description: z.string().nullish(),
+  responsibleParty: z.string().trim().min(1, 'Responsible party is required'),
+  status: z.preprocess(value => (value === 'complete' ? 'pending' : value), z.enum(CALENDAR_STATUSES).default('pending')),
+  dueDate: dateString.nullish(),
+  recurrence: z.string().refine(isValidRecurrenceRule, {
+    message: 'Invalid recurrence rule, e.g. FREQ=MONTHLY;BYMONTHDAY=15',
+  }).nullish(),
+  reminderDays: z.array(z.number().int().min(0).max(MAX_REMINDER_OFFSET)).min(1).nullish(),
+  evidenceRequired: z.array(z.string().trim().min(1)).nullish(),
+  notes: z.string().nullish(),
+}).strict().refine(
+  item => !item.recurrence || !!item.dueDate,
+  { message: 'Recurring items need a dueDate', path: ['dueDate'] }
+);
+
+const calendarContractSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().nullish(),
+  startDate: dateString,
+  endDate: dateString.nullish(),
+  maxAmount: z.union([
+    z.number().nonnegative(),
+    z.string().regex(/^\d+(\.\d{1,2})?$/, 'Use a plain amount such as 250000.00'),
+  ]).nullish(),
+  isActive: z.boolean().default(true),
+  complianceItems: z.array(calendarItemSchema).default([]),
+}).strict().refine(
+  contract => !contract.endDate || contract.endDate >= contract.startDate,
+  { message: 'endDate must not be before startDate', path: ['endDate'] }
+);
+
+const calendarOrganizationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  code: z.string().trim().min(1).nullish(),
+  orgType: z.enum(orgTypeEnum.enumValues).default('customer'),
+  contactEmail: z.string().email().nullish(),
+  isActive: z.boolean().default(true),
+  contracts: z.array(calendarContractSchema).default([]),
+  complianceItems: z.array(calendarItemSchema).default([]),
+}).strict();
+
+export const calendarFileSchema = z.object({
+  version: z.literal(CALENDAR_FILE_VERSION),
+  organizations: z.array(calendarOrganizationSchema),
+}).strict().superRefine((file, ctx) => {
+  const names = new Set<string>();
+  file.organizations.forEach((org, i) => {
+    const name = org.name.toLowerCase();
+    if (names.has(name)) {
+      ctx.addIssue({ code: 'custom', path: ['organizations', i, 'name'], message: `Organization "${org.name}" is listed more than once` });
+    }
+    names.add(name);
+
+    const titles = new Set<string>();
+    org.contracts.forEach((contract, j) => {
+      const title = contract.title.toLowerCase();
+      if (titles.has(title)) {
+        ctx.addIssue({ code: 'custom', path: ['organizations', i, 'contracts', j, 'title'], message: `Contract "${contract.title}" is listed more than once for ${org.name}` });
+      }
+      titles.add(title);
+    });
+  });
+});
+
+export type CalendarFile = z.infer<typeof calendarFileSchema>;
+type CalendarItem = z.infer<typeof calendarItemSchema>;
+
+export interface CalendarIssue {
+  line: number | null;
+  column: number | null;
+  path: string;
+  message: string;
+}
+
+export interface CalendarChange {
+  action: 'CREATE' | 'UPDATE';
+  entityType: 'organization' | 'contract' | 'compliance_item';
+  entity: Organization | Contract | ComplianceItem;
+  previous?: Organization | Contract | ComplianceItem;
+}
+
+export interface CalendarImportResult {
+  organizations: { created: number; updated: number; unchanged: number };
+  contracts: { created: number; updated: number; unchanged: number };
+  items: { imported: number; updated: number; skipped: number };
+  skippedItems: Array<{ path: string; commitment: string; reason: string }>;
+  changes: CalendarChange[];
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((text, key) =>
+    typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${key}` : key, '');
+}
+
+/**
+ * Locate a validation issue in the source. Missing keys are reported at the enclosing
+ * mapping, and unknown keys at the key itself.
+ */
+function locateIssue(doc: Document, lineCounter: LineCounter, issue: z.ZodIssue) {
+  if (issue.code === 'unrecognized_keys') {
+    const map = issue.path.length > 0 ? doc.getIn(issue.path, true) : doc.contents;
+    if (isMap(map)) {
+      const pair = map.items.find(p => isScalar(p.key) && issue.keys.includes(String(p.key.value)));
+      if (pair && isScalar(pair.key) && pair.key.range) return lineCounter.linePos(pair.key.range[0]);
+    }
+  }
+
+  for (let depth = issue.path.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(issue.path.slice(0, depth), true);
+    const range = (node as { range?: [number, number, number] } | null)?.range;
+    if (range) return lineCounter.linePos(range[0]);
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a calendar file. Nothing is imported unless `issues` is empty.
+ */
+export function parseCalendar(source: string): { calendar: CalendarFile | null; issues: CalendarIssue[] } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    return {
+      calendar: null,
+      issues: doc.errors.map(error => {
+        const position = lineCounter.linePos(error.pos[0]);
+        return { line: position.line, column: position.col, path: '', message: error.message };
+      }),
+    };
+  }
+
+  const parsed = calendarFileSchema.safeParse(doc.toJS());
+  if (parsed.success) {
+    return { calendar: parsed.data, issues: [] };
+  }
+
+  const issues = parsed.error.issues.map(issue => {
+    const position = locateIssue(doc, lineCounter, issue);
+    return {
+      line: position?.line ?? null,
+      column: position?.col ?? null,
+      path: formatPath(issue.path),
+      message: issue.message,
+    };
+  });
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+
+  return { calendar: null, issues };
+}
+
+function toDate(value?: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function toDateString(value: Date | string | null): string | null {
+  return value ? new Date(value).toISOString().slice(0, 10) : null;
+}
+
+function sameDay(a: Date | string | null, b: Date | string | null): boolean {
+  return toDateString(a) === toDateString(b);
+}
+
+function toInsertItem(entry: CalendarItem, customerId: string, contractId: string | null): InsertComplianceItem {
+  return {
+    customerId,
+    contractId,
+    category: entry.category,
+    type: entry.type ?? '',
+    commitment: entry.commitment,
+    description: entry.description ?? null,
+    responsibleParty: entry.responsibleParty,
+    status: entry.status,
+    dueDate: toDate(entry.dueDate),
+    recurrenceRule: entry.recurrence ?? null,
+    reminderOffsets: entry.reminderDays
+      ? formatReminderOffsets(Array.from(new Set(entry.reminderDays)).sort((a, b) => b - a))
+      : null,
+    evidenceRequirements: formatEvidenceRequirements(entry.evidenceRequired ?? []),
+    notes: entry.notes ?? null,
+  };
+}
+
+/**
+ * Apply a validated calendar. Organizations are matched by code (or by name when no code is
+ * given), contracts by title within the organization, and compliance items by the same
+ * category + commitment + due date rule as the CSV import. Matches are left alone with
+ * 'skip' and overwritten with 'update'.
+ */
+export async function importCalendar(
+  calendar: CalendarFile,
+  duplicateHandling: DuplicateHandling = 'skip'
+): Promise<CalendarImportResult> {
+  const result: CalendarImportResult = {
+    organizations: { created: 0, updated: 0, unchanged: 0 },
+    contracts: { created: 0, updated: 0, unchanged: 0 },
+    items: { imported: 0, updated: 0, skipped: 0 },
+    skippedItems: [],
+    changes: [],
+  };
+
+  const organizations = await storage.getOrganizations();
+  const allContracts = await storage.getContracts();
+  const existingItems = (await storage.getComplianceItems()).items;
+
+  const importItems = async (entries: CalendarItem[], customerId: string, contractId: string | null, path: string) => {
+    for (let k = 0; k < entries.length; k++) {
+      const data = toInsertItem(entries[k], customerId, contractId);
+      const duplicate = existingItems.find(existing =>
+        existing.customerId === customerId &&
+        (existing.contractId ?? null) === contractId &&
+        existing.category === data.category &&
+        existing.commitment.toLowerCase().trim() === data.commitment.toLowerCase().trim() &&
+        sameDay(existing.dueDate, data.dueDate ?? null)
+      );
+
+      if (!duplicate) {
+        const created = await storage.createComplianceItem(data);
+        existingItems.push(created);
+        result.items.imported++;
+        result.changes.push({ action: 'CREATE', entityType: 'compliance_item', entity: created });
+      } else if (duplicateHandling === 'update') {
+        // Completed items and items waiting on a review keep their workflow status
+        const { status, ...rest } = data;
+        const updates = WORKFLOW_STATUSES.includes(duplicate.status) ? rest : data;
+        const updated = await storage.updateComplianceItem(duplicate.id, updates);
+        existingItems.splice(existingItems.indexOf(duplicate), 1, updated);
+        result.items.updated++;
+        result.changes.push({ action: 'UPDATE', entityType: 'compliance_item', entity: updated, previous: duplicate });
+      } else {
+        result.items.skipped++;
+        result.skippedItems.push({
+          path: `${path}[${k}]`,
+          commitment: data.commitment,
+          reason: `Duplicate found (ID: ${duplicate.id})`,
+        });
+      }
+    }
+  };
+
+  for (let i = 0; i < calendar.organizations.length; i++) {
+    const entry = calendar.organizations[i];
+    const code = entry.code || entry.name.replace(/\s+/g, '_').toUpperCase();
+    const orgData = {
+      name: entry.name,
+      code,
+      orgType: entry.orgType,
+      contactEmail: entry.contactEmail ?? null,
+      isActive: entry.isActive,
+    };
+
+    let organization = entry.code
+      ? organizations.find(org => org.code.toLowerCase() === code.toLowerCase())
+      : organizations.find(org => org.name.toLowerCase() === entry.name.toLowerCase())
+        ?? organizations.find(org => org.code.toLowerCase() === code.toLowerCase());
+
+    if (!organization) {
+      organization = await storage.createOrganization(orgData);
+      organizations.push(organization);
+      result.organizations.created++;
+      result.changes.push({ action: 'CREATE', entityType: 'organization', entity: organization });
+    } else if (duplicateHandling === 'update') {
+      const previous = organization;
+      const { code: _code, ...updates } = orgData;
+      organization = await storage.updateOrganization(previous.id, entry.code ? orgData : updates);
+      result.organizations.updated++;
+      result.changes.push({ action: 'UPDATE', entityType: 'organization', entity: organization, previous });
+    } else {
+      result.organizations.unchanged++;
+    }
+
+    await importItems(entry.complianceItems, organization.id, null, `organizations[${i}].complianceItems`);
+
+    for (let j = 0; j < entry.contracts.length; j++) {
+      const contractEntry = entry.contracts[j];
+      const contractData = {
+        customerId: organization.id,
+        title: contractEntry.title,
+        description: contractEntry.description ?? null,
+        startDate: new Date(contractEntry.startDate),
+        endDate: toDate(contractEntry.endDate),
+        maxAmount: contractEntry.maxAmount != null ? String(contractEntry.maxAmount) : null,
+        isActive: contractEntry.isActive,
+      };
+
+      let contract = allContracts.find(c =>
+        c.customerId === organization!.id && c.title.toLowerCase() === contractEntry.title.toLowerCase()
+      );
+
+      if (!contract) {
+        contract = await storage.createContract(contractData);
+        allContracts.push(contract);
+        result.contracts.created++;
+        result.changes.push({ action: 'CREATE', entityType: 'contract', entity: contract });
+      } else if (duplicateHandling === 'update') {
+        const previous = contract;
+        contract = await storage.updateContract(previous.id, contractData);
+        result.contracts.updated++;
+        result.changes.push({ action: 'UPDATE', entityType: 'contract', entity: contract, previous });
+      } else {
+        result.contracts.unchanged++;
+      }
+
+      await importItems(
+        contractEntry.complianceItems,
+        organization.id,
+        contract.id,
+        `organizations[${i}].contracts[${j}].complianceItems`
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Recurring items are written once per series: the earliest open occurrence, or the
+ * latest one when the whole series is closed. Later occurrences are regenerated from
+ * the recurrence rule as items are completed.
+ */
+function collapseSeries(items: ComplianceItem[]): ComplianceItem[] {
+  const bySeries = new Map<string, ComplianceItem[]>();
+  const result: ComplianceItem[] = [];
+
+  for (const item of items) {
+    if (!item.seriesId) {
+      result.push(item);
+    } else {
+      bySeries.set(item.seriesId, [...(bySeries.get(item.seriesId) ?? []), item]);
+    }
+  }
+
+  for (const series of Array.from(bySeries.values())) {
+    const sorted = series.sort((a, b) => new Date(a.dueDate ?? 0).getTime() - new Date(b.dueDate ?? 0).getTime());
+    const open = sorted.find(item => item.status !== 'complete' && item.status !== 'na');
+    result.push(open ?? sorted[sorted.length - 1]);
+  }
+
+  return result.sort((a, b) =>
+    (a.dueDate ? new Date(a.dueDate).getTime() : Infinity) - (b.dueDate ? new Date(b.dueDate).getTime() : Infinity) ||
+    a.commitment.localeCompare(b.commitment)
+  );
+}
+
+// Optional fields are left out when empty so exported files diff cleanly
+function compact<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))
+  ) as Partial<T>;
+}
+
+function toCalendarItem(item: ComplianceItem) {
+  const status = (CALENDAR_STATUSES as readonly string[]).includes(item.status) ? item.status : 'pending';
+  return compact({
+    category: item.category,
+    type: item.type,
+    commitment: item.commitment,
+    description: item.description,
+    responsibleParty: item.responsibleParty,
+    status: status === 'pending' ? null : status,
+    dueDate: toDateString(item.dueDate),
+    recurrence: item.recurrenceRule,
+    reminderDays: item.reminderOffsets ? item.reminderOffsets.split(',').map(Number) : null,
+    evidenceRequired: parseEvidenceRequirements(item.evidenceRequirements),
+    notes: item.notes,
+  });
+}
+
+/**
+ * Write the current organizations, contracts and compliance items as a calendar file.
+ * Output is sorted so that re-exporting unchanged data produces an identical file.
+ */
+export async function exportCalendar(organizationId?: string, scope?: OrganizationScope): Promise<string> {
+  const organizations = (await storage.getOrganizations(scope))
+    .filter(org => !organizationId || org.id === organizationId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const allContracts = await storage.getContracts(organizationId, scope);
+  const items = collapseSeries((await storage.getComplianceItems({ organizationId, organizationIds: scope })).items);
+
+  const calendar = {
+    version: CALENDAR_FILE_VERSION,
+    organizations: organizations.map(org => {
+      const contracts = allContracts
+        .filter(contract => contract.customerId === org.id)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime() || a.title.localeCompare(b.title));
+
+      return compact({
+        name: org.name,
+        code: org.code,
+        orgType: org.orgType,
+        contactEmail: org.contactEmail,
+        isActive: org.isActive ? null : false,
+        complianceItems: items
+          .filter(item => item.customerId === org.id && !item.contractId)
+          .map(toCalendarItem),
+        contracts: contracts.map(contract => compact({
+          title: contract.title,
+          description: contract.description,
+          startDate: toDateString(contract.startDate),
+          endDate: toDateString(contract.endDate),
+          maxAmount: contract.maxAmount,
+          isActive: contract.isActive ? null : false,
+          complianceItems: items.filter(item => item.contractId === contract.id).map(toCalendarItem),
+        })),
+      });
+    }),
+  };
+
+  const doc = new Document(calendar);
+  doc.commentBefore = ' Compliance calendar. Format: compliance-calendar-spec.json';
+  return doc.toString({ lineWidth: 0 });
+}
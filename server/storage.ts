@@ -2,66 +2,226 @@ import {
   users, organizations, contracts, complianceItems, billableEvents, evidence, auditLog, emailAlerts,
   quickbooksConnections, quickbooksInvoices, systemSettings,
   objectives, keyResults, checkIns,
+  teams, teamMembers, userIdentities, type UserIdentity, type InsertUserIdentity, userOrganizations,
+  userMfa, mfaRecoveryCodes, type UserMfa,
+  loginThrottles, type LoginThrottle, passwordResetTokens, type PasswordResetToken,
+  type Team, type InsertTeam, type TeamMember,
+  complianceTemplates, complianceTemplateItems,
+  type ComplianceTemplate, type InsertComplianceTemplate, type ComplianceTemplateItem, type InsertComplianceTemplateItem,
+  calendarFeeds, type CalendarFeed, type InsertCalendarFeed,
+  apiTokens, type ApiToken,
+  userSessions, type UserSession,
+  userInvitations, type UserInvitation,
+  contractOptionPeriods, type ContractOptionPeriod, type InsertContractOptionPeriod,
+  contractAmendments, type ContractAmendment, type InsertContractAmendment,
+  contractRateCardLines, contractRates, type ContractRate, type ContractRateCardLine, type ContractRateCardLineWithRates,
+  type InsertContractRateCardLine,
+  invoices, invoiceLineItems, type Invoice, type InsertInvoice, type InvoiceWithLineItems,
   type User, type InsertUser, type Organization, type InsertOrganization, type Contract, type InsertContract,
-  type ComplianceItem, type InsertComplianceItem, type BillableEvent, type InsertBillableEvent,
+  type ComplianceItem, type InsertComplianceItem, type ComplianceReviewFields, type BillableEvent, type InsertBillableEvent,
   type Evidence, type InsertEvidence, type AuditLog, type InsertAuditLog,
+  evidenceVersions, type EvidenceVersion, type InsertEvidenceVersion,
   type EmailAlert, type InsertEmailAlert,
+  alertPolicies, escalationRules,
+  type AlertPolicy, type InsertAlertPolicy, type EscalationRule, type InsertEscalationRule,
   type QuickbooksConnection, type InsertQuickbooksConnection,
   type QuickbooksInvoice, type InsertQuickbooksInvoice,
   type SystemSetting, type InsertSystemSetting,
+  scheduledJobs, jobRuns,
+  type ScheduledJob, type InsertScheduledJob, type JobRun, type InsertJobRun,
   type Objective, type InsertObjective,
   type KeyResult, type InsertKeyResult,
   type CheckIn, type InsertCheckIn
 } from "../shared/schema";
-import { db } from "./db";
-import { eq, desc, asc, and, or, gte, lte, like, count, sql } from "drizzle-orm";
+import { db, type Transaction } from "./db";
+import { eq, desc, asc, and, or, gte, lte, gt, lt, like, count, sql, isNull, isNotNull, inArray, notInArray, type SQL } from "drizzle-orm";
 import session, { Store, MemoryStore } from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import {
+  AUDIT_CHAIN_GENESIS, AUDIT_CHAIN_LOCK_ID, computeAuditHash, checkAuditLink,
+  type AuditChainVerification
+} from "./services/audit-chain";
+import { formatInvoiceNumber, invoiceDueDate, invoiceTotals } from "../shared/invoices";
 
 const PostgresSessionStore = connectPg(session);
 
+// Organization IDs a user may see; undefined means every organization
+export type OrganizationScope = string[] | undefined;
+
+// Key for the advisory lock that serializes invoice numbering
+const INVOICE_NUMBER_LOCK_ID = 727_002;
+
+// Invoice lines for a set of billable events, in billing date order
+function invoiceLinesFor(invoiceId: string, events: BillableEvent[]) {
+  return [...events]
+    .sort((a, b) => new Date(a.billingDate).getTime() - new Date(b.billingDate).getTime())
+    .map((event, index) => ({
+      invoiceId,
+      billableEventId: event.id,
+      description: event.description,
+      billingDate: event.billingDate,
+      units: event.units,
+      rate: event.rate,
+      amount: event.totalAmount,
+      sortOrder: index,
+    }));
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User>;
   deleteUser(id: string): Promise<void>;
+  setUserDeactivated(id: string, deactivatedAt: Date | null): Promise<User>;
+  transferUserAssignments(fromUserId: string, toUserId: string): Promise<{ complianceItems: number; reviews: number; objectives: number }>;
+  getUserOrganizationIds(userId: string): Promise<string[]>;
+  setUserOrganizations(userId: string, organizationIds: string[]): Promise<void>;
+  
+  // SSO identity methods
+  getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  updateUserIdentity(id: string, updates: Partial<Pick<UserIdentity, "email" | "lastLoginAt">>): Promise<UserIdentity>;
+  
+  // MFA methods
+  getUserMfa(userId: string): Promise<UserMfa | undefined>;
+  getMfaEnabledUserIds(): Promise<string[]>;
+  saveUserMfaSecret(userId: string, secret: string): Promise<UserMfa>;
+  getAllUserMfa(): Promise<UserMfa[]>;
+  updateUserMfaSecret(userId: string, secret: string): Promise<void>;
+  confirmUserMfa(userId: string, step: number): Promise<UserMfa>;
+  recordMfaStep(userId: string, step: number): Promise<boolean>;
+  deleteUserMfa(userId: string): Promise<void>;
+  replaceMfaRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeMfaRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countMfaRecoveryCodes(userId: string): Promise<number>;
+  
+  // Login throttle methods
+  getLoginThrottles(keys: string[]): Promise<LoginThrottle[]>;
+  getLockedLoginThrottles(): Promise<LoginThrottle[]>;
+  recordLoginFailure(key: string, windowStart: Date): Promise<LoginThrottle>;
+  setLoginLock(key: string, lockedUntil: Date): Promise<void>;
+  deleteLoginThrottle(key: string): Promise<void>;
+  
+  // Password reset methods
+  createPasswordResetToken(token: Pick<PasswordResetToken, "userId" | "tokenHash" | "expiresAt" | "requestedIp">): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  countRecentPasswordResetTokens(userId: string, since: Date): Promise<number>;
+  consumePasswordResetToken(id: string): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+  
+  // Team methods
+  getTeams(): Promise<Team[]>;
+  getTeam(id: string): Promise<Team | undefined>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team>;
+  deleteTeam(id: string): Promise<void>;
+  getTeamMembers(teamId?: string): Promise<TeamMember[]>;
+  setTeamMembers(teamId: string, userIds: string[]): Promise<TeamMember[]>;
+  
+  // Compliance template methods
+  getComplianceTemplates(): Promise<ComplianceTemplate[]>;
+  getComplianceTemplate(id: string): Promise<ComplianceTemplate | undefined>;
+  getComplianceTemplateByName(name: string): Promise<ComplianceTemplate | undefined>;
+  createComplianceTemplate(template: InsertComplianceTemplate): Promise<ComplianceTemplate>;
+  updateComplianceTemplate(id: string, updates: Partial<InsertComplianceTemplate>): Promise<ComplianceTemplate>;
+  deleteComplianceTemplate(id: string): Promise<void>;
+  getComplianceTemplateItems(templateId?: string): Promise<ComplianceTemplateItem[]>;
+  setComplianceTemplateItems(templateId: string, items: InsertComplianceTemplateItem[]): Promise<ComplianceTemplateItem[]>;
+  
+  // Calendar feed methods
+  getCalendarFeeds(userId?: string): Promise<CalendarFeed[]>;
+  getCalendarFeed(id: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed & { userId: string; name: string; tokenHash: string }): Promise<CalendarFeed>;
+  updateCalendarFeed(id: string, updates: Partial<Pick<CalendarFeed, "name" | "lastAccessedAt" | "revokedAt">>): Promise<CalendarFeed>;
+  
+  // API token methods
+  getApiTokens(userId?: string): Promise<ApiToken[]>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: Omit<ApiToken, "id" | "lastUsedAt" | "lastUsedIp" | "revokedAt" | "createdAt">): Promise<ApiToken>;
+  updateApiToken(id: string, updates: Partial<Pick<ApiToken, "lastUsedAt" | "lastUsedIp" | "revokedAt">>): Promise<ApiToken>;
+  revokeUserApiTokens(userId: string): Promise<number>;
+  
+  // Invitation methods
+  getPendingUserInvitations(): Promise<UserInvitation[]>;
+  getUserInvitation(id: string): Promise<UserInvitation | undefined>;
+  getUserInvitationByHash(tokenHash: string): Promise<UserInvitation | undefined>;
+  createUserInvitation(invitation: Omit<UserInvitation, "id" | "acceptedAt" | "acceptedUserId" | "revokedAt" | "createdAt">): Promise<UserInvitation>;
+  updateUserInvitation(id: string, updates: Partial<Pick<UserInvitation, "tokenHash" | "expiresAt" | "revokedAt">>): Promise<UserInvitation>;
+  acceptUserInvitation(id: string, user: InsertUser, organizationIds: string[]): Promise<User | undefined>;
+  
+  // User session methods (the sessions themselves live in sessionStore)
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  getUserSession(id: string): Promise<UserSession | undefined>;
+  upsertUserSession(session: Pick<UserSession, "sid" | "userId" | "ipAddress" | "userAgent" | "expiresAt">): Promise<UserSession>;
+  touchUserSession(sid: string, updates: Pick<UserSession, "ipAddress" | "userAgent">): Promise<UserSession | undefined>;
+  deleteUserSession(sid: string): Promise<void>;
+  deleteExpiredUserSessions(): Promise<void>;
   
   // Organization methods
-  getOrganizations(): Promise<Organization[]>;
+  getOrganizations(scope?: OrganizationScope): Promise<Organization[]>;
   getOrganization(id: string): Promise<Organization | undefined>;
   createOrganization(organization: InsertOrganization): Promise<Organization>;
   updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
   deleteOrganization(id: string): Promise<void>;
   
   // Contract methods
-  getContracts(organizationId?: string): Promise<Contract[]>;
+  getContracts(organizationId?: string, scope?: OrganizationScope): Promise<Contract[]>;
   getContract(id: string): Promise<Contract | undefined>;
   createContract(contract: InsertContract): Promise<Contract>;
   updateContract(id: string, updates: Partial<InsertContract>): Promise<Contract>;
   deleteContract(id: string): Promise<void>;
+  getRenewalContracts(scope?: OrganizationScope): Promise<Contract[]>;
+  getContractOptionPeriods(contractIds: string[]): Promise<ContractOptionPeriod[]>;
+  replaceContractOptionPeriods(contractId: string, periods: Array<InsertContractOptionPeriod & { id?: string }>): Promise<ContractOptionPeriod[]>;
+  recordRenewalDecision(
+    id: string,
+    updates: Partial<Pick<Contract, "endDate" | "renewalDecision">>,
+    optionPeriod?: { id: string; status: ContractOptionPeriod["status"] }
+  ): Promise<Contract>;
+  getContractAmendments(contractId: string): Promise<ContractAmendment[]>;
+  getContractAmendment(id: string): Promise<ContractAmendment | undefined>;
+  createContractAmendment(contractId: string, amendment: InsertContractAmendment, createdBy: string | null): Promise<ContractAmendment>;
+  deleteContractAmendment(id: string): Promise<void>;
+  getDueContractAmendments(asOf: Date): Promise<ContractAmendment[]>;
+  applyContractAmendment(id: string): Promise<{ contract: Contract; amendment: ContractAmendment } | undefined>;
+  getCeilingAmendments(contractIds: string[]): Promise<ContractAmendment[]>;
+  getRateCardLines(contractIds: string[], includeRetired?: boolean): Promise<ContractRateCardLineWithRates[]>;
+  getRateCardLine(id: string): Promise<ContractRateCardLineWithRates | undefined>;
+  replaceRateCard(contractId: string, lines: Array<InsertContractRateCardLine & { id?: string }>): Promise<ContractRateCardLineWithRates[]>;
   
   // Compliance methods
   getComplianceItems(filters?: {
     organizationId?: string;
+    organizationIds?: OrganizationScope;
     category?: string;
     status?: string;
     dueDateFrom?: Date;
     dueDateTo?: Date;
     search?: string;
+    assigneeId?: string;
+    teamId?: string;
+    assignedTo?: string; // Items assigned to this user directly or to one of their teams
     limit?: number;
     offset?: number;
   }): Promise<{ items: ComplianceItem[]; total: number }>;
   getComplianceItem(id: string): Promise<ComplianceItem | undefined>;
+  getContractComplianceItems(contractIds: string[]): Promise<ComplianceItem[]>;
   createComplianceItem(item: InsertComplianceItem): Promise<ComplianceItem>;
-  updateComplianceItem(id: string, updates: Partial<InsertComplianceItem>): Promise<ComplianceItem>;
+  updateComplianceItem(id: string, updates: Partial<InsertComplianceItem & ComplianceReviewFields>): Promise<ComplianceItem>;
   deleteComplianceItem(id: string): Promise<void>;
+  getComplianceSeries(seriesId: string): Promise<ComplianceItem[]>;
   getUpcomingComplianceItems(days: number): Promise<ComplianceItem[]>;
   getOverdueComplianceItems(): Promise<ComplianceItem[]>;
-  getComplianceMetrics(): Promise<{
+  getReviewQueue(reviewerId?: string, scope?: OrganizationScope): Promise<ComplianceItem[]>;
+  markOverdueComplianceItems(): Promise<ComplianceItem[]>;
+  getComplianceMetrics(scope?: OrganizationScope): Promise<{
     totalItems: number;
     completedItems: number;
     overdueItems: number;
@@ -70,22 +230,39 @@ export interface IStorage {
   }>;
   
   // Billable events methods
-  getBillableEvents(organizationId?: string): Promise<BillableEvent[]>;
+  getBillableEvents(organizationId?: string, scope?: OrganizationScope): Promise<BillableEvent[]>;
   getBillableEvent(id: string): Promise<BillableEvent | undefined>;
-  createBillableEvent(event: InsertBillableEvent): Promise<BillableEvent>;
-  updateBillableEvent(id: string, updates: Partial<InsertBillableEvent>): Promise<BillableEvent>;
+  getContractBillableEvents(contractIds: string[]): Promise<BillableEvent[]>;
+  createBillableEvent(event: InsertBillableEvent & Pick<Partial<BillableEvent>, "offCardReason">): Promise<BillableEvent>;
+  updateBillableEvent(id: string, updates: Partial<InsertBillableEvent> & Pick<Partial<BillableEvent>, "offCardReason">): Promise<BillableEvent>;
   deleteBillableEvent(id: string): Promise<void>;
+
+  // Invoice methods
+  getInvoices(filters?: { organizationId?: string; contractId?: string; status?: Invoice["status"] }, scope?: OrganizationScope): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<InvoiceWithLineItems | undefined>;
+  getUnbilledEvents(organizationId: string, contractIds?: string[]): Promise<BillableEvent[]>;
+  createInvoiceDraft(invoice: InsertInvoice, createdBy: string | null): Promise<InvoiceWithLineItems | undefined>;
+  updateInvoiceDraft(id: string, updates: Partial<InsertInvoice>): Promise<InvoiceWithLineItems | undefined>;
+  deleteInvoiceDraft(id: string): Promise<boolean>;
+  issueInvoice(id: string, issueDate: Date, prefix: string): Promise<InvoiceWithLineItems | undefined>;
+  markInvoicePaid(id: string, paidAt: Date): Promise<InvoiceWithLineItems | undefined>;
+  voidInvoice(id: string, reason: string): Promise<InvoiceWithLineItems | undefined>;
   
   // Evidence methods
-  getEvidence(complianceItemId?: string, billableEventId?: string): Promise<Evidence[]>;
+  getEvidence(complianceItemId?: string, billableEventId?: string, scope?: OrganizationScope): Promise<Evidence[]>;
   getEvidenceById(id: string): Promise<Evidence | undefined>;
   createEvidence(evidence: InsertEvidence): Promise<Evidence>;
   updateEvidence(id: string, updates: Partial<InsertEvidence>): Promise<Evidence>;
+  getEvidenceVersions(evidenceId?: string): Promise<EvidenceVersion[]>;
+  getEvidenceVersionById(id: string): Promise<EvidenceVersion | undefined>;
+  createEvidenceVersion(version: InsertEvidenceVersion): Promise<EvidenceVersion>;
+  updateEvidenceVersion(id: string, updates: Partial<InsertEvidenceVersion>): Promise<EvidenceVersion>;
   deleteEvidence(id: string): Promise<void>;
   
   // Audit log methods
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(entityId?: string, limit?: number): Promise<AuditLog[]>;
+  verifyAuditChain(): Promise<AuditChainVerification>;
   getAuditLogsWithFilters(filters: {
     userId?: string;
     action?: string;
@@ -100,9 +277,22 @@ export interface IStorage {
   createEmailAlert(alert: InsertEmailAlert): Promise<EmailAlert>;
   getPendingEmailAlerts(): Promise<EmailAlert[]>;
   updateEmailAlertStatus(id: string, status: string, errorMessage?: string): Promise<void>;
+  getSentEmailAlerts(complianceItemIds: string[]): Promise<EmailAlert[]>;
+  getSentRenewalAlerts(contractIds: string[]): Promise<EmailAlert[]>;
+  getSentCeilingAlerts(contractIds: string[]): Promise<EmailAlert[]>;
+  
+  // Alert policy and escalation methods
+  getAlertPolicies(): Promise<AlertPolicy[]>;
+  upsertAlertPolicy(policy: InsertAlertPolicy): Promise<AlertPolicy>;
+  deleteAlertPolicy(category: string): Promise<void>;
+  getEscalationRules(): Promise<EscalationRule[]>;
+  getEscalationRule(id: string): Promise<EscalationRule | undefined>;
+  createEscalationRule(rule: InsertEscalationRule): Promise<EscalationRule>;
+  updateEscalationRule(id: string, updates: Partial<InsertEscalationRule>): Promise<EscalationRule>;
+  deleteEscalationRule(id: string): Promise<void>;
   
   // QuickBooks methods
-  getAllQuickbooksConnections(): Promise<QuickbooksConnection[]>;
+  getAllQuickbooksConnections(scope?: OrganizationScope): Promise<QuickbooksConnection[]>;
   getQuickbooksConnection(organizationId: string): Promise<QuickbooksConnection | undefined>;
   createQuickbooksConnection(connection: InsertQuickbooksConnection): Promise<QuickbooksConnection>;
   updateQuickbooksConnection(organizationId: string, updates: Partial<InsertQuickbooksConnection>): Promise<QuickbooksConnection>;
@@ -117,17 +307,42 @@ export interface IStorage {
   upsertSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting>;
   deleteSystemSetting(key: string): Promise<void>;
   
+  // Scheduled job methods
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(name: string): Promise<ScheduledJob | undefined>;
+  ensureScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  updateScheduledJob(name: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob>;
+  claimScheduledJob(name: string, instanceId: string, lockedUntil: Date, force?: boolean): Promise<ScheduledJob | undefined>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: string, updates: Partial<JobRun>): Promise<JobRun>;
+  getJobRuns(jobName?: string, limit?: number): Promise<JobRun[]>;
+  
   // Import/Export methods
   exportDatabase(): Promise<any>;
   importDatabase(data: any): Promise<{
     imported: {
       users: number;
+      teams: number;
+      teamMembers: number;
       organizations: number;
+      userOrganizations: number;
       contracts: number;
+      contractOptionPeriods: number;
       complianceItems: number;
       billableEvents: number;
       evidence: number;
+      evidenceVersions: number;
+      contractAmendments: number;
+      contractRateCardLines: number;
+      contractRates: number;
+      invoices: number;
+      invoiceLineItems: number;
+      alertPolicies: number;
+      escalationRules: number;
+      complianceTemplates: number;
+      complianceTemplateItems: number;
       emailAlerts: number;
+      systemSettings: number;
     };
     total: number;
   }>;
@@ -169,6 +384,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
@@ -191,9 +411,524 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  async setUserDeactivated(id: string, deactivatedAt: Date | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ deactivatedAt, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  // Hands open work to another user; completed items and inactive objectives keep their original owner
+  async transferUserAssignments(fromUserId: string, toUserId: string): Promise<{ complianceItems: number; reviews: number; objectives: number }> {
+    return await db.transaction(async (tx: Transaction) => {
+      const openItem = notInArray(complianceItems.status, ["complete", "na"]);
+      const assigned = await tx
+        .update(complianceItems)
+        .set({ assigneeId: toUserId, updatedAt: new Date() })
+        .where(and(eq(complianceItems.assigneeId, fromUserId), openItem))
+        .returning({ id: complianceItems.id });
+      const reviews = await tx
+        .update(complianceItems)
+        .set({ reviewerId: toUserId, updatedAt: new Date() })
+        .where(and(eq(complianceItems.reviewerId, fromUserId), openItem))
+        .returning({ id: complianceItems.id });
+      const owned = await tx
+        .update(objectives)
+        .set({ ownerId: toUserId, updatedAt: new Date() })
+        .where(and(eq(objectives.ownerId, fromUserId), eq(objectives.isActive, true)))
+        .returning({ id: objectives.id });
+      return { complianceItems: assigned.length, reviews: reviews.length, objectives: owned.length };
+    });
+  }
+
+  async getUserOrganizationIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ organizationId: userOrganizations.organizationId })
+      .from(userOrganizations)
+      .where(eq(userOrganizations.userId, userId));
+    return rows.map((row: { organizationId: string }) => row.organizationId);
+  }
+
+  async setUserOrganizations(userId: string, organizationIds: string[]): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(userOrganizations).where(eq(userOrganizations.userId, userId));
+      if (organizationIds.length > 0) {
+        await tx.insert(userOrganizations).values(organizationIds.map(organizationId => ({ userId, organizationId })));
+      }
+    });
+  }
+
+  // SSO identity methods
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity;
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const [newIdentity] = await db.insert(userIdentities).values(identity).returning();
+    return newIdentity;
+  }
+
+  async updateUserIdentity(id: string, updates: Partial<Pick<UserIdentity, "email" | "lastLoginAt">>): Promise<UserIdentity> {
+    const [updatedIdentity] = await db
+      .update(userIdentities)
+      .set(updates)
+      .where(eq(userIdentities.id, id))
+      .returning();
+    return updatedIdentity;
+  }
+
+  // MFA methods
+  async getUserMfa(userId: string): Promise<UserMfa | undefined> {
+    const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, userId));
+    return mfa;
+  }
+
+  async getMfaEnabledUserIds(): Promise<string[]> {
+    const rows = await db.select({ userId: userMfa.userId }).from(userMfa).where(isNotNull(userMfa.confirmedAt));
+    return rows.map((row: { userId: string }) => row.userId);
+  }
+
+  // Starts (or restarts) enrollment; the authenticator is not used for sign-in until confirmed
+  async saveUserMfaSecret(userId: string, secret: string): Promise<UserMfa> {
+    const [mfa] = await db
+      .insert(userMfa)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userMfa.userId,
+        set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return mfa;
+  }
+
+  async getAllUserMfa(): Promise<UserMfa[]> {
+    return await db.select().from(userMfa);
+  }
+
+  // Replaces the stored secret only, e.g. when re-encrypting it; enrollment state is kept
+  async updateUserMfaSecret(userId: string, secret: string): Promise<void> {
+    await db.update(userMfa).set({ secret }).where(eq(userMfa.userId, userId));
+  }
+
+  async confirmUserMfa(userId: string, step: number): Promise<UserMfa> {
+    const [mfa] = await db
+      .update(userMfa)
+      .set({ confirmedAt: new Date(), lastUsedStep: step })
+      .where(eq(userMfa.userId, userId))
+      .returning();
+    return mfa;
+  }
+
+  // Accepts a time step only if it is later than the last one used, so each code works once
+  async recordMfaStep(userId: string, step: number): Promise<boolean> {
+    const rows = await db
+      .update(userMfa)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userMfa.userId, userId),
+        or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step))
+      ))
+      .returning({ id: userMfa.id });
+    return rows.length > 0;
+  }
+
+  async deleteUserMfa(userId: string): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+      await tx.delete(userMfa).where(eq(userMfa.userId, userId));
+    });
+  }
+
+  async replaceMfaRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx: Transaction) => {
+      await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+      await tx.insert(mfaRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async consumeMfaRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const rows = await db
+      .update(mfaRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, codeHash),
+        isNull(mfaRecoveryCodes.usedAt)
+      ))
+      .returning({ id: mfaRecoveryCodes.id });
+    return rows.length > 0;
+  }
+
+  async countMfaRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(mfaRecoveryCodes)
+      .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+    return result.count;
+  }
+
+  // Login throttle methods
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+  }
+
+  async getLockedLoginThrottles(): Promise<LoginThrottle[]> {
+    return await db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.lockedUntil, new Date()))
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  // Counts a failure, starting over when the previous one is older than the window
+  async recordLoginFailure(key: string, windowStart: Date): Promise<LoginThrottle> {
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ key, failures: 1, lastFailureAt: new Date() })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`CASE WHEN ${loginThrottles.lastFailureAt} < ${windowStart} THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+          lastFailureAt: new Date(),
+        },
+      })
+      .returning();
+    return throttle;
+  }
+
+  async setLoginLock(key: string, lockedUntil: Date): Promise<void> {
+    await db.update(loginThrottles).set({ lockedUntil }).where(eq(loginThrottles.key, key));
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+  }
+
+  // Password reset methods
+  async createPasswordResetToken(token: Pick<PasswordResetToken, "userId" | "tokenHash" | "expiresAt" | "requestedIp">): Promise<PasswordResetToken> {
+    const [newToken] = await db.insert(passwordResetTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async countRecentPasswordResetTokens(userId: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), gte(passwordResetTokens.createdAt, since)));
+    return result.count;
+  }
+
+  // Marks a token used; false if it was already used, so a link works only once
+  async consumePasswordResetToken(id: string): Promise<boolean> {
+    const rows = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return rows.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Team methods
+  async getTeams(): Promise<Team[]> {
+    return await db.select().from(teams).orderBy(asc(teams.name));
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const [newTeam] = await db.insert(teams).values(team).returning();
+    return newTeam;
+  }
+
+  async updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team> {
+    const [updated] = await db
+      .update(teams)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    await db.delete(teams).where(eq(teams.id, id));
+  }
+
+  async getTeamMembers(teamId?: string): Promise<TeamMember[]> {
+    if (teamId) {
+      return await db.select().from(teamMembers).where(eq(teamMembers.teamId, teamId));
+    }
+    return await db.select().from(teamMembers);
+  }
+
+  async setTeamMembers(teamId: string, userIds: string[]): Promise<TeamMember[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      await tx.delete(teamMembers).where(eq(teamMembers.teamId, teamId));
+      const uniqueIds = Array.from(new Set(userIds));
+      if (uniqueIds.length === 0) return [];
+      return await tx
+        .insert(teamMembers)
+        .values(uniqueIds.map(userId => ({ teamId, userId })))
+        .returning();
+    });
+  }
+
+  // Compliance template methods
+  async getComplianceTemplates(): Promise<ComplianceTemplate[]> {
+    return await db.select().from(complianceTemplates).orderBy(asc(complianceTemplates.name));
+  }
+
+  async getComplianceTemplate(id: string): Promise<ComplianceTemplate | undefined> {
+    const [template] = await db.select().from(complianceTemplates).where(eq(complianceTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getComplianceTemplateByName(name: string): Promise<ComplianceTemplate | undefined> {
+    const [template] = await db.select().from(complianceTemplates).where(eq(complianceTemplates.name, name));
+    return template || undefined;
+  }
+
+  async createComplianceTemplate(template: InsertComplianceTemplate): Promise<ComplianceTemplate> {
+    const [newTemplate] = await db.insert(complianceTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async updateComplianceTemplate(id: string, updates: Partial<InsertComplianceTemplate>): Promise<ComplianceTemplate> {
+    const [updated] = await db
+      .update(complianceTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(complianceTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteComplianceTemplate(id: string): Promise<void> {
+    await db.delete(complianceTemplates).where(eq(complianceTemplates.id, id));
+  }
+
+  async getComplianceTemplateItems(templateId?: string): Promise<ComplianceTemplateItem[]> {
+    if (templateId) {
+      return await db.select().from(complianceTemplateItems)
+        .where(eq(complianceTemplateItems.templateId, templateId))
+        .orderBy(asc(complianceTemplateItems.sortOrder));
+    }
+    return await db.select().from(complianceTemplateItems).orderBy(asc(complianceTemplateItems.sortOrder));
+  }
+
+  async setComplianceTemplateItems(templateId: string, items: InsertComplianceTemplateItem[]): Promise<ComplianceTemplateItem[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      await tx.delete(complianceTemplateItems).where(eq(complianceTemplateItems.templateId, templateId));
+      if (items.length === 0) return [];
+      return await tx
+        .insert(complianceTemplateItems)
+        .values(items.map((item, index) => ({ ...item, templateId, sortOrder: index })))
+        .returning();
+    });
+  }
+
+  // Calendar feed methods (revoked feeds are kept for the audit trail)
+  async getCalendarFeeds(userId?: string): Promise<CalendarFeed[]> {
+    const conditions = [isNull(calendarFeeds.revokedAt)];
+    if (userId) {
+      conditions.push(eq(calendarFeeds.userId, userId));
+    }
+    return await db.select().from(calendarFeeds).where(and(...conditions)).orderBy(asc(calendarFeeds.createdAt));
+  }
+
+  async getCalendarFeed(id: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.id, id));
+    return feed || undefined;
+  }
+
+  async getCalendarFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.tokenHash, tokenHash));
+    return feed || undefined;
+  }
+
+  async createCalendarFeed(feed: InsertCalendarFeed & { userId: string; name: string; tokenHash: string }): Promise<CalendarFeed> {
+    const [newFeed] = await db.insert(calendarFeeds).values(feed).returning();
+    return newFeed;
+  }
+
+  async updateCalendarFeed(id: string, updates: Partial<Pick<CalendarFeed, "name" | "lastAccessedAt" | "revokedAt">>): Promise<CalendarFeed> {
+    const [updated] = await db
+      .update(calendarFeeds)
+      .set(updates)
+      .where(eq(calendarFeeds.id, id))
+      .returning();
+    return updated;
+  }
+
+  // API token methods (revoked tokens are kept for the audit trail)
+  async getApiTokens(userId?: string): Promise<ApiToken[]> {
+    const conditions = [isNull(apiTokens.revokedAt)];
+    if (userId) {
+      conditions.push(eq(apiTokens.userId, userId));
+    }
+    return await db.select().from(apiTokens).where(and(...conditions)).orderBy(asc(apiTokens.createdAt));
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: Omit<ApiToken, "id" | "lastUsedAt" | "lastUsedIp" | "revokedAt" | "createdAt">): Promise<ApiToken> {
+    const [newToken] = await db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+
+  async updateApiToken(id: string, updates: Partial<Pick<ApiToken, "lastUsedAt" | "lastUsedIp" | "revokedAt">>): Promise<ApiToken> {
+    const [updated] = await db
+      .update(apiTokens)
+      .set(updates)
+      .where(eq(apiTokens.id, id))
+      .returning();
+    return updated;
+  }
+
+  async revokeUserApiTokens(userId: string): Promise<number> {
+    const rows = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return rows.length;
+  }
+
+  // Invitation methods
+  async getPendingUserInvitations(): Promise<UserInvitation[]> {
+    return await db
+      .select()
+      .from(userInvitations)
+      .where(and(isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt)))
+      .orderBy(desc(userInvitations.createdAt));
+  }
+
+  async getUserInvitation(id: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await db.select().from(userInvitations).where(eq(userInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getUserInvitationByHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    const [invitation] = await db.select().from(userInvitations).where(eq(userInvitations.tokenHash, tokenHash));
+    return invitation || undefined;
+  }
+
+  async createUserInvitation(invitation: Omit<UserInvitation, "id" | "acceptedAt" | "acceptedUserId" | "revokedAt" | "createdAt">): Promise<UserInvitation> {
+    const [created] = await db.insert(userInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async updateUserInvitation(id: string, updates: Partial<Pick<UserInvitation, "tokenHash" | "expiresAt" | "revokedAt">>): Promise<UserInvitation> {
+    const [updated] = await db
+      .update(userInvitations)
+      .set(updates)
+      .where(eq(userInvitations.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Creates the invited account and uses up the invitation together; undefined if it was already used or revoked
+  async acceptUserInvitation(id: string, user: InsertUser, organizationIds: string[]): Promise<User | undefined> {
+    return await db.transaction(async (tx: Transaction) => {
+      const claimed = await tx
+        .update(userInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(userInvitations.id, id), isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt)))
+        .returning({ id: userInvitations.id });
+      if (claimed.length === 0) return undefined;
+
+      const [newUser] = await tx.insert(users).values(user).returning();
+      await tx.update(userInvitations).set({ acceptedUserId: newUser.id }).where(eq(userInvitations.id, id));
+      if (organizationIds.length > 0) {
+        await tx.insert(userOrganizations).values(organizationIds.map(organizationId => ({ userId: newUser.id, organizationId })));
+      }
+      return newUser;
+    });
+  }
+
+  // User session methods
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return await db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), gt(userSessions.expiresAt, new Date())))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async getUserSession(id: string): Promise<UserSession | undefined> {
+    const [userSession] = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return userSession || undefined;
+  }
+
+  async upsertUserSession(session: Pick<UserSession, "sid" | "userId" | "ipAddress" | "userAgent" | "expiresAt">): Promise<UserSession> {
+    const [userSession] = await db
+      .insert(userSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: userSessions.sid,
+        set: {
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          expiresAt: session.expiresAt,
+          lastSeenAt: new Date(),
+        },
+      })
+      .returning();
+    return userSession;
+  }
+
+  async touchUserSession(sid: string, updates: Pick<UserSession, "ipAddress" | "userAgent">): Promise<UserSession | undefined> {
+    const [userSession] = await db
+      .update(userSessions)
+      .set({ ...updates, lastSeenAt: new Date() })
+      .where(eq(userSessions.sid, sid))
+      .returning();
+    return userSession || undefined;
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.sid, sid));
+  }
+
+  async deleteExpiredUserSessions(): Promise<void> {
+    await db.delete(userSessions).where(lte(userSessions.expiresAt, new Date()));
+  }
+
   // Organization methods
-  async getOrganizations(): Promise<Organization[]> {
-    return await db.select().from(organizations).orderBy(asc(organizations.name));
+  async getOrganizations(scope?: OrganizationScope): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .where(scope ? inArray(organizations.id, scope) : undefined)
+      .orderBy(asc(organizations.name));
   }
 
   async getOrganization(id: string): Promise<Organization | undefined> {
@@ -220,13 +955,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Contract methods
-  async getContracts(organizationId?: string): Promise<Contract[]> {
-    if (organizationId) {
-      return await db.select().from(contracts)
-        .where(eq(contracts.customerId, organizationId))
-        .orderBy(desc(contracts.createdAt));
-    }
-    return await db.select().from(contracts).orderBy(desc(contracts.createdAt));
+  async getContracts(organizationId?: string, scope?: OrganizationScope): Promise<Contract[]> {
+    return await db.select().from(contracts)
+      .where(and(
+        organizationId ? eq(contracts.customerId, organizationId) : undefined,
+        scope ? inArray(contracts.customerId, scope) : undefined
+      ))
+      .orderBy(desc(contracts.createdAt));
   }
 
   async getContract(id: string): Promise<Contract | undefined> {
@@ -252,14 +987,216 @@ export class DatabaseStorage implements IStorage {
     await db.delete(contracts).where(eq(contracts.id, id));
   }
 
+  async getRenewalContracts(scope?: OrganizationScope): Promise<Contract[]> {
+    return await db.select().from(contracts)
+      .where(and(
+        eq(contracts.isActive, true),
+        isNotNull(contracts.endDate),
+        scope ? inArray(contracts.customerId, scope) : undefined
+      ))
+      .orderBy(asc(contracts.endDate));
+  }
+
+  async getContractOptionPeriods(contractIds: string[]): Promise<ContractOptionPeriod[]> {
+    if (contractIds.length === 0) return [];
+    return await db.select().from(contractOptionPeriods)
+      .where(inArray(contractOptionPeriods.contractId, contractIds))
+      .orderBy(asc(contractOptionPeriods.startDate));
+  }
+
+  async replaceContractOptionPeriods(contractId: string, periods: Array<InsertContractOptionPeriod & { id?: string }>): Promise<ContractOptionPeriod[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      // Periods kept by id keep their status; the rest of the schedule is replaced
+      const keptIds = periods.map(period => period.id).filter((id): id is string => !!id);
+      await tx.delete(contractOptionPeriods).where(and(
+        eq(contractOptionPeriods.contractId, contractId),
+        keptIds.length > 0 ? notInArray(contractOptionPeriods.id, keptIds) : undefined
+      ));
+
+      for (const { id, label, startDate, endDate } of periods) {
+        if (id) {
+          await tx.update(contractOptionPeriods)
+            .set({ label, startDate, endDate })
+            .where(and(eq(contractOptionPeriods.id, id), eq(contractOptionPeriods.contractId, contractId)));
+        } else {
+          await tx.insert(contractOptionPeriods).values({ contractId, label, startDate, endDate });
+        }
+      }
+
+      return await tx.select().from(contractOptionPeriods)
+        .where(eq(contractOptionPeriods.contractId, contractId))
+        .orderBy(asc(contractOptionPeriods.startDate));
+    });
+  }
+
+  async recordRenewalDecision(
+    id: string,
+    updates: Partial<Pick<Contract, "endDate" | "renewalDecision">>,
+    optionPeriod?: { id: string; status: ContractOptionPeriod["status"] }
+  ): Promise<Contract> {
+    return await db.transaction(async (tx: Transaction) => {
+      if (optionPeriod) {
+        await tx.update(contractOptionPeriods)
+          .set({ status: optionPeriod.status, decidedAt: new Date() })
+          .where(and(eq(contractOptionPeriods.id, optionPeriod.id), eq(contractOptionPeriods.contractId, id)));
+      }
+      const [updated] = await tx.update(contracts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(contracts.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getContractAmendments(contractId: string): Promise<ContractAmendment[]> {
+    return await db.select().from(contractAmendments)
+      .where(eq(contractAmendments.contractId, contractId))
+      .orderBy(asc(contractAmendments.amendmentNumber));
+  }
+
+  async getContractAmendment(id: string): Promise<ContractAmendment | undefined> {
+    const [amendment] = await db.select().from(contractAmendments).where(eq(contractAmendments.id, id));
+    return amendment || undefined;
+  }
+
+  async createContractAmendment(contractId: string, amendment: InsertContractAmendment, createdBy: string | null): Promise<ContractAmendment> {
+    return await db.transaction(async (tx: Transaction) => {
+      // Lock the contract so concurrent amendments cannot take the same number
+      await tx.select({ id: contracts.id }).from(contracts).where(eq(contracts.id, contractId)).for("update");
+      const [latest] = await tx.select({ amendmentNumber: contractAmendments.amendmentNumber })
+        .from(contractAmendments)
+        .where(eq(contractAmendments.contractId, contractId))
+        .orderBy(desc(contractAmendments.amendmentNumber))
+        .limit(1);
+
+      const [created] = await tx.insert(contractAmendments)
+        .values({ ...amendment, contractId, createdBy, amendmentNumber: (latest?.amendmentNumber ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  async deleteContractAmendment(id: string): Promise<void> {
+    await db.delete(contractAmendments).where(eq(contractAmendments.id, id));
+  }
+
+  async getDueContractAmendments(asOf: Date): Promise<ContractAmendment[]> {
+    return await db.select().from(contractAmendments)
+      .where(and(isNull(contractAmendments.appliedAt), lte(contractAmendments.effectiveDate, asOf)))
+      .orderBy(asc(contractAmendments.effectiveDate), asc(contractAmendments.amendmentNumber));
+  }
+
+  // Undefined when the amendment was already applied, e.g. by the daily job racing the create route
+  async applyContractAmendment(id: string): Promise<{ contract: Contract; amendment: ContractAmendment } | undefined> {
+    return await db.transaction(async (tx: Transaction) => {
+      const [pending] = await tx.select().from(contractAmendments).where(eq(contractAmendments.id, id));
+      if (!pending) return undefined;
+      const [current] = await tx.select().from(contracts).where(eq(contracts.id, pending.contractId)).for("update");
+
+      // Claimed only while unapplied, so a second run cannot overwrite the previous terms
+      const [amendment] = await tx.update(contractAmendments)
+        .set({ previousEndDate: current.endDate, previousMaxAmount: current.maxAmount, appliedAt: new Date() })
+        .where(and(eq(contractAmendments.id, id), isNull(contractAmendments.appliedAt)))
+        .returning();
+      if (!amendment) return undefined;
+      const [contract] = await tx.update(contracts)
+        .set({
+          endDate: pending.endDate ?? current.endDate,
+          maxAmount: pending.maxAmount ?? current.maxAmount,
+          updatedAt: new Date(),
+        })
+        .where(eq(contracts.id, current.id))
+        .returning();
+      return { contract, amendment };
+    });
+  }
+
+  // Applied amendments that set a new ceiling, latest first
+  async getCeilingAmendments(contractIds: string[]): Promise<ContractAmendment[]> {
+    if (contractIds.length === 0) return [];
+    return await db.select().from(contractAmendments)
+      .where(and(
+        inArray(contractAmendments.contractId, contractIds),
+        isNotNull(contractAmendments.maxAmount),
+        isNotNull(contractAmendments.appliedAt)
+      ))
+      .orderBy(desc(contractAmendments.appliedAt));
+  }
+
+  async getRateCardLines(contractIds: string[], includeRetired = false): Promise<ContractRateCardLineWithRates[]> {
+    if (contractIds.length === 0) return [];
+    const lines: ContractRateCardLine[] = await db.select().from(contractRateCardLines)
+      .where(and(
+        inArray(contractRateCardLines.contractId, contractIds),
+        includeRetired ? undefined : eq(contractRateCardLines.isActive, true)
+      ))
+      .orderBy(asc(contractRateCardLines.name));
+    if (lines.length === 0) return [];
+    const rates: ContractRate[] = await db.select().from(contractRates)
+      .where(inArray(contractRates.rateCardLineId, lines.map(line => line.id)))
+      .orderBy(asc(contractRates.effectiveDate));
+    return lines.map(line => ({ ...line, rates: rates.filter(rate => rate.rateCardLineId === line.id) }));
+  }
+
+  async getRateCardLine(id: string): Promise<ContractRateCardLineWithRates | undefined> {
+    const [line] = await db.select().from(contractRateCardLines).where(eq(contractRateCardLines.id, id));
+    if (!line) return undefined;
+    const rates = await db.select().from(contractRates)
+      .where(eq(contractRates.rateCardLineId, id))
+      .orderBy(asc(contractRates.effectiveDate));
+    return { ...line, rates };
+  }
+
+  async replaceRateCard(contractId: string, lines: Array<InsertContractRateCardLine & { id?: string }>): Promise<ContractRateCardLineWithRates[]> {
+    await db.transaction(async (tx: Transaction) => {
+      // Lines dropped from the card are deleted, or retired if events were already billed from them
+      const keptIds = lines.map(line => line.id).filter((id): id is string => !!id);
+      const dropped = await tx.select({ id: contractRateCardLines.id }).from(contractRateCardLines)
+        .where(and(
+          eq(contractRateCardLines.contractId, contractId),
+          eq(contractRateCardLines.isActive, true),
+          keptIds.length > 0 ? notInArray(contractRateCardLines.id, keptIds) : undefined
+        ));
+      for (const { id } of dropped) {
+        const [billed] = await tx.select({ id: billableEvents.id }).from(billableEvents)
+          .where(eq(billableEvents.rateCardLineId, id))
+          .limit(1);
+        if (billed) {
+          await tx.update(contractRateCardLines).set({ isActive: false }).where(eq(contractRateCardLines.id, id));
+        } else {
+          await tx.delete(contractRateCardLines).where(eq(contractRateCardLines.id, id));
+        }
+      }
+
+      for (const { id, rates, ...fields } of lines) {
+        let lineId = id;
+        if (lineId) {
+          await tx.update(contractRateCardLines)
+            .set(fields)
+            .where(and(eq(contractRateCardLines.id, lineId), eq(contractRateCardLines.contractId, contractId)));
+          await tx.delete(contractRates).where(eq(contractRates.rateCardLineId, lineId));
+        } else {
+          const [created] = await tx.insert(contractRateCardLines).values({ ...fields, contractId }).returning();
+          lineId = created.id;
+        }
+        await tx.insert(contractRates).values(rates.map(rate => ({ ...rate, rateCardLineId: lineId })));
+      }
+    });
+    return await this.getRateCardLines([contractId]);
+  }
+
   // Compliance methods
   async getComplianceItems(filters: {
     organizationId?: string;
+    organizationIds?: OrganizationScope;
     category?: string;
     status?: string;
     dueDateFrom?: Date;
     dueDateTo?: Date;
     search?: string;
+    assigneeId?: string;
+    teamId?: string;
+    assignedTo?: string;
     limit?: number;
     offset?: number;
   } = {}): Promise<{ items: ComplianceItem[]; total: number }> {
@@ -268,6 +1205,9 @@ export class DatabaseStorage implements IStorage {
     if (filters.organizationId) {
       whereConditions.push(eq(complianceItems.customerId, filters.organizationId));
     }
+    if (filters.organizationIds) {
+      whereConditions.push(inArray(complianceItems.customerId, filters.organizationIds));
+    }
     if (filters.category) {
       whereConditions.push(eq(complianceItems.category, filters.category as any));
     }
@@ -275,9 +1215,12 @@ export class DatabaseStorage implements IStorage {
       // Special handling for "overdue" status - it's actually pending items with past due dates
       if (filters.status === "overdue") {
         whereConditions.push(
-          and(
-            eq(complianceItems.status, "pending"),
-            lte(complianceItems.dueDate, new Date())
+          or(
+            eq(complianceItems.status, "overdue"),
+            and(
+              eq(complianceItems.status, "pending"),
+              lte(complianceItems.dueDate, new Date())
+            )
           )
         );
       } else {
@@ -299,6 +1242,24 @@ export class DatabaseStorage implements IStorage {
         )
       );
     }
+    if (filters.assigneeId) {
+      whereConditions.push(eq(complianceItems.assigneeId, filters.assigneeId));
+    }
+    if (filters.teamId) {
+      whereConditions.push(eq(complianceItems.teamId, filters.teamId));
+    }
+    if (filters.assignedTo) {
+      const userTeams = db
+        .select({ teamId: teamMembers.teamId })
+        .from(teamMembers)
+        .where(eq(teamMembers.userId, filters.assignedTo));
+      whereConditions.push(
+        or(
+          eq(complianceItems.assigneeId, filters.assignedTo),
+          inArray(complianceItems.teamId, userTeams)
+        )
+      );
+    }
 
     const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
 
@@ -328,12 +1289,19 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async getContractComplianceItems(contractIds: string[]): Promise<ComplianceItem[]> {
+    if (contractIds.length === 0) return [];
+    return await db.select().from(complianceItems)
+      .where(inArray(complianceItems.contractId, contractIds))
+      .orderBy(asc(complianceItems.dueDate));
+  }
+
   async createComplianceItem(item: InsertComplianceItem): Promise<ComplianceItem> {
     const [newItem] = await db.insert(complianceItems).values(item).returning();
     return newItem;
   }
 
-  async updateComplianceItem(id: string, updates: Partial<InsertComplianceItem>): Promise<ComplianceItem> {
+  async updateComplianceItem(id: string, updates: Partial<InsertComplianceItem & ComplianceReviewFields>): Promise<ComplianceItem> {
     const [updatedItem] = await db
       .update(complianceItems)
       .set({ ...updates, updatedAt: new Date() })
@@ -346,16 +1314,25 @@ export class DatabaseStorage implements IStorage {
     await db.delete(complianceItems).where(eq(complianceItems.id, id));
   }
 
+  async getComplianceSeries(seriesId: string): Promise<ComplianceItem[]> {
+    return await db
+      .select()
+      .from(complianceItems)
+      .where(eq(complianceItems.seriesId, seriesId))
+      .orderBy(asc(complianceItems.dueDate));
+  }
+
   async getUpcomingComplianceItems(days: number): Promise<ComplianceItem[]> {
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + days);
 
+    // Rejected items are back with the assignee and still need reminders
     return await db
       .select()
       .from(complianceItems)
       .where(
         and(
-          eq(complianceItems.status, "pending"),
+          inArray(complianceItems.status, ["pending", "rejected"]),
           gte(complianceItems.dueDate, new Date()),
           lte(complianceItems.dueDate, endDate)
         )
@@ -367,16 +1344,52 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(complianceItems)
+      .where(
+        or(
+          eq(complianceItems.status, "overdue"),
+          and(
+            inArray(complianceItems.status, ["pending", "rejected"]),
+            lte(complianceItems.dueDate, new Date())
+          )
+        )
+      )
+      .orderBy(asc(complianceItems.dueDate));
+  }
+
+  async getReviewQueue(reviewerId?: string, scope?: OrganizationScope): Promise<ComplianceItem[]> {
+    const whereConditions: SQL[] = [eq(complianceItems.status, "in_review")];
+    if (reviewerId) {
+      whereConditions.push(eq(complianceItems.reviewerId, reviewerId));
+    }
+    if (scope) {
+      whereConditions.push(inArray(complianceItems.customerId, scope));
+    }
+
+    return await db
+      .select()
+      .from(complianceItems)
+      .where(and(...whereConditions))
+      .orderBy(asc(complianceItems.submittedAt));
+  }
+
+  async markOverdueComplianceItems(): Promise<ComplianceItem[]> {
+    // Same rule as the on-read check: due before today (UTC)
+    const now = new Date();
+    const startOfTodayUTC = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    return await db
+      .update(complianceItems)
+      .set({ status: "overdue", updatedAt: new Date() })
       .where(
         and(
           eq(complianceItems.status, "pending"),
-          lte(complianceItems.dueDate, new Date())
+          lt(complianceItems.dueDate, startOfTodayUTC)
         )
       )
-      .orderBy(asc(complianceItems.dueDate));
+      .returning();
   }
 
-  async getComplianceMetrics(): Promise<{
+  async getComplianceMetrics(scope?: OrganizationScope): Promise<{
     totalItems: number;
     completedItems: number;
     overdueItems: number;
@@ -386,16 +1399,17 @@ export class DatabaseStorage implements IStorage {
     const now = new Date();
     const nextWeek = new Date();
     nextWeek.setDate(nextWeek.getDate() + 7);
+    const inScope = scope ? inArray(complianceItems.customerId, scope) : undefined;
 
-    const [total] = await db.select({ count: count() }).from(complianceItems);
+    const [total] = await db.select({ count: count() }).from(complianceItems).where(inScope);
     const [completed] = await db
       .select({ count: count() })
       .from(complianceItems)
-      .where(eq(complianceItems.status, "complete"));
+      .where(and(inScope, eq(complianceItems.status, "complete")));
     const [overdue] = await db
       .select({ count: count() })
       .from(complianceItems)
-      .where(
+      .where(and(inScope,
         or(
           eq(complianceItems.status, "overdue"),
           and(
@@ -403,12 +1417,13 @@ export class DatabaseStorage implements IStorage {
             lte(complianceItems.dueDate, now)
           )
         )
-      );
+      ));
     const [upcoming] = await db
       .select({ count: count() })
       .from(complianceItems)
       .where(
         and(
+          inScope,
           sql`${complianceItems.status} != 'complete'`,
           gte(complianceItems.dueDate, now),
           lte(complianceItems.dueDate, nextWeek)
@@ -419,13 +1434,14 @@ export class DatabaseStorage implements IStorage {
     const [itemsDueByNow] = await db
       .select({ count: count() })
       .from(complianceItems)
-      .where(lte(complianceItems.dueDate, now));
+      .where(and(inScope, lte(complianceItems.dueDate, now)));
     
     const [completedDueByNow] = await db
       .select({ count: count() })
       .from(complianceItems)
       .where(
         and(
+          inScope,
           eq(complianceItems.status, "complete"),
           lte(complianceItems.dueDate, now)
         )
@@ -449,13 +1465,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Billable events methods
-  async getBillableEvents(organizationId?: string): Promise<BillableEvent[]> {
-    if (organizationId) {
-      return await db.select().from(billableEvents)
-        .where(eq(billableEvents.customerId, organizationId))
-        .orderBy(desc(billableEvents.billingDate));
-    }
-    return await db.select().from(billableEvents).orderBy(desc(billableEvents.billingDate));
+  async getBillableEvents(organizationId?: string, scope?: OrganizationScope): Promise<BillableEvent[]> {
+    return await db.select().from(billableEvents)
+      .where(and(
+        organizationId ? eq(billableEvents.customerId, organizationId) : undefined,
+        scope ? inArray(billableEvents.customerId, scope) : undefined
+      ))
+      .orderBy(desc(billableEvents.billingDate));
   }
 
   async getBillableEvent(id: string): Promise<BillableEvent | undefined> {
@@ -463,12 +1479,19 @@ export class DatabaseStorage implements IStorage {
     return event;
   }
 
-  async createBillableEvent(event: InsertBillableEvent): Promise<BillableEvent> {
+  async getContractBillableEvents(contractIds: string[]): Promise<BillableEvent[]> {
+    if (contractIds.length === 0) return [];
+    return await db.select().from(billableEvents)
+      .where(inArray(billableEvents.contractId, contractIds))
+      .orderBy(asc(billableEvents.billingDate));
+  }
+
+  async createBillableEvent(event: InsertBillableEvent & Pick<Partial<BillableEvent>, "offCardReason">): Promise<BillableEvent> {
     const [newEvent] = await db.insert(billableEvents).values(event).returning();
     return newEvent;
   }
 
-  async updateBillableEvent(id: string, updates: Partial<InsertBillableEvent>): Promise<BillableEvent> {
+  async updateBillableEvent(id: string, updates: Partial<InsertBillableEvent> & Pick<Partial<BillableEvent>, "offCardReason">): Promise<BillableEvent> {
     const [updatedEvent] = await db
       .update(billableEvents)
       .set(updates)
@@ -481,8 +1504,188 @@ export class DatabaseStorage implements IStorage {
     await db.delete(billableEvents).where(eq(billableEvents.id, id));
   }
 
+  // Invoice methods
+  async getInvoices(
+    filters: { organizationId?: string; contractId?: string; status?: Invoice["status"] } = {},
+    scope?: OrganizationScope
+  ): Promise<Invoice[]> {
+    return await db.select().from(invoices)
+      .where(and(
+        filters.organizationId ? eq(invoices.customerId, filters.organizationId) : undefined,
+        filters.contractId ? eq(invoices.contractId, filters.contractId) : undefined,
+        filters.status ? eq(invoices.status, filters.status) : undefined,
+        scope ? inArray(invoices.customerId, scope) : undefined
+      ))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async getInvoice(id: string): Promise<InvoiceWithLineItems | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    if (!invoice) return undefined;
+    const lineItems = await db.select().from(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, id))
+      .orderBy(asc(invoiceLineItems.sortOrder));
+    return { ...invoice, lineItems };
+  }
+
+  // Events not on any invoice and without an invoice number recorded by hand
+  async getUnbilledEvents(organizationId: string, contractIds?: string[]): Promise<BillableEvent[]> {
+    if (contractIds?.length === 0) return [];
+    return await db.select().from(billableEvents)
+      .where(and(
+        eq(billableEvents.customerId, organizationId),
+        contractIds ? inArray(billableEvents.contractId, contractIds) : undefined,
+        isNull(billableEvents.invoiceId),
+        isNull(billableEvents.invoiceNumber)
+      ))
+      .orderBy(asc(billableEvents.billingDate));
+  }
+
+  // Claims the events for a new draft; undefined if any of them was billed in the meantime
+  async createInvoiceDraft({ billableEventIds, ...fields }: InsertInvoice, createdBy: string | null): Promise<InvoiceWithLineItems | undefined> {
+    const id = await db.transaction(async (tx: Transaction) => {
+      const events: BillableEvent[] = await tx.select().from(billableEvents)
+        .where(and(
+          inArray(billableEvents.id, billableEventIds),
+          eq(billableEvents.customerId, fields.customerId),
+          isNull(billableEvents.invoiceId),
+          isNull(billableEvents.invoiceNumber)
+        ))
+        .for("update");
+      if (events.length !== new Set(billableEventIds).size) return undefined;
+
+      const totals = invoiceTotals(events.map(event => event.totalAmount), parseFloat(fields.taxRate ?? "0"));
+      const [invoice] = await tx.insert(invoices).values({ ...fields, ...totals, createdBy }).returning();
+      await tx.insert(invoiceLineItems).values(invoiceLinesFor(invoice.id, events));
+      await tx.update(billableEvents).set({ invoiceId: invoice.id }).where(inArray(billableEvents.id, billableEventIds));
+      return invoice.id as string;
+    });
+    return id ? await this.getInvoice(id) : undefined;
+  }
+
+  // Changes a draft's terms and events; undefined if it is no longer a draft or an added event was billed elsewhere
+  async updateInvoiceDraft(id: string, { billableEventIds, ...fields }: Partial<InsertInvoice>): Promise<InvoiceWithLineItems | undefined> {
+    const updated = await db.transaction(async (tx: Transaction) => {
+      const [draft] = await tx.select().from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.status, "draft")))
+        .for("update");
+      if (!draft) return false;
+
+      if (billableEventIds) {
+        const claimable = await tx.select({ id: billableEvents.id }).from(billableEvents)
+          .where(and(
+            inArray(billableEvents.id, billableEventIds),
+            eq(billableEvents.customerId, draft.customerId),
+            or(isNull(billableEvents.invoiceId), eq(billableEvents.invoiceId, id)),
+            isNull(billableEvents.invoiceNumber)
+          ))
+          .for("update");
+        if (claimable.length !== new Set(billableEventIds).size) return false;
+
+        await tx.update(billableEvents).set({ invoiceId: null })
+          .where(and(eq(billableEvents.invoiceId, id), notInArray(billableEvents.id, billableEventIds)));
+        await tx.update(billableEvents).set({ invoiceId: id }).where(inArray(billableEvents.id, billableEventIds));
+      }
+
+      const events: BillableEvent[] = await tx.select().from(billableEvents).where(eq(billableEvents.invoiceId, id));
+      const taxRate = fields.taxRate ?? draft.taxRate;
+      await tx.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, id));
+      if (events.length > 0) {
+        await tx.insert(invoiceLineItems).values(invoiceLinesFor(id, events));
+      }
+      await tx.update(invoices)
+        .set({ ...fields, ...invoiceTotals(events.map(event => event.totalAmount), parseFloat(taxRate)), updatedAt: new Date() })
+        .where(eq(invoices.id, id));
+      return true;
+    });
+    return updated ? await this.getInvoice(id) : undefined;
+  }
+
+  // Deletes a draft and returns its events to the unbilled pool
+  async deleteInvoiceDraft(id: string): Promise<boolean> {
+    return await db.transaction(async (tx: Transaction) => {
+      const [draft] = await tx.select({ id: invoices.id }).from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.status, "draft")))
+        .for("update");
+      if (!draft) return false;
+      await tx.update(billableEvents).set({ invoiceId: null }).where(eq(billableEvents.invoiceId, id));
+      await tx.delete(invoices).where(eq(invoices.id, id));
+      return true;
+    });
+  }
+
+  // Numbers a draft, refreshes its lines from the events and stamps the number on them
+  async issueInvoice(id: string, issueDate: Date, prefix: string): Promise<InvoiceWithLineItems | undefined> {
+    const issued = await db.transaction(async (tx: Transaction) => {
+      // Serialize issuers so numbers are sequential without gaps
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${INVOICE_NUMBER_LOCK_ID})`);
+
+      const [draft] = await tx.select().from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.status, "draft")))
+        .for("update");
+      if (!draft) return false;
+
+      const events: BillableEvent[] = await tx.select().from(billableEvents).where(eq(billableEvents.invoiceId, id));
+      if (events.length === 0) return false;
+
+      const [previous] = await tx.select({ sequenceNumber: invoices.sequenceNumber }).from(invoices)
+        .where(isNotNull(invoices.sequenceNumber))
+        .orderBy(desc(invoices.sequenceNumber))
+        .limit(1);
+      const sequenceNumber = (previous?.sequenceNumber ?? 0) + 1;
+      const invoiceNumber = formatInvoiceNumber(prefix, sequenceNumber);
+
+      await tx.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, id));
+      await tx.insert(invoiceLineItems).values(invoiceLinesFor(id, events));
+      await tx.update(invoices)
+        .set({
+          ...invoiceTotals(events.map(event => event.totalAmount), parseFloat(draft.taxRate)),
+          status: "issued",
+          invoiceNumber,
+          sequenceNumber,
+          issueDate,
+          dueDate: invoiceDueDate(issueDate, draft.netTermsDays),
+          issuedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, id));
+      await tx.update(billableEvents).set({ invoiceNumber }).where(eq(billableEvents.invoiceId, id));
+      return true;
+    });
+    return issued ? await this.getInvoice(id) : undefined;
+  }
+
+  async markInvoicePaid(id: string, paidAt: Date): Promise<InvoiceWithLineItems | undefined> {
+    const paid = await db.transaction(async (tx: Transaction) => {
+      const [invoice] = await tx.update(invoices)
+        .set({ status: "paid", paidAt, updatedAt: new Date() })
+        .where(and(eq(invoices.id, id), eq(invoices.status, "issued")))
+        .returning();
+      if (!invoice) return false;
+      await tx.update(billableEvents).set({ isPaid: true, paidAt }).where(eq(billableEvents.invoiceId, id));
+      return true;
+    });
+    return paid ? await this.getInvoice(id) : undefined;
+  }
+
+  // Voids an issued or paid invoice. Its lines stay as a record; the events can be billed again.
+  async voidInvoice(id: string, reason: string): Promise<InvoiceWithLineItems | undefined> {
+    const voided = await db.transaction(async (tx: Transaction) => {
+      const [invoice] = await tx.update(invoices)
+        .set({ status: "void", voidedAt: new Date(), voidReason: reason, updatedAt: new Date() })
+        .where(and(eq(invoices.id, id), inArray(invoices.status, ["issued", "paid"])))
+        .returning();
+      if (!invoice) return false;
+      await tx.update(billableEvents)
+        .set({ invoiceId: null, invoiceNumber: null, isPaid: false, paidAt: null })
+        .where(eq(billableEvents.invoiceId, id));
+      return true;
+    });
+    return voided ? await this.getInvoice(id) : undefined;
+  }
+
   // Evidence methods
-  async getEvidence(complianceItemId?: string, billableEventId?: string): Promise<Evidence[]> {
+  async getEvidence(complianceItemId?: string, billableEventId?: string, scope?: OrganizationScope): Promise<Evidence[]> {
     let whereConditions: any[] = [];
     
     if (complianceItemId) {
@@ -491,6 +1694,16 @@ export class DatabaseStorage implements IStorage {
     if (billableEventId) {
       whereConditions.push(eq(evidence.billableEventId, billableEventId));
     }
+    if (scope) {
+      // Evidence belongs to an organization through the record it is attached to
+      whereConditions.push(
+        or(
+          inArray(evidence.complianceItemId, db.select({ id: complianceItems.id }).from(complianceItems).where(inArray(complianceItems.customerId, scope))),
+          inArray(evidence.billableEventId, db.select({ id: billableEvents.id }).from(billableEvents).where(inArray(billableEvents.customerId, scope))),
+          inArray(evidence.contractId, db.select({ id: contracts.id }).from(contracts).where(inArray(contracts.customerId, scope)))
+        )
+      );
+    }
 
     const whereClause = whereConditions.length > 0 ? and(...whereConditions) : undefined;
 
@@ -524,10 +1737,113 @@ export class DatabaseStorage implements IStorage {
     await db.delete(evidence).where(eq(evidence.id, id));
   }
 
+  async getEvidenceVersions(evidenceId?: string): Promise<EvidenceVersion[]> {
+    if (evidenceId) {
+      return await db.select().from(evidenceVersions)
+        .where(eq(evidenceVersions.evidenceId, evidenceId))
+        .orderBy(desc(evidenceVersions.versionNumber));
+    }
+    return await db.select().from(evidenceVersions)
+      .orderBy(asc(evidenceVersions.evidenceId), asc(evidenceVersions.versionNumber));
+  }
+
+  async getEvidenceVersionById(id: string): Promise<EvidenceVersion | undefined> {
+    const [result] = await db.select().from(evidenceVersions).where(eq(evidenceVersions.id, id));
+    return result || undefined;
+  }
+
+  async createEvidenceVersion(versionData: InsertEvidenceVersion): Promise<EvidenceVersion> {
+    const [newVersion] = await db.insert(evidenceVersions).values(versionData).returning();
+    return newVersion;
+  }
+
+  async updateEvidenceVersion(id: string, updates: Partial<InsertEvidenceVersion>): Promise<EvidenceVersion> {
+    const [updated] = await db
+      .update(evidenceVersions)
+      .set(updates)
+      .where(eq(evidenceVersions.id, id))
+      .returning();
+    return updated;
+  }
+
   // Audit log methods
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [newLog] = await db.insert(auditLog).values(log).returning();
-    return newLog;
+    return await db.transaction(async (tx: Transaction) => {
+      // Serialize writers so every entry links to exactly one predecessor
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`);
+
+      const [previous] = await tx
+        .select({ sequence: auditLog.sequence, hash: auditLog.hash })
+        .from(auditLog)
+        .where(isNotNull(auditLog.sequence))
+        .orderBy(desc(auditLog.sequence))
+        .limit(1);
+
+      const entry = {
+        ...log,
+        sequence: (previous?.sequence ?? 0) + 1,
+        timestamp: new Date(),
+        prevHash: previous?.hash ?? AUDIT_CHAIN_GENESIS,
+      };
+
+      const [newLog] = await tx
+        .insert(auditLog)
+        .values({ ...entry, hash: computeAuditHash(entry, entry.prevHash) })
+        .returning();
+      return newLog;
+    });
+  }
+
+  async verifyAuditChain(): Promise<AuditChainVerification> {
+    const batchSize = 1000;
+    let previous: { sequence: number; hash: string } | null = null;
+    let checked = 0;
+
+    while (true) {
+      const batch: AuditLog[] = await db
+        .select()
+        .from(auditLog)
+        .where(previous
+          ? and(isNotNull(auditLog.sequence), gt(auditLog.sequence, previous.sequence))
+          : isNotNull(auditLog.sequence))
+        .orderBy(asc(auditLog.sequence))
+        .limit(batchSize);
+
+      for (const entry of batch) {
+        const brokenAt = checkAuditLink(entry, previous);
+        if (brokenAt) {
+          return {
+            valid: false,
+            checked,
+            legacyEntries: await this.countLegacyAuditLogs(),
+            head: previous,
+            brokenAt,
+            verifiedAt: new Date().toISOString(),
+          };
+        }
+        previous = { sequence: entry.sequence!, hash: entry.hash! };
+        checked++;
+      }
+
+      if (batch.length < batchSize) break;
+    }
+
+    return {
+      valid: true,
+      checked,
+      legacyEntries: await this.countLegacyAuditLogs(),
+      head: previous,
+      brokenAt: null,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  private async countLegacyAuditLogs(): Promise<number> {
+    const [{ count: legacyCount }] = await db
+      .select({ count: count() })
+      .from(auditLog)
+      .where(isNull(auditLog.sequence));
+    return legacyCount;
   }
 
   async getAuditLogs(entityId?: string, limit: number = 100): Promise<AuditLog[]> {
@@ -621,9 +1937,108 @@ export class DatabaseStorage implements IStorage {
       .where(eq(emailAlerts.id, id));
   }
 
+  async getSentEmailAlerts(complianceItemIds: string[]): Promise<EmailAlert[]> {
+    if (complianceItemIds.length === 0) return [];
+    return await db
+      .select()
+      .from(emailAlerts)
+      .where(
+        and(
+          inArray(emailAlerts.complianceItemId, complianceItemIds),
+          eq(emailAlerts.status, "sent")
+        )
+      )
+      .orderBy(desc(emailAlerts.sentAt));
+  }
+
+  async getSentRenewalAlerts(contractIds: string[]): Promise<EmailAlert[]> {
+    if (contractIds.length === 0) return [];
+    return await db
+      .select()
+      .from(emailAlerts)
+      .where(
+        and(
+          inArray(emailAlerts.contractId, contractIds),
+          eq(emailAlerts.alertType, "renewal"),
+          eq(emailAlerts.status, "sent")
+        )
+      )
+      .orderBy(desc(emailAlerts.sentAt));
+  }
+
+  async getSentCeilingAlerts(contractIds: string[]): Promise<EmailAlert[]> {
+    if (contractIds.length === 0) return [];
+    return await db
+      .select()
+      .from(emailAlerts)
+      .where(
+        and(
+          inArray(emailAlerts.contractId, contractIds),
+          eq(emailAlerts.alertType, "ceiling"),
+          eq(emailAlerts.status, "sent")
+        )
+      )
+      .orderBy(desc(emailAlerts.sentAt));
+  }
+
+  // Alert policy and escalation methods
+  async getAlertPolicies(): Promise<AlertPolicy[]> {
+    return await db.select().from(alertPolicies).orderBy(asc(alertPolicies.category));
+  }
+
+  async upsertAlertPolicy(policy: InsertAlertPolicy): Promise<AlertPolicy> {
+    const [result] = await db
+      .insert(alertPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: alertPolicies.category,
+        set: {
+          reminderOffsets: policy.reminderOffsets,
+          overdueRepeatDays: policy.overdueRepeatDays ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async deleteAlertPolicy(category: string): Promise<void> {
+    await db.delete(alertPolicies).where(eq(alertPolicies.category, category as AlertPolicy["category"]));
+  }
+
+  async getEscalationRules(): Promise<EscalationRule[]> {
+    return await db.select().from(escalationRules).orderBy(asc(escalationRules.overdueDays));
+  }
+
+  async getEscalationRule(id: string): Promise<EscalationRule | undefined> {
+    const [rule] = await db.select().from(escalationRules).where(eq(escalationRules.id, id));
+    return rule || undefined;
+  }
+
+  async createEscalationRule(rule: InsertEscalationRule): Promise<EscalationRule> {
+    const [newRule] = await db.insert(escalationRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updateEscalationRule(id: string, updates: Partial<InsertEscalationRule>): Promise<EscalationRule> {
+    const [updated] = await db
+      .update(escalationRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(escalationRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEscalationRule(id: string): Promise<void> {
+    await db.delete(escalationRules).where(eq(escalationRules.id, id));
+  }
+
   // QuickBooks methods
-  async getAllQuickbooksConnections(): Promise<QuickbooksConnection[]> {
-    return await db.select().from(quickbooksConnections);
+  async getAllQuickbooksConnections(scope?: OrganizationScope): Promise<QuickbooksConnection[]> {
+    return await db
+      .select()
+      .from(quickbooksConnections)
+      .where(scope ? inArray(quickbooksConnections.organizationId, scope) : undefined);
   }
 
   async getQuickbooksConnection(organizationId: string): Promise<QuickbooksConnection | undefined> {
@@ -740,16 +2155,106 @@ export class DatabaseStorage implements IStorage {
       .where(eq(systemSettings.key, key));
   }
 
+  // Scheduled job methods
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
+
+  async getScheduledJob(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job || undefined;
+  }
+
+  async ensureScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob> {
+    // Existing rows keep their admin-edited schedule and enabled flag
+    await db.insert(scheduledJobs).values(job).onConflictDoNothing();
+    const [result] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, job.name));
+    return result;
+  }
+
+  async updateScheduledJob(name: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob> {
+    const [updated] = await db
+      .update(scheduledJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return updated;
+  }
+
+  async claimScheduledJob(name: string, instanceId: string, lockedUntil: Date, force = false): Promise<ScheduledJob | undefined> {
+    // A single conditional UPDATE, so only one instance can win the lock
+    const now = new Date();
+    const conditions = [
+      eq(scheduledJobs.name, name),
+      or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now)),
+    ];
+    if (!force) {
+      conditions.push(
+        eq(scheduledJobs.enabled, true),
+        isNotNull(scheduledJobs.nextRunAt),
+        lte(scheduledJobs.nextRunAt, now)
+      );
+    }
+
+    const [claimed] = await db
+      .update(scheduledJobs)
+      .set({ lockedBy: instanceId, lockedUntil, updatedAt: now })
+      .where(and(...conditions))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [newRun] = await db.insert(jobRuns).values(run).returning();
+    return newRun;
+  }
+
+  async updateJobRun(id: string, updates: Partial<JobRun>): Promise<JobRun> {
+    const [updated] = await db
+      .update(jobRuns)
+      .set(updates)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getJobRuns(jobName?: string, limit: number = 50): Promise<JobRun[]> {
+    if (jobName) {
+      return await db.select().from(jobRuns)
+        .where(eq(jobRuns.jobName, jobName))
+        .orderBy(desc(jobRuns.startedAt))
+        .limit(limit);
+    }
+    return await db.select().from(jobRuns).orderBy(desc(jobRuns.startedAt)).limit(limit);
+  }
+
   // Import/Export methods
   async exportDatabase(): Promise<any> {
     const allUsers = await db.select().from(users);
+    const allTeams = await db.select().from(teams);
+    const allTeamMembers = await db.select().from(teamMembers);
     const allOrganizations = await db.select().from(organizations);
+    const allUserOrganizations = await db.select().from(userOrganizations);
     const allContracts = await db.select().from(contracts);
+    const allContractOptionPeriods = await db.select().from(contractOptionPeriods);
     const allComplianceItems = await db.select().from(complianceItems);
     const allBillableEvents = await db.select().from(billableEvents);
     const allEvidence = await db.select().from(evidence);
+    const allEvidenceVersions = await db.select().from(evidenceVersions);
+    const allContractAmendments = await db.select().from(contractAmendments);
+    const allContractRateCardLines = await db.select().from(contractRateCardLines);
+    const allContractRates = await db.select().from(contractRates);
+    const allInvoices = await db.select().from(invoices);
+    const allInvoiceLineItems = await db.select().from(invoiceLineItems);
     const allAuditLogs = await db.select().from(auditLog);
+    const allAlertPolicies = await db.select().from(alertPolicies);
+    const allEscalationRules = await db.select().from(escalationRules);
+    const allComplianceTemplates = await db.select().from(complianceTemplates);
+    const allComplianceTemplateItems = await db.select().from(complianceTemplateItems);
     const allEmailAlerts = await db.select().from(emailAlerts);
+    // Secret values are never exported, encrypted or not; they are re-entered after a restore
+    const allSystemSettings = (await db.select().from(systemSettings))
+      .map((setting: SystemSetting) => setting.isEncrypted ? { ...setting, value: null } : setting);
 
     return {
       appName: "BizGov",
@@ -758,13 +2263,28 @@ export class DatabaseStorage implements IStorage {
       timestamp: new Date().toISOString(),
       data: {
         users: allUsers,
+        teams: allTeams,
+        teamMembers: allTeamMembers,
         organizations: allOrganizations,
+        userOrganizations: allUserOrganizations,
         contracts: allContracts,
+        contractOptionPeriods: allContractOptionPeriods,
         complianceItems: allComplianceItems,
         billableEvents: allBillableEvents,
         evidence: allEvidence,
+        evidenceVersions: allEvidenceVersions,
+        contractAmendments: allContractAmendments,
+        contractRateCardLines: allContractRateCardLines,
+        contractRates: allContractRates,
+        invoices: allInvoices,
+        invoiceLineItems: allInvoiceLineItems,
         auditLogs: allAuditLogs,
+        alertPolicies: allAlertPolicies,
+        escalationRules: allEscalationRules,
+        complianceTemplates: allComplianceTemplates,
+        complianceTemplateItems: allComplianceTemplateItems,
         emailAlerts: allEmailAlerts,
+        systemSettings: allSystemSettings,
       }
     };
   }
@@ -787,23 +2307,53 @@ export class DatabaseStorage implements IStorage {
   async importDatabase(data: any): Promise<{
     imported: {
       users: number;
+      teams: number;
+      teamMembers: number;
       organizations: number;
+      userOrganizations: number;
       contracts: number;
+      contractOptionPeriods: number;
       complianceItems: number;
       billableEvents: number;
       evidence: number;
+      evidenceVersions: number;
+      contractAmendments: number;
+      contractRateCardLines: number;
+      contractRates: number;
+      invoices: number;
+      invoiceLineItems: number;
+      alertPolicies: number;
+      escalationRules: number;
+      complianceTemplates: number;
+      complianceTemplateItems: number;
       emailAlerts: number;
+      systemSettings: number;
     };
     total: number;
   }> {
     const imported = {
       users: 0,
+      teams: 0,
+      teamMembers: 0,
       organizations: 0,
+      userOrganizations: 0,
       contracts: 0,
+      contractOptionPeriods: 0,
       complianceItems: 0,
       billableEvents: 0,
       evidence: 0,
+      evidenceVersions: 0,
+      contractAmendments: 0,
+      contractRateCardLines: 0,
+      contractRates: 0,
+      invoices: 0,
+      invoiceLineItems: 0,
+      alertPolicies: 0,
+      escalationRules: 0,
+      complianceTemplates: 0,
+      complianceTemplateItems: 0,
       emailAlerts: 0,
+      systemSettings: 0,
     };
 
     console.log("Starting database import...");
@@ -856,6 +2406,23 @@ export class DatabaseStorage implements IStorage {
       console.log(`Imported ${imported.users} users (skipped ${data.data.users.length - imported.users} duplicates)`);
     }
     
+    // Import teams and their members with date conversion
+    if (data.data?.teams?.length) {
+      console.log(`Importing ${data.data.teams.length} teams...`);
+      const convertedTeams = this.convertDatesToObjects(data.data.teams);
+      const result = await db.insert(teams).values(convertedTeams).onConflictDoNothing().returning();
+      imported.teams = result.length;
+      console.log(`Imported ${imported.teams} teams (skipped ${data.data.teams.length - imported.teams} duplicates)`);
+    }
+    
+    if (data.data?.teamMembers?.length) {
+      console.log(`Importing ${data.data.teamMembers.length} team members...`);
+      const convertedMembers = this.convertDatesToObjects(data.data.teamMembers);
+      const result = await db.insert(teamMembers).values(convertedMembers).onConflictDoNothing().returning();
+      imported.teamMembers = result.length;
+      console.log(`Imported ${imported.teamMembers} team members (skipped ${data.data.teamMembers.length - imported.teamMembers} duplicates)`);
+    }
+    
     // Import organizations with date conversion
     if (data.data?.organizations?.length) {
       console.log(`Importing ${data.data.organizations.length} organizations...`);
@@ -864,6 +2431,15 @@ export class DatabaseStorage implements IStorage {
       imported.organizations = result.length;
       console.log(`Imported ${imported.organizations} organizations (skipped ${data.data.organizations.length - imported.organizations} duplicates)`);
     }
+
+    // Organization access for users limited to specific organizations
+    if (data.data?.userOrganizations?.length) {
+      console.log(`Importing ${data.data.userOrganizations.length} user organization assignments...`);
+      const convertedAssignments = this.convertDatesToObjects(data.data.userOrganizations);
+      const result = await db.insert(userOrganizations).values(convertedAssignments).onConflictDoNothing().returning();
+      imported.userOrganizations = result.length;
+      console.log(`Imported ${imported.userOrganizations} user organization assignments (skipped ${data.data.userOrganizations.length - imported.userOrganizations} duplicates)`);
+    }
     
     // Import contracts with date conversion
     if (data.data?.contracts?.length) {
@@ -873,6 +2449,31 @@ export class DatabaseStorage implements IStorage {
       imported.contracts = result.length;
       console.log(`Imported ${imported.contracts} contracts (skipped ${data.data.contracts.length - imported.contracts} duplicates)`);
     }
+
+    if (data.data?.contractOptionPeriods?.length) {
+      console.log(`Importing ${data.data.contractOptionPeriods.length} contract option periods...`);
+      const convertedPeriods = this.convertDatesToObjects(data.data.contractOptionPeriods);
+      const result = await db.insert(contractOptionPeriods).values(convertedPeriods).onConflictDoNothing().returning();
+      imported.contractOptionPeriods = result.length;
+      console.log(`Imported ${imported.contractOptionPeriods} contract option periods (skipped ${data.data.contractOptionPeriods.length - imported.contractOptionPeriods} duplicates)`);
+    }
+
+    // Rate cards before the billable events billed from them
+    if (data.data?.contractRateCardLines?.length) {
+      console.log(`Importing ${data.data.contractRateCardLines.length} rate card lines...`);
+      const convertedLines = this.convertDatesToObjects(data.data.contractRateCardLines);
+      const result = await db.insert(contractRateCardLines).values(convertedLines).onConflictDoNothing().returning();
+      imported.contractRateCardLines = result.length;
+      console.log(`Imported ${imported.contractRateCardLines} rate card lines (skipped ${data.data.contractRateCardLines.length - imported.contractRateCardLines} duplicates)`);
+    }
+
+    if (data.data?.contractRates?.length) {
+      console.log(`Importing ${data.data.contractRates.length} contract rates...`);
+      const convertedRates = this.convertDatesToObjects(data.data.contractRates);
+      const result = await db.insert(contractRates).values(convertedRates).onConflictDoNothing().returning();
+      imported.contractRates = result.length;
+      console.log(`Imported ${imported.contractRates} contract rates (skipped ${data.data.contractRates.length - imported.contractRates} duplicates)`);
+    }
     
     // Import compliance items with date conversion
     if (data.data?.complianceItems?.length) {
@@ -883,6 +2484,15 @@ export class DatabaseStorage implements IStorage {
       console.log(`Imported ${imported.complianceItems} compliance items (skipped ${data.data.complianceItems.length - imported.complianceItems} duplicates)`);
     }
     
+    // Invoices before the billable events on them
+    if (data.data?.invoices?.length) {
+      console.log(`Importing ${data.data.invoices.length} invoices...`);
+      const convertedInvoices = this.convertDatesToObjects(data.data.invoices);
+      const result = await db.insert(invoices).values(convertedInvoices).onConflictDoNothing().returning();
+      imported.invoices = result.length;
+      console.log(`Imported ${imported.invoices} invoices (skipped ${data.data.invoices.length - imported.invoices} duplicates)`);
+    }
+    
     // Import billable events with date conversion
     if (data.data?.billableEvents?.length) {
       console.log(`Importing ${data.data.billableEvents.length} billable events...`);
@@ -891,6 +2501,14 @@ export class DatabaseStorage implements IStorage {
       imported.billableEvents = result.length;
       console.log(`Imported ${imported.billableEvents} billable events (skipped ${data.data.billableEvents.length - imported.billableEvents} duplicates)`);
     }
+
+    if (data.data?.invoiceLineItems?.length) {
+      console.log(`Importing ${data.data.invoiceLineItems.length} invoice line items...`);
+      const convertedLines = this.convertDatesToObjects(data.data.invoiceLineItems);
+      const result = await db.insert(invoiceLineItems).values(convertedLines).onConflictDoNothing().returning();
+      imported.invoiceLineItems = result.length;
+      console.log(`Imported ${imported.invoiceLineItems} invoice line items (skipped ${data.data.invoiceLineItems.length - imported.invoiceLineItems} duplicates)`);
+    }
     
     // Import evidence with date conversion
     if (data.data?.evidence?.length) {
@@ -901,6 +2519,57 @@ export class DatabaseStorage implements IStorage {
       console.log(`Imported ${imported.evidence} evidence items (skipped ${data.data.evidence.length - imported.evidence} duplicates)`);
     }
     
+    // Import evidence versions with date conversion
+    if (data.data?.evidenceVersions?.length) {
+      console.log(`Importing ${data.data.evidenceVersions.length} evidence versions...`);
+      const convertedVersions = this.convertDatesToObjects(data.data.evidenceVersions);
+      const result = await db.insert(evidenceVersions).values(convertedVersions).onConflictDoNothing().returning();
+      imported.evidenceVersions = result.length;
+      console.log(`Imported ${imported.evidenceVersions} evidence versions (skipped ${data.data.evidenceVersions.length - imported.evidenceVersions} duplicates)`);
+    }
+
+    if (data.data?.contractAmendments?.length) {
+      console.log(`Importing ${data.data.contractAmendments.length} contract amendments...`);
+      const convertedAmendments = this.convertDatesToObjects(data.data.contractAmendments);
+      const result = await db.insert(contractAmendments).values(convertedAmendments).onConflictDoNothing().returning();
+      imported.contractAmendments = result.length;
+      console.log(`Imported ${imported.contractAmendments} contract amendments (skipped ${data.data.contractAmendments.length - imported.contractAmendments} duplicates)`);
+    }
+    
+    // Import alert policies and escalation rules before the alerts that reference them
+    if (data.data?.alertPolicies?.length) {
+      console.log(`Importing ${data.data.alertPolicies.length} alert policies...`);
+      const convertedPolicies = this.convertDatesToObjects(data.data.alertPolicies);
+      const result = await db.insert(alertPolicies).values(convertedPolicies).onConflictDoNothing().returning();
+      imported.alertPolicies = result.length;
+      console.log(`Imported ${imported.alertPolicies} alert policies (skipped ${data.data.alertPolicies.length - imported.alertPolicies} duplicates)`);
+    }
+    
+    if (data.data?.escalationRules?.length) {
+      console.log(`Importing ${data.data.escalationRules.length} escalation rules...`);
+      const convertedRules = this.convertDatesToObjects(data.data.escalationRules);
+      const result = await db.insert(escalationRules).values(convertedRules).onConflictDoNothing().returning();
+      imported.escalationRules = result.length;
+      console.log(`Imported ${imported.escalationRules} escalation rules (skipped ${data.data.escalationRules.length - imported.escalationRules} duplicates)`);
+    }
+    
+    // Import compliance templates and their items with date conversion
+    if (data.data?.complianceTemplates?.length) {
+      console.log(`Importing ${data.data.complianceTemplates.length} compliance templates...`);
+      const convertedTemplates = this.convertDatesToObjects(data.data.complianceTemplates);
+      const result = await db.insert(complianceTemplates).values(convertedTemplates).onConflictDoNothing().returning();
+      imported.complianceTemplates = result.length;
+      console.log(`Imported ${imported.complianceTemplates} compliance templates (skipped ${data.data.complianceTemplates.length - imported.complianceTemplates} duplicates)`);
+    }
+
+    if (data.data?.complianceTemplateItems?.length) {
+      console.log(`Importing ${data.data.complianceTemplateItems.length} compliance template items...`);
+      const convertedItems = this.convertDatesToObjects(data.data.complianceTemplateItems);
+      const result = await db.insert(complianceTemplateItems).values(convertedItems).onConflictDoNothing().returning();
+      imported.complianceTemplateItems = result.length;
+      console.log(`Imported ${imported.complianceTemplateItems} compliance template items (skipped ${data.data.complianceTemplateItems.length - imported.complianceTemplateItems} duplicates)`);
+    }
+
     // Import email alerts with date conversion
     if (data.data?.emailAlerts?.length) {
       console.log(`Importing ${data.data.emailAlerts.length} email alerts...`);
@@ -910,6 +2579,16 @@ export class DatabaseStorage implements IStorage {
       console.log(`Imported ${imported.emailAlerts} email alerts (skipped ${data.data.emailAlerts.length - imported.emailAlerts} duplicates)`);
     }
 
+    // Import settings that are not secrets; existing settings on this install win
+    const importableSettings = (data.data?.systemSettings || []).filter((setting: any) => !setting.isEncrypted);
+    if (importableSettings.length) {
+      console.log(`Importing ${importableSettings.length} system settings...`);
+      const convertedSettings = this.convertDatesToObjects(importableSettings);
+      const result = await db.insert(systemSettings).values(convertedSettings).onConflictDoNothing().returning();
+      imported.systemSettings = result.length;
+      console.log(`Imported ${imported.systemSettings} system settings (skipped ${importableSettings.length - imported.systemSettings} duplicates)`);
+    }
+
     const total = Object.values(imported).reduce((sum, count) => sum + count, 0);
     console.log(`Database import complete. Total records imported: ${total}`);
 
@@ -924,6 +2603,7 @@ export class DatabaseStorage implements IStorage {
     await db.delete(objectives);
     await db.delete(emailAlerts);
     await db.delete(auditLog);
+    await db.delete(evidenceVersions);
     await db.delete(evidence);
     await db.delete(billableEvents);
     await db.delete(complianceItems);
@@ -1005,19 +2685,21 @@ export class DatabaseStorage implements IStorage {
     return newCheckIn;
   }
 
-  async calculateAutoMetrics(): Promise<{
+  async calculateAutoMetrics(scope?: OrganizationScope): Promise<{
     onTimeRate: number;
     lateFees: number;
     leadTime: number;
     contractCoverage: number;
   }> {
     const now = new Date();
+    const itemsInScope = scope ? inArray(complianceItems.customerId, scope) : undefined;
     
     // On-time rate: completed items on or before due date / total items with due dates
     const [completedOnTime] = await db.select({ count: count() })
       .from(complianceItems)
       .where(
         and(
+          itemsInScope,
           eq(complianceItems.status, "complete"),
           lte(complianceItems.completedAt, complianceItems.dueDate)
         )
@@ -1025,7 +2707,7 @@ export class DatabaseStorage implements IStorage {
     
     const [totalWithDueDates] = await db.select({ count: count() })
       .from(complianceItems)
-      .where(sql`${complianceItems.dueDate} IS NOT NULL`);
+      .where(and(itemsInScope, sql`${complianceItems.dueDate} IS NOT NULL`));
     
     const onTimeRate = totalWithDueDates.count > 0 
       ? (completedOnTime.count / totalWithDueDates.count) * 100 
@@ -1035,10 +2717,13 @@ export class DatabaseStorage implements IStorage {
     const lateFeeEvents = await db.select()
       .from(billableEvents)
       .where(
-        or(
-          like(billableEvents.description, '%late fee%'),
-          like(billableEvents.description, '%penalty%'),
-          like(billableEvents.description, '%interest%')
+        and(
+          scope ? inArray(billableEvents.customerId, scope) : undefined,
+          or(
+            like(billableEvents.description, '%late fee%'),
+            like(billableEvents.description, '%penalty%'),
+            like(billableEvents.description, '%interest%')
+          )
         )
       );
     
@@ -1054,6 +2739,7 @@ export class DatabaseStorage implements IStorage {
       .from(complianceItems)
       .where(
         and(
+          itemsInScope,
           eq(complianceItems.status, "complete"),
           gte(complianceItems.completedAt, threeMonthsAgo)
         )
@@ -1072,10 +2758,11 @@ export class DatabaseStorage implements IStorage {
       : 0;
     
     // Contract coverage: percentage of contracts with at least one compliance item
-    const [totalContracts] = await db.select({ count: count() }).from(contracts);
+    const [totalContracts] = await db.select({ count: count() }).from(contracts)
+      .where(scope ? inArray(contracts.customerId, scope) : undefined);
     const [contractsWithCompliance] = await db.select({ count: sql`COUNT(DISTINCT ${complianceItems.contractId})` })
       .from(complianceItems)
-      .where(sql`${complianceItems.contractId} IS NOT NULL`);
+      .where(and(itemsInScope, sql`${complianceItems.contractId} IS NOT NULL`));
     
     const contractCoverage = totalContracts.count > 0
       ? (Number(contractsWithCompliance.count) / totalContracts.count) * 100
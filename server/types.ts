@@ -1,8 +1,14 @@
 import 'express-session';
+import type { PendingOidcLogin } from './services/oidc';
 
 declare module 'express-session' {
   interface SessionData {
     qbState?: string;
     qbOrganizationId?: string;
+    oidcLogin?: PendingOidcLogin;
+    // Password checked, waiting for the second factor (or for MFA enrollment when policy requires it)
+    mfaLogin?: { userId: string; createdAt: number; attempts: number };
+    // When this signed-in session last updated its user_sessions row
+    lastSeenAt?: number;
   }
 }
@@ -0,0 +1,21 @@
+// Compliance calendar files: a YAML description of organizations, their contracts and
+// compliance items, meant to be kept under version control and imported back.
+// The file format is published as a JSON schema in compliance-calendar-spec.json.
+
+export const CALENDAR_FILE_VERSION = 1;
+
+/**
+ * Split stored evidence requirements (one per line) into a list.
+ */
+export function parseEvidenceRequirements(value?: string | null): string[] {
+  if (!value) return [];
+  return value.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Store a list of evidence requirements as text, or null when there are none.
+ */
+export function formatEvidenceRequirements(requirements: string[]): string | null {
+  const lines = requirements.map(line => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines.join("\n") : null;
+}
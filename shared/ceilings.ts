@@ -0,0 +1,110 @@
+// Contract ceiling (not-to-exceed maxAmount) burn-down: how much of the ceiling billable
+// events have consumed, and where the current billing rate leads by the end of the term.
+
+import { daysUntilDue } from "./reminders";
+
+// Percent of the ceiling at which admins are emailed
+export const DEFAULT_CEILING_ALERT_THRESHOLDS = [75, 90, 100];
+
+// What POST /api/billable-events does with an event that would take a contract over its ceiling
+export const CEILING_ENFORCEMENT_MODES = ["warn", "block"] as const;
+export type CeilingEnforcement = typeof CEILING_ENFORCEMENT_MODES[number];
+
+export function isValidCeilingThresholds(thresholds: number[]): boolean {
+  return thresholds.length > 0 &&
+    thresholds.every(t => Number.isInteger(t) && t > 0 && t <= 200) &&
+    new Set(thresholds).size === thresholds.length;
+}
+
+interface CeilingTerms {
+  startDate: Date | string;
+  endDate: Date | string | null;
+  maxAmount: string | null;
+}
+
+interface SpendLike {
+  billingDate: Date | string;
+  totalAmount: string;
+}
+
+export interface BurnDownPoint {
+  date: string; // yyyy-MM-dd (UTC)
+  consumed: number;
+  remaining: number | null;
+}
+
+export interface CeilingBurnDown {
+  ceiling: number | null;
+  consumed: number;
+  remaining: number | null;
+  percentUsed: number | null;
+  dailyBurnRate: number; // Average spend per day since the contract started
+  projectedAtEnd: number | null; // Spend by the end date if the rate holds
+  projectedExhaustionDate: string | null; // When the rate would use up the remaining ceiling
+  series: BurnDownPoint[]; // Cumulative spend after each billing day
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function contractCeiling(contract: { maxAmount: string | null }): number | null {
+  const ceiling = contract.maxAmount ? parseFloat(contract.maxAmount) : NaN;
+  return Number.isFinite(ceiling) && ceiling > 0 ? ceiling : null;
+}
+
+export function totalSpend(events: SpendLike[]): number {
+  return round(events.reduce((sum, event) => sum + parseFloat(event.totalAmount || "0"), 0));
+}
+
+/**
+ * Consumed, remaining and projected spend against a contract's ceiling. The burn rate is total
+ * spend over the days elapsed since the contract started (up to the end date), so a quiet month
+ * lowers the projection just as a busy one raises it.
+ */
+export function ceilingBurnDown(contract: CeilingTerms, events: SpendLike[], today: Date = new Date()): CeilingBurnDown {
+  const ceiling = contractCeiling(contract);
+  const consumed = totalSpend(events);
+
+  const ended = contract.endDate && new Date(contract.endDate) < today;
+  const elapsedDays = Math.max(1, -daysUntilDue(contract.startDate, ended ? new Date(contract.endDate!) : today));
+  const dailyBurnRate = round(consumed / elapsedDays);
+  const daysLeft = contract.endDate ? Math.max(0, daysUntilDue(contract.endDate, today)) : null;
+
+  const remaining = ceiling !== null ? round(ceiling - consumed) : null;
+  let projectedExhaustionDate: string | null = null;
+  if (remaining !== null && remaining > 0 && dailyBurnRate > 0) {
+    projectedExhaustionDate = new Date(today.getTime() + Math.ceil(remaining / dailyBurnRate) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  const byDay = new Map<string, number>();
+  for (const event of events) {
+    const day = new Date(event.billingDate).toISOString().slice(0, 10);
+    byDay.set(day, (byDay.get(day) ?? 0) + parseFloat(event.totalAmount || "0"));
+  }
+  let running = 0;
+  const series = Array.from(byDay.keys()).sort().map(date => {
+    running += byDay.get(date)!;
+    return { date, consumed: round(running), remaining: ceiling !== null ? round(ceiling - running) : null };
+  });
+
+  return {
+    ceiling,
+    consumed,
+    remaining,
+    percentUsed: ceiling !== null ? round((consumed / ceiling) * 100) : null,
+    dailyBurnRate,
+    projectedAtEnd: daysLeft !== null ? round(consumed + dailyBurnRate * daysLeft) : null,
+    projectedExhaustionDate,
+    series,
+  };
+}
+
+/**
+ * The highest threshold the spend has reached, or null below the lowest one.
+ */
+export function highestThresholdReached(percentUsed: number | null, thresholds: number[]): number | null {
+  if (percentUsed === null) return null;
+  const reached = thresholds.filter(threshold => percentUsed >= threshold);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
@@ -0,0 +1,205 @@
+// Master agreement / statement of work / task order hierarchy. A child contract sits under a
+// parent of the same organization, inherits terms it leaves blank, and rolls its ceiling,
+// billing and compliance up to every ancestor.
+
+export const CONTRACT_TYPES = ["standalone", "master", "sow", "task_order"] as const;
+export type ContractType = typeof CONTRACT_TYPES[number];
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  standalone: "Standalone",
+  master: "Master Agreement",
+  sow: "Statement of Work",
+  task_order: "Task Order",
+};
+
+// Which contract types each type may sit under; an empty list means it is always top-level
+export const ALLOWED_PARENT_TYPES: Record<ContractType, readonly ContractType[]> = {
+  standalone: [],
+  master: [],
+  sow: ["master"],
+  task_order: ["master", "sow"],
+};
+
+export function canHaveChildren(type: ContractType): boolean {
+  return CONTRACT_TYPES.some(child => ALLOWED_PARENT_TYPES[child].includes(type));
+}
+
+// Terms a child takes from its nearest ancestor that sets them when it leaves them blank
+export const INHERITED_TERMS = ["endDate", "noticePeriodDays", "renewalTermMonths"] as const;
+export type InheritedTerm = typeof INHERITED_TERMS[number];
+
+interface HierarchyNode {
+  id: string;
+  parentContractId: string | null;
+}
+
+interface HierarchyContract extends HierarchyNode {
+  customerId: string;
+  contractType: ContractType;
+  startDate: Date | string;
+  endDate: Date | string | null;
+  noticePeriodDays: number | null;
+  renewalTermMonths: number | null;
+}
+
+export interface EffectiveTerms {
+  endDate: Date | string | null;
+  noticePeriodDays: number | null;
+  renewalTermMonths: number | null;
+  inheritedFrom: Partial<Record<InheritedTerm, string>>; // Term -> id of the ancestor it came from
+}
+
+interface SpendLike {
+  contractId: string | null;
+  totalAmount: string;
+}
+
+interface ComplianceLike {
+  contractId: string | null;
+  status: string;
+}
+
+export interface ContractRollup {
+  contractId: string;
+  ceiling: number | null;
+  allocated: number; // Sum of the direct children's ceilings
+  billed: number; // Billed to this contract and every descendant
+  compliance: Record<string, number>; // Item count by status across the subtree
+  openItems: number;
+  overdueItems: number;
+}
+
+/**
+ * The parent chain of a contract, nearest first. Stops at a repeated id so corrupt data cannot loop.
+ */
+export function ancestorsOf<T extends HierarchyNode>(contract: HierarchyNode, all: T[]): T[] {
+  const byId = new Map(all.map(c => [c.id, c]));
+  const chain: T[] = [];
+  const seen = new Set([contract.id]);
+  let parentId = contract.parentContractId;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    chain.push(parent);
+    seen.add(parentId);
+    parentId = parent.parentContractId;
+  }
+  return chain;
+}
+
+/**
+ * Every contract below `contractId`, breadth first.
+ */
+export function descendantsOf<T extends HierarchyNode>(contractId: string, all: T[]): T[] {
+  const found: T[] = [];
+  const seen = new Set([contractId]);
+  let frontier = [contractId];
+  while (frontier.length > 0) {
+    const children = all.filter(c => c.parentContractId && frontier.includes(c.parentContractId) && !seen.has(c.id));
+    children.forEach(c => seen.add(c.id));
+    found.push(...children);
+    frontier = children.map(c => c.id);
+  }
+  return found;
+}
+
+// Generic over the term, so the copied value is checked against that term's type
+function copyTerm<K extends InheritedTerm>(terms: Pick<EffectiveTerms, InheritedTerm>, source: Pick<EffectiveTerms, InheritedTerm>, term: K) {
+  terms[term] = source[term];
+}
+
+export function effectiveTerms(contract: HierarchyContract, ancestors: HierarchyContract[]): EffectiveTerms {
+  const terms: EffectiveTerms = {
+    endDate: contract.endDate,
+    noticePeriodDays: contract.noticePeriodDays,
+    renewalTermMonths: contract.renewalTermMonths,
+    inheritedFrom: {},
+  };
+  for (const term of INHERITED_TERMS) {
+    if (terms[term] !== null) continue;
+    const source = ancestors.find(ancestor => ancestor[term] !== null);
+    if (source) {
+      copyTerm(terms, source, term);
+      terms.inheritedFrom[term] = source.id;
+    }
+  }
+  return terms;
+}
+
+/**
+ * Why a contract cannot sit where it is being placed, or null if it can. `parent` is the proposed
+ * parent with its ancestors, and `children` are the contracts already under this one.
+ */
+export function hierarchyProblem(
+  contract: Omit<HierarchyContract, "id" | "noticePeriodDays" | "renewalTermMonths"> & { id?: string },
+  parent: { contract: HierarchyContract; ancestors: HierarchyContract[] } | null,
+  children: Array<{ contractType: ContractType; title: string }>,
+): string | null {
+  const allowed = ALLOWED_PARENT_TYPES[contract.contractType];
+  const label = CONTRACT_TYPE_LABELS[contract.contractType];
+
+  if (!parent) {
+    if (allowed.length > 0) return `A ${label} must be placed under a ${allowed.map(t => CONTRACT_TYPE_LABELS[t]).join(" or ")}`;
+  } else {
+    if (allowed.length === 0) return `A ${label} cannot have a parent contract`;
+    if (!allowed.includes(parent.contract.contractType)) {
+      return `A ${label} cannot be placed under a ${CONTRACT_TYPE_LABELS[parent.contract.contractType]}`;
+    }
+    if (contract.id && (parent.contract.id === contract.id || parent.ancestors.some(a => a.id === contract.id))) {
+      return "A contract cannot be placed under itself or one of its own children";
+    }
+    if (parent.contract.customerId !== contract.customerId) {
+      return "A child contract must belong to the same organization as its parent";
+    }
+    if (new Date(contract.startDate) < new Date(parent.contract.startDate)) {
+      return "A child contract cannot start before its parent";
+    }
+    const parentEnd = effectiveTerms(parent.contract, parent.ancestors).endDate;
+    if (contract.endDate && parentEnd && new Date(contract.endDate) > new Date(parentEnd)) {
+      return "A child contract cannot end after its parent";
+    }
+  }
+
+  const stranded = children.find(child => !ALLOWED_PARENT_TYPES[child.contractType].includes(contract.contractType));
+  if (stranded) {
+    return `${stranded.title} (${CONTRACT_TYPE_LABELS[stranded.contractType]}) cannot stay under a ${label}; move it first`;
+  }
+  return null;
+}
+
+/**
+ * Ceiling, billing and compliance for a contract and everything beneath it.
+ */
+export function rollUpContract(
+  contract: HierarchyNode & { maxAmount: string | null },
+  all: Array<HierarchyNode & { maxAmount: string | null }>,
+  events: SpendLike[],
+  items: ComplianceLike[],
+): ContractRollup {
+  const subtree = new Set([contract.id, ...descendantsOf(contract.id, all).map(c => c.id)]);
+  const billed = events
+    .filter(event => event.contractId && subtree.has(event.contractId))
+    .reduce((sum, event) => sum + parseFloat(event.totalAmount || "0"), 0);
+  const allocated = all
+    .filter(child => child.parentContractId === contract.id)
+    .reduce((sum, child) => sum + (child.maxAmount ? parseFloat(child.maxAmount) : 0), 0);
+
+  const compliance: Record<string, number> = {};
+  for (const item of items) {
+    if (item.contractId && subtree.has(item.contractId)) {
+      compliance[item.status] = (compliance[item.status] ?? 0) + 1;
+    }
+  }
+
+  return {
+    contractId: contract.id,
+    ceiling: contract.maxAmount ? parseFloat(contract.maxAmount) : null,
+    allocated: Math.round(allocated * 100) / 100,
+    billed: Math.round(billed * 100) / 100,
+    compliance,
+    openItems: Object.entries(compliance)
+      .filter(([status]) => status !== "complete" && status !== "na")
+      .reduce((sum, [, count]) => sum + count, 0),
+    overdueItems: compliance.overdue ?? 0,
+  };
+}
@@ -0,0 +1,60 @@
+// Invoices prepared from billable events. A draft reserves its events; issuing it assigns the
+// next invoice number, fixes the due date from the net terms and locks the events.
+
+export const INVOICE_STATUSES = ["draft", "issued", "paid", "void"] as const;
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  paid: "Paid",
+  void: "Void",
+};
+
+// Statuses each status may move to. Drafts are deleted rather than voided, since nothing was sent.
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  draft: ["issued"],
+  issued: ["paid", "void"],
+  paid: ["void"],
+  void: [],
+};
+
+export const DEFAULT_NET_TERMS_DAYS = 30;
+export const MAX_NET_TERMS_DAYS = 180;
+export const MAX_TAX_RATE = 25;
+export const DEFAULT_INVOICE_PREFIX = "INV";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to);
+}
+
+export function formatInvoiceNumber(prefix: string, sequence: number): string {
+  return `${prefix}-${String(sequence).padStart(5, "0")}`;
+}
+
+export function invoiceDueDate(issueDate: Date, netTermsDays: number): Date {
+  return new Date(issueDate.getTime() + netTermsDays * DAY_MS);
+}
+
+export interface InvoiceTotals {
+  subtotal: string;
+  taxAmount: string;
+  total: string;
+}
+
+/**
+ * Subtotal of the line amounts, tax at `taxRate` percent of the subtotal, and their sum.
+ */
+export function invoiceTotals(amounts: Array<string | number>, taxRate: number): InvoiceTotals {
+  const subtotal = round(amounts.reduce<number>((sum, amount) => sum + parseFloat(String(amount)), 0));
+  const taxAmount = round(subtotal * taxRate / 100);
+  return {
+    subtotal: subtotal.toFixed(2),
+    taxAmount: taxAmount.toFixed(2),
+    total: round(subtotal + taxAmount).toFixed(2),
+  };
+}
@@ -0,0 +1,128 @@
+// Roles and the permissions they grant, shared by the server route guards and the client
+// navigation so a page is only offered to users whose requests it would not refuse.
+
+export const ROLES = [
+  "admin",
+  "user",
+  "finance_ops",
+  "compliance_lead",
+  "project_manager",
+  "auditor",
+] as const;
+
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  "organizations.view",
+  "organizations.manage",
+  "contracts.view",
+  "contracts.manage",
+  "compliance.view",
+  "compliance.manage",
+  "compliance.delete",
+  "compliance.review",
+  "billing.view",
+  "billing.manage",
+  "evidence.view",
+  "evidence.manage",
+  "okrs.view",
+  "okrs.manage",
+  "data.export",
+  "data.import",
+  "audit.view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const VIEW_ALL: Permission[] = [
+  "organizations.view",
+  "contracts.view",
+  "compliance.view",
+  "billing.view",
+  "evidence.view",
+  "okrs.view",
+];
+
+export const ROLE_DEFINITIONS: Record<Role, { label: string; description: string; permissions: readonly Permission[] }> = {
+  admin: {
+    label: "Admin",
+    description: "Full access, including users and system settings",
+    permissions: PERMISSIONS,
+  },
+  user: {
+    label: "User",
+    description: "Works with organizations, contracts, compliance, billing and OKRs",
+    permissions: [
+      ...VIEW_ALL,
+      "organizations.manage",
+      "contracts.manage",
+      "compliance.manage",
+      "compliance.review",
+      "billing.manage",
+      "evidence.manage",
+      "okrs.manage",
+      "data.export",
+    ],
+  },
+  finance_ops: {
+    label: "Finance Ops",
+    description: "Manages billable events, invoices and QuickBooks; read-only elsewhere",
+    permissions: [...VIEW_ALL, "billing.manage", "evidence.manage", "data.export"],
+  },
+  compliance_lead: {
+    label: "Compliance Lead",
+    description: "Manages, reviews and deletes compliance items and evidence",
+    permissions: [
+      ...VIEW_ALL,
+      "compliance.manage",
+      "compliance.delete",
+      "compliance.review",
+      "evidence.manage",
+      "data.export",
+      "data.import",
+      "audit.view",
+    ],
+  },
+  project_manager: {
+    label: "Project Manager",
+    description: "Manages contracts, compliance items, evidence and OKRs",
+    permissions: [...VIEW_ALL, "contracts.manage", "compliance.manage", "evidence.manage", "okrs.manage"],
+  },
+  auditor: {
+    label: "Read-only Auditor",
+    description: "Sees everything, including the audit log, but cannot change anything",
+    permissions: [...VIEW_ALL, "audit.view", "data.export"],
+  },
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!isRole(role)) return false;
+  return ROLE_DEFINITIONS[role].permissions.includes(permission);
+}
+
+// Permission needed to open each page; pages not listed are open to every signed-in user
+export const PAGE_PERMISSIONS: Record<string, Permission | "admin"> = {
+  "/okr-dashboard": "okrs.view",
+  "/organizations": "organizations.view",
+  "/contracts": "contracts.view",
+  "/compliance": "compliance.view",
+  "/my-items": "compliance.view",
+  "/reviews": "compliance.review",
+  "/billable-events": "billing.view",
+  "/invoices": "billing.view",
+  "/evidence-locker": "evidence.view",
+  "/export-import": "data.export",
+  "/audit-log": "audit.view",
+  "/admin": "admin",
+};
+
+export function canOpenPage(role: string | null | undefined, path: string): boolean {
+  const required = PAGE_PERMISSIONS[path];
+  if (!required) return true;
+  if (required === "admin") return role === "admin";
+  return hasPermission(role, required);
+}
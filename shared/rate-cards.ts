@@ -0,0 +1,84 @@
+// Contract rate cards: the negotiated rate for each labor category or service item, by date.
+// A line's rate on a date is its latest explicit rate on or before that date, escalated by the
+// line's percentage once for every option period that has started since that rate took effect.
+
+export const RATE_UNITS = ["hour", "day", "week", "month", "each", "deliverable"] as const;
+export type RateUnit = typeof RATE_UNITS[number];
+
+export const RATE_UNIT_LABELS: Record<RateUnit, string> = {
+  hour: "Hour",
+  day: "Day",
+  week: "Week",
+  month: "Month",
+  each: "Each",
+  deliverable: "Deliverable",
+};
+
+export const MAX_ESCALATION_PERCENT = 25;
+
+interface RateLike {
+  effectiveDate: Date | string;
+  rate: string;
+}
+
+interface RateCardLineLike {
+  escalationPercent: string | null;
+  rates: RateLike[];
+}
+
+interface PeriodLike {
+  startDate: Date | string;
+}
+
+export interface ResolvedRate {
+  rate: number;
+  baseRate: number; // The explicit rate the escalations were applied to
+  effectiveDate: string; // yyyy-MM-dd the explicit rate took effect
+  escalations: number; // Option periods escalated through since then
+}
+
+const day = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+export function rateOn(line: RateCardLineLike, optionPeriods: PeriodLike[], date: Date | string): ResolvedRate | null {
+  const target = day(date);
+  const base = line.rates
+    .filter(rate => day(rate.effectiveDate) <= target)
+    .sort((a, b) => day(b.effectiveDate).localeCompare(day(a.effectiveDate)))[0];
+  if (!base) return null;
+
+  const baseDay = day(base.effectiveDate);
+  const baseRate = parseFloat(base.rate);
+  const percent = line.escalationPercent ? parseFloat(line.escalationPercent) : 0;
+  const escalations = percent > 0
+    ? optionPeriods.filter(period => day(period.startDate) > baseDay && day(period.startDate) <= target).length
+    : 0;
+
+  return {
+    rate: Math.round(baseRate * Math.pow(1 + percent / 100, escalations) * 100) / 100,
+    baseRate,
+    effectiveDate: baseDay,
+    escalations,
+  };
+}
+
+/**
+ * Why a billable event does not match its contract's rate card, or null if it does (or the
+ * contract has no rate card). `line` is the chosen rate-card line, if any.
+ */
+export function offCardReason(
+  hasRateCard: boolean,
+  line: RateCardLineLike | null,
+  optionPeriods: PeriodLike[],
+  billingDate: Date | string,
+  billedRate: number,
+): string | null {
+  if (!hasRateCard) return null;
+  if (!line) return "Not billed from a rate card line";
+
+  const resolved = rateOn(line, optionPeriods, billingDate);
+  if (!resolved) return `The rate card line has no rate effective on ${day(billingDate)}`;
+  if (Math.abs(resolved.rate - billedRate) >= 0.005) {
+    return `Billed at ${billedRate.toFixed(2)} but the rate card rate is ${resolved.rate.toFixed(2)}`;
+  }
+  return null;
+}
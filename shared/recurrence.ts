@@ -0,0 +1,396 @@
+// Recurrence rules for compliance items.
+// Supports the subset of RFC 5545 RRULE syntax needed for compliance calendars:
+// FREQ, INTERVAL, BYMONTH, BYMONTHDAY, BYDAY, BYSETPOS, COUNT and UNTIL.
+// All date math is done in UTC so results match the server's overdue checks.
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // e.g. 1 = first, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: RecurrenceWeekday[];
+  bySetPos?: number[];
+  count?: number;
+  until?: Date;
+}
+
+export type RecurrencePreset = "none" | "monthly" | "quarterly" | "annually" | "nth_business_day" | "custom";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const BUSINESS_DAYS = "MO,TU,WE,TH,FR";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety limit so malformed rules (e.g. BYMONTHDAY=31;BYMONTH=2) cannot loop forever
+const MAX_PERIODS = 1000;
+
+function parseIntList(value: string, key: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(",").map(part => {
+    const n = parseInt(part, 10);
+    if (isNaN(n) || n === 0 || Math.abs(n) > max || (!allowNegative && n < min)) {
+      throw new Error(`Invalid ${key} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+  const [, y, m, d, hh = "23", mm = "59", ss = "59"] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix).
+ * Throws an Error describing the first invalid part.
+ */
+export function parseRecurrenceRule(ruleString: string): RecurrenceRule {
+  const source = ruleString.trim().replace(/^RRULE:/i, "");
+  if (!source) {
+    throw new Error("Recurrence rule is empty");
+  }
+
+  const parts: Record<string, string> = {};
+  for (const segment of source.split(";")) {
+    if (!segment) continue;
+    const [key, value] = segment.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new Error(`Invalid recurrence rule segment: ${segment}`);
+    }
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+    throw new Error("FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of Object.entries(parts)) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = parseInt(value, 10);
+        if (isNaN(interval) || interval < 1) {
+          throw new Error(`Invalid INTERVAL value: ${value}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "BYMONTH":
+        rule.byMonth = parseIntList(value, key, 1, 12);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(value, key, 1, 31, true);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(value, key, 1, 366, true);
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map(part => {
+          const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${part}`);
+          }
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          if (match[1] === undefined) {
+            return { weekday };
+          }
+          const ordinal = parseInt(match[1], 10);
+          if (ordinal === 0 || Math.abs(ordinal) > 53) {
+            throw new Error(`Invalid BYDAY ordinal: ${part}`);
+          }
+          return { weekday, ordinal };
+        });
+        break;
+      case "COUNT": {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 1) {
+          throw new Error(`Invalid COUNT value: ${value}`);
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error("COUNT and UNTIL cannot both be set");
+  }
+  if (rule.byDay?.some(d => d.ordinal !== undefined) && (rule.freq === "DAILY" || rule.freq === "WEEKLY")) {
+    throw new Error("BYDAY ordinals are only allowed with MONTHLY or YEARLY frequency");
+  }
+
+  return rule;
+}
+
+export function isValidRecurrenceRule(ruleString: string): boolean {
+  try {
+    parseRecurrenceRule(ruleString);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Candidate day-of-month values for one month, before BYSETPOS is applied
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] {
+  const lastDay = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byDay?.length) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= lastDay; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+          matching.push(day);
+        }
+      }
+      if (ordinal === undefined) {
+        matching.forEach(day => days.add(day));
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.add(day);
+      }
+    }
+    if (rule.byMonthDay?.length) {
+      // BYMONTHDAY narrows the BYDAY set when both are present
+      const allowed = new Set(rule.byMonthDay.map(d => (d > 0 ? d : lastDay + d + 1)));
+      Array.from(days).forEach(day => {
+        if (!allowed.has(day)) days.delete(day);
+      });
+    }
+  } else {
+    const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [anchorDay];
+    for (const d of monthDays) {
+      // Clamp to the end of short months so "the 31st" still yields an occurrence in February
+      const day = d > 0 ? Math.min(d, lastDay) : lastDay + d + 1;
+      if (day >= 1) days.add(day);
+    }
+  }
+
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+function applySetPos(dates: Date[], bySetPos?: number[]): Date[] {
+  if (!bySetPos?.length) return dates;
+  const selected: Date[] = [];
+  for (const pos of bySetPos) {
+    const date = pos > 0 ? dates[pos - 1] : dates[dates.length + pos];
+    if (date) selected.push(date);
+  }
+  return selected.sort((a, b) => a.getTime() - b.getTime());
+}
+
+// All occurrences in the k-th period after the anchor's period, in ascending order
+function periodOccurrences(rule: RecurrenceRule, anchor: Date, k: number): Date[] {
+  const hours = anchor.getUTCHours();
+  const minutes = anchor.getUTCMinutes();
+  const seconds = anchor.getUTCSeconds();
+  const at = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+  const step = k * rule.interval;
+  const weekdayAllowed = (date: Date) =>
+    !rule.byDay?.length || rule.byDay.some(d => d.weekday === date.getUTCDay());
+  const monthAllowed = (date: Date) =>
+    !rule.byMonth?.length || rule.byMonth.includes(date.getUTCMonth() + 1);
+
+  let dates: Date[] = [];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = at(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate() + step);
+      dates = weekdayAllowed(date) && monthAllowed(date) ? [date] : [];
+      break;
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const offsetToMonday = (anchor.getUTCDay() + 6) % 7;
+      const weekStart = at(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate() - offsetToMonday + step * 7);
+      const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.weekday) : [anchor.getUTCDay()];
+      for (let i = 0; i < 7; i++) {
+        const date = new Date(weekStart.getTime() + i * DAY_MS);
+        if (weekdays.includes(date.getUTCDay()) && monthAllowed(date)) {
+          dates.push(date);
+        }
+      }
+      break;
+    }
+    case "MONTHLY": {
+      const base = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + step, 1));
+      const year = base.getUTCFullYear();
+      const month = base.getUTCMonth();
+      if (!rule.byMonth?.length || rule.byMonth.includes(month + 1)) {
+        dates = monthCandidates(rule, year, month, anchor.getUTCDate()).map(day => at(year, month, day));
+      }
+      break;
+    }
+    case "YEARLY": {
+      const year = anchor.getUTCFullYear() + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [anchor.getUTCMonth()];
+      for (const month of months.sort((a, b) => a - b)) {
+        dates.push(...monthCandidates(rule, year, month, anchor.getUTCDate()).map(day => at(year, month, day)));
+      }
+      break;
+    }
+  }
+
+  return applySetPos(dates, rule.bySetPos);
+}
+
+/**
+ * List occurrences strictly after `after`, starting the series at `anchor`.
+ * `occurrencesSoFar` is the number of occurrences already generated in the
+ * series and is used to honour COUNT.
+ */
+export function getOccurrences(
+  ruleString: string,
+  anchor: Date,
+  options: { after?: Date; limit?: number; until?: Date; occurrencesSoFar?: number } = {},
+): Date[] {
+  const rule = parseRecurrenceRule(ruleString);
+  const after = options.after ?? anchor;
+  const limit = options.limit ?? 1;
+  const occurrences: Date[] = [];
+  let remaining = rule.count !== undefined ? rule.count - (options.occurrencesSoFar ?? 1) : Infinity;
+
+  for (let k = 0; k < MAX_PERIODS && occurrences.length < limit && remaining > 0; k++) {
+    for (const date of periodOccurrences(rule, anchor, k)) {
+      if (rule.until && date > rule.until) return occurrences;
+      if (options.until && date > options.until) return occurrences;
+      if (date <= after) continue;
+      occurrences.push(date);
+      remaining--;
+      if (occurrences.length >= limit || remaining <= 0) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Next occurrence after the given due date, or null when the series has ended.
+ */
+export function getNextOccurrence(ruleString: string, dueDate: Date, occurrencesSoFar = 1): Date | null {
+  const [next] = getOccurrences(ruleString, dueDate, { limit: 1, occurrencesSoFar });
+  return next ?? null;
+}
+
+function ordinalSuffix(n: number): string {
+  if (n === -1) return "last";
+  const abs = Math.abs(n);
+  const suffix = abs % 10 === 1 && abs % 100 !== 11 ? "st"
+    : abs % 10 === 2 && abs % 100 !== 12 ? "nd"
+    : abs % 10 === 3 && abs % 100 !== 13 ? "rd"
+    : "th";
+  return n < 0 ? `${abs}${suffix} to last` : `${abs}${suffix}`;
+}
+
+/**
+ * Build the RRULE string for a preset, anchored on the item's due date.
+ */
+export function buildPresetRule(preset: RecurrencePreset, dueDate?: Date | null, nthBusinessDay = 1): string | null {
+  const day = dueDate ? dueDate.getUTCDate() : 1;
+  const month = dueDate ? dueDate.getUTCMonth() + 1 : 1;
+  switch (preset) {
+    case "monthly":
+      return `FREQ=MONTHLY;BYMONTHDAY=${day}`;
+    case "quarterly":
+      return `FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=${day}`;
+    case "annually":
+      return `FREQ=YEARLY;BYMONTH=${month};BYMONTHDAY=${day}`;
+    case "nth_business_day":
+      return `FREQ=MONTHLY;BYDAY=${BUSINESS_DAYS};BYSETPOS=${nthBusinessDay}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reverse of buildPresetRule, used to pre-fill the compliance form.
+ */
+export function detectPreset(ruleString?: string | null): { preset: RecurrencePreset; nthBusinessDay?: number } {
+  if (!ruleString) return { preset: "none" };
+  try {
+    const rule = parseRecurrenceRule(ruleString);
+    const noLimits = !rule.count && !rule.until;
+    const plainMonthDay = !rule.byDay && rule.byMonthDay?.length === 1 && !rule.bySetPos;
+    if (noLimits && rule.freq === "MONTHLY" && plainMonthDay && !rule.byMonth) {
+      if (rule.interval === 1) return { preset: "monthly" };
+      if (rule.interval === 3) return { preset: "quarterly" };
+    }
+    if (noLimits && rule.freq === "YEARLY" && rule.interval === 1 && plainMonthDay && rule.byMonth?.length === 1) {
+      return { preset: "annually" };
+    }
+    const businessDays = rule.byDay?.map(d => WEEKDAY_CODES[d.weekday]).join(",");
+    if (noLimits && rule.freq === "MONTHLY" && rule.interval === 1 && businessDays === BUSINESS_DAYS && rule.bySetPos?.length === 1) {
+      return { preset: "nth_business_day", nthBusinessDay: rule.bySetPos[0] };
+    }
+  } catch {
+    // Invalid rules are shown as custom so the user can correct them
+  }
+  return { preset: "custom" };
+}
+
+/**
+ * Human-readable summary, e.g. "Every 3 months on day 15".
+ */
+export function describeRecurrenceRule(ruleString?: string | null): string {
+  if (!ruleString) return "Does not repeat";
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(ruleString);
+  } catch {
+    return "Invalid recurrence rule";
+  }
+
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  const businessDays = rule.byDay?.map(d => WEEKDAY_CODES[d.weekday]).join(",") === BUSINESS_DAYS
+    && rule.byDay.every(d => d.ordinal === undefined);
+  if (businessDays && rule.bySetPos?.length === 1) {
+    text += ` on the ${ordinalSuffix(rule.bySetPos[0])} business day`;
+  } else if (rule.byDay?.length) {
+    const days = rule.byDay.map(d => (d.ordinal ? `${ordinalSuffix(d.ordinal)} ` : "") + WEEKDAY_NAMES[d.weekday]);
+    text += ` on ${days.join(", ")}`;
+    if (rule.bySetPos?.length) {
+      text += ` (position ${rule.bySetPos.join(", ")})`;
+    }
+  }
+  if (rule.byMonth?.length) {
+    text += ` in ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map(d => (d === -1 ? "last" : String(d))).join(", ")}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  }
+  return text;
+}
@@ -0,0 +1,52 @@
+// Reminder schedules for compliance alerts.
+// Offsets are whole days before the due date, written as a comma-separated list such as "30,14,7,1".
+// Day counts use UTC calendar dates so they agree with the server's overdue checks.
+
+// Used for categories without an alert policy (matches the original 7-day "upcoming" window)
+export const DEFAULT_REMINDER_OFFSETS = [7];
+
+export const MAX_REMINDER_OFFSET = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an offset list into unique days, largest first. Throws on invalid input.
+ */
+export function parseReminderOffsets(value: string): number[] {
+  const offsets = value.split(",").map(part => part.trim()).filter(Boolean).map(part => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < 0 || n > MAX_REMINDER_OFFSET) {
+      throw new Error(`Invalid reminder offset: ${part} (use whole days from 0 to ${MAX_REMINDER_OFFSET})`);
+    }
+    return n;
+  });
+
+  if (offsets.length === 0) {
+    throw new Error("At least one reminder offset is required");
+  }
+
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+export function isValidReminderOffsets(value: string): boolean {
+  try {
+    parseReminderOffsets(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatReminderOffsets(offsets: number[]): string {
+  return offsets.join(",");
+}
+
+/**
+ * Whole days from `today` until `dueDate`; negative once the item is past due.
+ */
+export function daysUntilDue(dueDate: Date | string, today: Date = new Date()): number {
+  const due = new Date(dueDate);
+  const dueDay = Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate());
+  const todayDay = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.round((dueDay - todayDay) / DAY_MS);
+}
@@ -0,0 +1,81 @@
+// Contract renewal tracking: notice deadlines, renewal terms and option periods.
+// A contract's endDate is always the end of its current term; renewing or exercising an
+// option moves it forward. Dates use UTC calendar days, like compliance reminders.
+
+import { daysUntilDue } from "./reminders";
+
+export const RENEWAL_DECISIONS = ["pending", "renew", "renegotiate", "terminate"] as const;
+export type RenewalDecision = typeof RENEWAL_DECISIONS[number];
+
+export const RENEWAL_DECISION_LABELS: Record<RenewalDecision, string> = {
+  pending: "Decision pending",
+  renew: "Renew",
+  renegotiate: "Renegotiate",
+  terminate: "Let expire",
+};
+
+// Pipeline windows on the contracts page, in days until the term ends
+export const RENEWAL_WINDOWS = [30, 60, 90, 180];
+
+// Reminder emails before a notice deadline
+export const RENEWAL_REMINDER_OFFSETS = [90, 60, 30, 14, 7, 1];
+
+export const MAX_NOTICE_PERIOD_DAYS = 365;
+
+interface RenewalTerms {
+  endDate: Date | string | null;
+  noticePeriodDays: number | null;
+}
+
+interface OptionPeriodLike {
+  startDate: Date | string;
+  status: string;
+}
+
+/**
+ * Last day to give notice to renew or terminate: the end date less the notice period.
+ * Contracts without a notice period have the end date itself as their deadline.
+ */
+export function noticeDeadline(contract: RenewalTerms): Date | null {
+  if (!contract.endDate) return null;
+  const end = new Date(contract.endDate);
+  return new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() - (contract.noticePeriodDays ?? 0)));
+}
+
+/**
+ * A date moved forward by whole months, clamped to the last day of a shorter month.
+ */
+export function addTermMonths(date: Date | string, months: number): Date {
+  const start = new Date(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1,
+    start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds()));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return target;
+}
+
+/**
+ * The next option period still awaiting a decision, earliest first.
+ */
+export function nextOptionPeriod<T extends OptionPeriodLike>(periods: T[]): T | undefined {
+  return periods
+    .filter(period => period.status === "pending")
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())[0];
+}
+
+export interface RenewalStatus {
+  noticeDeadline: Date | null;
+  daysToNotice: number | null; // Negative once the deadline has passed
+  daysToEnd: number | null;
+  decisionPending: boolean; // No renew or terminate decision has been made for this term
+}
+
+export function renewalStatus(contract: RenewalTerms & { renewalDecision: string }, today: Date = new Date()): RenewalStatus {
+  const deadline = noticeDeadline(contract);
+  return {
+    noticeDeadline: deadline,
+    daysToNotice: deadline ? daysUntilDue(deadline, today) : null,
+    daysToEnd: contract.endDate ? daysUntilDue(contract.endDate, today) : null,
+    decisionPending: contract.renewalDecision === "pending" || contract.renewalDecision === "renegotiate",
+  };
+}
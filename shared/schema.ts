@@ -1,16 +1,32 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, decimal, uuid, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, decimal, uuid, pgEnum, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidRecurrenceRule } from "./recurrence";
+import { isValidReminderOffsets } from "./reminders";
+import { MAX_NOTICE_PERIOD_DAYS, RENEWAL_DECISIONS } from "./renewals";
+import { CONTRACT_TYPES } from "./contract-hierarchy";
+import { MAX_ESCALATION_PERCENT, RATE_UNITS } from "./rate-cards";
+import { INVOICE_STATUSES, MAX_NET_TERMS_DAYS, MAX_TAX_RATE } from "./invoices";
+import { ROLES } from "./permissions";
 
 // Enums
-export const roleEnum = pgEnum("role", ["admin", "user"]);
-export const statusEnum = pgEnum("status", ["pending", "complete", "overdue", "na"]);
+export const roleEnum = pgEnum("role", ROLES);
+export const statusEnum = pgEnum("status", ["pending", "complete", "overdue", "na", "in_review", "rejected"]);
 export const categoryEnum = pgEnum("category", ["Marketing Agreement", "Billing", "Deliverable", "Compliance", "End-of-Term", "Accounts Payable"]);
 export const evidenceTypeEnum = pgEnum("evidence_type", ["document", "email", "screenshot", "report", "contract-and-amendment", "other"]);
 export const qbConnectionStatusEnum = pgEnum("qb_connection_status", ["connected", "disconnected", "error", "token_expired"]);
 export const orgTypeEnum = pgEnum("org_type", ["customer", "vendor", "contractor", "internal", "state_govt", "federal_govt"]);
 export const confidenceEnum = pgEnum("confidence", ["green", "yellow", "red"]);
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
+export const templateAnchorEnum = pgEnum("template_anchor", ["start", "end"]);
+export const calendarFeedScopeEnum = pgEnum("calendar_feed_scope", ["user", "organization", "contract"]);
+export const apiTokenAccessEnum = pgEnum("api_token_access", ["read", "write"]);
+export const renewalDecisionEnum = pgEnum("renewal_decision", RENEWAL_DECISIONS);
+export const optionPeriodStatusEnum = pgEnum("option_period_status", ["pending", "exercised", "declined"]);
+export const contractTypeEnum = pgEnum("contract_type", CONTRACT_TYPES);
+export const rateUnitEnum = pgEnum("rate_unit", RATE_UNITS);
+export const invoiceStatusEnum = pgEnum("invoice_status", INVOICE_STATUSES);
 
 // Users table
 export const users = pgTable("users", {
@@ -20,10 +36,89 @@ export const users = pgTable("users", {
   role: roleEnum("role").notNull().default("user"),
   email: text("email"),
   fullName: text("full_name"),
+  allOrganizations: boolean("all_organizations").notNull().default(true), // When false, only organizations in user_organizations are visible
+  deactivatedAt: timestamp("deactivated_at"), // Set when the person leaves; blocks sign-in but keeps their name on history
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Teams table - groups of users that compliance items can be assigned to
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  email: text("email"), // Shared mailbox for alerts on items assigned to the team but no individual
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Team Members table
+export const teamMembers = pgTable("team_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: varchar("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// User Identities table - links a user to their account at an OpenID Connect provider
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // Provider key from the SSO settings, e.g. "entra"
+  subject: text("subject").notNull(), // The provider's stable `sub` claim
+  email: text("email"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  providerSubject: unique("user_identities_provider_subject_unique").on(table.provider, table.subject),
+}));
+
+// User Organizations table - organizations a restricted user may see (users.allOrganizations = false)
+export const userOrganizations = pgTable("user_organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// User MFA table - a local account's TOTP authenticator; unconfirmed until the first code is verified
+export const userMfa = pgTable("user_mfa", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32 TOTP secret
+  confirmedAt: timestamp("confirmed_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so a code cannot be replayed
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// MFA Recovery Codes table - single-use codes shown once at enrollment, stored as SHA-256 hashes
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Login Throttles table - recent failed sign-ins per "user:<username>" or "ip:<address>" key
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull().default(sql`now()`),
+  lockedUntil: timestamp("locked_until"),
+});
+
+// Password Reset Tokens table - single-use emailed reset links; only a SHA-256 hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Organizations table (database table name: customers)
 export const organizations = pgTable("customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -45,10 +140,73 @@ export const contracts = pgTable("contracts", {
   endDate: timestamp("end_date"),
   maxAmount: decimal("max_amount", { precision: 10, scale: 2 }),
   isActive: boolean("is_active").notNull().default(true),
+  contractType: contractTypeEnum("contract_type").notNull().default("standalone"),
+  parentContractId: varchar("parent_contract_id").references((): AnyPgColumn => contracts.id), // Master agreement or SOW this contract sits under; blank terms are inherited from it
+  autoRenew: boolean("auto_renew").notNull().default(false), // Renews for renewalTermMonths unless notice is given
+  renewalTermMonths: integer("renewal_term_months"),
+  noticePeriodDays: integer("notice_period_days"), // Notice to renew or terminate is due this many days before endDate
+  renewalDecision: renewalDecisionEnum("renewal_decision").notNull().default("pending"), // Decision for the current term; reset when the term is extended
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Contract Option Periods table - option years a government customer may exercise to extend a contract
+export const contractOptionPeriods = pgTable("contract_option_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  label: text("label").notNull(), // e.g. "Option Year 1"
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: optionPeriodStatusEnum("status").notNull().default("pending"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Contract Amendments table - numbered modifications to a contract's end date, ceiling or scope.
+// Once an amendment takes effect its new terms are written to the contract and the terms it
+// replaced are kept here, so the contract's current terms are the base terms plus every applied amendment.
+export const contractAmendments = pgTable("contract_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  amendmentNumber: integer("amendment_number").notNull(), // Sequential per contract, starting at 1
+  effectiveDate: timestamp("effective_date").notNull(),
+  endDate: timestamp("end_date"), // New end date; null leaves it unchanged
+  maxAmount: decimal("max_amount", { precision: 10, scale: 2 }), // New ceiling; null leaves it unchanged
+  scopeChange: text("scope_change"),
+  evidenceId: varchar("evidence_id").references(() => evidence.id, { onDelete: "set null" }), // Signed amendment in the Evidence Locker
+  previousEndDate: timestamp("previous_end_date"), // Terms in force before this amendment, set when applied
+  previousMaxAmount: decimal("previous_max_amount", { precision: 10, scale: 2 }),
+  appliedAt: timestamp("applied_at"), // Null while the effective date is in the future
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  contractNumber: unique("contract_amendments_contract_number_unique").on(table.contractId, table.amendmentNumber),
+}));
+
+// Contract Rate Card Lines table - negotiated labor categories and service items a contract is billed at.
+// Child contracts with no lines of their own use the rate card of the nearest parent that has one.
+export const contractRateCardLines = pgTable("contract_rate_card_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Labor category or service item, e.g. "Senior Analyst"
+  description: text("description"),
+  unit: rateUnitEnum("unit").notNull().default("hour"),
+  escalationPercent: decimal("escalation_percent", { precision: 5, scale: 2 }), // Added at the start of each option period
+  isActive: boolean("is_active").notNull().default(true), // Retired lines stay for events already billed from them
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Contract Rates table - effective-dated rates for a rate card line
+export const contractRates = pgTable("contract_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rateCardLineId: varchar("rate_card_line_id").notNull().references(() => contractRateCardLines.id, { onDelete: "cascade" }),
+  effectiveDate: timestamp("effective_date").notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  lineDate: unique("contract_rates_line_date_unique").on(table.rateCardLineId, table.effectiveDate),
+}));
+
 // Compliance Items table
 export const complianceItems = pgTable("compliance_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -58,11 +216,24 @@ export const complianceItems = pgTable("compliance_items", {
   type: text("type").notNull(),
   commitment: text("commitment").notNull(),
   description: text("description"),
-  responsibleParty: text("responsible_party").notNull(),
+  responsibleParty: text("responsible_party").notNull(), // Free text, also used for external parties
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "set null" }),
   status: statusEnum("status").notNull().default("pending"),
   dueDate: timestamp("due_date"),
   completedAt: timestamp("completed_at"),
   notes: text("notes"),
+  evidenceRequirements: text("evidence_requirements"), // Evidence expected before completion, one requirement per line
+  recurrenceRule: text("recurrence_rule"), // RRULE string (e.g. FREQ=MONTHLY;BYMONTHDAY=15), null for one-off items
+  seriesId: varchar("series_id"), // Shared by every occurrence of a recurring item (id of the first occurrence)
+  reminderOffsets: text("reminder_offsets"), // Days before due to send reminders (e.g. "30,14,7,1"), null uses the category's alert policy
+  reviewerId: varchar("reviewer_id").references(() => users.id, { onDelete: "set null" }), // Designated checker; null means any admin may review
+  submittedBy: varchar("submitted_by").references(() => users.id, { onDelete: "set null" }),
+  submittedAt: timestamp("submitted_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComment: text("review_comment"), // Approval or rejection comment from the last review
+  appliesToChildren: boolean("applies_to_children").notNull().default(false), // On a master agreement or SOW, also a requirement of every contract beneath it
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -91,17 +262,58 @@ export const billableEvents = pgTable("billable_events", {
   customerId: varchar("customer_id").notNull().references(() => organizations.id),
   contractId: varchar("contract_id").references(() => contracts.id),
   complianceItemId: varchar("compliance_item_id").references(() => complianceItems.id),
+  rateCardLineId: varchar("rate_card_line_id").references(() => contractRateCardLines.id, { onDelete: "set null" }),
   description: text("description").notNull(),
   rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
   units: decimal("units", { precision: 10, scale: 2 }).notNull(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   billingDate: timestamp("billing_date").notNull(),
   invoiceNumber: text("invoice_number"),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }), // Draft or issued invoice the event is on
   isPaid: boolean("is_paid").notNull().default(false),
   paidAt: timestamp("paid_at"),
+  offCardReason: text("off_card_reason"), // Set by the server when the event does not match its contract's rate card
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Invoices table - invoices prepared from billable events. The number is assigned when the draft is issued.
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceNumber: text("invoice_number").unique(), // e.g. INV-00042, null while a draft
+  sequenceNumber: integer("sequence_number").unique(),
+  customerId: varchar("customer_id").notNull().references(() => organizations.id),
+  contractId: varchar("contract_id").references(() => contracts.id),
+  status: invoiceStatusEnum("status").notNull().default("draft"),
+  issueDate: timestamp("issue_date"),
+  netTermsDays: integer("net_terms_days").notNull().default(30),
+  dueDate: timestamp("due_date"),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"), // Percent of the subtotal
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  issuedAt: timestamp("issued_at"),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Invoice Line Items table - one line per billable event, refreshed from the events when the invoice is issued
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  billableEventId: varchar("billable_event_id").references(() => billableEvents.id, { onDelete: "set null" }),
+  description: text("description").notNull(),
+  billingDate: timestamp("billing_date").notNull(),
+  units: decimal("units", { precision: 10, scale: 2 }).notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
 // Evidence table for audit trail
 export const evidence = pgTable("evidence", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -119,6 +331,21 @@ export const evidence = pgTable("evidence", {
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Evidence Versions table - every file ever attached to an evidence record.
+// The highest version number is the current file, mirrored on the evidence row.
+export const evidenceVersions = pgTable("evidence_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  evidenceId: varchar("evidence_id").notNull().references(() => evidence.id, { onDelete: "cascade" }),
+  versionNumber: integer("version_number").notNull(),
+  filePath: text("file_path").notNull(),
+  fileHash: text("file_hash"),
+  originalFilename: text("original_filename"),
+  mimeType: text("mime_type"),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  restoredFromVersion: integer("restored_from_version"), // Set when this version re-instates an earlier file
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Evidence Comments table
 export const evidenceComments = pgTable("evidence_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -140,21 +367,140 @@ export const auditLog = pgTable("audit_log", {
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
+  // Hash chain - each entry's hash covers its contents and the previous entry's hash
+  sequence: integer("sequence").unique(),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
 });
 
 // Email Alerts table
 export const emailAlerts = pgTable("email_alerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  complianceItemId: varchar("compliance_item_id").notNull().references(() => complianceItems.id),
+  complianceItemId: varchar("compliance_item_id").references(() => complianceItems.id), // Null for contract renewal alerts
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "cascade" }), // Set for contract renewal alerts
   recipientEmail: text("recipient_email").notNull(),
   subject: text("subject").notNull(),
   body: text("body").notNull(),
   sentAt: timestamp("sent_at"),
   status: text("status").notNull().default("pending"), // pending, sent, failed
   errorMessage: text("error_message"),
+  alertType: text("alert_type"), // upcoming, overdue, escalation, renewal, ceiling (null for alerts sent before deduplication)
+  offsetDays: integer("offset_days"), // Reminder offset for upcoming and renewal alerts, days overdue for overdue and escalation alerts, percent of the ceiling for ceiling alerts
+  escalationRuleId: varchar("escalation_rule_id").references(() => escalationRules.id, { onDelete: "set null" }),
+  dueDate: timestamp("due_date"), // Compliance item due date the alert was sent for; moving the due date starts its reminders again
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Alert Policies table - reminder schedule per compliance category
+export const alertPolicies = pgTable("alert_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: categoryEnum("category").notNull().unique(),
+  reminderOffsets: text("reminder_offsets").notNull(), // Days before due, e.g. "30,14,7,1"
+  overdueRepeatDays: integer("overdue_repeat_days"), // Re-send overdue alerts every N days, null sends once
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Escalation Rules table - notify a manager or the admins once an item has been overdue for N days
+export const escalationRules = pgTable("escalation_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  category: categoryEnum("category"), // null applies to every category
+  overdueDays: integer("overdue_days").notNull(),
+  recipientEmail: text("recipient_email"), // e.g. the responsible manager
+  notifyAdmins: boolean("notify_admins").notNull().default(false), // Also email every admin user with an email address
+  enabled: boolean("enabled").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Compliance Templates table - reusable playbooks of compliance items for similar contracts
+export const complianceTemplates = pgTable("compliance_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Compliance Template Items table - due dates are offsets from the contract start or end date
+export const complianceTemplateItems = pgTable("compliance_template_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull().references(() => complianceTemplates.id, { onDelete: "cascade" }),
+  category: categoryEnum("category").notNull(),
+  type: text("type").notNull(),
+  commitment: text("commitment").notNull(),
+  description: text("description"),
+  responsibleParty: text("responsible_party").notNull(),
+  anchor: templateAnchorEnum("anchor").notNull().default("start"),
+  offsetDays: integer("offset_days").notNull().default(0), // Days after the anchor date, negative for days before
+  recurrenceRule: text("recurrence_rule"),
+  reminderOffsets: text("reminder_offsets"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Calendar Feeds table - ICS subscription URLs; only a SHA-256 hash of the URL token is stored
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Owner; user feeds show this user's assigned items
+  scope: calendarFeedScopeEnum("scope").notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// API Tokens table - personal Bearer tokens for scripts; only a SHA-256 hash of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Requests run as this user
+  name: text("name").notNull(),
+  access: apiTokenAccessEnum("access").notNull().default("read"),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Null means the owner's full scope
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // First characters, shown so users can tell tokens apart
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// User Invitations table - emailed single-use signup links with the role and access chosen by an admin;
+// only a SHA-256 hash of the token is stored
+export const userInvitations = pgTable("user_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  fullName: text("full_name"),
+  role: roleEnum("role").notNull().default("user"),
+  allOrganizations: boolean("all_organizations").notNull().default(true),
+  organizationIds: text("organization_ids"), // Comma-separated organizations the new user may see when allOrganizations is false
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: varchar("accepted_user_id").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// User Sessions table - one row per signed-in browser session, so users and admins can see and end them.
+// The session itself lives in the session store; sid is its key there and is never sent to the browser.
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sid: text("sid").notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  lastSeenAt: timestamp("last_seen_at").notNull().default(sql`now()`),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // QuickBooks Connections table
 export const quickbooksConnections = pgTable("quickbooks_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -203,10 +549,105 @@ export const systemSettings = pgTable("system_settings", {
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Scheduled Jobs table - one row per background job, also used as the cross-instance lock
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // Job key (e.g., 'daily-alerts')
+  description: text("description"),
+  schedule: text("schedule").notNull(), // 5-field cron expression, evaluated in UTC
+  enabled: boolean("enabled").notNull().default(true),
+  maxRetries: integer("max_retries").notNull().default(3),
+  retryDelaySeconds: integer("retry_delay_seconds").notNull().default(300),
+  attempt: integer("attempt").notNull().default(0), // Consecutive failed attempts of the current run
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: jobRunStatusEnum("last_status"),
+  lastError: text("last_error"),
+  lockedBy: text("locked_by"), // Instance currently running the job
+  lockedUntil: timestamp("locked_until"), // Lock expiry, so a crashed instance cannot hold a job forever
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Job Runs table - history of every job execution
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: text("job_name").notNull(),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  attempt: integer("attempt").notNull().default(1),
+  trigger: text("trigger").notNull(), // 'schedule', 'retry' or 'manual'
+  instanceId: text("instance_id"),
+  result: text("result"), // JSON string
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  finishedAt: timestamp("finished_at"),
+});
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   evidence: many(evidence),
   auditLog: many(auditLog),
+  assignedComplianceItems: many(complianceItems),
+  teamMemberships: many(teamMembers),
+  identities: many(userIdentities),
+  organizationAccess: many(userOrganizations),
+  mfa: one(userMfa),
+  mfaRecoveryCodes: many(mfaRecoveryCodes),
+}));
+
+export const userMfaRelations = relations(userMfa, ({ one }) => ({
+  user: one(users, {
+    fields: [userMfa.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [mfaRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userOrganizationsRelations = relations(userOrganizations, ({ one }) => ({
+  user: one(users, {
+    fields: [userOrganizations.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [userOrganizations.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const teamsRelations = relations(teams, ({ many }) => ({
+  members: many(teamMembers),
+  complianceItems: many(complianceItems),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamMembers.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const organizationsRelations = relations(organizations, ({ many, one }) => ({
@@ -226,9 +667,56 @@ export const contractsRelations = relations(contracts, ({ one, many }) => ({
     fields: [contracts.customerId],
     references: [organizations.id],
   }),
+  parent: one(contracts, {
+    fields: [contracts.parentContractId],
+    references: [contracts.id],
+    relationName: "contractHierarchy",
+  }),
+  children: many(contracts, { relationName: "contractHierarchy" }),
   complianceItems: many(complianceItems),
   billableEvents: many(billableEvents),
   evidence: many(evidence),
+  optionPeriods: many(contractOptionPeriods),
+  amendments: many(contractAmendments),
+  rateCardLines: many(contractRateCardLines),
+}));
+
+export const contractOptionPeriodsRelations = relations(contractOptionPeriods, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [contractOptionPeriods.contractId],
+    references: [contracts.id],
+  }),
+}));
+
+export const contractAmendmentsRelations = relations(contractAmendments, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [contractAmendments.contractId],
+    references: [contracts.id],
+  }),
+  evidence: one(evidence, {
+    fields: [contractAmendments.evidenceId],
+    references: [evidence.id],
+  }),
+  createdByUser: one(users, {
+    fields: [contractAmendments.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const contractRateCardLinesRelations = relations(contractRateCardLines, ({ one, many }) => ({
+  contract: one(contracts, {
+    fields: [contractRateCardLines.contractId],
+    references: [contracts.id],
+  }),
+  rates: many(contractRates),
+  billableEvents: many(billableEvents),
+}));
+
+export const contractRatesRelations = relations(contractRates, ({ one }) => ({
+  rateCardLine: one(contractRateCardLines, {
+    fields: [contractRates.rateCardLineId],
+    references: [contractRateCardLines.id],
+  }),
 }));
 
 export const complianceItemsRelations = relations(complianceItems, ({ one, many }) => ({
@@ -240,6 +728,14 @@ export const complianceItemsRelations = relations(complianceItems, ({ one, many
     fields: [complianceItems.contractId],
     references: [contracts.id],
   }),
+  assignee: one(users, {
+    fields: [complianceItems.assigneeId],
+    references: [users.id],
+  }),
+  team: one(teams, {
+    fields: [complianceItems.teamId],
+    references: [teams.id],
+  }),
   billableEvents: many(billableEvents),
   evidence: many(evidence),
   emailAlerts: many(emailAlerts),
@@ -281,9 +777,45 @@ export const billableEventsRelations = relations(billableEvents, ({ one, many })
     fields: [billableEvents.complianceItemId],
     references: [complianceItems.id],
   }),
+  rateCardLine: one(contractRateCardLines, {
+    fields: [billableEvents.rateCardLineId],
+    references: [contractRateCardLines.id],
+  }),
+  invoice: one(invoices, {
+    fields: [billableEvents.invoiceId],
+    references: [invoices.id],
+  }),
   evidence: many(evidence),
 }));
 
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [invoices.customerId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [invoices.contractId],
+    references: [contracts.id],
+  }),
+  creator: one(users, {
+    fields: [invoices.createdBy],
+    references: [users.id],
+  }),
+  lineItems: many(invoiceLineItems),
+  billableEvents: many(billableEvents),
+}));
+
+export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLineItems.invoiceId],
+    references: [invoices.id],
+  }),
+  billableEvent: one(billableEvents, {
+    fields: [invoiceLineItems.billableEventId],
+    references: [billableEvents.id],
+  }),
+}));
+
 export const evidenceRelations = relations(evidence, ({ one, many }) => ({
   complianceItem: one(complianceItems, {
     fields: [evidence.complianceItemId],
@@ -302,6 +834,18 @@ export const evidenceRelations = relations(evidence, ({ one, many }) => ({
     references: [users.id],
   }),
   comments: many(evidenceComments),
+  versions: many(evidenceVersions),
+}));
+
+export const evidenceVersionsRelations = relations(evidenceVersions, ({ one }) => ({
+  evidence: one(evidence, {
+    fields: [evidenceVersions.evidenceId],
+    references: [evidence.id],
+  }),
+  uploadedByUser: one(users, {
+    fields: [evidenceVersions.uploadedBy],
+    references: [users.id],
+  }),
 }));
 
 export const evidenceCommentsRelations = relations(evidenceComments, ({ one }) => ({
@@ -320,6 +864,69 @@ export const emailAlertsRelations = relations(emailAlerts, ({ one }) => ({
     fields: [emailAlerts.complianceItemId],
     references: [complianceItems.id],
   }),
+  contract: one(contracts, {
+    fields: [emailAlerts.contractId],
+    references: [contracts.id],
+  }),
+  escalationRule: one(escalationRules, {
+    fields: [emailAlerts.escalationRuleId],
+    references: [escalationRules.id],
+  }),
+}));
+
+export const escalationRulesRelations = relations(escalationRules, ({ many }) => ({
+  emailAlerts: many(emailAlerts),
+}));
+
+export const complianceTemplatesRelations = relations(complianceTemplates, ({ many }) => ({
+  items: many(complianceTemplateItems),
+}));
+
+export const complianceTemplateItemsRelations = relations(complianceTemplateItems, ({ one }) => ({
+  template: one(complianceTemplates, {
+    fields: [complianceTemplateItems.templateId],
+    references: [complianceTemplates.id],
+  }),
+}));
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [calendarFeeds.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [calendarFeeds.contractId],
+    references: [contracts.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [apiTokens.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const userInvitationsRelations = relations(userInvitations, ({ one }) => ({
+  inviter: one(users, {
+    fields: [userInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const quickbooksConnectionsRelations = relations(quickbooksConnections, ({ one, many }) => ({
@@ -339,10 +946,29 @@ export const quickbooksInvoicesRelations = relations(quickbooksInvoices, ({ one
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  deactivatedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  email: z.string().email().nullable().optional(),
+});
+
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserIdentitySchema = createInsertSchema(userIdentities).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
   createdAt: true,
@@ -350,16 +976,88 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
 
 export const insertContractSchema = createInsertSchema(contracts).omit({
   id: true,
+  renewalDecision: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   maxAmount: z.union([z.string(), z.number(), z.null()]).optional().transform(val => val ? val.toString() : null),
+  renewalTermMonths: z.number().int().min(1).max(120).nullish(),
+  noticePeriodDays: z.number().int().min(0).max(MAX_NOTICE_PERIOD_DAYS).nullish(),
+  parentContractId: z.string().min(1).nullish(),
+});
+
+export const insertContractOptionPeriodSchema = createInsertSchema(contractOptionPeriods).omit({
+  id: true,
+  contractId: true,
+  decidedAt: true,
+  createdAt: true,
+}).extend({
+  label: z.string().trim().min(1, "Option period label is required"),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+}).refine(period => period.endDate > period.startDate, { message: "Option period must end after it starts", path: ["endDate"] });
+
+export const insertContractAmendmentSchema = createInsertSchema(contractAmendments).omit({
+  id: true,
+  contractId: true,
+  amendmentNumber: true,
+  previousEndDate: true,
+  previousMaxAmount: true,
+  appliedAt: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  effectiveDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+  maxAmount: z.union([z.string(), z.number(), z.null()]).optional().transform(val => val ? val.toString() : null),
+  scopeChange: z.string().trim().nullish().transform(val => val || null),
+  evidenceId: z.string().nullish(),
+}).refine(amendment => amendment.endDate || amendment.maxAmount || amendment.scopeChange, {
+  message: "An amendment must change the end date, ceiling or scope",
 });
 
+export const insertContractRateSchema = createInsertSchema(contractRates).omit({
+  id: true,
+  rateCardLineId: true,
+  createdAt: true,
+}).extend({
+  effectiveDate: z.coerce.date(),
+  rate: z.coerce.number().positive("Rate must be greater than zero").transform(val => val.toString()),
+});
+
+export const insertContractRateCardLineSchema = createInsertSchema(contractRateCardLines).omit({
+  id: true,
+  contractId: true,
+  isActive: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Labor category or service item is required"),
+  description: z.string().trim().nullish().transform(val => val || null),
+  escalationPercent: z.coerce.number().min(0).max(MAX_ESCALATION_PERCENT).nullish().transform(val => (val ? val.toString() : null)),
+  rates: z.array(insertContractRateSchema).min(1, "Each line needs at least one rate"),
+}).refine(
+  line => new Set(line.rates.map(rate => rate.effectiveDate.toISOString().slice(0, 10))).size === line.rates.length,
+  { message: "A line cannot have two rates effective on the same date", path: ["rates"] }
+);
+
 export const insertComplianceItemSchema = createInsertSchema(complianceItems).omit({
   id: true,
+  submittedBy: true,
+  submittedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewComment: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  recurrenceRule: z.string().nullable().optional().refine(
+    val => !val || isValidRecurrenceRule(val),
+    { message: "Invalid recurrence rule" }
+  ),
+  reminderOffsets: z.string().nullable().optional().refine(
+    val => !val || isValidReminderOffsets(val),
+    { message: "Reminder days must be a comma-separated list of whole days, e.g. 30,14,7,1" }
+  ),
 });
 
 export const insertComplianceCommentSchema = createInsertSchema(complianceComments).omit({
@@ -374,6 +1072,8 @@ export const insertOrganizationNoteSchema = createInsertSchema(organizationNotes
 
 export const insertBillableEventSchema = createInsertSchema(billableEvents).omit({
   id: true,
+  invoiceId: true,
+  offCardReason: true,
   createdAt: true,
 }).extend({
   rate: z.coerce.string(),
@@ -381,6 +1081,32 @@ export const insertBillableEventSchema = createInsertSchema(billableEvents).omit
   totalAmount: z.coerce.string(),
 });
 
+// A draft invoice: the billable events to bill plus its terms. Numbers, dates and totals are set by the server.
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  invoiceNumber: true,
+  sequenceNumber: true,
+  status: true,
+  issueDate: true,
+  dueDate: true,
+  subtotal: true,
+  taxAmount: true,
+  total: true,
+  createdBy: true,
+  issuedAt: true,
+  paidAt: true,
+  voidedAt: true,
+  voidReason: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  contractId: z.string().min(1).nullish(),
+  netTermsDays: z.coerce.number().int().min(0).max(MAX_NET_TERMS_DAYS).optional(), // Defaults from the invoice settings
+  taxRate: z.coerce.number().min(0).max(MAX_TAX_RATE).transform(val => val.toString()).optional(),
+  notes: z.string().trim().nullish().transform(val => val || null),
+  billableEventIds: z.array(z.string().min(1)).min(1, "Select at least one billable event"),
+});
+
 export const insertEvidenceSchema = createInsertSchema(evidence).omit({
   id: true,
   createdAt: true,
@@ -391,9 +1117,16 @@ export const insertEvidenceSchema = createInsertSchema(evidence).omit({
   mimeType: z.string().optional(),
 });
 
+export const insertEvidenceVersionSchema = createInsertSchema(evidenceVersions).omit({
+  id: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
   id: true,
   timestamp: true,
+  sequence: true,
+  prevHash: true,
+  hash: true,
 });
 
 export const insertEmailAlertSchema = createInsertSchema(emailAlerts).omit({
@@ -401,6 +1134,107 @@ export const insertEmailAlertSchema = createInsertSchema(emailAlerts).omit({
   createdAt: true,
 });
 
+export const insertAlertPolicySchema = createInsertSchema(alertPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  reminderOffsets: z.string().refine(isValidReminderOffsets, {
+    message: "Reminder days must be a comma-separated list of whole days, e.g. 30,14,7,1",
+  }),
+  overdueRepeatDays: z.number().int().min(1).nullable().optional(),
+});
+
+export const insertEscalationRuleSchema = createInsertSchema(escalationRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  overdueDays: z.number().int().min(1),
+  recipientEmail: z.string().email().nullable().optional(),
+}).refine(rule => !!rule.recipientEmail || rule.notifyAdmins, {
+  message: "Enter a recipient email or notify admins",
+  path: ["recipientEmail"],
+});
+
+export const insertComplianceTemplateSchema = createInsertSchema(complianceTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export const insertComplianceTemplateItemSchema = createInsertSchema(complianceTemplateItems).omit({
+  id: true,
+  templateId: true,
+  sortOrder: true,
+  createdAt: true,
+}).extend({
+  offsetDays: z.number().int().min(-3650).max(3650),
+  recurrenceRule: z.string().nullable().optional().refine(
+    val => !val || isValidRecurrenceRule(val),
+    { message: "Invalid recurrence rule" }
+  ),
+  reminderOffsets: z.string().nullable().optional().refine(
+    val => !val || isValidReminderOffsets(val),
+    { message: "Reminder days must be a comma-separated list of whole days, e.g. 30,14,7,1" }
+  ),
+});
+
+// A template with its items, as edited in the admin panel and written to template export files
+export const complianceTemplateInputSchema = insertComplianceTemplateSchema.extend({
+  items: z.array(insertComplianceTemplateItemSchema).min(1, "Add at least one item"),
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  userId: true,
+  tokenHash: true,
+  lastAccessedAt: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().max(100).optional(),
+}).refine(
+  feed => feed.scope !== "organization" || !!feed.organizationId,
+  { message: "Choose an organization", path: ["organizationId"] }
+).refine(
+  feed => feed.scope !== "contract" || !!feed.contractId,
+  { message: "Choose a contract", path: ["contractId"] }
+);
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  userId: true,
+  tokenHash: true,
+  tokenPrefix: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  organizationId: z.string().nullish(),
+  expiresInDays: z.number().int().min(1).max(365),
+});
+
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true,
+  tokenHash: true,
+  invitedBy: true,
+  expiresAt: true,
+  acceptedAt: true,
+  acceptedUserId: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  email: z.string().trim().email().max(254),
+  fullName: z.string().trim().max(200).nullish(),
+  organizationIds: z.array(z.string()).optional(),
+});
+
 export const insertQuickbooksConnectionSchema = createInsertSchema(quickbooksConnections).omit({
   id: true,
   createdAt: true,
@@ -422,6 +1256,17 @@ export const insertSystemSettingSchema = createInsertSchema(systemSettings).omit
   updatedAt: true,
 });
 
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
 export const insertEvidenceCommentSchema = createInsertSchema(evidenceComments).omit({
   id: true,
   createdAt: true,
@@ -493,30 +1338,78 @@ export const insertCheckInSchema = createInsertSchema(checkIns).omit({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
+export type UserOrganization = typeof userOrganizations.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = z.infer<typeof insertUserIdentitySchema>;
+export type UserMfa = typeof userMfa.$inferSelect;
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Contract = typeof contracts.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
+export type ContractOptionPeriod = typeof contractOptionPeriods.$inferSelect;
+export type InsertContractOptionPeriod = z.infer<typeof insertContractOptionPeriodSchema>;
+export type ContractAmendment = typeof contractAmendments.$inferSelect;
+export type InsertContractAmendment = z.infer<typeof insertContractAmendmentSchema>;
 export type ComplianceItem = typeof complianceItems.$inferSelect;
 export type InsertComplianceItem = z.infer<typeof insertComplianceItemSchema>;
+export type ComplianceItemWithNextOccurrence = ComplianceItem & { nextOccurrence?: ComplianceItem | null };
+export type ComplianceReviewFields = Pick<ComplianceItem, "submittedBy" | "submittedAt" | "reviewedBy" | "reviewedAt" | "reviewComment">;
 export type ComplianceComment = typeof complianceComments.$inferSelect;
 export type InsertComplianceComment = z.infer<typeof insertComplianceCommentSchema>;
 export type OrganizationNote = typeof organizationNotes.$inferSelect;
 export type InsertOrganizationNote = z.infer<typeof insertOrganizationNoteSchema>;
 export type BillableEvent = typeof billableEvents.$inferSelect;
 export type InsertBillableEvent = z.infer<typeof insertBillableEventSchema>;
+export type ContractRateCardLine = typeof contractRateCardLines.$inferSelect;
+export type InsertContractRateCardLine = z.infer<typeof insertContractRateCardLineSchema>;
+export type ContractRate = typeof contractRates.$inferSelect;
+export type InsertContractRate = z.infer<typeof insertContractRateSchema>;
+export type ContractRateCardLineWithRates = ContractRateCardLine & { rates: ContractRate[] };
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+export type InvoiceWithLineItems = Invoice & { lineItems: InvoiceLineItem[] };
 export type Evidence = typeof evidence.$inferSelect;
 export type InsertEvidence = z.infer<typeof insertEvidenceSchema>;
+export type EvidenceVersion = typeof evidenceVersions.$inferSelect;
+export type InsertEvidenceVersion = z.infer<typeof insertEvidenceVersionSchema>;
 export type AuditLog = typeof auditLog.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type EmailAlert = typeof emailAlerts.$inferSelect;
 export type InsertEmailAlert = z.infer<typeof insertEmailAlertSchema>;
+export type AlertPolicy = typeof alertPolicies.$inferSelect;
+export type InsertAlertPolicy = z.infer<typeof insertAlertPolicySchema>;
+export type EscalationRule = typeof escalationRules.$inferSelect;
+export type InsertEscalationRule = z.infer<typeof insertEscalationRuleSchema>;
+export type ComplianceTemplate = typeof complianceTemplates.$inferSelect;
+export type InsertComplianceTemplate = z.infer<typeof insertComplianceTemplateSchema>;
+export type ComplianceTemplateItem = typeof complianceTemplateItems.$inferSelect;
+export type InsertComplianceTemplateItem = z.infer<typeof insertComplianceTemplateItemSchema>;
+export type ComplianceTemplateInput = z.infer<typeof complianceTemplateInputSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
 export type QuickbooksConnection = typeof quickbooksConnections.$inferSelect;
 export type InsertQuickbooksConnection = z.infer<typeof insertQuickbooksConnectionSchema>;
 export type QuickbooksInvoice = typeof quickbooksInvoices.$inferSelect;
 export type InsertQuickbooksInvoice = z.infer<typeof insertQuickbooksInvoiceSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
 export type EvidenceComment = typeof evidenceComments.$inferSelect;
 export type InsertEvidenceComment = z.infer<typeof insertEvidenceCommentSchema>;
 export type Objective = typeof objectives.$inferSelect;
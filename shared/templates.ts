@@ -0,0 +1,36 @@
+// Compliance templates (playbooks): due dates are stored as a day offset from the
+// contract's start or end date and resolved when the template is applied to a contract.
+// Dates are shifted by whole UTC days so the calendar date of the anchor is preserved.
+
+export type TemplateAnchor = "start" | "end";
+
+export const TEMPLATE_FILE_FORMAT = "compliance-templates";
+export const TEMPLATE_FILE_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Due date for a template item on a contract, or null when it is anchored to
+ * the end date and the contract has none.
+ */
+export function resolveTemplateDueDate(
+  contract: { startDate: Date | string; endDate: Date | string | null },
+  item: { anchor: TemplateAnchor; offsetDays: number }
+): Date | null {
+  const anchorDate = item.anchor === "end" ? contract.endDate : contract.startDate;
+  if (!anchorDate) return null;
+
+  return new Date(new Date(anchorDate).getTime() + item.offsetDays * DAY_MS);
+}
+
+/**
+ * Human-readable offset, e.g. "30 days after start" or "90 days before end".
+ */
+export function describeTemplateOffset(item: { anchor: TemplateAnchor; offsetDays: number }): string {
+  const anchorLabel = item.anchor === "end" ? "end" : "start";
+  if (item.offsetDays === 0) return `On contract ${anchorLabel}`;
+
+  const days = Math.abs(item.offsetDays);
+  const unit = days === 1 ? "day" : "days";
+  return `${days} ${unit} ${item.offsetDays > 0 ? "after" : "before"} ${anchorLabel}`;
+}